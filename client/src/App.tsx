@@ -5,6 +5,8 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/home";
 import Experiment from "@/pages/experiment";
+import Instructor from "@/pages/instructor";
+import ExperimentEditor from "@/pages/experiment-editor";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -12,6 +14,8 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/experiment/:id" component={Experiment} />
+      <Route path="/instructor" component={Instructor} />
+      <Route path="/instructor/experiments/:id" component={ExperimentEditor} />
       <Route component={NotFound} />
     </Switch>
   );
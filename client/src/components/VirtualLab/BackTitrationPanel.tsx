@@ -0,0 +1,214 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronUp, FlaskRound } from "lucide-react";
+import type { BuretteReadings } from "@shared/chemistry/burette";
+import {
+  SLURRY_VOLUME,
+  backTitrationResult,
+  backTitrationSamples,
+  type BackTitrationResult,
+  type BackTitrationSample,
+} from "@shared/chemistry/backTitration";
+import { balanceReading } from "@shared/chemistry/standardization";
+
+interface BackTitrationPanelProps {
+  // Ids of the samples the lab offers
+  samples: string[];
+  readings: BuretteReadings;
+  // Reagent ids currently in the conical flask
+  flaskContents: string[];
+  // Titrant in the burette, at its standardized molarity where known
+  titrant: { id: string; molarity: number; uncertainty: number } | null;
+  onAddSample: (sample: BackTitrationSample, mass: number) => void;
+  onAddExcess: (sample: BackTitrationSample) => void;
+  onReact: (sample: BackTitrationSample) => void;
+  onRinseFlask: () => void;
+  onResult: (
+    sample: BackTitrationSample,
+    mass: number,
+    titre: number,
+    result: BackTitrationResult,
+  ) => void;
+}
+
+export const BackTitrationPanel: React.FC<BackTitrationPanelProps> = ({
+  samples,
+  readings,
+  flaskContents,
+  titrant,
+  onAddSample,
+  onAddExcess,
+  onReact,
+  onRinseFlask,
+  onResult,
+}) => {
+  const [collapsed, setCollapsed] = useState(true);
+  const [sampleId, setSampleId] = useState(samples[0]);
+  const [weighedMass, setWeighedMass] = useState<number | null>(null);
+  // Mass of the portion currently in the flask
+  const [sampleMass, setSampleMass] = useState<number | null>(null);
+
+  const sample = backTitrationSamples[sampleId];
+  const hasSample =
+    flaskContents.includes(sample.id) ||
+    flaskContents.includes(sample.reactedId);
+  const hasExcess = flaskContents.includes(sample.excess.id);
+  const reacted = flaskContents.includes(sample.reactedId);
+
+  const titre =
+    readings.initial !== null && readings.final !== null
+      ? readings.final - readings.initial
+      : null;
+  const rightTitrant = titrant?.id === sample.titrantId;
+  const canCalculate =
+    sampleMass !== null &&
+    hasSample &&
+    hasExcess &&
+    rightTitrant &&
+    titre !== null &&
+    titre > 0;
+
+  const handleSelect = (id: string) => {
+    setSampleId(id);
+    setWeighedMass(null);
+  };
+
+  const handleWeigh = () => {
+    const target = sample.portion;
+    setWeighedMass(balanceReading(target * (1 + (Math.random() - 0.5) * 0.1)));
+  };
+
+  const handleAddSample = () => {
+    if (weighedMass === null) return;
+    onAddSample(sample, weighedMass);
+    setSampleMass(weighedMass);
+    setWeighedMass(null);
+  };
+
+  const handleCalculate = () => {
+    if (!canCalculate || sampleMass === null || titre === null || !titrant) {
+      return;
+    }
+    onResult(
+      sample,
+      sampleMass,
+      titre,
+      backTitrationResult(
+        sample,
+        sampleMass,
+        titre,
+        titrant.molarity,
+        titrant.uncertainty,
+      ),
+    );
+  };
+
+  return (
+    <div className="bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 p-3 w-72">
+      <button
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full flex items-center justify-between"
+      >
+        <h4 className="text-sm font-semibold text-gray-800 flex items-center">
+          <FlaskRound size={14} className="mr-2 text-orange-600" />
+          Back Titration
+        </h4>
+        {collapsed ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+      </button>
+
+      {!collapsed && (
+        <div className="mt-3 space-y-3 text-xs">
+          <select
+            value={sampleId}
+            onChange={(e) => handleSelect(e.target.value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded"
+          >
+            {samples
+              .map((id) => backTitrationSamples[id])
+              .map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.name} - {option.analyte}
+                </option>
+              ))}
+          </select>
+
+          {/* 1. Weigh the sample */}
+          <div>
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={handleWeigh}
+                className="px-2 py-1 rounded bg-indigo-500 hover:bg-indigo-600 text-white font-medium"
+              >
+                Weigh ~{sample.portion.toFixed(2)} g
+              </button>
+              <div className="bg-black text-green-400 font-mono text-sm px-2 py-1 rounded w-28 text-right">
+                {weighedMass !== null ? weighedMass.toFixed(4) : "0.0000"} g
+              </div>
+            </div>
+            <button
+              onClick={handleAddSample}
+              disabled={weighedMass === null || hasSample}
+              className="mt-1 w-full px-2 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white font-medium disabled:opacity-50"
+            >
+              Add to flask with {SLURRY_VOLUME} mL water
+            </button>
+          </div>
+
+          {/* 2. Known excess of standard reagent, then let it react */}
+          <div className="flex space-x-1">
+            <button
+              onClick={() => onAddExcess(sample)}
+              disabled={!hasSample || hasExcess}
+              className="flex-1 px-2 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white font-medium disabled:opacity-50"
+            >
+              Pipette {sample.excess.volume.toFixed(2)} mL{" "}
+              {sample.excess.molarity.toFixed(4)} M{" "}
+              {sample.excess.name.replace("Standard ", "")}
+            </button>
+            <button
+              onClick={() => onReact(sample)}
+              disabled={!hasExcess || reacted}
+              className="flex-1 px-2 py-1 rounded bg-orange-500 hover:bg-orange-600 text-white font-medium disabled:opacity-50"
+              title={sample.reactStep}
+            >
+              Allow to react
+            </button>
+          </div>
+          <p className="text-gray-500">{sample.reaction}</p>
+
+          {/* 3. Titrate the excess */}
+          <div>
+            <div className="text-gray-600">
+              Sample in flask:{" "}
+              {hasSample && sampleMass !== null
+                ? `${sampleMass.toFixed(4)} g`
+                : "-"}
+              {" · "}Titre: {titre !== null ? `${titre.toFixed(2)} mL` : "-"}
+            </div>
+            {!rightTitrant && (
+              <p className="mt-1 text-amber-700">
+                Fill the burette with {sample.titrantName} to titrate the excess{" "}
+                {sample.excess.name.replace("Standard ", "")}.
+              </p>
+            )}
+            <div className="flex space-x-1 mt-1">
+              <button
+                onClick={handleCalculate}
+                disabled={!canCalculate}
+                className="flex-1 px-2 py-1 rounded bg-green-600 hover:bg-green-700 text-white font-medium disabled:opacity-50"
+              >
+                Calculate {sample.analyte} content
+              </button>
+              <button
+                onClick={onRinseFlask}
+                className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700"
+                title="Empty and rinse the conical flask"
+              >
+                Rinse flask
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
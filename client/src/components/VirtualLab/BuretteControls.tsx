@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from "react";
+import { Minus, Plus, ZoomIn } from "lucide-react";
+import {
+  READING_RESOLUTION,
+  roundReading,
+  scaleReading,
+  stopcockModes,
+  type BuretteReadings,
+  type StopcockSetting,
+} from "@shared/chemistry/burette";
+import { apparentReading, type EyePosition } from "@shared/chemistry/procedure";
+
+interface BuretteControlsProps {
+  remaining: number; // mL of titrant left in the burette
+  stopcock: StopcockSetting;
+  onStopcockChange: (setting: StopcockSetting) => void;
+  readings: BuretteReadings;
+  onRecordReading: (
+    kind: keyof BuretteReadings,
+    value: number,
+    eye: EyePosition,
+  ) => void;
+  // Whether the burette was rinsed with the titrant it now holds, and
+  // whether air is still trapped in the tip below the stopcock
+  rinsed: boolean;
+  bubble: boolean;
+  onRinse: () => void;
+  onExpelBubble: () => void;
+  // Preparation waits until the titrant stops running
+  prepDisabled: boolean;
+}
+
+const EYE_POSITIONS: Array<{ eye: EyePosition; label: string }> = [
+  { eye: "above", label: "Above" },
+  { eye: "level", label: "Eye level" },
+  { eye: "below", label: "Below" },
+];
+
+// mL of scale visible in the meniscus view at each magnification
+const ZOOM_WINDOWS: Record<number, number> = { 1: 4, 2: 2, 4: 1 };
+const VIEW_WIDTH = 120;
+const VIEW_HEIGHT = 200;
+
+export const BuretteControls: React.FC<BuretteControlsProps> = ({
+  remaining,
+  stopcock,
+  onStopcockChange,
+  readings,
+  onRecordReading,
+  rinsed,
+  bubble,
+  onRinse,
+  onExpelBubble,
+  prepDisabled,
+}) => {
+  const [zoom, setZoom] = useState(2);
+  // Standing at the bench the meniscus is seen from above; the student has
+  // to bend down to eye level for each reading
+  const [eye, setEye] = useState<EyePosition>("above");
+  const reading = apparentReading(scaleReading(remaining), eye);
+
+  // The student's estimate of the meniscus position. It starts on the
+  // division above the meniscus and is moved in 0.05 mL steps from there.
+  const division = Math.floor(reading * 10) / 10;
+  const [estimate, setEstimate] = useState(division);
+  useEffect(() => setEstimate(division), [division]);
+
+  // Scale window centred on the meniscus, in mL (0 at the top)
+  const span = ZOOM_WINDOWS[zoom];
+  const top = reading - span / 2;
+  const pxPerMl = VIEW_HEIGHT / span;
+  const y = (value: number) => (value - top) * pxPerMl;
+
+  const ticks: number[] = [];
+  for (let i = Math.ceil(top * 10); i <= Math.floor((top + span) * 10); i++) {
+    ticks.push(i / 10);
+  }
+
+  // The meniscus curves up at the glass: its bottom sits on the reading
+  const meniscusY = y(reading);
+  const meniscus = `M 40 ${meniscusY - 6} Q 60 ${meniscusY + 4} 80 ${meniscusY - 6}`;
+
+  const handleScaleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    const offset = ((e.clientY - box.top) / box.height) * VIEW_HEIGHT;
+    setEstimate(roundReading(top + offset / pxPerMl));
+  };
+
+  const titre =
+    readings.initial !== null && readings.final !== null
+      ? readings.final - readings.initial
+      : null;
+
+  const record = (kind: keyof BuretteReadings) => {
+    onRecordReading(kind, estimate, eye);
+    setEye("above");
+  };
+
+  return (
+    <div className="bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 p-3 w-64">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-gray-800">Burette</h4>
+        <span className="text-xs text-gray-500">
+          {remaining.toFixed(1)} mL left
+        </span>
+      </div>
+
+      {/* Stopcock */}
+      <div className="grid grid-cols-2 gap-1 mb-3">
+        {(Object.keys(stopcockModes) as StopcockSetting[]).map((setting) => (
+          <button
+            key={setting}
+            onClick={() => onStopcockChange(setting)}
+            disabled={setting !== "closed" && remaining <= 0}
+            className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+              stopcock === setting
+                ? "bg-blue-600 text-white"
+                : "bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+            }`}
+          >
+            {stopcockModes[setting].label}
+          </button>
+        ))}
+      </div>
+
+      {/* Preparation: rinse with titrant and clear the tip */}
+      <div className="grid grid-cols-2 gap-1 mb-3">
+        <button
+          onClick={onRinse}
+          disabled={prepDisabled || remaining <= 0}
+          className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+          title="Rinse with a little titrant and drain, then refill"
+        >
+          Rinse &amp; drain
+        </button>
+        <button
+          onClick={onExpelBubble}
+          disabled={prepDisabled || !bubble || remaining <= 0}
+          className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+          title="Run titrant through the tip into a waste beaker"
+        >
+          Clear tip
+        </button>
+      </div>
+      <div className="mb-2 text-xs text-gray-600 space-y-0.5">
+        <div>{rinsed ? "Rinsed with titrant" : "Wet from washing"}</div>
+        {bubble && remaining > 0 && (
+          <div className="text-amber-700">Air bubble in the tip</div>
+        )}
+      </div>
+
+      {/* Meniscus view */}
+      <div className="flex items-start space-x-2">
+        <svg
+          width={VIEW_WIDTH}
+          height={VIEW_HEIGHT}
+          viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+          className="border border-gray-300 rounded bg-slate-50 cursor-crosshair"
+          onClick={handleScaleClick}
+        >
+          {/* Liquid below the meniscus */}
+          <path
+            d={`${meniscus} L 80 ${VIEW_HEIGHT} L 40 ${VIEW_HEIGHT} Z`}
+            fill="rgba(59, 130, 246, 0.15)"
+          />
+          <path d={meniscus} fill="none" stroke="#1e3a8a" strokeWidth="1.5" />
+
+          {/* Tube walls */}
+          <line x1="40" y1="0" x2="40" y2={VIEW_HEIGHT} stroke="#64748b" />
+          <line x1="80" y1="0" x2="80" y2={VIEW_HEIGHT} stroke="#64748b" />
+
+          {/* Graduations every 0.1 mL, numbered every 1 mL */}
+          {ticks.map((value) => {
+            const major = Math.abs(value - Math.round(value)) < 1e-6;
+            const half = Math.abs(value * 2 - Math.round(value * 2)) < 1e-6;
+            return (
+              <g key={value}>
+                <line
+                  x1="40"
+                  y1={y(value)}
+                  x2={major ? 70 : half ? 60 : 52}
+                  y2={y(value)}
+                  stroke="#111827"
+                  strokeWidth={major ? 1.2 : 0.6}
+                />
+                {major && (
+                  <text x="84" y={y(value) + 4} fontSize="11" fill="#111827">
+                    {Math.round(value)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {/* Eye-level line at the student's estimate */}
+          <line
+            x1="30"
+            y1={y(estimate)}
+            x2="90"
+            y2={y(estimate)}
+            stroke="#dc2626"
+            strokeDasharray="3 2"
+          />
+        </svg>
+
+        <div className="flex flex-col space-y-1">
+          {EYE_POSITIONS.map((position) => (
+            <button
+              key={position.eye}
+              onClick={() => setEye(position.eye)}
+              className={`px-2 py-1 rounded text-xs ${
+                eye === position.eye
+                  ? "bg-red-600 text-white"
+                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+              title="Where your eye is against the meniscus"
+            >
+              {position.label}
+            </button>
+          ))}
+          <button
+            onClick={() => setZoom(zoom === 4 ? 1 : zoom * 2)}
+            className="flex items-center justify-center px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-700"
+            title="Change magnification"
+          >
+            <ZoomIn size={12} className="mr-1" />
+            {zoom}×
+          </button>
+          <button
+            onClick={() =>
+              setEstimate((e) => roundReading(e - READING_RESOLUTION))
+            }
+            className="flex items-center justify-center px-2 py-1 rounded bg-gray-100 hover:bg-gray-200"
+            title="Move the reading up 0.05 mL"
+          >
+            <Minus size={12} />
+          </button>
+          <div className="text-center font-mono text-sm text-red-600">
+            {estimate.toFixed(2)}
+          </div>
+          <button
+            onClick={() =>
+              setEstimate((e) => roundReading(e + READING_RESOLUTION))
+            }
+            className="flex items-center justify-center px-2 py-1 rounded bg-gray-100 hover:bg-gray-200"
+            title="Move the reading down 0.05 mL"
+          >
+            <Plus size={12} />
+          </button>
+        </div>
+      </div>
+
+      {/* Recorded readings */}
+      <div className="grid grid-cols-2 gap-1 mt-3">
+        <button
+          onClick={() => record("initial")}
+          disabled={stopcock !== "closed"}
+          className="px-2 py-1 rounded text-xs font-medium bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+        >
+          Record initial
+        </button>
+        <button
+          onClick={() => record("final")}
+          disabled={stopcock !== "closed" || readings.initial === null}
+          className="px-2 py-1 rounded text-xs font-medium bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+        >
+          Record final
+        </button>
+      </div>
+      <div className="mt-2 text-xs text-gray-600 space-y-0.5">
+        <div>
+          Initial:{" "}
+          {readings.initial !== null
+            ? `${readings.initial.toFixed(2)} mL`
+            : "-"}
+        </div>
+        <div>
+          Final:{" "}
+          {readings.final !== null ? `${readings.final.toFixed(2)} mL` : "-"}
+        </div>
+        {titre !== null && (
+          <div className="font-medium text-gray-800">
+            Titre: {titre.toFixed(2)} mL
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
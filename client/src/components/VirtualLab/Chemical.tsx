@@ -1,4 +1,6 @@
 import React from "react";
+import type { AcidBaseProfile } from "@shared/chemistry/species";
+import { hazardStatements, type HazardCode } from "@shared/chemistry/compounds";
 
 interface ChemicalProps {
   id: string;
@@ -9,8 +11,37 @@ interface ChemicalProps {
   selected: boolean;
   concentration?: string;
   volume?: number;
+  acidBase?: AcidBaseProfile;
+  hazards?: HazardCode[]; // GHS hazard statements
+  // Cap state and carbonate content, for bottles that absorb CO₂
+  bottle?: { open: boolean; carbonate: number };
+  onToggleBottle?: (id: string) => void;
 }
 
+const superscripts: Record<string, string> = {
+  "-": "⁻",
+  "0": "⁰",
+  "1": "¹",
+  "2": "²",
+  "3": "³",
+  "4": "⁴",
+  "5": "⁵",
+  "6": "⁶",
+  "7": "⁷",
+  "8": "⁸",
+  "9": "⁹",
+};
+
+// 1.74e-5 → "1.7×10⁻⁵"
+const formatConstant = (value: number) => {
+  const [mantissa, exponent] = value.toExponential(1).split("e");
+  const power = String(parseInt(exponent, 10))
+    .split("")
+    .map((ch) => superscripts[ch])
+    .join("");
+  return `${mantissa}×10${power}`;
+};
+
 export const Chemical: React.FC<ChemicalProps> = ({
   id,
   name,
@@ -20,6 +51,10 @@ export const Chemical: React.FC<ChemicalProps> = ({
   selected,
   concentration,
   volume,
+  acidBase,
+  hazards = [],
+  bottle,
+  onToggleBottle,
 }) => {
   const [dragAmount, setDragAmount] = React.useState(volume || 25);
   const handleDragStart = (e: React.DragEvent) => {
@@ -104,6 +139,48 @@ export const Chemical: React.FC<ChemicalProps> = ({
               {concentration}
             </div>
           )}
+          {acidBase?.ka !== undefined && (
+            <div className="text-xs text-amber-700 font-medium bg-amber-50 px-2 py-1 rounded-full inline-block mt-1 ml-1">
+              Weak acid · Ka {formatConstant(acidBase.ka)}
+            </div>
+          )}
+          {acidBase?.kb !== undefined && (
+            <div className="text-xs text-teal-700 font-medium bg-teal-50 px-2 py-1 rounded-full inline-block mt-1 ml-1">
+              Weak base · Kb {formatConstant(acidBase.kb)}
+            </div>
+          )}
+          {hazards.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {hazards.map((code) => (
+                <span
+                  key={code}
+                  title={hazardStatements[code]}
+                  className="text-xs font-mono text-red-700 bg-red-50 border border-red-200 px-1 rounded"
+                >
+                  ⚠ {code}
+                </span>
+              ))}
+            </div>
+          )}
+          {bottle && (
+            <div className="flex items-center mt-1 space-x-1">
+              <span
+                className={`text-xs font-medium px-2 py-1 rounded-full ${bottle.open ? "text-red-700 bg-red-50" : "text-gray-600 bg-gray-100"}`}
+              >
+                {bottle.open ? "Open" : "Capped"} · CO₃²⁻{" "}
+                {(bottle.carbonate * 100).toFixed(1)}%
+              </span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleBottle?.(id);
+                }}
+                className="text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"
+              >
+                {bottle.open ? "Cap" : "Uncap"}
+              </button>
+            </div>
+          )}
 
           {/* Special usage hints for titration chemicals */}
           {selected && id === "phenol" && (
@@ -123,6 +200,13 @@ export const Chemical: React.FC<ChemicalProps> = ({
               💡 Add to conical flask first
             </div>
           )}
+
+          {selected && (id === "acetic_acid" || id === "nh3") && (
+            <div className="text-xs text-amber-600 font-medium bg-amber-50 px-2 py-1 rounded mt-1">
+              💡 Add to conical flask, titrate with{" "}
+              {id === "nh3" ? "HCl" : "NaOH"} and read pKa from the curve
+            </div>
+          )}
         </div>
 
         {selected && (
@@ -193,30 +277,3 @@ export const Chemical: React.FC<ChemicalProps> = ({
     </div>
   );
 };
-
-export const chemicalsList = [
-  {
-    id: "hcl",
-    name: "Hydrochloric Acid",
-    formula: "HCl",
-    color: "#FFE135",
-    concentration: "0.1 M",
-    volume: 25,
-  },
-  {
-    id: "naoh",
-    name: "Sodium Hydroxide",
-    formula: "NaOH",
-    color: "#8B5A9B",
-    concentration: "0.1 M",
-    volume: 50,
-  },
-  {
-    id: "phenol",
-    name: "Phenolphthalein",
-    formula: "C₂₀H₁₄O₄",
-    color: "#FFB6C1",
-    concentration: "Indicator",
-    volume: 10,
-  },
-];
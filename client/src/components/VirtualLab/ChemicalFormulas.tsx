@@ -1,177 +1,30 @@
 import React from "react";
 import { FlaskConical, ArrowRight, TestTube } from "lucide-react";
-
-interface ChemicalFormula {
-  name: string;
-  formula: string;
-  type: "reactant" | "product" | "catalyst" | "solvent";
-  molWeight?: number;
-  phase?: string;
-}
-
-interface ChemicalReaction {
-  equation: string;
-  name: string;
-  type: string;
-  conditions?: string[];
-}
+import type { LabDefinition } from "@shared/schema";
+import {
+  findCompound,
+  hazardStatements,
+  type Compound,
+} from "@shared/chemistry/compounds";
 
 interface ChemicalFormulasProps {
   experimentTitle: string;
+  // Compounds and reactions from the experiment's lab definition
+  formulas: LabDefinition["formulas"];
 }
 
+const formatSolubility = (solubility: Compound["solubility"]) =>
+  typeof solubility === "number" ? `${solubility} g/100 mL` : solubility;
+
 export const ChemicalFormulas: React.FC<ChemicalFormulasProps> = ({
   experimentTitle,
+  formulas,
 }) => {
-  const getChemicalData = () => {
-    if (experimentTitle.includes("Aspirin")) {
-      return {
-        compounds: [
-          {
-            name: "Salicylic Acid",
-            formula: "C₇H₆O₃",
-            type: "reactant" as const,
-            molWeight: 138.12,
-            phase: "(s)",
-          },
-          {
-            name: "Acetic Anhydride",
-            formula: "(CH₃CO)₂O",
-            type: "reactant" as const,
-            molWeight: 102.09,
-            phase: "(l)",
-          },
-          {
-            name: "Acetylsalicylic Acid (Aspirin)",
-            formula: "C₉H₈O₄",
-            type: "product" as const,
-            molWeight: 180.16,
-            phase: "(s)",
-          },
-          {
-            name: "Acetic Acid",
-            formula: "CH₃COOH",
-            type: "product" as const,
-            molWeight: 60.05,
-            phase: "(l)",
-          },
-          {
-            name: "Phosphoric Acid",
-            formula: "H₃PO₄",
-            type: "catalyst" as const,
-            molWeight: 97.99,
-            phase: "(l)",
-          },
-        ],
-        reactions: [
-          {
-            equation: "C₇H₆O₃ + (CH₃CO)₂O → C₉H₈O₄ + CH₃COOH",
-            name: "Esterification Reaction",
-            type: "Nucleophilic Acyl Substitution",
-            conditions: [
-              "H₃PO₄ catalyst",
-              "Heat (85°C)",
-              "Anhydrous conditions",
-            ],
-          },
-        ],
-      };
-    } else if (experimentTitle.includes("Acid-Base")) {
-      return {
-        compounds: [
-          {
-            name: "Hydrochloric Acid",
-            formula: "HCl",
-            type: "reactant" as const,
-            molWeight: 36.46,
-            phase: "(aq)",
-          },
-          {
-            name: "Sodium Hydroxide",
-            formula: "NaOH",
-            type: "reactant" as const,
-            molWeight: 39.997,
-            phase: "(aq)",
-          },
-          {
-            name: "Phenolphthalein",
-            formula: "C₂₀H₁₄O₄",
-            type: "catalyst" as const,
-            molWeight: 318.32,
-            phase: "(aq)",
-          },
-        ],
-        reactions: [
-          {
-            equation: "HCl(aq) + C₂₀H₁₄O₄ → HCl-C₂₀H₁₄O₄ complex (colorless)",
-            name: "Acid-Indicator Interaction",
-            type: "Indicator Reaction",
-            conditions: [
-              "Room temperature",
-              "Aqueous solution",
-              "1:1 stoichiometry",
-            ],
-          },
-        ],
-      };
-    } else if (experimentTitle.includes("Equilibrium")) {
-      return {
-        compounds: [
-          {
-            name: "Cobalt(II) Chloride Hexahydrate",
-            formula: "CoCl₂·6H₂O",
-            type: "reactant" as const,
-            molWeight: 237.93,
-            phase: "(s)",
-          },
-          {
-            name: "Cobalt(II) Chloride Tetrahydrate",
-            formula: "[Co(H₂O)₄]²⁺",
-            type: "product" as const,
-            molWeight: 201.93,
-            phase: "(aq)",
-          },
-          {
-            name: "Tetrachlorocobaltate(II) Ion",
-            formula: "[CoCl₄]²⁻",
-            type: "product" as const,
-            molWeight: 165.87,
-            phase: "(aq)",
-          },
-          {
-            name: "Hydrochloric Acid",
-            formula: "HCl",
-            type: "reactant" as const,
-            molWeight: 36.46,
-            phase: "(aq)",
-          },
-          {
-            name: "Water",
-            formula: "H₂O",
-            type: "solvent" as const,
-            molWeight: 18.02,
-            phase: "(l)",
-          },
-        ],
-        reactions: [
-          {
-            equation: "[Co(H₂O)₆]²⁺ + 4Cl⁻ ⇌ [CoCl₄]²⁻ + 6H₂O",
-            name: "Cobalt Complex Equilibrium",
-            type: "Ligand Exchange Equilibrium",
-            conditions: [
-              "Temperature dependent",
-              "Concentration dependent",
-              "Le Chatelier's Principle",
-            ],
-          },
-        ],
-      };
-    }
-
-    return { compounds: [], reactions: [] };
-  };
-
-  const { compounds, reactions } = getChemicalData();
+  const compounds = formulas.compounds.flatMap(({ compound, type }) => {
+    const data = findCompound(compound);
+    return data ? [{ ...data, type }] : [];
+  });
+  const { reactions } = formulas;
 
   const getTypeColor = (type: string) => {
     switch (type) {
@@ -220,9 +73,9 @@ export const ChemicalFormulas: React.FC<ChemicalFormulasProps> = ({
             Chemical Compounds
           </h3>
           <div className="grid gap-2">
-            {compounds.map((compound, index) => (
+            {compounds.map((compound) => (
               <div
-                key={index}
+                key={compound.id}
                 className="p-3 rounded-lg border bg-gray-50 hover:bg-gray-100 transition-colors"
               >
                 <div className="flex items-center justify-between">
@@ -241,17 +94,36 @@ export const ChemicalFormulas: React.FC<ChemicalFormulasProps> = ({
                     <div className="flex items-center space-x-4 text-xs text-gray-600">
                       <span className="font-mono bg-white px-2 py-1 rounded border">
                         {compound.formula}
-                        {compound.phase && (
-                          <span className="text-gray-500">
-                            {" "}
-                            {compound.phase}
-                          </span>
-                        )}
+                        <span className="text-gray-500">
+                          {" "}
+                          ({compound.phase})
+                        </span>
                       </span>
-                      {compound.molWeight && (
-                        <span>MW: {compound.molWeight} g/mol</span>
+                      {compound.molarMass && (
+                        <span>MW: {compound.molarMass} g/mol</span>
+                      )}
+                      {compound.density && (
+                        <span>ρ: {compound.density} g/mL</span>
+                      )}
+                      {compound.solubility !== undefined && (
+                        <span>
+                          Solubility: {formatSolubility(compound.solubility)}
+                        </span>
                       )}
                     </div>
+                    {compound.hazards.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {compound.hazards.map((code) => (
+                          <span
+                            key={code}
+                            title={hazardStatements[code]}
+                            className="text-xs font-mono text-red-700 bg-red-50 border border-red-200 px-1 rounded"
+                          >
+                            ⚠ {code}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
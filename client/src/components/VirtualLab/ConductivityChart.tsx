@@ -0,0 +1,121 @@
+import React from "react";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  Scatter,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { ConductometricAnalysis } from "@shared/chemistry/conductivity";
+import type { LineFit } from "@shared/chemistry/regression";
+
+interface ConductivityChartProps {
+  analysis: ConductometricAnalysis;
+}
+
+const chartConfig = {
+  conductivity: { label: "Corrected readings", color: "#4f46e5" },
+  before: { label: "Before endpoint", color: "#0d9488" },
+  after: { label: "After endpoint", color: "#ea580c" },
+} satisfies ChartConfig;
+
+// Fitted line drawn over its own readings and on to the intersection
+const lineData = (
+  fit: LineFit,
+  key: "before" | "after",
+  reach: number | null,
+) =>
+  [
+    Math.min(fit.from, reach ?? fit.from),
+    Math.max(fit.to, reach ?? fit.to),
+  ].map((volume) => ({ volume, [key]: fit.intercept + fit.slope * volume }));
+
+// Dilution-corrected conductivity against volume with the two least-squares
+// lines and the volume where they cross
+export const ConductivityChart: React.FC<ConductivityChartProps> = ({
+  analysis,
+}) => {
+  const { points, before, after, equivalenceVolume } = analysis;
+  return (
+    <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+      <ComposedChart margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="volume"
+          type="number"
+          domain={[0, "dataMax"]}
+          tickFormatter={(v: number) => v.toFixed(0)}
+          label={{
+            value: "Titrant added (mL)",
+            position: "insideBottom",
+            offset: -10,
+          }}
+        />
+        <YAxis
+          type="number"
+          domain={[0, "auto"]}
+          tickFormatter={(v: number) => v.toFixed(1)}
+          label={{
+            value: "κ corrected (mS/cm)",
+            angle: -90,
+            position: "insideLeft",
+          }}
+        />
+        {equivalenceVolume !== null && (
+          <ReferenceLine
+            x={equivalenceVolume}
+            stroke="#16a34a"
+            strokeDasharray="4 4"
+            label={{
+              value: `${equivalenceVolume.toFixed(2)} mL`,
+              position: "top",
+              fontSize: 10,
+            }}
+          />
+        )}
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                `${Number(payload?.[0]?.payload?.volume ?? 0).toFixed(2)} mL`
+              }
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Scatter
+          data={points}
+          dataKey="conductivity"
+          fill="var(--color-conductivity)"
+          isAnimationActive={false}
+        />
+        <Line
+          data={lineData(before, "before", equivalenceVolume)}
+          dataKey="before"
+          stroke="var(--color-before)"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <Line
+          data={lineData(after, "after", equivalenceVolume)}
+          dataKey="after"
+          stroke="var(--color-after)"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,109 @@
+import React from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type {
+  DerivativeAnalysis,
+  DerivativePoint,
+} from "@shared/chemistry/titration";
+
+interface DerivativeChartProps {
+  analysis: DerivativeAnalysis;
+  // Quantity that was differentiated, e.g. "pH" or "E"
+  label: string;
+}
+
+const chartConfig = {
+  first: { label: "First derivative", color: "#2563eb" },
+  second: { label: "Second derivative", color: "#db2777" },
+} satisfies ChartConfig;
+
+// One derivative against volume, with the equivalence volume marked
+const DerivativePlot: React.FC<{
+  data: DerivativePoint[];
+  dataKey: keyof typeof chartConfig;
+  axisLabel: string;
+  equivalenceVolume: number | null;
+}> = ({ data, dataKey, axisLabel, equivalenceVolume }) => (
+  <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+    <LineChart
+      data={data.map((p) => ({ volume: p.volume, [dataKey]: p.value }))}
+      margin={{ top: 10, right: 20, bottom: 20, left: 0 }}
+    >
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis
+        dataKey="volume"
+        type="number"
+        domain={["dataMin", "dataMax"]}
+        tickFormatter={(v: number) => v.toFixed(0)}
+        label={{
+          value: "Titrant added (mL)",
+          position: "insideBottom",
+          offset: -10,
+        }}
+      />
+      <YAxis label={{ value: axisLabel, angle: -90, position: "insideLeft" }} />
+      {dataKey === "second" && <ReferenceLine y={0} stroke="#94a3b8" />}
+      {equivalenceVolume !== null && (
+        <ReferenceLine
+          x={equivalenceVolume}
+          stroke="#16a34a"
+          strokeDasharray="4 4"
+          label={{
+            value: `${equivalenceVolume.toFixed(2)} mL`,
+            position: "top",
+            fontSize: 10,
+          }}
+        />
+      )}
+      <ChartTooltip
+        content={
+          <ChartTooltipContent
+            labelFormatter={(_, payload) =>
+              `${Number(payload?.[0]?.payload?.volume ?? 0).toFixed(2)} mL`
+            }
+          />
+        }
+      />
+      <Line
+        dataKey={dataKey}
+        stroke={`var(--color-${dataKey})`}
+        strokeWidth={2}
+        dot={false}
+        isAnimationActive={false}
+      />
+    </LineChart>
+  </ChartContainer>
+);
+
+// First- and second-derivative plots of the recorded readings
+export const DerivativeChart: React.FC<DerivativeChartProps> = ({
+  analysis,
+  label,
+}) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+    <DerivativePlot
+      data={analysis.first}
+      dataKey="first"
+      axisLabel={`Δ${label}/ΔV`}
+      equivalenceVolume={analysis.equivalenceVolume}
+    />
+    <DerivativePlot
+      data={analysis.second}
+      dataKey="second"
+      axisLabel={`Δ²${label}/ΔV²`}
+      equivalenceVolume={analysis.equivalenceVolume}
+    />
+  </div>
+);
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   Beaker,
   FlaskConical,
@@ -6,6 +6,34 @@ import {
   Droplet,
   Thermometer,
 } from "lucide-react";
+import { solveContainer } from "@shared/chemistry/equilibrium";
+import { acidBaseProfile } from "@shared/chemistry/species";
+import {
+  blendColors,
+  indicatorColor,
+  indicators,
+  parseColor,
+  toCss,
+} from "@shared/chemistry/indicators";
+import { BURETTE_CAPACITY, scaleReading } from "@shared/chemistry/burette";
+import { isRedoxChemical, redoxColor } from "@shared/chemistry/redox";
+import {
+  complexometricColor,
+  isComplexometricChemical,
+} from "@shared/chemistry/complexometry";
+import {
+  isPrecipitationChemical,
+  precipitate,
+  precipitationColor,
+} from "@shared/chemistry/precipitation";
+
+// Depth of liquid the colour is seen through
+export const PATH_LENGTH_CM = 3;
+
+// Where the 0 mL mark sits on the burette image and the drawn length of the
+// 0-50 mL scale (one label every 40 px)
+const BURETTE_TOP_PX = 48;
+const BURETTE_SCALE_PX = 200;
 
 interface EquipmentProps {
   id: string;
@@ -16,6 +44,7 @@ interface EquipmentProps {
   chemicals?: Array<{
     id: string;
     name: string;
+    formula?: string;
     color: string;
     amount: number;
     concentration: string;
@@ -26,8 +55,13 @@ interface EquipmentProps {
     amount: number,
   ) => void;
   stirrerActive?: boolean;
-  hasNaOHInFlask?: boolean;
-  titrationColorProgress?: number;
+  // Titrant is currently running into this container
+  titrating?: boolean;
+  // Measured pH for contents that cannot be solved here (unknown samples)
+  ph?: number;
+  // What the pH meter, conductivity meter (mS/cm) or thermometer (°C)
+  // displays, when this is one
+  meterReading?: number;
 }
 
 export const Equipment: React.FC<EquipmentProps> = ({
@@ -39,8 +73,9 @@ export const Equipment: React.FC<EquipmentProps> = ({
   chemicals = [],
   onChemicalDrop,
   stirrerActive = false,
-  hasNaOHInFlask = false,
-  titrationColorProgress = 0,
+  titrating = false,
+  ph,
+  meterReading,
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [isDropping, setIsDropping] = useState(false);
@@ -134,115 +169,108 @@ export const Equipment: React.FC<EquipmentProps> = ({
     "beakers",
   ].includes(id);
 
-  // Calculate mixed color from all chemicals
-  const getMixedColor = () => {
+  // Calculate mixed color from all chemicals. Indicators are not mixed in by
+  // their bottle colour: they tint the solution according to its pH.
+  const mixedColor = useMemo(() => {
     if (chemicals.length === 0) return "transparent";
-    if (chemicals.length === 1) return chemicals[0].color;
-
-    // Enhanced color mixing for chemical reactions
-    const chemicalIds = chemicals.map((c) => c.id).sort();
-
-    // Specific reaction colors with titration color transition
-    if (chemicalIds.includes("hcl") && chemicalIds.includes("naoh")) {
-      if (chemicalIds.includes("phenol")) {
-        // Enhanced color transition: lighter pink to darker pink with smooth animation
-        if (titrationColorProgress > 0) {
-          if (titrationColorProgress <= 1) {
-            // First stage: Very light pink to medium pink
-            const startColor = { r: 255, g: 220, b: 230 }; // Very light pink #FFDCE6
-            const endColor = { r: 255, g: 182, b: 193 }; // Light pink #FFB6C1
-
-            // Apply smooth easing function for more natural color transition
-            const easedProgress =
-              titrationColorProgress *
-              titrationColorProgress *
-              (3 - 2 * titrationColorProgress);
-
-            const r = Math.round(
-              startColor.r + (endColor.r - startColor.r) * easedProgress,
-            );
-            const g = Math.round(
-              startColor.g + (endColor.g - startColor.g) * easedProgress,
-            );
-            const b = Math.round(
-              startColor.b + (endColor.b - startColor.b) * easedProgress,
-            );
-
-            return `rgb(${r}, ${g}, ${b})`;
-          } else {
-            // Second stage: Medium pink to deep pink (over-titration)
-            const normalizedProgress = Math.min(
-              (titrationColorProgress - 1) / 2,
-              1,
-            ); // Next 2 units for darker transition
-            const startColor = { r: 255, g: 182, b: 193 }; // Light pink #FFB6C1
-            const endColor = { r: 199, g: 21, b: 133 }; // Deep pink/magenta #C71585
-
-            // Apply smooth easing for the darker transition as well
-            const easedProgress =
-              normalizedProgress *
-              normalizedProgress *
-              (3 - 2 * normalizedProgress);
-
-            const r = Math.round(
-              startColor.r + (endColor.r - startColor.r) * easedProgress,
-            );
-            const g = Math.round(
-              startColor.g + (endColor.g - startColor.g) * easedProgress,
-            );
-            const b = Math.round(
-              startColor.b + (endColor.b - startColor.b) * easedProgress,
-            );
-
-            return `rgb(${r}, ${g}, ${b})`;
-          }
-        }
-        return "#FFB6C1"; // Pink when phenolphthalein is added to basic solution
-      }
-      return "#E8F5E8"; // Light green for neutralization
-    }
 
-    if (chemicalIds.includes("phenol") && chemicalIds.includes("naoh")) {
-      return "#FF69B4"; // Bright pink
-    }
-
-    // HCl + Phenolphthalein combination (acidic solution)
-    if (
-      chemicalIds.includes("hcl") &&
-      chemicalIds.includes("phenol") &&
-      !chemicalIds.includes("naoh")
-    ) {
-      return "#ADD8E6"; // Light blue for HCl + Phenolphthalein in acidic solution
-    }
+    const dyes = chemicals.filter((c) => indicators[c.id]);
+    // Redox reagents are coloured by the species they end up as, the
+    // metal indicator by whether it holds a metal ion, and chromate and
+    // iron(III) by what the silver leaves of them
+    const solution = chemicals.filter(
+      (c) =>
+        !indicators[c.id] &&
+        !isRedoxChemical(c.id) &&
+        !isComplexometricChemical(c.id) &&
+        !isPrecipitationChemical(c.id),
+    );
 
-    // Default color mixing
+    // Default color mixing, weighted by volume; clear liquids count as water
     let r = 0,
       g = 0,
       b = 0,
+      a = 0,
       totalAmount = 0;
 
-    chemicals.forEach((chemical) => {
-      const color = chemical.color;
-      const amount = chemical.amount;
+    solution.forEach((chemical) => {
+      const color = parseColor(chemical.color);
+      r += color.r * chemical.amount;
+      g += color.g * chemical.amount;
+      b += color.b * chemical.amount;
+      a += color.a * chemical.amount;
+      totalAmount += chemical.amount;
+    });
 
-      const hex = color.replace("#", "");
-      const rVal = parseInt(hex.substr(0, 2), 16);
-      const gVal = parseInt(hex.substr(2, 2), 16);
-      const bVal = parseInt(hex.substr(4, 2), 16);
+    let color =
+      totalAmount === 0
+        ? parseColor("transparent")
+        : {
+            r: r / totalAmount,
+            g: g / totalAmount,
+            b: b / totalAmount,
+            a: a / totalAmount,
+          };
+
+    if (chemicals.some((c) => isRedoxChemical(c.id))) {
+      color = blendColors(color, redoxColor(chemicals, PATH_LENGTH_CM));
+    }
+    if (chemicals.some((c) => isComplexometricChemical(c.id))) {
+      color = blendColors(
+        color,
+        complexometricColor(chemicals, PATH_LENGTH_CM),
+      );
+    }
+    if (chemicals.some((c) => isPrecipitationChemical(c.id))) {
+      color = blendColors(color, precipitationColor(chemicals, PATH_LENGTH_CM));
+    }
 
-      r += rVal * amount;
-      g += gVal * amount;
-      b += bVal * amount;
-      totalAmount += amount;
-    });
+    if (dyes.length > 0) {
+      const equilibrium = solveContainer(chemicals);
+      const pH = ph ?? equilibrium.pH;
+      const { volumeL } = equilibrium;
+      dyes.forEach((dye) => {
+        const indicator = indicators[dye.id];
+        const concentration =
+          (indicator.stockConcentration * dye.amount) / 1000 / volumeL;
+        color = blendColors(
+          color,
+          indicatorColor(indicator, pH, concentration, PATH_LENGTH_CM),
+        );
+      });
+    }
 
-    if (totalAmount === 0) return "transparent";
+    return toCss(color);
+  }, [chemicals, ph]);
 
-    r = Math.round(r / totalAmount);
-    g = Math.round(g / totalAmount);
-    b = Math.round(b / totalAmount);
+  // Silver salts out of solution
+  const solid = useMemo(() => precipitate(chemicals), [chemicals]);
 
-    return `rgb(${r}, ${g}, ${b})`;
+  // A precipitate clouds the liquid while it is stirred or swirled and
+  // otherwise settles to the bottom, deeper the more of it there is
+  const renderPrecipitate = () => {
+    if (!solid) return null;
+    const color = toCss(solid.color);
+    return stirrerActive || titrating ? (
+      <div
+        className="absolute inset-0 pointer-events-none"
+        style={{
+          backgroundColor: color,
+          opacity: Math.min(0.7, 0.15 + solid.moles * 400),
+        }}
+      />
+    ) : (
+      <div
+        className="absolute bottom-0 left-0 right-0 rounded-b-lg pointer-events-none"
+        style={{
+          backgroundColor: color,
+          backgroundImage:
+            "radial-gradient(rgba(0, 0, 0, 0.12) 1px, transparent 1px)",
+          backgroundSize: "4px 4px",
+          height: `${Math.min(35, 6 + solid.moles * 10000)}%`,
+        }}
+      />
+    );
   };
 
   const getSolutionHeight = () => {
@@ -255,10 +283,11 @@ export const Equipment: React.FC<EquipmentProps> = ({
 
   const getEquipmentSpecificRendering = () => {
     if (id === "conical_flask" && isOnWorkbench) {
-      const hasHCl = chemicals.some((c) => c.id === "hcl");
-      const hasNaOH = chemicals.some((c) => c.id === "naoh");
-      const hasPhenolphthalein = chemicals.some((c) => c.id === "phenol");
-      const isNeutralizationReaction = hasHCl && hasNaOH;
+      const kinds = chemicals.map((c) => acidBaseProfile(c.id).kind);
+      const hasIndicator = chemicals.some((c) => indicators[c.id]);
+      const isNeutralizationReaction =
+        kinds.some((kind) => kind.endsWith("acid")) &&
+        kinds.some((kind) => kind.endsWith("base"));
 
       return (
         <div className="relative">
@@ -280,7 +309,7 @@ export const Equipment: React.FC<EquipmentProps> = ({
               <div
                 className="absolute bottom-5 left-1/2 transform -translate-x-1/2 transition-all duration-1000 ease-in-out"
                 style={{
-                  backgroundColor: getMixedColor(),
+                  backgroundColor: mixedColor,
                   height: `${getSolutionHeight() * 0.7}%`,
                   width: "60%",
                   opacity: 0.85,
@@ -288,42 +317,33 @@ export const Equipment: React.FC<EquipmentProps> = ({
                   borderRadius: "0 0 25px 25px",
                   clipPath:
                     "polygon(15% 0%, 85% 0%, 95% 60%, 90% 85%, 85% 95%, 15% 95%, 10% 85%, 5% 60%)",
-                  background: `linear-gradient(to bottom, ${getMixedColor()}, ${getMixedColor()}dd)`,
-                  filter: `saturate(${1 + (titrationColorProgress || 0) * 0.5}) brightness(${1 + (titrationColorProgress || 0) * 0.2})`,
-                  transition:
-                    "background-color 1000ms ease-in-out, filter 1000ms ease-in-out",
+                  transition: "background-color 1000ms ease-in-out",
                 }}
               >
                 {/* Liquid surface shimmer */}
                 <div className="absolute top-0 left-0 right-0 h-1 bg-white opacity-40 animate-pulse"></div>
 
-                {/* Enhanced Phenolphthalein indicator effect with titration animation */}
-                {hasPhenolphthalein && hasNaOH && (
+                {renderPrecipitate()}
+
+                {/* Indicator flashing where titrant drops land */}
+                {hasIndicator && titrating && (
                   <div
-                    className={`absolute inset-0 rounded-b-lg ${
-                      titrationColorProgress > 0 ? "animate-pulse" : ""
-                    }`}
+                    className="absolute inset-0 rounded-b-lg animate-pulse"
                     style={{
-                      background:
-                        titrationColorProgress > 0
-                          ? `radial-gradient(circle at center, ${getMixedColor()}80, transparent 70%)`
-                          : "",
-                      opacity: 0.6 + (titrationColorProgress || 0) * 0.3,
-                      animation:
-                        titrationColorProgress > 0
-                          ? "pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite"
-                          : "none",
+                      background: `radial-gradient(circle at center, ${mixedColor}, transparent 70%)`,
+                      opacity: 0.6,
+                      animation: "pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite",
                     }}
                   />
                 )}
 
                 {/* Special swirling effect during active titration */}
-                {titrationColorProgress > 0 && titrationColorProgress < 1 && (
+                {titrating && (
                   <div className="absolute inset-0 rounded-b-lg overflow-hidden">
                     <div
                       className="absolute inset-0 animate-spin"
                       style={{
-                        background: `conic-gradient(from 0deg, transparent, ${getMixedColor()}40, transparent, ${getMixedColor()}20, transparent)`,
+                        background: `conic-gradient(from 0deg, transparent, ${mixedColor}, transparent, ${mixedColor}, transparent)`,
                         animation: "spin 4s linear infinite",
                         opacity: 0.3,
                       }}
@@ -381,8 +401,13 @@ export const Equipment: React.FC<EquipmentProps> = ({
     }
 
     if (id === "burette" && isOnWorkbench) {
-      const hasNaOH = chemicals.some((c) => c.id === "naoh");
-      const naohAmount = chemicals.find((c) => c.id === "naoh")?.amount || 0;
+      // The liquid column ends at the 50 mL mark and its top sits at the
+      // current scale reading, so it drops as titrant is delivered
+      const remaining = Math.min(
+        BURETTE_CAPACITY,
+        chemicals.reduce((sum, c) => sum + c.amount, 0),
+      );
+      const reading = scaleReading(remaining);
 
       return (
         <div className="relative flex items-center justify-center">
@@ -399,31 +424,33 @@ export const Equipment: React.FC<EquipmentProps> = ({
               }}
             />
 
-            {/* Solution overlay in burette - fills from 50mL to 30mL mark */}
-            {chemicals.length > 0 && (
+            {/* Solution overlay in burette - from the meniscus down to 50 mL */}
+            {remaining > 0 && (
               <div
-                className="absolute top-12 left-1/2 transform -translate-x-1/2 transition-all duration-500"
+                className="absolute left-1/2 transform -translate-x-1/2 transition-all duration-100"
                 style={{
-                  backgroundColor: getMixedColor(),
-                  height: "96px",
+                  backgroundColor: mixedColor,
+                  top: `${BURETTE_TOP_PX + (reading / BURETTE_CAPACITY) * BURETTE_SCALE_PX}px`,
+                  height: `${(remaining / BURETTE_CAPACITY) * BURETTE_SCALE_PX}px`,
                   width: "18px",
                   opacity: 0.9,
                   borderRadius: "2px 2px 0 0",
                   clipPath: "polygon(20% 0%, 80% 0%, 85% 100%, 15% 100%)",
                 }}
               >
-                {/* Liquid surface shimmer at 30mL mark */}
-                <div className="absolute bottom-0 left-0 right-0 h-1 bg-white opacity-40 animate-pulse"></div>
+                {/* Meniscus */}
+                <div className="absolute top-0 left-0 right-0 h-1 bg-white opacity-40 rounded-b-full"></div>
               </div>
             )}
 
-            {/* Volume markings overlay - better positioned */}
+            {/* Volume markings overlay - read downwards from 0 mL */}
             <div className="absolute -left-6 top-12 text-xs text-gray-700 font-bold">
-              <div className="mb-6">50</div>
-              <div className="mb-6">40</div>
-              <div className="mb-6">30</div>
-              <div className="mb-6">20</div>
+              <div className="mb-6">0</div>
               <div className="mb-6">10</div>
+              <div className="mb-6">20</div>
+              <div className="mb-6">30</div>
+              <div className="mb-6">40</div>
+              <div>50</div>
             </div>
           </div>
 
@@ -432,7 +459,7 @@ export const Equipment: React.FC<EquipmentProps> = ({
             <div className="absolute -bottom-4 left-1/2 transform -translate-x-1/2">
               <div
                 className="w-1 h-1 rounded-full animate-bounce"
-                style={{ backgroundColor: getMixedColor() }}
+                style={{ backgroundColor: mixedColor }}
               ></div>
             </div>
           )}
@@ -483,7 +510,7 @@ export const Equipment: React.FC<EquipmentProps> = ({
             {chemicals.length > 0 && (
               <path
                 d={`M${15 + chemicals.length * 2} ${70 - getSolutionHeight() * 0.4} L${65 - chemicals.length * 2} ${70 - getSolutionHeight() * 0.4} L70 70 L10 70 Z`}
-                fill={getMixedColor()}
+                fill={mixedColor}
                 opacity="0.8"
                 className="transition-all duration-500"
               />
@@ -559,6 +586,69 @@ export const Equipment: React.FC<EquipmentProps> = ({
       );
     }
 
+    if (id === "ph_meter" && isOnWorkbench) {
+      return (
+        <div className="relative flex items-end space-x-2">
+          {/* Meter body with its display */}
+          <div className="bg-gray-800 rounded-lg p-2 shadow-lg w-32">
+            <div className="bg-lime-100 text-gray-900 font-mono text-xl text-right px-2 py-1 rounded">
+              {meterReading !== undefined ? meterReading.toFixed(2) : "--.--"}
+            </div>
+            <div className="mt-1 text-[10px] text-gray-300 text-center tracking-wide">
+              pH METER
+            </div>
+          </div>
+          {/* Glass electrode on its cable */}
+          <div className="flex flex-col items-center">
+            <div className="w-2 h-16 bg-gray-300 rounded-t-full border border-gray-400" />
+            <div className="w-4 h-4 -mt-1 rounded-full bg-sky-100 border border-gray-400 opacity-80" />
+          </div>
+        </div>
+      );
+    }
+
+    if (id === "conductivity_meter" && isOnWorkbench) {
+      return (
+        <div className="relative flex items-end space-x-2">
+          {/* Meter body with its display */}
+          <div className="bg-gray-800 rounded-lg p-2 shadow-lg w-32">
+            <div className="bg-lime-100 text-gray-900 font-mono text-xl text-right px-2 py-1 rounded">
+              {meterReading !== undefined ? meterReading.toFixed(3) : "-.---"}
+            </div>
+            <div className="mt-1 text-[10px] text-gray-300 text-center tracking-wide">
+              mS/cm
+            </div>
+          </div>
+          {/* Dip cell: two platinum plates behind a glass shield */}
+          <div className="flex flex-col items-center">
+            <div className="w-2 h-12 bg-gray-300 rounded-t-full border border-gray-400" />
+            <div className="w-5 h-8 -mt-1 rounded-b border border-gray-400 bg-sky-50/80 flex justify-center space-x-1 pt-1">
+              <div className="w-0.5 h-5 bg-gray-500" />
+              <div className="w-0.5 h-5 bg-gray-500" />
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    if (id === "thermometer" && isOnWorkbench) {
+      return (
+        <div className="relative flex items-end space-x-2">
+          {/* Display unit */}
+          <div className="bg-gray-800 rounded-lg p-2 shadow-lg w-28">
+            <div className="bg-lime-100 text-gray-900 font-mono text-xl text-right px-2 py-1 rounded">
+              {meterReading !== undefined ? meterReading.toFixed(2) : "--.--"}
+            </div>
+            <div className="mt-1 text-[10px] text-gray-300 text-center tracking-wide">
+              °C
+            </div>
+          </div>
+          {/* Stainless steel probe */}
+          <div className="w-1.5 h-20 bg-gradient-to-b from-gray-300 to-gray-500 rounded-b-full border border-gray-400" />
+        </div>
+      );
+    }
+
     if (id === "magnetic_stirrer" && isOnWorkbench) {
       return (
         <div className="relative">
@@ -677,13 +767,12 @@ export const Equipment: React.FC<EquipmentProps> = ({
               <div
                 className="rounded-b-lg transition-all duration-1000 ease-in-out opacity-80"
                 style={{
-                  backgroundColor: getMixedColor(),
+                  backgroundColor: mixedColor,
                   height: `${getSolutionHeight()}%`,
                   width: id === "beaker" ? "70%" : "60%",
                   minHeight: "8px",
-                  filter: `saturate(${1 + (titrationColorProgress || 0) * 0.5}) brightness(${1 + (titrationColorProgress || 0) * 0.2})`,
                   transition:
-                    "background-color 1000ms ease-in-out, height 500ms ease-in-out, filter 1000ms ease-in-out",
+                    "background-color 1000ms ease-in-out, height 500ms ease-in-out",
                 }}
               >
                 {/* Enhanced liquid effects */}
@@ -691,6 +780,8 @@ export const Equipment: React.FC<EquipmentProps> = ({
                   {/* Surface shimmer */}
                   <div className="absolute top-0 left-0 right-0 h-1 bg-white opacity-40 animate-pulse"></div>
 
+                  {renderPrecipitate()}
+
                   {/* Bubbling animation for reactions */}
                   {chemicals.length > 1 && (
                     <div className="absolute inset-0">
@@ -709,11 +800,6 @@ export const Equipment: React.FC<EquipmentProps> = ({
                     </div>
                   )}
 
-                  {/* Color change animation */}
-                  {chemicals.some((c) => c.id === "phenol") &&
-                    chemicals.some((c) => c.id === "naoh") && (
-                      <div className="absolute inset-0 bg-pink-300 opacity-50 animate-pulse rounded-b-lg"></div>
-                    )}
                 </div>
               </div>
             </div>
@@ -797,12 +883,7 @@ export const Equipment: React.FC<EquipmentProps> = ({
               {/* Show individual chemical formulas */}
               <div className="text-blue-600 font-semibold text-center mt-1">
                 {chemicals
-                  .map((c) => {
-                    if (c.id === "hcl") return "HCl";
-                    if (c.id === "naoh") return "NaOH";
-                    if (c.id === "phenol") return "C₂���H₁₄O₄";
-                    return "";
-                  })
+                  .map((c) => c.formula)
                   .filter(Boolean)
                   .join(" + ")}
               </div>
@@ -859,7 +940,7 @@ export const Equipment: React.FC<EquipmentProps> = ({
           {/* Color indicator */}
           <div
             className="w-full h-1 rounded-full mt-1"
-            style={{ backgroundColor: getMixedColor() }}
+            style={{ backgroundColor: mixedColor }}
           ></div>
         </div>
       )}
@@ -0,0 +1,263 @@
+import React from "react";
+import { Beaker, FlaskConical, TestTube, Thermometer } from "lucide-react";
+
+// Equipment bar icons, keyed by the `icon` an equipment entry of a lab
+// definition names
+export const equipmentIcons: Record<string, React.ReactNode> = {
+  erlenmeyer_flask: (
+    <svg
+      width="36"
+      height="36"
+      viewBox="0 0 36 36"
+      fill="none"
+      className="text-blue-600"
+    >
+      <path
+        d="M12 6h12v8l4 12H8l4-12V6z"
+        stroke="currentColor"
+        strokeWidth="2"
+        fill="rgba(59, 130, 246, 0.1)"
+      />
+      <path d="M10 6h16" stroke="currentColor" strokeWidth="2" />
+      <circle cx="18" cy="20" r="2" fill="rgba(59, 130, 246, 0.3)" />
+    </svg>
+  ),
+  thermometer: (
+    <svg
+      width="36"
+      height="36"
+      viewBox="0 0 36 36"
+      fill="none"
+      className="text-red-600"
+    >
+      <rect
+        x="16"
+        y="4"
+        width="4"
+        height="20"
+        rx="2"
+        stroke="currentColor"
+        strokeWidth="2"
+        fill="rgba(239, 68, 68, 0.1)"
+      />
+      <circle cx="18" cy="28" r="4" fill="currentColor" />
+      <path d="M18 24v-16" stroke="currentColor" strokeWidth="1" />
+    </svg>
+  ),
+  graduated_cylinder: (
+    <svg
+      width="36"
+      height="36"
+      viewBox="0 0 36 36"
+      fill="none"
+      className="text-green-600"
+    >
+      <rect
+        x="12"
+        y="6"
+        width="12"
+        height="24"
+        rx="1"
+        stroke="currentColor"
+        strokeWidth="2"
+        fill="rgba(34, 197, 94, 0.1)"
+      />
+      <path
+        d="M14 12h8M14 16h8M14 20h8M14 24h8"
+        stroke="currentColor"
+        strokeWidth="1"
+      />
+      <rect
+        x="10"
+        y="4"
+        width="16"
+        height="4"
+        rx="1"
+        stroke="currentColor"
+        strokeWidth="1"
+      />
+    </svg>
+  ),
+  water_bath: (
+    <svg
+      width="36"
+      height="36"
+      viewBox="0 0 36 36"
+      fill="none"
+      className="text-orange-600"
+    >
+      <rect
+        x="4"
+        y="12"
+        width="28"
+        height="16"
+        rx="2"
+        stroke="currentColor"
+        strokeWidth="2"
+        fill="rgba(249, 115, 22, 0.1)"
+      />
+      <path
+        d="M8 20c2-2 4-2 6 0s4 2 6 0s4-2 6 0s4 2 6 0"
+        stroke="currentColor"
+        strokeWidth="2"
+      />
+      <circle cx="18" cy="8" r="2" fill="rgba(249, 115, 22, 0.5)" />
+      <path d="M16 6l4 4" stroke="currentColor" strokeWidth="1" />
+    </svg>
+  ),
+  burette: (
+    <img
+      src="https://cdn.builder.io/api/v1/image/assets%2F5b489eed84cd44f89c5431dbe9fd14d3%2F2ad8cf1ef1394deabc2721f0caee85ef?format=webp&width=800"
+      alt="Burette"
+      className="w-9 h-9 object-contain rounded border-2 border-blue-400 shadow-sm bg-white"
+      style={{
+        filter: "brightness(1.0) contrast(1.0)",
+      }}
+    />
+  ),
+  conical_flask: (
+    <img
+      src="https://cdn.builder.io/api/v1/image/assets%2F5b489eed84cd44f89c5431dbe9fd14d3%2F18f408c6f29d4176ac4ae731a3650daa?format=webp&width=800"
+      alt="Conical Flask"
+      className="w-9 h-9 object-contain rounded border-2 border-blue-400 shadow-sm bg-white"
+      style={{
+        filter: "brightness(1.0) contrast(1.0)",
+      }}
+    />
+  ),
+  magnetic_stirrer: (
+    <svg
+      width="36"
+      height="36"
+      viewBox="0 0 36 36"
+      fill="none"
+      className="text-gray-600"
+    >
+      {/* Stirrer base */}
+      <rect
+        x="4"
+        y="20"
+        width="28"
+        height="12"
+        rx="2"
+        stroke="currentColor"
+        strokeWidth="2"
+        fill="rgba(107, 114, 128, 0.1)"
+      />
+      {/* Control knobs */}
+      <circle cx="10" cy="26" r="2" fill="currentColor" />
+      <circle cx="26" cy="26" r="2" fill="currentColor" />
+      {/* Stirring bar */}
+      <rect
+        x="14"
+        y="14"
+        width="8"
+        height="2"
+        rx="1"
+        fill="#ef4444"
+        className="animate-spin"
+        style={{ transformOrigin: "18px 15px" }}
+      />
+      {/* Base label */}
+      <text x="18" y="30" textAnchor="middle" fontSize="4" fill="currentColor">
+        STIRRER
+      </text>
+    </svg>
+  ),
+  ph_meter: (
+    <svg
+      width="36"
+      height="36"
+      viewBox="0 0 36 36"
+      fill="none"
+      className="text-teal-600"
+    >
+      {/* Meter body and display */}
+      <rect
+        x="3"
+        y="6"
+        width="18"
+        height="24"
+        rx="2"
+        stroke="currentColor"
+        strokeWidth="2"
+        fill="rgba(13, 148, 136, 0.1)"
+      />
+      <rect x="6" y="10" width="12" height="6" fill="currentColor" />
+      {/* Cable and glass electrode */}
+      <path d="M21 12c4 0 6 2 6 6" stroke="currentColor" strokeWidth="1" />
+      <rect
+        x="25"
+        y="18"
+        width="4"
+        height="12"
+        rx="2"
+        stroke="currentColor"
+        strokeWidth="1.5"
+      />
+    </svg>
+  ),
+  conductivity_meter: (
+    <svg
+      width="36"
+      height="36"
+      viewBox="0 0 36 36"
+      fill="none"
+      className="text-indigo-600"
+    >
+      {/* Meter body and display */}
+      <rect
+        x="3"
+        y="6"
+        width="18"
+        height="24"
+        rx="2"
+        stroke="currentColor"
+        strokeWidth="2"
+        fill="rgba(79, 70, 229, 0.1)"
+      />
+      <rect x="6" y="10" width="12" height="6" fill="currentColor" />
+      {/* Cable and dip cell with its two plates */}
+      <path d="M21 12c4 0 6 2 6 6" stroke="currentColor" strokeWidth="1" />
+      <rect
+        x="24"
+        y="18"
+        width="6"
+        height="12"
+        rx="1"
+        stroke="currentColor"
+        strokeWidth="1.5"
+      />
+      <line
+        x1="26"
+        y1="22"
+        x2="26"
+        y2="28"
+        stroke="currentColor"
+        strokeWidth="1"
+      />
+      <line
+        x1="28"
+        y1="22"
+        x2="28"
+        y2="28"
+        stroke="currentColor"
+        strokeWidth="1"
+      />
+    </svg>
+  ),
+  digital_thermometer: <Thermometer size={36} className="text-red-600" />,
+  test_tubes: <TestTube size={36} />,
+  beakers: <Beaker size={36} />,
+  hot_water_bath: <Thermometer size={36} />,
+  ice_bath: <FlaskConical size={36} />,
+};
+
+interface EquipmentIconProps {
+  name: string;
+}
+
+// Unknown names fall back to a plain flask
+export const EquipmentIcon: React.FC<EquipmentIconProps> = ({ name }) => (
+  <>{equipmentIcons[name] ?? <FlaskConical size={36} />}</>
+);
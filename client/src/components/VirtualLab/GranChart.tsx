@@ -0,0 +1,141 @@
+import React from "react";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  Scatter,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { GranAnalysis, GranBranch } from "@shared/chemistry/gran";
+
+interface GranChartProps {
+  analysis: GranAnalysis;
+}
+
+const chartConfig = {
+  before: { label: "Before equivalence", color: "#0d9488" },
+  after: { label: "After equivalence", color: "#ea580c" },
+} satisfies ChartConfig;
+
+// Fitted line drawn over its readings and extrapolated down to zero
+const lineData = (branch: GranBranch, key: "before" | "after") => {
+  const { fit, equivalenceVolume } = branch;
+  const ends = [
+    Math.min(fit.from, equivalenceVolume ?? fit.from),
+    Math.max(fit.to, equivalenceVolume ?? fit.to),
+  ];
+  return ends.map((volume) => ({
+    volume,
+    [key]: fit.intercept + fit.slope * volume,
+  }));
+};
+
+// Both Gran functions against volume, each scaled to its largest reading,
+// with their lines extrapolated to the volume axis
+export const GranChart: React.FC<GranChartProps> = ({ analysis }) => {
+  const { before, after, equivalenceVolume } = analysis;
+  return (
+    <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+      <ComposedChart margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="volume"
+          type="number"
+          domain={[0, "dataMax"]}
+          tickFormatter={(v: number) => v.toFixed(0)}
+          label={{
+            value: "Titrant added (mL)",
+            position: "insideBottom",
+            offset: -10,
+          }}
+        />
+        <YAxis
+          type="number"
+          domain={[0, 1.1]}
+          tickFormatter={(v: number) => v.toFixed(1)}
+          label={{
+            value: "Gran function (relative)",
+            angle: -90,
+            position: "insideLeft",
+          }}
+        />
+        {equivalenceVolume !== null && (
+          <ReferenceLine
+            x={equivalenceVolume}
+            stroke="#16a34a"
+            strokeDasharray="4 4"
+            label={{
+              value: `${equivalenceVolume.toFixed(2)} mL`,
+              position: "top",
+              fontSize: 10,
+            }}
+          />
+        )}
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                `${Number(payload?.[0]?.payload?.volume ?? 0).toFixed(2)} mL`
+              }
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {before && (
+          <>
+            <Scatter
+              data={before.points.map((p) => ({
+                volume: p.volume,
+                before: p.value,
+              }))}
+              dataKey="before"
+              fill="var(--color-before)"
+              isAnimationActive={false}
+            />
+            <Line
+              data={lineData(before, "before")}
+              dataKey="before"
+              stroke="var(--color-before)"
+              strokeWidth={2}
+              dot={false}
+              legendType="none"
+              isAnimationActive={false}
+            />
+          </>
+        )}
+        {after && (
+          <>
+            <Scatter
+              data={after.points.map((p) => ({
+                volume: p.volume,
+                after: p.value,
+              }))}
+              dataKey="after"
+              fill="var(--color-after)"
+              isAnimationActive={false}
+            />
+            <Line
+              data={lineData(after, "after")}
+              dataKey="after"
+              stroke="var(--color-after)"
+              strokeWidth={2}
+              dot={false}
+              legendType="none"
+              isAnimationActive={false}
+            />
+          </>
+        )}
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
@@ -1,7 +1,9 @@
 import React from "react";
+import type { SpeciesConcentration } from "@shared/chemistry/equilibrium";
 
 interface MeasurementsData {
   ph: number;
+  poh: number;
   volume: number;
   molarity: number;
   temperature: number;
@@ -9,6 +11,7 @@ interface MeasurementsData {
 
 interface MeasurementsPanelProps {
   measurements: MeasurementsData;
+  species?: SpeciesConcentration[];
   onCalculateEndpoint: () => void;
   onReset: () => void;
   isVisible: boolean;
@@ -16,6 +19,7 @@ interface MeasurementsPanelProps {
 
 export const MeasurementsPanel: React.FC<MeasurementsPanelProps> = ({
   measurements,
+  species = [],
   onCalculateEndpoint,
   onReset,
   isVisible,
@@ -48,6 +52,9 @@ export const MeasurementsPanel: React.FC<MeasurementsPanelProps> = ({
               {measurements.ph.toFixed(2)}
             </div>
             <div className="text-gray-300 text-sm">{phStatus}</div>
+            <div className="text-gray-400 text-xs">
+              pOH {measurements.poh.toFixed(2)}
+            </div>
           </div>
 
           {/* Volume */}
@@ -69,6 +76,19 @@ export const MeasurementsPanel: React.FC<MeasurementsPanelProps> = ({
           </div>
         </div>
 
+        {/* Major ionic species from the equilibrium solver */}
+        {species.length > 0 && (
+          <div className="text-xs text-gray-300 font-mono space-y-0.5">
+            {species
+              .filter((s) => s.concentration >= 1e-6)
+              .map((s) => (
+                <div key={s.label}>
+                  [{s.label}] = {s.concentration.toExponential(2)} M
+                </div>
+              ))}
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex items-center space-x-2">
           <button
@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronUp, Gauge } from "lucide-react";
+import {
+  CALIBRATION_BUFFERS,
+  calibrate,
+  calibrationProblem,
+  slopeEfficiency,
+  type Calibration,
+} from "@shared/chemistry/phMeter";
+
+interface PhMeterPanelProps {
+  calibration: Calibration;
+  // Electrode potential in a buffer of this pH, as the meter shows it in
+  // mV mode
+  readBuffer: (pH: number) => number;
+  onCalibrate: (calibration: Calibration) => void;
+}
+
+export const PhMeterPanel: React.FC<PhMeterPanelProps> = ({
+  calibration,
+  readBuffer,
+  onCalibrate,
+}) => {
+  const [collapsed, setCollapsed] = useState(false);
+  // Buffer readings taken since the last calibration, keyed by buffer id
+  const [readings, setReadings] = useState<Record<string, number>>({});
+
+  const points = CALIBRATION_BUFFERS.filter(
+    (buffer) => readings[buffer.id] !== undefined,
+  ).map((buffer) => ({ pH: buffer.pH, millivolts: readings[buffer.id] }));
+  const problem = calibrationProblem(calibration);
+
+  const handleCalibrate = () => {
+    const result = calibrate(points);
+    if (!result) return;
+    onCalibrate(result);
+    setReadings({});
+  };
+
+  return (
+    <div className="bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 p-3 w-72">
+      <button
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full flex items-center justify-between"
+      >
+        <h4 className="text-sm font-semibold text-gray-800 flex items-center">
+          <Gauge size={14} className="mr-2 text-teal-600" />
+          pH Meter Calibration
+        </h4>
+        {collapsed ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+      </button>
+
+      {!collapsed && (
+        <div className="mt-3 space-y-3 text-xs">
+          {/* 1. Electrode in each buffer, rinsed in between */}
+          <div className="space-y-1">
+            {CALIBRATION_BUFFERS.map((buffer) => (
+              <div key={buffer.id} className="flex items-center space-x-1">
+                <button
+                  onClick={() =>
+                    setReadings((prev) => ({
+                      ...prev,
+                      [buffer.id]: readBuffer(buffer.pH),
+                    }))
+                  }
+                  className="flex-1 px-2 py-1 rounded bg-teal-500 hover:bg-teal-600 text-white font-medium text-left"
+                >
+                  {buffer.name}
+                </button>
+                <div className="bg-black text-green-400 font-mono text-sm px-2 py-1 rounded w-24 text-right">
+                  {readings[buffer.id] !== undefined
+                    ? `${readings[buffer.id].toFixed(1)} mV`
+                    : "--- mV"}
+                </div>
+              </div>
+            ))}
+            <p className="text-gray-500">
+              Rinse the electrode with distilled water and blot it dry between
+              buffers.
+            </p>
+          </div>
+
+          {/* 2. Fit slope and offset */}
+          <button
+            onClick={handleCalibrate}
+            disabled={points.length < 2}
+            className="w-full px-2 py-1 rounded bg-green-600 hover:bg-green-700 text-white font-medium disabled:opacity-50"
+          >
+            Calibrate with {points.length} buffer
+            {points.length === 1 ? "" : "s"}
+          </button>
+
+          <div className="text-gray-700 space-y-0.5">
+            <div>
+              Slope: {calibration.slope.toFixed(2)} mV/pH (
+              {slopeEfficiency(calibration).toFixed(1)}%)
+            </div>
+            <div>Offset: {calibration.offset.toFixed(1)} mV at pH 7</div>
+            <div>
+              {calibration.calibratedAt !== null
+                ? `Calibrated at ${new Date(calibration.calibratedAt).toLocaleTimeString()} with ${calibration.points.length} buffers - recalibrate if it drifts`
+                : "Factory settings"}
+            </div>
+          </div>
+          {problem && <p className="text-amber-700">{problem}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
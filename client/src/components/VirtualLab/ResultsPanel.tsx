@@ -12,7 +12,41 @@ import {
   BarChart3,
   Plus,
   Edit3,
+  TrendingUp,
 } from "lucide-react";
+import {
+  indicatorsAtEquivalence,
+  interpolatePH,
+  type DerivativeAnalysis,
+  type TitrationAnalysis,
+  type TitrationPoint,
+} from "@shared/chemistry/titration";
+import { hardnessAsCaCO3 } from "@shared/chemistry/complexometry";
+import { conductometricAnalysis } from "@shared/chemistry/conductivity";
+import { granAnalysis } from "@shared/chemistry/gran";
+import { thermometricAnalysis } from "@shared/chemistry/thermal";
+import {
+  formatMeasurement,
+  meanMeasurement,
+  pipetteTolerance,
+  productUncertainty,
+  sampleStandardDeviation,
+  titreUncertainty,
+  type Measurement,
+} from "@shared/chemistry/uncertainty";
+import { selectTrials, type OutlierTest } from "@shared/chemistry/trials";
+import {
+  diagnoseRun,
+  type Finding,
+  type RunRecord,
+} from "@shared/chemistry/procedure";
+import type { BuretteReadings } from "@shared/chemistry/burette";
+import type { GradedUnknownSample, UnknownSampleView } from "@shared/schema";
+import { TitrationCurveChart } from "./TitrationCurveChart";
+import { DerivativeChart } from "./DerivativeChart";
+import { ConductivityChart } from "./ConductivityChart";
+import { GranChart } from "./GranChart";
+import { ThermometricChart } from "./ThermometricChart";
 
 interface Result {
   id: string;
@@ -29,14 +63,42 @@ interface Result {
     reaction?: string;
     yield?: number;
     ph?: number;
+    // One entry per equivalence point for polyprotic analytes
+    equivalencePoints?: Array<{
+      volume: number;
+      ph: number;
+      indicator?: string;
+    }>;
     balancedEquation?: string;
     reactionType?: string;
     products?: string[];
     mechanism?: string[];
+    redox?: {
+      halfReactions: string[];
+      equivalencePotential: number; // V vs SHE
+      equivalenceVolume?: number; // mL
+      potential?: number; // V
+      logK: number;
+    };
+    complexation?: {
+      pH: number;
+      constants: Array<{
+        metal: string;
+        logKf: number;
+        logKConditional: number;
+      }>;
+      hardness?: number; // mg/L as CaCO₃
+    };
+    precipitation?: {
+      method: string;
+      salts: Array<{ formula: string; ksp: number }>;
+      chloride?: number; // mg/L of Cl⁻
+    };
     thermodynamics?: {
       deltaH?: number;
       deltaG?: number;
-      equilibriumConstant?: number;
+      logK?: number; // log₁₀ K
+      heatReleased?: number; // J, negative when heat is taken in
     };
   };
 }
@@ -48,32 +110,154 @@ interface TitrationTrial {
   volumeUsed: number;
   colorChange: string;
   endpoint: boolean;
+  // Rough trials only locate the endpoint and stay out of the mean
+  rough: boolean;
+  // Technique mistakes behind the titre
+  findings: Finding[];
+}
+
+// Reagents behind the trial titres, for the concentration calculation
+interface TitrationSetup {
+  titrantName: string;
+  titrantMolarity: number;
+  // mol/L, from the standardization; a label value is taken as exact
+  titrantUncertainty?: number;
+  // False while the titrant is still at its nominal, unverified label value
+  titrantStandardized?: boolean;
+  analyteName: string;
+  aliquotVolume: number; // mL
+  // Mol of analyte per mol of titrant; 1 unless the electrons differ
+  moleRatio?: number;
 }
 
 interface ResultsPanelProps {
   results: Result[];
   onClear: () => void;
-  onTrialAdded?: () => void;
+  onTrialAdded?: (count: number) => void; // trials recorded so far
+  titration?: TitrationAnalysis | null;
+  // Derivative plots of the recorded readings, once the endpoint is
+  // calculated from them
+  endpointAnalysis?: DerivativeAnalysis | null;
+  // mL in the flask before any titrant, to correct conductivity readings
+  // for dilution
+  sampleVolume?: number;
+  onPkaEstimated?: (pKa: number) => void;
+  // Readings taken off the burette meniscus for the next trial
+  buretteReadings?: BuretteReadings;
+  // How the burette was handled between those readings
+  lastRun?: RunRecord | null;
+  titrationSetup?: TitrationSetup;
+  // Unknown sample being analysed and, once submitted, its graded result
+  unknownSample?: UnknownSampleView | null;
+  gradedUnknown?: GradedUnknownSample | null;
+  onSubmitUnknown?: (concentration: number) => void;
+  onNewUnknown?: () => void;
 }
 
 export const ResultsPanel: React.FC<ResultsPanelProps> = ({
   results,
   onClear,
   onTrialAdded,
+  titration,
+  endpointAnalysis,
+  sampleVolume = 0,
+  onPkaEstimated,
+  buretteReadings = { initial: null, final: null },
+  lastRun = null,
+  titrationSetup = {
+    titrantName: "NaOH",
+    titrantMolarity: 0.1,
+    analyteName: "HCl",
+    aliquotVolume: 25.0,
+  },
+  unknownSample,
+  gradedUnknown,
+  onSubmitUnknown,
+  onNewUnknown,
 }) => {
+  const [pkaEstimate, setPkaEstimate] = useState("");
+  const [pkaChecked, setPkaChecked] = useState(false);
   const [titrationTrials, setTitrationTrials] = useState<TitrationTrial[]>([]);
   const [isAddingTrial, setIsAddingTrial] = useState(false);
   const [newTrial, setNewTrial] = useState({
-    initialReading: "",
-    finalReading: "",
     colorChange: "Colorless to light pink",
     endpoint: true,
+    rough: false,
   });
 
+  // Redox curves follow the electrode potential, EDTA curves the free metal
+  // ion and silver curves the free Ag⁺ instead of the pH
+  const measure = titration?.measure ?? "pH";
+  const titrationKind = {
+    pH: "Acid-Base",
+    potential: "Redox",
+    pM: "Complexometric",
+    pAg: "Precipitation",
+  }[measure];
+  const measureSymbol = { pH: "pH", potential: "E", pM: "pM", pAg: "pAg" }[
+    measure
+  ];
+  // Two-line fit of the conductivity readings, when the cell was in the flask
+  const conductometric = titration
+    ? conductometricAnalysis(titration.recorded, sampleVolume)
+    : null;
+  // Linearized pH readings, extrapolated to the equivalence volume
+  const gran =
+    titration && measure === "pH"
+      ? granAnalysis(
+          titration.recorded,
+          sampleVolume,
+          titration.bufferRegions.length > 0,
+        )
+      : null;
+  // Temperature turning point, when the thermometer was in the flask
+  const thermometric = titration
+    ? thermometricAnalysis(titration.recorded)
+    : null;
+  const describePoint = (point: TitrationPoint) =>
+    measure === "potential"
+      ? `E ${(point.potential ?? 0).toFixed(3)} V`
+      : measure === "pM"
+        ? `pM ${(point.pM ?? 0).toFixed(2)}`
+        : measure === "pAg"
+          ? `pAg ${(point.pAg ?? 0).toFixed(2)}`
+          : `pH ${point.pH.toFixed(2)}`;
+  const describeOutlierTest = (symbol: string, test: OutlierTest | null) =>
+    test
+      ? `${symbol} = ${test.statistic.toFixed(3)} vs ${test.critical} (trial ${titrationTrials[test.suspect].trial} ${test.reject ? "rejected" : "kept"})`
+      : "-";
+
+  // pKa is read off the student's own curve at the first half-equivalence
+  const halfEquivalence = titration?.halfEquivalencePoints[0];
+  const measuredHalfPH = halfEquivalence
+    ? interpolatePH(titration!.recorded, halfEquivalence.volume)
+    : null;
+  const pkaAccepted =
+    measuredHalfPH !== null &&
+    Math.abs(parseFloat(pkaEstimate) - measuredHalfPH) <= 0.2;
+
+  const handleCheckPka = () => {
+    setPkaChecked(true);
+    if (pkaAccepted && onPkaEstimated) {
+      onPkaEstimated(parseFloat(pkaEstimate));
+    }
+  };
+
+  // Trials come from the readings taken off the burette, once per pair
+  const { initial, final } = buretteReadings;
+  const lastTrial = titrationTrials[titrationTrials.length - 1];
+  const readingsReady =
+    initial !== null &&
+    final !== null &&
+    final > initial &&
+    !(
+      lastTrial &&
+      lastTrial.initialReading === initial &&
+      lastTrial.finalReading === final
+    );
+
   const handleAddTrial = () => {
-    if (newTrial.initialReading && newTrial.finalReading) {
-      const initial = parseFloat(newTrial.initialReading);
-      const final = parseFloat(newTrial.finalReading);
+    if (readingsReady) {
       const volumeUsed = final - initial;
 
       const trial: TitrationTrial = {
@@ -83,21 +267,16 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
         volumeUsed: volumeUsed,
         colorChange: newTrial.colorChange,
         endpoint: newTrial.endpoint,
+        rough: newTrial.rough,
+        findings: lastRun ? diagnoseRun(lastRun) : [],
       };
 
-      setTitrationTrials((prev) => {
-        const newTrials = [...prev, trial];
-        // If this is the first trial being added, trigger step 6 completion
-        if (newTrials.length === 1 && onTrialAdded) {
-          onTrialAdded();
-        }
-        return newTrials;
-      });
+      setTitrationTrials((prev) => [...prev, trial]);
+      onTrialAdded?.(titrationTrials.length + 1);
       setNewTrial({
-        initialReading: "",
-        finalReading: "",
         colorChange: "Colorless to light pink",
         endpoint: true,
+        rough: false,
       });
       setIsAddingTrial(false);
     }
@@ -107,42 +286,99 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
     setTitrationTrials([]);
   };
 
+  const handleToggleRough = (trialNumber: number) => {
+    setTitrationTrials((prev) =>
+      prev.map((trial) =>
+        trial.trial === trialNumber ? { ...trial, rough: !trial.rough } : trial,
+      ),
+    );
+  };
+
+  // Rough trials, missed endpoints, outliers and titres outside the
+  // concordant set are left out of the mean
+  const selection = selectTrials(
+    titrationTrials.map((trial) => ({
+      volume: trial.volumeUsed,
+      rough: trial.rough,
+      endpoint: trial.endpoint,
+    })),
+  );
+
   // Calculate statistics from titration data
   const calculateTitrationStats = () => {
-    if (titrationTrials.length === 0) {
+    if (selection.used.length === 0) {
       return {
         average: "0.00",
+        titreVolume: null,
         standardDeviation: "0.000",
         rsd: "0.00",
-        hclMolarity: "0.0000",
+        analyteMolarity: "0.0000",
+        analyteResult: "-",
+        hardness: "0",
+        budget: [],
         precision: "No data",
       };
     }
 
-    const volumes = titrationTrials.map((trial) => trial.volumeUsed);
-    const average = volumes.reduce((sum, vol) => sum + vol, 0) / volumes.length;
-
-    // Calculate standard deviation
-    const variance =
-      volumes.reduce((sum, vol) => sum + Math.pow(vol - average, 2), 0) /
-      volumes.length;
-    const standardDeviation = Math.sqrt(variance);
+    const volumes = selection.used.map((i) => titrationTrials[i].volumeUsed);
+    // Every titre is two burette readings; repeats add their scatter
+    const titre = meanMeasurement(volumes, titreUncertainty());
+    const average = titre.value;
+    const standardDeviation = sampleStandardDeviation(volumes);
 
     // Calculate relative standard deviation (RSD)
     const rsd = (standardDeviation / average) * 100;
 
-    // Calculate concentration of HCl (assuming 0.1 M NaOH)
-    const naohMolarity = 0.1; // M
-    const hclVolume = 25.0; // mL (assumed)
-    const hclMolarity = (naohMolarity * average) / hclVolume;
+    // Analyte concentration from the mean titre and the mole ratio, with the
+    // burette, pipette and titrant uncertainties carried through
+    const {
+      titrantMolarity,
+      titrantUncertainty = 0,
+      aliquotVolume,
+      moleRatio = 1,
+    } = titrationSetup;
+    const analyteMolarity =
+      (titrantMolarity * average * moleRatio) / aliquotVolume;
+    const factors: Array<Measurement & { source: string }> = [
+      { source: "Titre (burette)", ...titre },
+      {
+        source: "Aliquot (class A pipette)",
+        value: aliquotVolume,
+        uncertainty: pipetteTolerance(aliquotVolume),
+      },
+      {
+        source: `${titrationSetup.titrantName} molarity`,
+        value: titrantMolarity,
+        uncertainty: titrantUncertainty,
+      },
+    ];
+    const analyte: Measurement = {
+      value: analyteMolarity,
+      uncertainty: productUncertainty(analyteMolarity, factors),
+    };
+    const hardness = hardnessAsCaCO3(analyteMolarity);
 
     return {
-      average: average.toFixed(2),
+      average: formatMeasurement(titre),
+      titreVolume: average,
       standardDeviation: standardDeviation.toFixed(3),
       rsd: isNaN(rsd) ? "0.00" : rsd.toFixed(2),
-      hclMolarity: hclMolarity.toFixed(4),
-      precision:
-        rsd < 1
+      analyteMolarity: analyteMolarity.toFixed(4),
+      analyteResult: formatMeasurement(analyte),
+      hardness: formatMeasurement({
+        value: hardness,
+        uncertainty: productUncertainty(hardness, factors),
+      }),
+      // Relative contribution of each source, largest first
+      budget: factors
+        .map(({ source, value, uncertainty }) => ({
+          source,
+          relative: value !== 0 ? (uncertainty / value) * 100 : 0,
+        }))
+        .sort((a, b) => b.relative - a.relative),
+      precision: !selection.concordant
+        ? "Not concordant"
+        : rsd < 1
           ? "Excellent"
           : rsd < 2
             ? "Good"
@@ -153,6 +389,19 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
   };
 
   const stats = calculateTitrationStats();
+  // Until an unknown is graded its diagnosis stays qualitative, or the
+  // corrections would give the answer away
+  const answerHidden = !!unknownSample && !gradedUnknown;
+
+  // The same endpoint found each way, for comparing the methods
+  const endpointMethods: Array<{ method: string; volume: number | null }> = [
+    { method: "Indicator (mean titre)", volume: stats.titreVolume },
+    {
+      method: "Derivative plot",
+      volume: endpointAnalysis?.equivalenceVolume ?? null,
+    },
+    { method: "Gran plot", volume: gran?.equivalenceVolume ?? null },
+  ];
 
   const getIcon = (type: Result["type"]) => {
     switch (type) {
@@ -261,6 +510,30 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
           )}
         </div>
 
+        {/* Equivalence Points */}
+        {calc.equivalencePoints && calc.equivalencePoints.length > 0 && (
+          <div className="mt-3 bg-green-50 border border-green-200 rounded p-2">
+            <span className="text-xs font-medium text-green-900 block mb-1">
+              Equivalence Points
+            </span>
+            <ul className="text-xs text-green-800 space-y-1">
+              {calc.equivalencePoints.map((point, idx) => (
+                <li key={idx} className="flex justify-between">
+                  <span>
+                    EP{idx + 1}: {point.volume.toFixed(2)} mL at pH{" "}
+                    {point.ph.toFixed(2)}
+                  </span>
+                  <span className="font-medium">
+                    {point.indicator
+                      ? `${point.indicator} changes here`
+                      : "no indicator in flask changes here"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Chemical Reaction Details */}
         {calc.balancedEquation && (
           <div className="mt-3 space-y-3">
@@ -309,6 +582,92 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
               </div>
             )}
 
+            {/* Redox half-reactions and electrode potentials */}
+            {calc.redox && (
+              <div className="bg-rose-50 border border-rose-200 rounded p-2">
+                <div className="flex items-center space-x-2 mb-1">
+                  <Zap className="text-rose-600" size={14} />
+                  <span className="text-xs font-medium text-rose-900">
+                    Half-Reactions
+                  </span>
+                </div>
+                <ul className="text-xs text-rose-800 space-y-1 font-mono">
+                  {calc.redox.halfReactions.map((half, idx) => (
+                    <li key={idx}>{half}</li>
+                  ))}
+                </ul>
+                <div className="mt-2 grid grid-cols-2 gap-1 text-xs text-rose-900">
+                  <span>
+                    E at equivalence:{" "}
+                    {calc.redox.equivalencePotential.toFixed(3)} V
+                    {calc.redox.equivalenceVolume !== undefined &&
+                      ` (${calc.redox.equivalenceVolume.toFixed(2)} mL)`}
+                  </span>
+                  <span>log K: {calc.redox.logK.toFixed(1)}</span>
+                  {calc.redox.potential !== undefined && (
+                    <span>
+                      Electrode now: {calc.redox.potential.toFixed(3)} V
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* EDTA conditional constants and hardness */}
+            {calc.complexation && (
+              <div className="bg-sky-50 border border-sky-200 rounded p-2">
+                <div className="flex items-center space-x-2 mb-1">
+                  <Atom className="text-sky-600" size={14} />
+                  <span className="text-xs font-medium text-sky-900">
+                    Conditional Constants at pH{" "}
+                    {calc.complexation.pH.toFixed(2)}
+                  </span>
+                </div>
+                <ul className="text-xs text-sky-800 space-y-1 font-mono">
+                  {calc.complexation.constants.map((constant) => (
+                    <li key={constant.metal}>
+                      {`${constant.metal}: log Kf ${constant.logKf.toFixed(2)} → log K' ${constant.logKConditional.toFixed(2)}`}
+                    </li>
+                  ))}
+                </ul>
+                {calc.complexation.hardness !== undefined && (
+                  <div className="mt-2 text-xs font-medium text-sky-900">
+                    {`Total hardness: ${calc.complexation.hardness.toFixed(0)} mg/L CaCO₃`}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Silver salts and the chloride found */}
+            {calc.precipitation && (
+              <div className="bg-stone-50 border border-stone-200 rounded p-2">
+                <div className="flex items-center space-x-2 mb-1">
+                  <Atom className="text-stone-600" size={14} />
+                  <span className="text-xs font-medium text-stone-900">
+                    {calc.precipitation.method} Method - Precipitates
+                  </span>
+                </div>
+                {calc.precipitation.salts.length > 0 ? (
+                  <ul className="text-xs text-stone-800 space-y-1 font-mono">
+                    {calc.precipitation.salts.map((salt) => (
+                      <li key={salt.formula}>
+                        {`${salt.formula}(s): Ksp ${salt.ksp.toExponential(1)}`}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-stone-700">
+                    Nothing has precipitated yet.
+                  </p>
+                )}
+                {calc.precipitation.chloride !== undefined && (
+                  <div className="mt-2 text-xs font-medium text-stone-900">
+                    {`Chloride: ${calc.precipitation.chloride.toFixed(0)} mg/L Cl⁻`}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Reaction Mechanism */}
             {calc.mechanism && calc.mechanism.length > 0 && (
               <div className="bg-indigo-100 border border-indigo-200 rounded p-2">
@@ -381,15 +740,26 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
                       </span>
                     </div>
                   )}
-                  {calc.thermodynamics.equilibriumConstant && (
+                  {calc.thermodynamics.logK !== undefined && (
                     <div className="flex justify-between">
                       <span className="text-gray-600">
-                        Equilibrium Constant (K):
+                        Equilibrium Constant (log K):
                       </span>
                       <span className="font-medium text-purple-600">
-                        {calc.thermodynamics.equilibriumConstant.toExponential(
-                          2,
-                        )}
+                        {calc.thermodynamics.logK.toFixed(2)}
+                      </span>
+                    </div>
+                  )}
+                  {calc.thermodynamics.heatReleased !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">
+                        {calc.thermodynamics.heatReleased < 0
+                          ? "Heat Absorbed:"
+                          : "Heat Released:"}
+                      </span>
+                      <span className="font-medium text-orange-700">
+                        {Math.abs(calc.thermodynamics.heatReleased).toFixed(1)}{" "}
+                        J
                       </span>
                     </div>
                   )}
@@ -455,13 +825,265 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
         </button>
       </div>
 
+      {/* Titration Curve */}
+      {titration && (
+        <div className="p-4 border-b">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center space-x-2">
+              <TrendingUp className="text-purple-600" size={20} />
+              <h4 className="font-semibold text-purple-900">Titration Curve</h4>
+            </div>
+            <span className="text-xs text-gray-500">
+              {titration.recorded.length} readings recorded
+            </span>
+          </div>
+
+          <TitrationCurveChart analysis={titration} />
+
+          {endpointAnalysis && (
+            <div className="mt-3">
+              <h5 className="text-sm font-medium text-purple-900 mb-1">
+                Derivative Plots
+              </h5>
+              <DerivativeChart
+                analysis={endpointAnalysis}
+                label={measureSymbol}
+              />
+            </div>
+          )}
+
+          {gran && (
+            <div className="mt-3">
+              <h5 className="text-sm font-medium text-purple-900 mb-1">
+                Gran Plot
+              </h5>
+              <GranChart analysis={gran} />
+              <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+                {(
+                  [
+                    ["Before equivalence", gran.before],
+                    ["After equivalence", gran.after],
+                  ] as const
+                ).map(([label, branch]) => (
+                  <div
+                    key={label}
+                    className="bg-teal-50 border border-teal-200 rounded p-2 text-teal-800"
+                  >
+                    <div className="font-medium text-teal-900">{label}</div>
+                    {branch ? (
+                      <>
+                        <div>
+                          {branch.fit.from.toFixed(2)}–
+                          {branch.fit.to.toFixed(2)} mL, R² ={" "}
+                          {branch.fit.rSquared.toFixed(4)}
+                        </div>
+                        <div>
+                          Reaches zero at{" "}
+                          {branch.equivalenceVolume !== null
+                            ? `${branch.equivalenceVolume.toFixed(2)} mL`
+                            : "-"}
+                        </div>
+                      </>
+                    ) : (
+                      <div>Too few readings in this region</div>
+                    )}
+                  </div>
+                ))}
+                <div className="bg-green-50 border border-green-200 rounded p-2 text-green-800">
+                  <div className="font-medium text-green-900">
+                    Endpoint comparison
+                  </div>
+                  {endpointMethods.map(({ method, volume }) => (
+                    <div key={method} className="flex justify-between">
+                      <span>{method}</span>
+                      <span className="font-mono">
+                        {volume !== null ? `${volume.toFixed(2)} mL` : "-"}
+                      </span>
+                    </div>
+                  ))}
+                  {gran.pKa !== null && (
+                    <div>pKa from the Gran slope: {gran.pKa.toFixed(2)}</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {conductometric && (
+            <div className="mt-3">
+              <h5 className="text-sm font-medium text-purple-900 mb-1">
+                Conductometric Plot
+              </h5>
+              <ConductivityChart analysis={conductometric} />
+              <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+                {(
+                  [
+                    ["Before endpoint", conductometric.before],
+                    ["After endpoint", conductometric.after],
+                  ] as const
+                ).map(([label, fit]) => (
+                  <div
+                    key={label}
+                    className="bg-indigo-50 border border-indigo-200 rounded p-2 text-indigo-800"
+                  >
+                    <div className="font-medium text-indigo-900">{label}</div>
+                    <div>
+                      κ = {fit.slope.toFixed(4)}·V{" "}
+                      {fit.intercept < 0 ? "−" : "+"}{" "}
+                      {Math.abs(fit.intercept).toFixed(3)} mS/cm
+                    </div>
+                    <div>
+                      {fit.from.toFixed(2)}–{fit.to.toFixed(2)} mL, R² ={" "}
+                      {fit.rSquared.toFixed(4)}
+                    </div>
+                  </div>
+                ))}
+                <div className="bg-green-50 border border-green-200 rounded p-2 text-green-800">
+                  <div className="font-medium text-green-900">Intersection</div>
+                  {conductometric.equivalenceVolume !== null ? (
+                    <>
+                      <div>
+                        {conductometric.equivalenceVolume.toFixed(2)} mL of{" "}
+                        {titrationSetup.titrantName}
+                      </div>
+                      {titrationSetup.aliquotVolume > 0 && (
+                        <div>
+                          {titrationSetup.analyteName}:{" "}
+                          {(
+                            (titrationSetup.titrantMolarity *
+                              conductometric.equivalenceVolume *
+                              (titrationSetup.moleRatio ?? 1)) /
+                            titrationSetup.aliquotVolume
+                          ).toFixed(4)}{" "}
+                          M
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <div>The lines do not cross within the readings</div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {thermometric && (
+            <div className="mt-3">
+              <h5 className="text-sm font-medium text-purple-900 mb-1">
+                Thermometric Plot
+              </h5>
+              <ThermometricChart analysis={thermometric} />
+              <p className="mt-1 text-xs text-gray-700">
+                {thermometric.endpointVolume !== null
+                  ? `Temperature ${thermometric.change > 0 ? "maximum" : "minimum"} at ${thermometric.endpointVolume.toFixed(2)} mL, ${thermometric.change > 0 ? "+" : ""}${thermometric.change.toFixed(2)} °C from the first reading - past it the titrant only dilutes and cools the flask.`
+                  : "No temperature turning point yet - keep adding titrant past the endpoint."}
+              </p>
+            </div>
+          )}
+
+          <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3 text-xs">
+            <div className="bg-green-50 border border-green-200 rounded p-2">
+              <span className="font-medium text-green-900">
+                Equivalence point
+                {titration.equivalencePoints.length === 1 ? "" : "s"}:
+              </span>
+              {titration.equivalencePoints.length === 0 ? (
+                <span className="text-green-800 ml-1">not within 50 mL</span>
+              ) : (
+                titration.equivalencePoints.map((point, idx) => (
+                  <div key={idx} className="text-green-800">
+                    EP{idx + 1}: {point.volume.toFixed(2)} mL (
+                    {describePoint(point)})
+                    {measure === "pH" &&
+                      ` – ${
+                        indicatorsAtEquivalence(titration.theoretical, point)
+                          .map((indicator) => indicator.name)
+                          .join(" or ") || "no common indicator"
+                      }`}
+                  </div>
+                ))
+              )}
+            </div>
+            {measure === "pH" && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded p-2">
+                <span className="font-medium text-yellow-900">
+                  Buffer region:
+                </span>
+                {titration.bufferRegions.length === 0 ? (
+                  <span className="text-yellow-800 ml-1">
+                    none (strong acid / strong base)
+                  </span>
+                ) : (
+                  titration.bufferRegions.map((region) => (
+                    <span key={region.pKa} className="text-yellow-800 ml-1">
+                      {region.start.toFixed(1)}–{region.end.toFixed(1)} mL
+                      around pKa {region.pKa.toFixed(2)}
+                    </span>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+
+          {halfEquivalence && (
+            <div className="mt-3 bg-amber-50 border border-amber-200 rounded p-3 text-xs">
+              <div className="font-medium text-amber-900 mb-1">
+                Estimate pKa from your curve
+              </div>
+              <p className="text-amber-800 mb-2">
+                At half-equivalence ({halfEquivalence.volume.toFixed(2)} mL)
+                half of the weak species has been neutralized, so pH = pKa of
+                the weak acid (for a weak base, pH = pKa of its conjugate
+                acid).
+              </p>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  value={pkaEstimate}
+                  onChange={(e) => {
+                    setPkaEstimate(e.target.value);
+                    setPkaChecked(false);
+                  }}
+                  placeholder="pKa"
+                  className="w-24 px-2 py-1 border border-amber-300 rounded"
+                />
+                <button
+                  onClick={handleCheckPka}
+                  disabled={!pkaEstimate || measuredHalfPH === null}
+                  className="px-3 py-1 bg-amber-500 hover:bg-amber-600 disabled:bg-gray-300 text-white rounded font-medium transition-colors"
+                >
+                  Check
+                </button>
+                {measuredHalfPH === null && (
+                  <span className="text-amber-700">
+                    Titrate past {halfEquivalence.volume.toFixed(2)} mL first
+                  </span>
+                )}
+              </div>
+              {pkaChecked && measuredHalfPH !== null && (
+                <div
+                  className={`mt-2 ${pkaAccepted ? "text-green-700" : "text-red-700"}`}
+                >
+                  Your curve reads pH {measuredHalfPH.toFixed(2)} at
+                  half-equivalence.{" "}
+                  {pkaAccepted
+                    ? "Estimate accepted."
+                    : "Re-read the pH at the half-equivalence volume."}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Titration Data Table */}
       <div className="p-4 bg-gradient-to-r from-blue-50 to-indigo-50 border-b">
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center space-x-2">
             <BarChart3 className="text-blue-600" size={20} />
             <h4 className="font-semibold text-blue-900">
-              Acid-Base Titration Results
+              {titrationKind} Titration Results
             </h4>
           </div>
           <div className="flex space-x-2">
@@ -490,42 +1112,22 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
               <Edit3 className="text-blue-600 mr-2" size={16} />
               Add New Trial Data
             </h5>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
               <div>
                 <label className="block text-xs font-medium text-gray-700 mb-1">
                   Initial Reading (mL)
                 </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={newTrial.initialReading}
-                  onChange={(e) =>
-                    setNewTrial((prev) => ({
-                      ...prev,
-                      initialReading: e.target.value,
-                    }))
-                  }
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="0.00"
-                />
+                <div className="w-full px-3 py-2 border border-gray-200 bg-gray-50 rounded-md text-sm font-mono">
+                  {initial !== null ? initial.toFixed(2) : "-"}
+                </div>
               </div>
               <div>
                 <label className="block text-xs font-medium text-gray-700 mb-1">
                   Final Reading (mL)
                 </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={newTrial.finalReading}
-                  onChange={(e) =>
-                    setNewTrial((prev) => ({
-                      ...prev,
-                      finalReading: e.target.value,
-                    }))
-                  }
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="23.50"
-                />
+                <div className="w-full px-3 py-2 border border-gray-200 bg-gray-50 rounded-md text-sm font-mono">
+                  {final !== null ? final.toFixed(2) : "-"}
+                </div>
               </div>
               <div>
                 <label className="block text-xs font-medium text-gray-700 mb-1">
@@ -569,11 +1171,36 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
                   <option value="false">No</option>
                 </select>
               </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  Trial Type
+                </label>
+                <select
+                  value={newTrial.rough ? "rough" : "accurate"}
+                  onChange={(e) =>
+                    setNewTrial((prev) => ({
+                      ...prev,
+                      rough: e.target.value === "rough",
+                    }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="accurate">Accurate</option>
+                  <option value="rough">Rough</option>
+                </select>
+              </div>
             </div>
+            {!readingsReady && (
+              <p className="text-xs text-gray-500 mt-2">
+                Read the meniscus on the burette and record the initial and
+                final readings there before adding the trial.
+              </p>
+            )}
             <div className="flex space-x-2 mt-3">
               <button
                 onClick={handleAddTrial}
-                className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg text-sm font-medium transition-colors"
+                disabled={!readingsReady}
+                className="px-4 py-2 bg-green-500 hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors"
               >
                 Add Trial
               </button>
@@ -611,13 +1238,16 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
                   <th className="px-4 py-3 text-left font-medium text-gray-900">
                     Endpoint
                   </th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-900">
+                    In Mean
+                  </th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
                 {titrationTrials.length === 0 ? (
                   <tr>
                     <td
-                      colSpan={6}
+                      colSpan={7}
                       className="px-4 py-8 text-center text-gray-500"
                     >
                       <div className="flex flex-col items-center">
@@ -661,6 +1291,31 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
                           {trial.endpoint ? "Yes" : "No"}
                         </span>
                       </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center space-x-2">
+                          <span
+                            className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                              selection.verdicts[index].used
+                                ? "bg-green-100 text-green-800"
+                                : "bg-gray-100 text-gray-700"
+                            }`}
+                            title={selection.verdicts[index].reason}
+                          >
+                            {selection.verdicts[index].used
+                              ? "Used"
+                              : "Excluded"}
+                          </span>
+                          <button
+                            onClick={() => handleToggleRough(trial.trial)}
+                            className="text-xs text-blue-600 hover:underline"
+                          >
+                            {trial.rough ? "Unmark rough" : "Mark rough"}
+                          </button>
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {selection.verdicts[index].reason}
+                        </div>
+                      </td>
                     </tr>
                   ))
                 )}
@@ -686,9 +1341,11 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
                   </span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-gray-600">Standard Deviation:</span>
+                  <span className="text-gray-600">
+                    Standard Deviation (n − 1):
+                  </span>
                   <span className="font-medium text-purple-700">
-                    ±{stats.standardDeviation} mL
+                    {stats.standardDeviation} mL
                   </span>
                 </div>
                 <div className="flex justify-between">
@@ -715,6 +1372,23 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
                     {stats.precision}
                   </span>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Dixon's Q-test:</span>
+                  <span className="font-medium text-gray-800">
+                    {describeOutlierTest("Q", selection.qTest)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Grubbs' test:</span>
+                  <span className="font-medium text-gray-800">
+                    {describeOutlierTest("G", selection.grubbs)}
+                  </span>
+                </div>
+                <p
+                  className={`text-xs ${selection.concordant ? "text-green-700" : "text-amber-700"}`}
+                >
+                  {selection.summary}
+                </p>
               </div>
             </div>
 
@@ -726,28 +1400,191 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
               </h5>
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
-                  <span className="text-gray-600">HCl Molarity:</span>
+                  <span className="text-gray-600">
+                    {titrationSetup.analyteName} Molarity:
+                  </span>
                   <span className="font-medium text-purple-700">
-                    {stats.hclMolarity} M
+                    {stats.analyteResult} M
                   </span>
                 </div>
+                {measure === "pM" && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Total Hardness:</span>
+                    <span className="font-medium text-purple-700">
+                      {stats.hardness} mg/L CaCO₃
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between">
-                  <span className="text-gray-600">NaOH Molarity:</span>
-                  <span className="font-medium text-blue-700">0.1000 M</span>
+                  <span className="text-gray-600">
+                    {titrationSetup.titrantName} Molarity:
+                  </span>
+                  <span className="font-medium text-blue-700">
+                    {titrationSetup.titrantUncertainty
+                      ? formatMeasurement({
+                          value: titrationSetup.titrantMolarity,
+                          uncertainty: titrationSetup.titrantUncertainty,
+                        })
+                      : titrationSetup.titrantMolarity.toFixed(4)}{" "}
+                    M
+                    {titrationSetup.titrantStandardized === false &&
+                      " (nominal)"}
+                  </span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-gray-600">HCl Volume:</span>
-                  <span className="font-medium text-green-700">25.00 mL</span>
+                  <span className="text-gray-600">
+                    {titrationSetup.analyteName} Volume:
+                  </span>
+                  <span className="font-medium text-green-700">
+                    {formatMeasurement({
+                      value: titrationSetup.aliquotVolume,
+                      uncertainty: pipetteTolerance(
+                        titrationSetup.aliquotVolume,
+                      ),
+                    })}{" "}
+                    mL
+                  </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Equivalence Point:</span>
-                  <span className="font-medium text-indigo-700">pH ≈ 7.00</span>
+                  <span className="font-medium text-indigo-700">
+                    {titration?.equivalencePoints[0]
+                      ? describePoint(titration.equivalencePoints[0])
+                      : "-"}
+                  </span>
                 </div>
               </div>
+
+              {/* Where the uncertainty of the result comes from */}
+              <div className="mt-3 text-xs text-gray-600">
+                <div className="font-medium text-gray-700 mb-1">
+                  Uncertainty budget (relative)
+                </div>
+                {stats.budget.map(({ source, relative }) => (
+                  <div key={source} className="flex justify-between">
+                    <span>{source}</span>
+                    <span className="font-mono">
+                      {relative > 0 ? `${relative.toFixed(2)}%` : "exact"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {/* Graded unknown sample */}
+              {gradedUnknown ? (
+                <div
+                  className={`mt-3 rounded-md border p-3 text-sm ${
+                    gradedUnknown.accepted
+                      ? "bg-green-50 border-green-200 text-green-800"
+                      : "bg-red-50 border-red-200 text-red-800"
+                  }`}
+                >
+                  <div className="flex justify-between">
+                    <span>True concentration:</span>
+                    <span className="font-medium">
+                      {gradedUnknown.concentration.toFixed(4)} M
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Your error:</span>
+                    <span className="font-medium">
+                      {gradedUnknown.relativeError > 0 ? "+" : ""}
+                      {gradedUnknown.relativeError.toFixed(2)}%
+                    </span>
+                  </div>
+                  {onNewUnknown && (
+                    <button
+                      onClick={onNewUnknown}
+                      className="mt-2 w-full px-3 py-1 bg-purple-500 hover:bg-purple-600 text-white rounded text-xs font-medium transition-colors"
+                    >
+                      New Unknown Sample
+                    </button>
+                  )}
+                </div>
+              ) : (
+                unknownSample &&
+                !unknownSample.submittedAt &&
+                onSubmitUnknown && (
+                  <>
+                    {titrationSetup.titrantStandardized === false && (
+                      <p className="mt-3 text-xs text-amber-700">
+                        Standardize the {titrationSetup.titrantName} against KHP
+                        before submitting - its label concentration is only
+                        nominal.
+                      </p>
+                    )}
+                    <button
+                      onClick={() =>
+                        onSubmitUnknown(parseFloat(stats.analyteMolarity))
+                      }
+                      disabled={titrationSetup.titrantStandardized === false}
+                      className="mt-3 w-full px-3 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      Submit {stats.analyteMolarity} M for Attempt{" "}
+                      {unknownSample.attempt}
+                    </button>
+                  </>
+                )
+              )}
             </div>
           </div>
         )}
 
+        {/* Post-run diagnosis of technique - Only show if there are trials */}
+        {titrationTrials.length > 0 && (
+          <div className="mt-4 bg-white rounded-lg border p-4">
+            <h5 className="font-medium text-gray-900 mb-2 flex items-center">
+              <AlertCircle className="text-orange-500 mr-2" size={16} />
+              Post-run Diagnosis
+            </h5>
+            {titrationTrials.every((trial) => trial.findings.length === 0) ? (
+              <p className="text-sm text-green-700">
+                No technique mistakes found - any remaining deviation comes from
+                the indicator and the reading resolution.
+              </p>
+            ) : (
+              <div className="space-y-3 text-sm">
+                {titrationTrials
+                  .filter((trial) => trial.findings.length > 0)
+                  .map((trial) => {
+                    const shift = trial.findings.reduce(
+                      (sum, finding) => sum + finding.effect,
+                      0,
+                    );
+                    const bias = (shift / (trial.volumeUsed - shift)) * 100;
+                    return (
+                      <div key={trial.trial}>
+                        <div className="font-medium text-gray-800">
+                          Trial {trial.trial}:{" "}
+                          {answerHidden
+                            ? `${titrationSetup.analyteName} result reads ${shift > 0 ? "high" : "low"}`
+                            : `titre ${shift > 0 ? "+" : "−"}${Math.abs(shift).toFixed(2)} mL, ${titrationSetup.analyteName} result ${bias > 0 ? "+" : "−"}${Math.abs(bias).toFixed(1)}%`}
+                        </div>
+                        <ul className="mt-1 space-y-1 text-gray-700">
+                          {trial.findings.map((finding) => (
+                            <li key={finding.mistake}>
+                              <span className="font-medium text-orange-700">
+                                {finding.title}
+                              </span>
+                              {answerHidden
+                                ? ` - titre reads ${finding.effect > 0 ? "high" : "low"}`
+                                : `: ${finding.explanation}`}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                {answerHidden && (
+                  <p className="text-xs text-gray-500">
+                    The full diagnosis appears once the unknown is graded.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Experimental Notes - Only show if there are trials */}
         {titrationTrials.length > 0 && (
           <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
@@ -769,14 +1606,23 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
                 • RSD of {stats.rsd}% indicates {stats.precision.toLowerCase()}{" "}
                 experimental precision
               </li>
-              <li>
-                • Results suggest{" "}
-                {parseFloat(stats.hclMolarity) > 0.09 &&
-                parseFloat(stats.hclMolarity) < 0.11
-                  ? "accurate"
-                  : "variable"}{" "}
-                neutralization of HCl with NaOH
-              </li>
+              <li>• {selection.summary}</li>
+              {titrationTrials.map(
+                (trial, index) =>
+                  !selection.verdicts[index].used && (
+                    <li key={trial.trial}>
+                      • Trial {trial.trial} ({trial.volumeUsed.toFixed(2)} mL)
+                      excluded: {selection.verdicts[index].reason}
+                    </li>
+                  ),
+              )}
+              {gradedUnknown && (
+                <li>
+                  • Submitted {gradedUnknown.submittedConcentration?.toFixed(4)}{" "}
+                  M is {gradedUnknown.accepted ? "within" : "outside"} the
+                  accepted tolerance of the true concentration
+                </li>
+              )}
             </ul>
           </div>
         )}
@@ -0,0 +1,189 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronUp, Scale } from "lucide-react";
+import type { BuretteReadings } from "@shared/chemistry/burette";
+import {
+  DISSOLVE_VOLUME,
+  KHP_MOLAR_MASS,
+  balanceReading,
+  naohMolarity,
+  standardizationResult,
+  type StandardizationTrial,
+} from "@shared/chemistry/standardization";
+import { formatMeasurement } from "@shared/chemistry/uncertainty";
+
+interface StandardizationPanelProps {
+  readings: BuretteReadings;
+  // A KHP portion is in the conical flask, waiting to be titrated
+  flaskHasKHP: boolean;
+  standardizedMolarity: number | null;
+  onTransferKHP: (mass: number) => void;
+  onRinseFlask: () => void;
+  onStandardized: (molarity: number, trials: StandardizationTrial[]) => void;
+}
+
+export const StandardizationPanel: React.FC<StandardizationPanelProps> = ({
+  readings,
+  flaskHasKHP,
+  standardizedMolarity,
+  onTransferKHP,
+  onRinseFlask,
+  onStandardized,
+}) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const [targetMass, setTargetMass] = useState("0.5100");
+  const [weighedMass, setWeighedMass] = useState<number | null>(null);
+  // Mass of the portion currently in the flask
+  const [pendingMass, setPendingMass] = useState<number | null>(null);
+  const [trials, setTrials] = useState<StandardizationTrial[]>([]);
+
+  // A spatula never delivers exactly the target: the balance shows what
+  // actually went into the weighing boat
+  const handleWeigh = () => {
+    const target = parseFloat(targetMass);
+    if (!(target > 0)) return;
+    setWeighedMass(balanceReading(target * (1 + (Math.random() - 0.5) * 0.04)));
+  };
+
+  const handleTransfer = () => {
+    if (weighedMass === null) return;
+    onTransferKHP(weighedMass);
+    setPendingMass(weighedMass);
+    setWeighedMass(null);
+  };
+
+  const titre =
+    readings.initial !== null && readings.final !== null
+      ? readings.final - readings.initial
+      : null;
+  const canRecord =
+    pendingMass !== null && flaskHasKHP && titre !== null && titre > 0;
+
+  const handleRecord = () => {
+    if (!canRecord) return;
+    setTrials((prev) => [
+      ...prev,
+      { mass: pendingMass, titre, molarity: naohMolarity(pendingMass, titre) },
+    ]);
+    setPendingMass(null);
+  };
+
+  const mean = standardizationResult(trials);
+
+  return (
+    <div className="bg-white/95 backdrop-blur-sm rounded-lg shadow-lg border border-gray-200 p-3 w-72">
+      <button
+        onClick={() => setCollapsed(!collapsed)}
+        className="w-full flex items-center justify-between"
+      >
+        <h4 className="text-sm font-semibold text-gray-800 flex items-center">
+          <Scale size={14} className="mr-2 text-indigo-600" />
+          Standardize NaOH with KHP
+        </h4>
+        {collapsed ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+      </button>
+      {standardizedMolarity !== null && (
+        <div className="mt-1 text-xs text-green-700 font-medium">
+          NaOH standardized: {standardizedMolarity.toFixed(4)} M
+        </div>
+      )}
+
+      {!collapsed && (
+        <div className="mt-3 space-y-3 text-xs">
+          {/* Analytical balance */}
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">
+              Target mass of KHP (g)
+            </label>
+            <div className="flex space-x-1">
+              <input
+                type="number"
+                step="0.01"
+                value={targetMass}
+                onChange={(e) => setTargetMass(e.target.value)}
+                className="w-24 px-2 py-1 border border-gray-300 rounded"
+              />
+              <button
+                onClick={handleWeigh}
+                className="px-2 py-1 rounded bg-indigo-500 hover:bg-indigo-600 text-white font-medium"
+              >
+                Weigh
+              </button>
+            </div>
+            <div className="mt-1 bg-black text-green-400 font-mono text-sm px-2 py-1 rounded w-28 text-right">
+              {weighedMass !== null ? weighedMass.toFixed(4) : "0.0000"} g
+            </div>
+            <p className="mt-1 text-gray-500">
+              KHP, {KHP_MOLAR_MASS} g/mol. About 0.51 g needs 25 mL of 0.1 M
+              NaOH.
+            </p>
+          </div>
+
+          <div className="flex space-x-1">
+            <button
+              onClick={handleTransfer}
+              disabled={weighedMass === null}
+              className="flex-1 px-2 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white font-medium disabled:opacity-50"
+            >
+              Dissolve in {DISSOLVE_VOLUME} mL & transfer
+            </button>
+            <button
+              onClick={onRinseFlask}
+              className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700"
+              title="Empty and rinse the conical flask"
+            >
+              Rinse flask
+            </button>
+          </div>
+
+          {/* Titre from the burette readings */}
+          <div>
+            <div className="text-gray-600">
+              Portion in flask:{" "}
+              {pendingMass !== null ? `${pendingMass.toFixed(4)} g` : "-"}
+              {" · "}Titre: {titre !== null ? `${titre.toFixed(2)} mL` : "-"}
+            </div>
+            <button
+              onClick={handleRecord}
+              disabled={!canRecord}
+              className="mt-1 w-full px-2 py-1 rounded bg-green-600 hover:bg-green-700 text-white font-medium disabled:opacity-50"
+            >
+              Record standardization titre
+            </button>
+          </div>
+
+          {trials.length > 0 && (
+            <table className="w-full text-left">
+              <thead className="text-gray-500">
+                <tr>
+                  <th>#</th>
+                  <th>KHP (g)</th>
+                  <th>Titre (mL)</th>
+                  <th>NaOH (M)</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {trials.map((trial, idx) => (
+                  <tr key={idx}>
+                    <td>{idx + 1}</td>
+                    <td>{trial.mass.toFixed(4)}</td>
+                    <td>{trial.titre.toFixed(2)}</td>
+                    <td>{trial.molarity.toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {mean !== null && (
+            <button
+              onClick={() => onStandardized(mean.value, trials)}
+              className="w-full px-2 py-1 rounded bg-purple-500 hover:bg-purple-600 text-white font-medium"
+            >
+              Use mean {formatMeasurement(mean)} M for NaOH
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { ThermometricAnalysis } from "@shared/chemistry/thermal";
+
+interface ThermometricChartProps {
+  analysis: ThermometricAnalysis;
+}
+
+const chartConfig = {
+  temperature: { label: "Temperature", color: "#dc2626" },
+} satisfies ChartConfig;
+
+// Flask temperature against volume, with the turning point marked
+export const ThermometricChart: React.FC<ThermometricChartProps> = ({
+  analysis,
+}) => (
+  <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+    <LineChart
+      data={analysis.points}
+      margin={{ top: 10, right: 20, bottom: 20, left: 0 }}
+    >
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis
+        dataKey="volume"
+        type="number"
+        domain={[0, "dataMax"]}
+        tickFormatter={(v: number) => v.toFixed(0)}
+        label={{
+          value: "Titrant added (mL)",
+          position: "insideBottom",
+          offset: -10,
+        }}
+      />
+      <YAxis
+        domain={["auto", "auto"]}
+        tickFormatter={(v: number) => v.toFixed(1)}
+        label={{ value: "T (°C)", angle: -90, position: "insideLeft" }}
+      />
+      {analysis.endpointVolume !== null && (
+        <ReferenceLine
+          x={analysis.endpointVolume}
+          stroke="#16a34a"
+          strokeDasharray="4 4"
+          label={{
+            value: `${analysis.endpointVolume.toFixed(2)} mL`,
+            position: "top",
+            fontSize: 10,
+          }}
+        />
+      )}
+      <ChartTooltip
+        content={
+          <ChartTooltipContent
+            labelFormatter={(_, payload) =>
+              `${Number(payload?.[0]?.payload?.volume ?? 0).toFixed(2)} mL`
+            }
+          />
+        }
+      />
+      <Line
+        dataKey="temperature"
+        stroke="var(--color-temperature)"
+        strokeWidth={2}
+        dot={false}
+        isAnimationActive={false}
+      />
+    </LineChart>
+  </ChartContainer>
+);
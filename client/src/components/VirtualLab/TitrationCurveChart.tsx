@@ -0,0 +1,190 @@
+import React from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceDot,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type {
+  TitrationAnalysis,
+  TitrationPoint,
+} from "@shared/chemistry/titration";
+
+interface TitrationCurveChartProps {
+  analysis: TitrationAnalysis;
+}
+
+const chartConfig = {
+  measured: { label: "Your titration", color: "#7c3aed" },
+  theoretical: { label: "Theoretical curve", color: "#94a3b8" },
+} satisfies ChartConfig;
+
+// Y axis for each quantity a titration curve can follow
+const axes = {
+  pH: { domain: [0, 14], ticks: [0, 2, 4, 6, 8, 10, 12, 14], label: "pH" },
+  potential: {
+    domain: [-0.8, 1.6],
+    ticks: [-0.8, -0.4, 0, 0.4, 0.8, 1.2, 1.6],
+    label: "E (V vs SHE)",
+  },
+  pM: { domain: [0, 12], ticks: [0, 2, 4, 6, 8, 10, 12], label: "pM" },
+  pAg: { domain: [0, 12], ticks: [0, 2, 4, 6, 8, 10, 12], label: "pAg" },
+};
+
+export const TitrationCurveChart: React.FC<TitrationCurveChartProps> = ({
+  analysis,
+}) => {
+  const {
+    recorded,
+    theoretical,
+    equivalencePoints,
+    halfEquivalencePoints,
+    bufferRegions,
+  } = analysis;
+
+  // Show the whole ideal curve up to a little past the last point of interest
+  const lastVolume = Math.max(
+    recorded[recorded.length - 1]?.volume || 0,
+    ...equivalencePoints.map((p) => p.volume * 1.6),
+    10,
+  );
+  const theoreticalShown = theoretical.filter((p) => p.volume <= lastVolume);
+  // Redox titrations plot the electrode potential, EDTA titrations the free
+  // metal ion and silver titrations the free Ag⁺ instead of the pH
+  const measure = analysis.measure ?? "pH";
+  const axis = axes[measure];
+  const value = (p: TitrationPoint) =>
+    measure === "potential"
+      ? (p.potential ?? 0)
+      : measure === "pM"
+        ? (p.pM ?? 0)
+        : measure === "pAg"
+          ? (p.pAg ?? 0)
+          : p.pH;
+  const measured = recorded.map((p) => ({
+    volume: p.volume,
+    measured: value(p),
+  }));
+  const ideal = theoreticalShown.map((p) => ({
+    volume: p.volume,
+    theoretical: value(p),
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+      <LineChart margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="volume"
+          type="number"
+          domain={[0, Math.ceil(lastVolume)]}
+          allowDuplicatedCategory={false}
+          tickFormatter={(v: number) => v.toFixed(0)}
+          label={{
+            value: "Titrant added (mL)",
+            position: "insideBottom",
+            offset: -10,
+          }}
+        />
+        <YAxis
+          domain={axis.domain}
+          ticks={axis.ticks}
+          label={{ value: axis.label, angle: -90, position: "insideLeft" }}
+        />
+
+        {bufferRegions.map((region) => (
+          <ReferenceArea
+            key={region.pKa}
+            x1={region.start}
+            x2={region.end}
+            fill="#fde68a"
+            fillOpacity={0.35}
+            label={{
+              value: `Buffer (pKa ${region.pKa.toFixed(2)})`,
+              fontSize: 10,
+            }}
+          />
+        ))}
+
+        {equivalencePoints.map((point, idx) => (
+          <ReferenceLine
+            key={idx}
+            x={point.volume}
+            stroke="#16a34a"
+            strokeDasharray="4 4"
+            label={{
+              value: `Eq. ${point.volume.toFixed(2)} mL`,
+              position: "top",
+              fontSize: 10,
+            }}
+          />
+        ))}
+        {equivalencePoints.map((point, idx) => (
+          <ReferenceDot
+            key={`dot_${idx}`}
+            x={point.volume}
+            y={value(point)}
+            r={4}
+            fill="#16a34a"
+            stroke="none"
+          />
+        ))}
+        {halfEquivalencePoints.map((point, idx) => (
+          <ReferenceDot
+            key={`half_${idx}`}
+            x={point.volume}
+            y={point.pH}
+            r={4}
+            fill="#d97706"
+            stroke="none"
+            label={{
+              value: `pH = pKa ${point.pH.toFixed(2)}`,
+              position: "right",
+              fontSize: 10,
+            }}
+          />
+        ))}
+
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                `${Number(payload?.[0]?.payload?.volume ?? 0).toFixed(2)} mL`
+              }
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+
+        <Line
+          data={ideal}
+          dataKey="theoretical"
+          stroke="var(--color-theoretical)"
+          strokeDasharray="5 5"
+          dot={false}
+          isAnimationActive={false}
+        />
+        <Line
+          data={measured}
+          dataKey="measured"
+          stroke="var(--color-measured)"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+};
@@ -1,67 +1,194 @@
 import React, { useState, useCallback, useMemo } from "react";
-import { Equipment } from "./Equipment";
+import { Equipment, PATH_LENGTH_CM } from "./Equipment";
 import { WorkBench } from "./WorkBench";
 import { Chemical } from "./Chemical";
 import { Controls } from "./Controls";
 import { ResultsPanel } from "./ResultsPanel";
+import { BuretteControls } from "./BuretteControls";
+import { StandardizationPanel } from "./StandardizationPanel";
+import { BackTitrationPanel } from "./BackTitrationPanel";
+import { PhMeterPanel } from "./PhMeterPanel";
 import { ExperimentSteps } from "./ExperimentSteps";
 import { MeasurementsPanel } from "./MeasurementsPanel";
 import { ChemicalFormulas } from "./ChemicalFormulas";
+import { EquipmentIcon } from "./EquipmentIcon";
+import {
+  summarizeBackTitration,
+  summarizeDerivativeEndpoint,
+  summarizeRun,
+  summarizeStandardization,
+  summarizeStart,
+  type IndicatorEndpoint,
+  type LabChemical,
+  type Result,
+  type TitrationSession,
+} from "./titrationSummary";
+import {
+  WASHED_BURETTE,
+  closeRun,
+  endpointSignal,
+  isTitrant,
+  openSession,
+  reactsWith,
+  type BurettePrep,
+  type RunLog,
+  type TitrationSetup,
+} from "./titrationSession";
+import { useUnknownSampleBench } from "./unknownSampleBench";
 import {
-  FlaskConical,
   Atom,
   BookOpen,
   ChevronLeft,
   ChevronRight,
   List,
-  Beaker,
-  TestTube,
-  Thermometer,
   Droplets,
   Erlenmeyer,
   Undo2,
 } from "lucide-react";
-import type { ExperimentStep } from "@shared/schema";
+import {
+  TITRATION_EQUIPMENT,
+  type ExperimentStep,
+  type LabDefinition,
+  type LabMilestone,
+  type ReagentRole,
+} from "@shared/schema";
+import {
+  awaitsClock,
+  evaluateSteps,
+  tracksSteps as completesOwnSteps,
+  watchedForPH,
+  type LabSnapshot,
+  type TriggerMemory,
+} from "@shared/steps";
+import {
+  acidBaseProfile,
+  baseReagent,
+  parseMolarity,
+  UNKNOWN_CONCENTRATION,
+} from "@shared/chemistry/species";
+import {
+  solveContainer,
+  type ContainerChemical,
+} from "@shared/chemistry/equilibrium";
+import { findCompound } from "@shared/chemistry/compounds";
+import { dominantForm, indicators } from "@shared/chemistry/indicators";
+import {
+  stopcockModes,
+  type BuretteReadings,
+  type StopcockSetting,
+} from "@shared/chemistry/burette";
+import {
+  analyzeTitration,
+  derivativeAnalysis,
+  type DerivativeAnalysis,
+  type TitrationPoint,
+} from "@shared/chemistry/titration";
+import {
+  UNCALIBRATED,
+  calibrationProblem,
+  createElectrode,
+  electrodeMillivolts,
+  meterReading,
+  type Calibration,
+} from "@shared/chemistry/phMeter";
+import { solutionConductivity } from "@shared/chemistry/conductivity";
+import {
+  ROOM_TEMPERATURE_C,
+  coolTowardsRoom,
+  mixTemperature,
+  warmInBath,
+} from "@shared/chemistry/thermal";
+import {
+  STARCH_ID,
+  analyzeRedoxTitration,
+  redoxMoleRatio,
+  redoxReagents,
+  solveRedox,
+} from "@shared/chemistry/redox";
+import {
+  EBT_ID,
+  EDTA_ID,
+  analyzeComplexometricTitration,
+  solveComplexation,
+} from "@shared/chemistry/complexometry";
+import {
+  AGNO3_ID,
+  KSCN_ID,
+  analyzePrecipitationTitration,
+  solvePrecipitation,
+} from "@shared/chemistry/precipitation";
+import {
+  SLURRY_VOLUME,
+  sampleConcentration,
+  type BackTitrationResult,
+  type BackTitrationSample,
+} from "@shared/chemistry/backTitration";
+import {
+  DISSOLVE_VOLUME,
+  khpConcentration,
+  standardizationResult,
+  type StandardizationTrial,
+} from "@shared/chemistry/standardization";
+import { evaluateMix, reactionTypeNames } from "@shared/chemistry/reactions";
+import {
+  TIP_BUBBLE,
+  fillDilution,
+  type EyePosition,
+  type RunRecord,
+} from "@shared/chemistry/procedure";
+import {
+  ABSORBS_CO2,
+  SEALED_BOTTLE,
+  carbonateFraction,
+  type ReagentExposure,
+} from "@shared/chemistry/carbonation";
 
 interface EquipmentPosition {
   id: string;
   x: number;
   y: number;
-  chemicals: Array<{
-    id: string;
-    name: string;
-    color: string;
-    amount: number;
-    concentration: string;
-  }>;
+  chemicals: LabChemical[];
+  temperature?: number; // °C of the contents; room temperature when unset
 }
 
-interface Result {
-  id: string;
-  type: "success" | "warning" | "error" | "reaction";
-  title: string;
-  description: string;
-  timestamp: string;
-  calculation?: {
-    volumeAdded?: number;
-    totalVolume?: number;
-    concentration?: string;
-    molarity?: number;
-    moles?: number;
-    reaction?: string;
-    yield?: number;
-    ph?: number;
-    balancedEquation?: string;
-    reactionType?: string;
-    products?: string[];
-    mechanism?: string[];
-    thermodynamics?: {
-      deltaH?: number;
-      deltaG?: number;
-      equilibriumConstant?: number;
-    };
-  };
-}
+// Part a reagent plays in the container it was added to: whatever fills
+// the burette is the titrant, KHP the primary standard, and an acid or
+// base anywhere else the sample
+const reagentRole = (
+  container: string,
+  reagentId: string,
+): ReagentRole | undefined =>
+  container === "burette"
+    ? "titrant"
+    : indicators[reagentId] || reagentId === EBT_ID || reagentId === STARCH_ID
+      ? "indicator"
+      : reagentId === "khp"
+        ? "standard"
+        : acidBaseProfile(reagentId).kind !== "neutral"
+          ? "sample"
+          : undefined;
+
+// Pour chemicals from room-temperature bottles into a container, which
+// settles at the temperature of the mix and any heat of reaction
+const pourInto = (
+  pos: EquipmentPosition,
+  added: LabChemical[],
+): EquipmentPosition => ({
+  ...pos,
+  chemicals: [...pos.chemicals, ...added],
+  temperature: mixTemperature(
+    pos.chemicals,
+    pos.temperature ?? ROOM_TEMPERATURE_C,
+    added,
+  ),
+});
+
+// Stream delivery is applied in small increments at this interval
+const STREAM_TICK_MS = 100;
+// Warm or cold containers relax towards room temperature at this interval
+const COOLING_TICK_MS = 1000;
+// Open bottles take up CO₂ at this interval
+const EXPOSURE_TICK_MS = 1000;
 
 interface VirtualLabProps {
   step: ExperimentStep;
@@ -76,10 +203,14 @@ interface VirtualLabProps {
   totalSteps: number;
   experimentTitle: string;
   allSteps: ExperimentStep[];
+  // Reagents, equipment, guide and completion rules of the experiment
+  lab: LabDefinition;
   onTimerStart?: () => void;
   onTimerStop?: () => void;
   onTimerReset?: () => void;
   onProgressReset?: () => void;
+  // Used to issue this student's unknown sample for the experiment
+  experimentId?: number;
 }
 
 function VirtualLabApp({
@@ -92,11 +223,28 @@ function VirtualLabApp({
   totalSteps,
   experimentTitle,
   allSteps,
+  lab,
   onTimerStart,
   onTimerStop,
   onTimerReset,
   onProgressReset,
+  experimentId,
 }: VirtualLabProps) {
+  // Burette, stopcock and titration curve: shared by every titration
+  const isTitrationLab = lab.kind === "titration";
+  const guidedSteps = lab.guide?.steps ?? [];
+  // Labs with triggers on every step complete them as students work
+  const tracksSteps = completesOwnSteps(allSteps);
+  // Water baths hold whatever is put in them at their own temperature
+  const bathTemperatures = useMemo(
+    () =>
+      Object.fromEntries(
+        lab.equipment.flatMap((eq) =>
+          eq.temperature === undefined ? [] : [[eq.id, eq.temperature]],
+        ),
+      ) as Record<string, number>,
+    [lab.equipment],
+  );
   const [equipmentPositions, setEquipmentPositions] = useState<
     EquipmentPosition[]
   >([]);
@@ -110,10 +258,15 @@ function VirtualLabApp({
     volume: 0,
     concentration: 0,
     ph: 7,
+    poh: 7,
     molarity: 0,
     moles: 0,
-    temperature: 25,
+    temperature: ROOM_TEMPERATURE_C,
   });
+  // Container whose solution the pH meter is currently reading
+  const [measuredContainerId, setMeasuredContainerId] = useState<
+    string | null
+  >(null);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
   const [currentGuidedStep, setCurrentGuidedStep] = useState(1);
   const [dropwiseAnimation, setDropwiseAnimation] = useState<{
@@ -125,58 +278,131 @@ function VirtualLabApp({
   // Titration-specific state
   const [isTitrating, setIsTitrating] = useState(false);
   const [isStirring, setIsStirring] = useState(false);
-  const [titrationDropCount, setTitrationDropCount] = useState(0);
   const [stirrerActive, setStirerActive] = useState(false);
-  const [titrationColorProgress, setTitrationColorProgress] = useState(0);
-  const [cumulativeVolume, setCumulativeVolume] = useState(5.0); // Track total volume across multiple titrations
-  const [cumulativeColorIntensity, setCumulativeColorIntensity] = useState(0); // Track color intensity across titrations
-
-  // Step completion tracking for Acid-Base Titration
-  const [completedSteps, setCompletedSteps] = useState<Set<number>>(new Set());
-  const [hasCalculatedResult, setHasCalculatedResult] = useState(false);
-  const [showResultsPanel, setShowResultsPanel] = useState(false);
+  const [stopcock, setStopcock] = useState<StopcockSetting>("closed");
+  const titrationSession = React.useRef<TitrationSession | null>(null);
+  // Burette readings taken off the meniscus for the current trial
+  const [buretteReadings, setBuretteReadings] = useState<BuretteReadings>({
+    initial: null,
+    final: null,
+  });
+  const [burettePrep, setBurettePrep] = useState<BurettePrep>(WASHED_BURETTE);
+  // Since the initial reading: air swept out of the tip and where the eye
+  // was for that reading
+  const runLog = React.useRef<RunLog>({
+    air: 0,
+    eye: "level",
+  });
+  // Technique behind the last pair of readings, for the trial diagnosis
+  const [lastRun, setLastRun] = useState<RunRecord | null>(null);
+  const [titrationCurve, setTitrationCurve] = useState<TitrationPoint[]>([]); // Every titrant increment and its pH
+  // Glass electrode of the pH meter and the calibration the meter holds.
+  // In the titration labs every pH shown or logged is a meter reading.
+  const [electrode] = useState(() => createElectrode());
+  const [calibration, setCalibration] = useState<Calibration>(UNCALIBRATED);
+  // Derivative plots behind the last "Calculate Endpoint"
+  const [endpointAnalysis, setEndpointAnalysis] =
+    useState<DerivativeAnalysis | null>(null);
+  const titrationClockStart = React.useRef<number | null>(null);
+  // First volume at which an indicator in the flask changed colour
+  const indicatorEndpoint = React.useRef<IndicatorEndpoint | null>(null);
+
+  // Analyte in the conical flask and titrant in the burette, as a stable key
+  // so the theoretical curve is only recomputed when either changes
+  const titrationSetupKey = useMemo(() => {
+    const burette = equipmentPositions.find((pos) => pos.id === "burette");
+    const flask = equipmentPositions.find((pos) => pos.id === "conical_flask");
+    const titrant = burette?.chemicals.find(
+      (c) => parseMolarity(c.concentration) !== null,
+    );
+    if (!flask || !titrant) return null;
+
+    const analyte = flask.chemicals
+      .filter((c) => c.id !== titrant.id)
+      .map((c) => ({
+        id: c.id,
+        amount: c.amount,
+        concentration: c.concentration,
+      }));
+    if (
+      !analyte.some(
+        (c) =>
+          parseMolarity(c.concentration) !== null ||
+          c.concentration === UNKNOWN_CONCENTRATION,
+      )
+    ) {
+      return null;
+    }
 
-  // Helper function to mark steps as completed for Acid-Base Titration
-  const markStepCompleted = useCallback(
-    (stepNumber: number, message: string) => {
-      if (
-        experimentTitle.includes("Acid-Base") &&
-        !completedSteps.has(stepNumber)
-      ) {
-        // Defer all state updates to next tick to avoid setState-in-render
-        setTimeout(() => {
-          setCompletedSteps((prev) => {
-            const newCompletedSteps = new Set(
-              Array.from(prev).concat([stepNumber]),
-            );
-            const progressPercentage = Math.round(
-              (newCompletedSteps.size / allSteps.length) * 100,
-            );
+    return JSON.stringify({
+      analyte,
+      titrant: {
+        id: titrant.id,
+        concentration: titrant.concentration,
+        carbonate: burettePrep.carbonate,
+      },
+    });
+  }, [equipmentPositions, burettePrep.carbonate]);
+
+  const titrationSetup = useMemo(
+    () =>
+      titrationSetupKey
+        ? (JSON.parse(titrationSetupKey) as TitrationSetup)
+        : null,
+    [titrationSetupKey],
+  );
 
-            // Update progress when step is completed
-            if (onProgressUpdate) {
-              onProgressUpdate(progressPercentage, newCompletedSteps.size);
-            }
-            if (onStepProgressUpdate) {
-              onStepProgressUpdate(newCompletedSteps.size);
-            }
+  // Unknown sample issued by the server for this attempt, and the pH
+  // readings of it taken as titrant goes in
+  const {
+    unknownSample,
+    gradedUnknown,
+    unknownAliquot,
+    unknownTitrantVolume,
+    requestUnknownReading,
+    unknownPH,
+    afterReadings,
+    submitUnknown,
+    newUnknown,
+  } = useUnknownSampleBench(
+    lab,
+    experimentId,
+    titrationSetup,
+    equipmentPositions,
+  );
 
-            return newCompletedSteps;
-          });
+  // NaOH molarity determined against KHP; replaces the nominal label value
+  const [standardizedMolarity, setStandardizedMolarity] = useState<
+    number | null
+  >(null);
+  // Its standard uncertainty from the balance, burette and trial scatter
+  const [standardizedUncertainty, setStandardizedUncertainty] = useState(0);
+  // Carbonate in the burette NaOH when it was standardized
+  const [standardizedCarbonate, setStandardizedCarbonate] = useState(0);
+
+  // Realism option: reagent bottles left open age on the bench, and
+  // hydroxides absorb CO₂ from the air
+  const [co2Uptake, setCo2Uptake] = useState(false);
+  const [reagentExposure, setReagentExposure] = useState<
+    Record<string, ReagentExposure>
+  >({});
+
+  // Steps the lab has completed
+  const [completedSteps, setCompletedSteps] = useState<Set<number>>(new Set());
+  const [showResultsPanel, setShowResultsPanel] = useState(false);
 
-          setToastMessage(`✅ Step ${stepNumber} completed: ${message}`);
-          setTimeout(() => setToastMessage(null), 3000);
-        }, 0);
-      }
-    },
-    [
-      experimentTitle,
-      completedSteps,
-      allSteps.length,
-      onProgressUpdate,
-      onStepProgressUpdate,
-    ],
-  );
+  // What the lab has reported on the way, and the trials recorded, for
+  // the step triggers
+  const [milestones, setMilestones] = useState<LabMilestone[]>([]);
+  const [trialCount, setTrialCount] = useState(0);
+  const reachMilestone = useCallback((milestone: LabMilestone) => {
+    setMilestones((prev) =>
+      prev.includes(milestone) ? prev : [...prev, milestone],
+    );
+  }, []);
+  // Clock for triggers that need a condition held for some time
+  const [labClock, setLabClock] = useState(() => Date.now());
+  const triggerMemory = React.useRef<TriggerMemory>({});
 
   // Use dynamic experiment steps from allSteps prop
   const experimentSteps = allSteps.map((stepData, index) => ({
@@ -184,7 +410,7 @@ function VirtualLabApp({
     title: stepData.title,
     description: stepData.description,
     duration: parseInt(stepData.duration?.replace(/\D/g, "") || "5"),
-    status: (experimentTitle.includes("Acid-Base")
+    status: (tracksSteps
       ? completedSteps.has(stepData.id)
         ? "completed"
         : stepData.id === currentStep
@@ -200,373 +426,62 @@ function VirtualLabApp({
       : [`${stepData.title} requirements`],
   }));
 
-  // Experiment-specific chemicals and equipment
-  const experimentChemicals = useMemo(() => {
-    if (experimentTitle.includes("Aspirin")) {
-      return [
-        {
-          id: "salicylic_acid",
-          name: "Salicylic Acid",
-          formula: "C₇H₆O���",
-          color: "#F8F8FF",
-          concentration: "2.0 g",
-          volume: 25,
-        },
-        {
-          id: "acetic_anhydride",
-          name: "Acetic Anhydride",
-          formula: "(CH₃CO)₂O",
-          color: "#DDA0DD",
-          concentration: "5 mL",
-          volume: 50,
-        },
-        {
-          id: "phosphoric_acid",
-          name: "Phosphoric Acid",
-          formula: "H₃PO₄",
-          color: "#FFA500",
-          concentration: "Catalyst",
-          volume: 10,
-        },
-        {
-          id: "distilled_water",
-          name: "Distilled Water",
-          formula: "H₂O",
-          color: "transparent",
-          concentration: "Pure",
-          volume: 100,
-        },
-      ];
-    } else if (experimentTitle.includes("Acid-Base")) {
-      return [
-        {
-          id: "naoh",
-          name: "Sodium Hydroxide",
-          formula: "NaOH",
-          color: "#8B5A9B",
-          concentration: "0.1 M",
-          volume: 50,
-        },
-        {
-          id: "hcl",
-          name: "Hydrochloric Acid",
-          formula: "HCl",
-          color: "#FFE135",
-          concentration: "0.1 M",
-          volume: 25,
-        },
-        {
-          id: "phenol",
-          name: "Phenolphthalein",
-          formula: "C₂₀H₁₄O₄",
-          color: "#FFB6C1",
-          concentration: "Indicator",
-          volume: 10,
-        },
-      ];
-    } else if (experimentTitle.includes("Equilibrium")) {
-      return [
-        {
-          id: "cocl2",
-          name: "Cobalt(II) Chloride",
-          formula: "CoCl₂",
-          color: "#FFB6C1",
-          concentration: "0.1 M",
-          volume: 30,
-        },
-        {
-          id: "hcl_conc",
-          name: "Concentrated HCl",
-          formula: "HCl",
-          color: "#87CEEB",
-          concentration: "12 M",
-          volume: 20,
-        },
-        {
-          id: "water",
-          name: "Distilled Water",
-          formula: "H��O",
-          color: "transparent",
-          concentration: "Pure",
-          volume: 100,
-        },
-        {
-          id: "ice",
-          name: "Ice Bath",
-          formula: "H₂O(s)",
-          color: "#E0F6FF",
-          concentration: "0°C",
-          volume: 50,
-        },
-      ];
-    }
-    return [];
-  }, [experimentTitle]);
+  // Reagents on the shelf, with their formula, colour and reference data
+  // from the compound database. The unknown sample placeholder stands for
+  // the student's own sample for this attempt, once one has been issued.
+  const shelfChemicals = useMemo(
+    () =>
+      lab.reagents.flatMap((reagent) => {
+        const compound = findCompound(reagent.compound);
+        if (!compound) return [];
+        const chemical = {
+          ...reagent,
+          formula: compound.formula,
+          color: reagent.color ?? compound.color,
+          acidBase: compound.acidBase,
+          hazards: compound.hazards,
+        };
+        return reagent.unknownSample
+          ? unknownSample
+            ? [
+                {
+                  ...chemical,
+                  name: `${reagent.name} (Attempt ${unknownSample.attempt})`,
+                  concentration: UNKNOWN_CONCENTRATION,
+                },
+              ]
+            : []
+          : [chemical];
+      }),
+    [lab.reagents, unknownSample],
+  );
 
-  const experimentEquipment = useMemo(() => {
-    if (experimentTitle.includes("Aspirin")) {
-      return [
-        {
-          id: "erlenmeyer_flask",
-          name: "125mL Erlenmeyer Flask",
-          icon: (
-            <svg
-              width="36"
-              height="36"
-              viewBox="0 0 36 36"
-              fill="none"
-              className="text-blue-600"
-            >
-              <path
-                d="M12 6h12v8l4 12H8l4-12V6z"
-                stroke="currentColor"
-                strokeWidth="2"
-                fill="rgba(59, 130, 246, 0.1)"
-              />
-              <path d="M10 6h16" stroke="currentColor" strokeWidth="2" />
-              <circle cx="18" cy="20" r="2" fill="rgba(59, 130, 246, 0.3)" />
-            </svg>
-          ),
-        },
-        {
-          id: "thermometer",
-          name: "Thermometer",
-          icon: (
-            <svg
-              width="36"
-              height="36"
-              viewBox="0 0 36 36"
-              fill="none"
-              className="text-red-600"
-            >
-              <rect
-                x="16"
-                y="4"
-                width="4"
-                height="20"
-                rx="2"
-                stroke="currentColor"
-                strokeWidth="2"
-                fill="rgba(239, 68, 68, 0.1)"
-              />
-              <circle cx="18" cy="28" r="4" fill="currentColor" />
-              <path d="M18 24v-16" stroke="currentColor" strokeWidth="1" />
-            </svg>
-          ),
-        },
-        {
-          id: "graduated_cylinder",
-          name: "Graduated Cylinder",
-          icon: (
-            <svg
-              width="36"
-              height="36"
-              viewBox="0 0 36 36"
-              fill="none"
-              className="text-green-600"
-            >
-              <rect
-                x="12"
-                y="6"
-                width="12"
-                height="24"
-                rx="1"
-                stroke="currentColor"
-                strokeWidth="2"
-                fill="rgba(34, 197, 94, 0.1)"
-              />
-              <path
-                d="M14 12h8M14 16h8M14 20h8M14 24h8"
-                stroke="currentColor"
-                strokeWidth="1"
-              />
-              <rect
-                x="10"
-                y="4"
-                width="16"
-                height="4"
-                rx="1"
-                stroke="currentColor"
-                strokeWidth="1"
-              />
-            </svg>
-          ),
-        },
-        {
-          id: "water_bath",
-          name: "Water Bath",
-          icon: (
-            <svg
-              width="36"
-              height="36"
-              viewBox="0 0 36 36"
-              fill="none"
-              className="text-orange-600"
-            >
-              <rect
-                x="4"
-                y="12"
-                width="28"
-                height="16"
-                rx="2"
-                stroke="currentColor"
-                strokeWidth="2"
-                fill="rgba(249, 115, 22, 0.1)"
-              />
-              <path
-                d="M8 20c2-2 4-2 6 0s4 2 6 0s4-2 6 0s4 2 6 0"
-                stroke="currentColor"
-                strokeWidth="2"
-              />
-              <circle cx="18" cy="8" r="2" fill="rgba(249, 115, 22, 0.5)" />
-              <path d="M16 6l4 4" stroke="currentColor" strokeWidth="1" />
-            </svg>
-          ),
-        },
-      ];
-    } else if (experimentTitle.includes("Acid-Base")) {
-      return [
-        {
-          id: "burette",
-          name: "50mL Burette",
-          icon: (
-            <img
-              src="https://cdn.builder.io/api/v1/image/assets%2F5b489eed84cd44f89c5431dbe9fd14d3%2F2ad8cf1ef1394deabc2721f0caee85ef?format=webp&width=800"
-              alt="Burette"
-              className="w-9 h-9 object-contain rounded border-2 border-blue-400 shadow-sm bg-white"
-              style={{
-                filter: "brightness(1.0) contrast(1.0)",
-              }}
-            />
-          ),
-        },
-        {
-          id: "conical_flask",
-          name: "250mL Conical Flask",
-          icon: (
-            <img
-              src="https://cdn.builder.io/api/v1/image/assets%2F5b489eed84cd44f89c5431dbe9fd14d3%2F18f408c6f29d4176ac4ae731a3650daa?format=webp&width=800"
-              alt="Conical Flask"
-              className="w-9 h-9 object-contain rounded border-2 border-blue-400 shadow-sm bg-white"
-              style={{
-                filter: "brightness(1.0) contrast(1.0)",
-              }}
-            />
-          ),
-        },
-        {
-          id: "magnetic_stirrer",
-          name: "Magnetic Stirrer",
-          icon: (
-            <svg
-              width="36"
-              height="36"
-              viewBox="0 0 36 36"
-              fill="none"
-              className="text-gray-600"
-            >
-              {/* Stirrer base */}
-              <rect
-                x="4"
-                y="20"
-                width="28"
-                height="12"
-                rx="2"
-                stroke="currentColor"
-                strokeWidth="2"
-                fill="rgba(107, 114, 128, 0.1)"
-              />
-              {/* Control knobs */}
-              <circle cx="10" cy="26" r="2" fill="currentColor" />
-              <circle cx="26" cy="26" r="2" fill="currentColor" />
-              {/* Stirring bar */}
-              <rect
-                x="14"
-                y="14"
-                width="8"
-                height="2"
-                rx="1"
-                fill="#ef4444"
-                className="animate-spin"
-                style={{ transformOrigin: "18px 15px" }}
-              />
-              {/* Base label */}
-              <text
-                x="18"
-                y="30"
-                textAnchor="middle"
-                fontSize="4"
-                fill="currentColor"
-              >
-                STIRRER
-              </text>
-            </svg>
-          ),
-        },
-      ];
-    } else if (experimentTitle.includes("Equilibrium")) {
-      return [
-        { id: "test_tubes", name: "Test Tubes", icon: <TestTube size={36} /> },
-        { id: "beakers", name: "Beakers", icon: <Beaker size={36} /> },
-        {
-          id: "hot_water_bath",
-          name: "Hot Water Bath",
-          icon: <Thermometer size={36} />,
-        },
-        { id: "ice_bath", name: "Ice Bath", icon: <FlaskConical size={36} /> },
-      ];
-    }
-    return [];
-  }, [experimentTitle]);
-
-  // Guided steps for Aspirin Synthesis
-  const aspirinGuidedSteps = [
-    {
-      id: 1,
-      title: "Set up Erlenmeyer Flask",
-      instruction: "Drag the 125mL Erlenmeyer Flask to the workbench",
-      requiredEquipment: "erlenmeyer_flask",
-      completed: false,
-    },
-    {
-      id: 2,
-      title: "Add Salicylic Acid",
-      instruction: "Drag 2.0g of Salicylic Acid into the Erlenmeyer Flask",
-      requiredChemical: "salicylic_acid",
-      targetEquipment: "erlenmeyer_flask",
-      completed: false,
-    },
-    {
-      id: 3,
-      title: "Add Acetic Anhydride",
-      instruction:
-        "Add 5mL of Acetic Anhydride to the flask using the graduated cylinder",
-      requiredChemical: "acetic_anhydride",
-      targetEquipment: "erlenmeyer_flask",
-      completed: false,
-    },
-    {
-      id: 4,
-      title: "Add Catalyst",
-      instruction: "Add 2-3 drops of Phosphoric Acid as catalyst",
-      requiredChemical: "phosphoric_acid",
-      targetEquipment: "erlenmeyer_flask",
-      completed: false,
-    },
-    {
-      id: 5,
-      title: "Set up Water Bath",
-      instruction: "Drag the Water Bath to the workbench and heat to 85°C",
-      requiredEquipment: "water_bath",
-      completed: false,
-    },
-    {
-      id: 6,
-      title: "Heat Reaction",
-      instruction: "Place the flask in the water bath and heat for 15 minutes",
-      completed: false,
-    },
-  ];
+  // Each bottle with how long it has stood open and, for hydroxides with
+  // CO₂ uptake on, the carbonate that has formed in it
+  const experimentChemicals = useMemo(
+    () =>
+      shelfChemicals.map((chemical) => {
+        const exposure = reagentExposure[chemical.id] ?? SEALED_BOTTLE;
+        return {
+          ...chemical,
+          exposure,
+          carbonate:
+            co2Uptake && ABSORBS_CO2.has(chemical.id)
+              ? carbonateFraction(exposure.exposedSeconds)
+              : 0,
+        };
+      }),
+    [shelfChemicals, reagentExposure, co2Uptake],
+  );
+
+  const experimentEquipment = useMemo(
+    () =>
+      lab.equipment.map((equipment) => ({
+        ...equipment,
+        icon: <EquipmentIcon name={equipment.icon} />,
+      })),
+    [lab.equipment],
+  );
 
   // Undo functionality
   const saveStateToHistory = useCallback(() => {
@@ -622,17 +537,11 @@ function VirtualLabApp({
         finalY = Math.max(minY, Math.min(maxY, y));
 
         // Enhanced auto-snap formation for titration equipment
-        if (experimentTitle.includes("Acid-Base")) {
-          const titrationEquipment = [
-            "burette",
-            "conical_flask",
-            "magnetic_stirrer",
-          ];
-
-          if (titrationEquipment.includes(id)) {
+        if (isTitrationLab) {
+          if (TITRATION_EQUIPMENT.includes(id)) {
             // Get positions of other titration equipment already on workbench
             const otherTitrationEquipment = prev.filter(
-              (pos) => titrationEquipment.includes(pos.id) && pos.id !== id,
+              (pos) => TITRATION_EQUIPMENT.includes(pos.id) && pos.id !== id,
             );
 
             // Check if dragging near any existing titration equipment
@@ -685,7 +594,7 @@ function VirtualLabApp({
 
                 // Also update positions of other equipment in formation to align properly
                 const updatedPositions = prev.map((pos) => {
-                  if (titrationEquipment.includes(pos.id) && pos.id !== id) {
+                  if (TITRATION_EQUIPMENT.includes(pos.id) && pos.id !== id) {
                     const alignPosition =
                       formationPositions[
                         pos.id as keyof typeof formationPositions
@@ -719,13 +628,9 @@ function VirtualLabApp({
 
             // Allow titration equipment to be close when in formation
             const isTitrationFormation =
-              experimentTitle.includes("Acid-Base") &&
-              ["burette", "conical_flask", "magnetic_stirrer"].includes(
-                pos.id,
-              ) &&
-              ["burette", "conical_flask", "magnetic_stirrer"].includes(
-                excludeId,
-              );
+              isTitrationLab &&
+              TITRATION_EQUIPMENT.includes(pos.id) &&
+              TITRATION_EQUIPMENT.includes(excludeId);
 
             if (isTitrationFormation) {
               return false; // Allow close positioning for formation
@@ -771,67 +676,211 @@ function VirtualLabApp({
           );
         }
 
-        // Check if this completes a guided step for Aspirin Synthesis
-        if (experimentTitle.includes("Aspirin")) {
-          const currentStep = aspirinGuidedSteps[currentGuidedStep - 1];
-          if (currentStep?.requiredEquipment === id) {
-            setCurrentGuidedStep((prev) => prev + 1);
-            setToastMessage(`✓ Step ${currentGuidedStep} completed!`);
-            setTimeout(() => setToastMessage(null), 3000);
-          }
-        }
-
-        // Check for Acid-Base Titration equipment setup completion
-        if (experimentTitle.includes("Acid-Base")) {
-          // Step 1: Prepare Equipment - when burette is placed (key equipment for this step)
-          if (id === "burette") {
-            markStepCompleted(1, "Burette equipment prepared");
-          }
+        // Check if this completes a guided step
+        const currentStep = guidedSteps[currentGuidedStep - 1];
+        if (currentStep?.requiredEquipment === id) {
+          setCurrentGuidedStep((prev) => prev + 1);
+          setToastMessage(`✓ Step ${currentGuidedStep} completed!`);
+          setTimeout(() => setToastMessage(null), 3000);
         }
 
         // Add equipment at user-specified position
         return [...prev, { id, x: finalX, y: finalY, chemicals: [] }];
       });
     },
+    [isTitrationLab, currentGuidedStep, guidedSteps, saveStateToHistory],
+  );
+
+  const containerPH = (
+    chemicals: ContainerChemical[],
+    temperatureC = ROOM_TEMPERATURE_C,
+  ) => unknownPH(chemicals) ?? solveContainer(chemicals, temperatureC).pH;
+
+  // Solve the equilibrium of the measured container whenever its contents change
+  const measuredSolution = useMemo(() => {
+    const container = equipmentPositions.find(
+      (pos) => pos.id === measuredContainerId,
+    );
+    if (!container || container.chemicals.length === 0) return null;
+    const solution = solveContainer(
+      container.chemicals,
+      container.temperature ?? ROOM_TEMPERATURE_C,
+    );
+    const pH = unknownPH(container.chemicals);
+    return pH === null
+      ? solution
+      : { ...solution, pH, pOH: solution.pH + solution.pOH - pH };
+  }, [equipmentPositions, measuredContainerId, unknownPH]);
+
+  // Conductivity of the same container for the conductivity meter. An
+  // unknown sample keeps its strength hidden, so the cell shows nothing.
+  const measuredConductivity = useMemo(() => {
+    const container = equipmentPositions.find(
+      (pos) => pos.id === measuredContainerId,
+    );
+    if (!container || container.chemicals.length === 0) return null;
+    if (unknownPH(container.chemicals) !== null) return null;
+    return solutionConductivity(
+      container.chemicals,
+      container.temperature ?? ROOM_TEMPERATURE_C,
+    );
+  }, [equipmentPositions, measuredContainerId, unknownPH]);
+
+  // The lab as the step triggers see it. Only the containers some step
+  // watches the pH of are solved.
+  const phWatched = useMemo(() => watchedForPH(allSteps), [allSteps]);
+  const labSnapshot = useMemo<LabSnapshot>(
+    () => ({
+      time: labClock,
+      equipment: equipmentPositions.map((pos) => pos.id),
+      containers: Object.fromEntries(
+        equipmentPositions.map((pos) => [
+          pos.id,
+          {
+            reagents: pos.chemicals.map((c) => ({
+              id: c.id,
+              role: reagentRole(pos.id, c.id),
+            })),
+            pH:
+              phWatched.has(pos.id) && pos.chemicals.length > 0
+                ? (unknownPH(pos.chemicals) ??
+                  solveContainer(
+                    pos.chemicals,
+                    pos.temperature ?? ROOM_TEMPERATURE_C,
+                  ).pH)
+                : null,
+            temperature: pos.temperature ?? ROOM_TEMPERATURE_C,
+          },
+        ]),
+      ),
+      trials: trialCount,
+      milestones,
+    }),
     [
-      experimentTitle,
-      currentGuidedStep,
-      aspirinGuidedSteps,
-      saveStateToHistory,
-      markStepCompleted,
+      labClock,
+      equipmentPositions,
+      phWatched,
+      unknownPH,
+      trialCount,
+      milestones,
     ],
   );
 
-  const calculateChemicalProperties = (
-    chemical: any,
-    amount: number,
-    totalVolume: number,
-  ) => {
-    const concentrations: { [key: string]: number } = {
-      hcl: 0.1, // 0.1 M HCl
-      naoh: 0.1, // 0.1 M NaOH
-      phenol: 0, // Indicator (no molarity)
-    };
+  // Complete every step whose triggers the lab now meets
+  React.useEffect(() => {
+    const { completed, memory } = evaluateSteps(
+      allSteps,
+      completedSteps,
+      labSnapshot,
+      triggerMemory.current,
+    );
+    triggerMemory.current = memory;
+    if (completed.length === 0) return;
 
-    const molarity = concentrations[chemical.id] || 0;
-    const volumeInL = amount / 1000; // Convert mL to L
-    const moles = molarity * volumeInL;
-
-    // Calculate pH for acids and bases
-    let ph = 7; // neutral
-    if (chemical.id === "hcl") {
-      ph = -Math.log10(molarity * (amount / totalVolume)); // Acidic
-    } else if (chemical.id === "naoh") {
-      const poh = -Math.log10(molarity * (amount / totalVolume));
-      ph = 14 - poh; // Basic
+    const newCompletedSteps = new Set(
+      Array.from(completedSteps).concat(completed.map((step) => step.id)),
+    );
+    setCompletedSteps(newCompletedSteps);
+    if (tracksSteps) {
+      const progressPercentage = Math.round(
+        (newCompletedSteps.size / allSteps.length) * 100,
+      );
+      onProgressUpdate?.(progressPercentage, newCompletedSteps.size);
+      onStepProgressUpdate?.(newCompletedSteps.size);
     }
+    setToastMessage(
+      completed.length === 1
+        ? `✅ Step ${completed[0].id} completed: ${completed[0].title}`
+        : `✅ Steps ${completed.map((step) => step.id).join(", ")} completed`,
+    );
+    setTimeout(() => setToastMessage(null), 3000);
+  }, [
+    labSnapshot,
+    allSteps,
+    completedSteps,
+    tracksSteps,
+    onProgressUpdate,
+    onStepProgressUpdate,
+  ]);
 
-    return {
-      molarity: molarity * (amount / totalVolume),
-      moles,
-      ph: Math.max(0, Math.min(14, ph)),
-    };
-  };
+  // Tick the clock while a step waits on a condition being held
+  const clockNeeded =
+    awaitsClock(allSteps.filter((step) => !completedSteps.has(step.id))) &&
+    equipmentPositions.length > 0;
+  React.useEffect(() => {
+    if (!clockNeeded) return;
+    const interval = setInterval(() => setLabClock(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [clockNeeded]);
+
+  React.useEffect(() => {
+    if (!measuredSolution) return;
+
+    // Report molarity and moles for the most recently added molar reagent
+    const recent =
+      measuredSolution.components[measuredSolution.components.length - 1];
+    const ph = isTitrationLab
+      ? meterReading(electrode, calibration, measuredSolution.pH)
+      : measuredSolution.pH;
+    setMeasurements((prev) => ({
+      ...prev,
+      volume: measuredSolution.volumeL * 1000,
+      concentration: recent?.concentration || 0,
+      ph,
+      poh: measuredSolution.pOH + measuredSolution.pH - ph,
+      molarity: recent?.concentration || 0,
+      moles: recent?.moles || 0,
+      temperature: measuredSolution.temperatureC,
+    }));
+  }, [measuredSolution, isTitrationLab, electrode, calibration]);
+
+  const theoreticalTitration = useMemo(() => {
+    if (!titrationSetup) return null;
+    const { analyte, titrant } = titrationSetup;
+    // The ideal curve of an unknown is worked out once grading has
+    // revealed its concentration
+    if (unknownAliquot) {
+      return gradedUnknown
+        ? analyzeTitration(
+            analyte.map((c) =>
+              c === unknownAliquot
+                ? { ...c, concentration: `${gradedUnknown.concentration} M` }
+                : c,
+            ),
+            titrant,
+            [],
+            ROOM_TEMPERATURE_C,
+          )
+        : null;
+    }
+    if (redoxReagents[titrant.id]) {
+      return analyzeRedoxTitration(analyte, titrant, []);
+    }
+    if (titrant.id === EDTA_ID) {
+      return analyzeComplexometricTitration(analyte, titrant, []);
+    }
+    if (titrant.id === AGNO3_ID || titrant.id === KSCN_ID) {
+      return analyzePrecipitationTitration(analyte, titrant, []);
+    }
+    return analyzeTitration(analyte, titrant, [], ROOM_TEMPERATURE_C);
+  }, [titrationSetup, unknownAliquot, gradedUnknown]);
+
+  // The ideal curve of an ungraded unknown would give its answer away, so
+  // only the student's own points are shown until the result is submitted
+  const hideAnswer = !!unknownAliquot && !gradedUnknown;
+  const titrationAnalysis = useMemo(() => {
+    if (hideAnswer) {
+      return {
+        recorded: titrationCurve,
+        theoretical: [],
+        equivalencePoints: [],
+        halfEquivalencePoints: [],
+        bufferRegions: [],
+      };
+    }
+    if (!theoreticalTitration) return null;
+    return { ...theoreticalTitration, recorded: titrationCurve };
+  }, [theoreticalTitration, titrationCurve, hideAnswer]);
 
   const handleChemicalSelect = (id: string) => {
     setSelectedChemical(selectedChemical === id ? null : id);
@@ -844,32 +893,33 @@ function VirtualLabApp({
 
       // Save current state before making changes
       saveStateToHistory();
-
-      // Enhanced phenolphthalein handling for conical flask (proper placement)
-      if (chemicalId === "phenol" && equipmentId === "conical_flask") {
+      setMeasuredContainerId(equipmentId);
+
+      // Indicators go in as drops that report on the contents, wherever
+      // the lab definition has them added
+      if (chemical.indicator) {
+        const container =
+          lab.equipment.find((eq) => eq.id === equipmentId)?.name ??
+          equipmentId;
         setToastMessage(
-          `✨ Added ${amount}mL of Phenolphthalein indicator to conical flask`,
+          `✨ Added ${amount}mL of ${chemical.name} indicator to ${container}`,
         );
         setTimeout(() => setToastMessage(null), 3000);
 
-        // Step 3: Add Indicator - Phenolphthalein added to conical flask
-        markStepCompleted(3, "Phenolphthalein indicator added");
-
-        // Add phenolphthalein to conical flask - this is the correct usage for titration
         setEquipmentPositions((prev) =>
           prev.map((pos) => {
             if (pos.id === equipmentId) {
-              const newChemicals = [
-                ...pos.chemicals,
+              return pourInto(pos, [
                 {
                   id: chemicalId,
                   name: chemical.name,
+                  formula: chemical.formula,
                   color: chemical.color,
                   amount,
                   concentration: chemical.concentration,
+                  carbonate: chemical.carbonate,
                 },
-              ];
-              return { ...pos, chemicals: newChemicals };
+              ]);
             }
             return pos;
           }),
@@ -877,56 +927,49 @@ function VirtualLabApp({
         return;
       }
 
-      // Enhanced NaOH handling for burette (proper placement)
-      if (chemicalId === "naoh" && equipmentId === "burette") {
-        setToastMessage(`🧪 Filled burette with ${amount}mL of NaOH solution`);
-        setTimeout(() => setToastMessage(null), 3000);
-
-        // Step 1: Prepare Equipment - NaOH added to burette completes equipment preparation
-        markStepCompleted(1, "NaOH added to burette - equipment ready");
-
-        // Add NaOH to burette - this is the correct setup for acid-base titration
-        setEquipmentPositions((prev) =>
-          prev.map((pos) => {
-            if (pos.id === equipmentId) {
-              const newChemicals = [
-                ...pos.chemicals,
-                {
-                  id: chemicalId,
-                  name: chemical.name,
-                  color: chemical.color,
-                  amount,
-                  concentration: chemical.concentration,
-                },
-              ];
-              return { ...pos, chemicals: newChemicals };
-            }
-            return pos;
-          }),
+      // Titrant handling for burette (proper placement)
+      if (equipmentId === "burette" && isTitrant(chemicalId)) {
+        setToastMessage(
+          `🧪 Filled burette with ${amount}mL of ${chemical.name} solution`,
         );
-        return;
-      }
-
-      // Legacy phenolphthalein to burette support (though not typical)
-      if (chemicalId === "phenol" && equipmentId === "burette") {
-        setToastMessage(`Added ${amount}mL of ${chemical.name} to burette`);
         setTimeout(() => setToastMessage(null), 3000);
 
-        // Add chemical to burette normally
+        // A burette still wet from washing dilutes the first fill; topping
+        // up adds full-strength titrant, and a fresh fill traps air in the
+        // tip. Carbonate from the bottle mixes in with each fill.
+        const existing =
+          equipmentPositions
+            .find((pos) => pos.id === "burette")
+            ?.chemicals.find((c) => c.id === chemicalId)?.amount ?? 0;
+        setBurettePrep((prev) => ({
+          rinsedWith: prev.rinsedWith,
+          dilution:
+            existing > 0
+              ? (existing * prev.dilution + amount) / (existing + amount)
+              : fillDilution(amount, prev.rinsedWith === chemicalId),
+          bubble: existing > 0 ? prev.bubble : TIP_BUBBLE,
+          carbonate:
+            existing > 0
+              ? (existing * prev.carbonate + amount * chemical.carbonate) /
+                (existing + amount)
+              : chemical.carbonate,
+        }));
+
+        // Add titrant to burette - this is the correct setup for acid-base titration
         setEquipmentPositions((prev) =>
           prev.map((pos) => {
             if (pos.id === equipmentId) {
-              const newChemicals = [
-                ...pos.chemicals,
+              return pourInto(pos, [
                 {
                   id: chemicalId,
                   name: chemical.name,
+                  formula: chemical.formula,
                   color: chemical.color,
                   amount,
                   concentration: chemical.concentration,
+                  carbonate: chemical.carbonate,
                 },
-              ];
-              return { ...pos, chemicals: newChemicals };
+              ]);
             }
             return pos;
           }),
@@ -937,16 +980,16 @@ function VirtualLabApp({
       setEquipmentPositions((prev) =>
         prev.map((pos) => {
           if (pos.id === equipmentId) {
-            const newChemicals = [
-              ...pos.chemicals,
-              {
-                id: chemicalId,
-                name: chemical.name,
-                color: chemical.color,
-                amount,
-                concentration: chemical.concentration,
-              },
-            ];
+            const added = {
+              id: chemicalId,
+              name: chemical.name,
+              formula: chemical.formula,
+              color: chemical.color,
+              amount,
+              concentration: chemical.concentration,
+              carbonate: chemical.carbonate,
+            };
+            const newChemicals = [...pos.chemicals, added];
 
             // Show success toast
             setToastMessage(
@@ -954,16 +997,9 @@ function VirtualLabApp({
             );
             setTimeout(() => setToastMessage(null), 3000);
 
-            // Check for Acid-Base Titration step completion
-            if (experimentTitle.includes("Acid-Base")) {
-              if (chemicalId === "hcl" && equipmentId === "conical_flask") {
-                markStepCompleted(2, "HCl sample prepared in conical flask");
-              }
-            }
-
-            // Check if this completes a guided step for Aspirin Synthesis
-            if (experimentTitle.includes("Aspirin")) {
-              const currentStep = aspirinGuidedSteps[currentGuidedStep - 1];
+            // Check if this completes a guided step
+            if (guidedSteps.length > 0) {
+              const currentStep = guidedSteps[currentGuidedStep - 1];
               if (
                 currentStep?.requiredChemical === chemicalId &&
                 currentStep?.targetEquipment === equipmentId
@@ -981,31 +1017,9 @@ function VirtualLabApp({
                 0,
               );
               handleReaction(newChemicals, totalVolume, equipmentId);
-
-              // Update measurements for experiments 2 and 3
-              if (
-                experimentTitle.includes("Acid-Base") ||
-                experimentTitle.includes("Equilibrium")
-              ) {
-                // Use the most recent chemical for calculations
-                const recentChemical = newChemicals[newChemicals.length - 1];
-                const calculations = calculateChemicalProperties(
-                  recentChemical,
-                  recentChemical.amount,
-                  totalVolume,
-                );
-                setMeasurements((prev) => ({
-                  ...prev,
-                  volume: totalVolume,
-                  concentration: calculations.molarity,
-                  ph: calculations.ph,
-                  molarity: calculations.molarity,
-                  moles: calculations.moles,
-                }));
-              }
             }
 
-            return { ...pos, chemicals: newChemicals };
+            return pourInto(pos, [added]);
           }
           return pos;
         }),
@@ -1015,392 +1029,692 @@ function VirtualLabApp({
     },
     [
       experimentChemicals,
+      equipmentPositions,
       saveStateToHistory,
-      markStepCompleted,
-      experimentTitle,
       currentGuidedStep,
-      aspirinGuidedSteps,
+      guidedSteps,
+      lab.equipment,
     ],
   );
 
+  // Work out what the reagents in a container do to each other from the
+  // reaction registry: amounts from the limiting reagent, and the heat
+  // each reaction gives out
   const handleReaction = (
-    chemicals: any[],
+    chemicals: LabChemical[],
     totalVolume: number,
     equipmentId?: string,
   ) => {
-    // Enhanced reaction detection with equipment specificity
-    const hasAcid = chemicals.some((c) => c.id === "hcl");
-    const hasBase = chemicals.some((c) => c.id === "naoh");
-    const hasIndicator = chemicals.some((c) => c.id === "phenol");
-
-    if (hasAcid && hasBase) {
-      // Calculate reaction specifics
-      const hclAmount = chemicals.find((c) => c.id === "hcl")?.amount || 0;
-      const naohAmount = chemicals.find((c) => c.id === "naoh")?.amount || 0;
-
-      // Calculate limiting reagent (assuming equal molarity)
-      const limitingAmount = Math.min(hclAmount, naohAmount);
-      const excessReagent =
-        hclAmount > naohAmount
-          ? "HCl"
-          : naohAmount > hclAmount
-            ? "NaOH"
-            : "none";
-
-      let reactionTitle = "Acid-Indicator Interaction Detected";
-      let reactionDescription = "HCl + C₂₀H₁����O��� → Colorless complex";
-
-      // Enhanced messaging for conical flask
-      if (equipmentId === "conical_flask") {
-        reactionTitle = hasIndicator
-          ? "Titration with Indicator in Conical Flask"
-          : "Neutralization in Conical Flask";
-        reactionDescription = hasIndicator
-          ? `${limitingAmount.toFixed(1)}mL titration: HCl + NaOH → NaCl + H₂O (C₂��H₁₄O��� endpoint indicator)`
-          : `${limitingAmount.toFixed(1)}mL reaction: HCl + NaOH → NaCl + H₂O`;
-      }
+    const indicator = chemicals
+      .map((c) => indicators[c.id])
+      .find((candidate) => candidate);
+    const hasIndicator = indicator !== undefined;
+    const outcomes = evaluateMix(chemicals);
+    const nameOf = (id: string) =>
+      chemicals.find((c) => baseReagent(c.id) === id)?.name ?? id;
+    const mmol = (moles: number) => `${(moles * 1000).toFixed(3)} mmol`;
+
+    outcomes.forEach((outcome) => {
+      const { reaction, extent, limiting, products, excess, heat } = outcome;
+      const neutralization = reaction.type === "neutralization";
+      const titrating = neutralization && hasIndicator;
+      const limitingVolume = chemicals
+        .filter((c) => limiting.includes(baseReagent(c.id)))
+        .reduce((sum, c) => sum + c.amount, 0);
+      const amounts =
+        extent === null
+          ? "The unknown sample's strength stays hidden, so amounts are not worked out"
+          : `${limiting.map(nameOf).join(" and ")} limiting; ${excess.length > 0 ? `${excess.map((r) => `${mmol(r.moles)} ${nameOf(r.id)}`).join(", ")} left over` : "nothing left over"}`;
 
       const result: Result = {
-        id: Date.now().toString(),
+        id: `${Date.now()}_${reaction.equation}`,
         type: "reaction",
-        title: reactionTitle,
-        description: reactionDescription,
+        title:
+          equipmentId === "conical_flask" && neutralization
+            ? titrating
+              ? "Titration with Indicator in Conical Flask"
+              : "Neutralization in Conical Flask"
+            : reaction.name,
+        description:
+          extent === null
+            ? `${reaction.equation}. ${reaction.effects.observation}.`
+            : `${mmol(extent)} reacted: ${reaction.equation}. ${reaction.effects.observation}.`,
         timestamp: new Date().toLocaleTimeString(),
         calculation: {
-          reaction: hasIndicator
-            ? "HCl + NaOH → NaCl + H₂O (with C₂₀H₁₄O₄)"
-            : "HCl + NaOH → NaCl + H₂O",
-          reactionType: hasIndicator
+          reaction: titrating
+            ? `${reaction.equation} (with ${indicator.name})`
+            : reaction.equation,
+          reactionType: titrating
             ? "Acid-Base Titration with Indicator"
-            : "Acid-Base Neutralization",
-          balancedEquation: hasIndicator
-            ? "HCl(aq) + NaOH(aq) → NaCl(aq) + H₂O(l) [C₂���H₁₄O₄ endpoint indicator]"
-            : "HCl(aq) + NaOH(aq) → NaCl(aq) + H₂O(l)",
-          products: hasIndicator
-            ? [
-                "Sodium Chloride (NaCl)",
-                "Water (H₂O)",
-                "Color change at endpoint",
-              ]
-            : ["Sodium Chloride (NaCl)", "Water (H₂O)"],
-          yield: 95,
-          volumeAdded: limitingAmount,
+            : reactionTypeNames[reaction.type],
+          balancedEquation: titrating
+            ? `${reaction.equation} [${indicator.name} endpoint indicator]`
+            : reaction.equation,
+          products: [
+            ...products.map((p) => {
+              const label = `${p.name} (${p.formula})`;
+              const form =
+                p.state === "s"
+                  ? " precipitate"
+                  : p.state === "g"
+                    ? " gas"
+                    : "";
+              return p.moles === null
+                ? label
+                : `${label}: ${mmol(p.moles)}${form}`;
+            }),
+            ...(titrating ? ["Color change at endpoint"] : []),
+          ],
+          volumeAdded: extent === null ? undefined : limitingVolume,
           totalVolume: totalVolume,
-          ph: 7.0,
-          molarity: (limitingAmount * 0.1) / (totalVolume / 1000),
+          ph: containerPH(chemicals),
+          moles: extent ?? undefined,
+          // Concentration of the main product in the mixture
+          molarity:
+            products[0].moles === null
+              ? undefined
+              : products[0].moles / (totalVolume / 1000),
           mechanism: [
-            "1. HCl dissociates: HCl → H⁺ + Cl⁻",
-            "2. NaOH dissociates: NaOH ��� Na⁺ + OH��",
-            "3. Neutralization: H⁺ + OH⁻ → H₂O",
-            "4. Salt formation: Na⁺ + Cl⁻ ��� NaCl",
-          ],
+            ...reaction.mechanism,
+            ...(reaction.stages
+              ? [`Stepwise: ${reaction.stages.join("; ")}`]
+              : []),
+            amounts,
+            ...(heat === null
+              ? []
+              : [
+                  `Heat ${heat >= 0 ? "released" : "absorbed"}: ${Math.abs(heat).toFixed(1)} J (ΔH = ${reaction.deltaH} kJ/mol × ${mmol(extent ?? 0)})`,
+                ]),
+          ].map((line, idx) => `${idx + 1}. ${line}`),
           thermodynamics: {
-            deltaH: -57.3,
-            deltaG: -79.9,
-            equilibriumConstant: 1.0e14,
+            deltaH: reaction.deltaH,
+            deltaG: reaction.deltaG,
+            logK: reaction.logK,
+            heatReleased: heat ?? undefined,
           },
         },
       };
 
       setResults((prev) => [...prev, result]);
+    });
 
-      // Step 6: Calculate Concentration - Mark when result is calculated for Acid-Base Titration
-      if (
-        experimentTitle.includes("Acid-Base") &&
-        hasAcid &&
-        hasBase &&
-        !hasCalculatedResult
-      ) {
-        setHasCalculatedResult(true);
-        markStepCompleted(6, "Concentration calculated");
-      }
+    if (outcomes.length > 0) {
+      reachMilestone("result_calculated");
 
       // Special toast message for conical flask
       if (equipmentId === "conical_flask") {
+        const { reaction } = outcomes[outcomes.length - 1];
         setToastMessage(
-          `🧪 Acid-indicator reaction complete! HCl + C₂₀H₁₄O₄ → Colorless complex`,
+          `🧪 ${reactionTypeNames[reaction.type]}: ${reaction.netIonic}`,
         );
         setTimeout(() => setToastMessage(null), 4000);
       }
     }
   };
 
-  const handleStartExperiment = () => {
-    setIsRunning(true);
-    if (onTimerStart) {
-      onTimerStart();
-    }
-    // Don't call onStepComplete here - progress should update on individual step completion
+  const handleStartExperiment = () => {
+    setIsRunning(true);
+    if (onTimerStart) {
+      onTimerStart();
+    }
+    // Don't call onStepComplete here - progress should update on individual step completion
+  };
+
+  // Titration control: the burette stopcock delivers titrant into the flask
+  // either drop by drop or as a stream while it stays open. A session lasts
+  // from the first delivery until the titration is stopped.
+  const beginTitration = (): TitrationSession | null => {
+    const burette = equipmentPositions.find((pos) => pos.id === "burette");
+    const conicalFlask = equipmentPositions.find(
+      (pos) => pos.id === "conical_flask",
+    );
+    const stirrer = equipmentPositions.find(
+      (pos) => pos.id === "magnetic_stirrer",
+    );
+
+    if (!burette || !conicalFlask) {
+      setToastMessage("⚠️ Please place both burette and conical flask first!");
+      setTimeout(() => setToastMessage(null), 3000);
+      return null;
+    }
+
+    const titrant = burette.chemicals.find((c) => isTitrant(c.id));
+    if (!titrant) {
+      setToastMessage(
+        "⚠️ Please add an acid, base or redox titrant to the burette!",
+      );
+      setTimeout(() => setToastMessage(null), 3000);
+      return null;
+    }
+    if (titrant.amount <= 0) {
+      setToastMessage("⚠️ The burette is empty - refill it with titrant!");
+      setTimeout(() => setToastMessage(null), 3000);
+      return null;
+    }
+
+    const temperature = conicalFlask.temperature ?? ROOM_TEMPERATURE_C;
+    const { session, startPH } = openSession(
+      titrant,
+      conicalFlask.chemicals,
+      burettePrep,
+      temperature,
+      containerPH,
+    );
+    const { analyte } = session;
+    titrationSession.current = session;
+
+    setIsTitrating(true);
+    setMeasuredContainerId("conical_flask");
+
+    // Show Results Panel immediately when titration starts
+    setShowResultsPanel(true);
+
+    // The titration starts with the first titrant delivered from the
+    // burette; titrating a KHP standard is standardization instead
+    if (analyte?.id !== "khp") {
+      reachMilestone("titration_started");
+    }
+
+    // Auto-start magnetic stirrer if available
+    if (stirrer && !isStirring) {
+      setIsStirring(true);
+      setStirerActive(true);
+      setToastMessage(
+        `🧪 Starting titration with automatic stirring - open the stopcock to add ${titrant.name}`,
+      );
+    } else {
+      setToastMessage(
+        `🧪 Starting titration - open the stopcock to add ${titrant.name}`,
+      );
+    }
+    setTimeout(() => setToastMessage(null), 3000);
+
+    setResults((prev) => [...prev, summarizeStart(session, startPH)]);
+    return session;
+  };
+
+  // Summarize the titrant delivered since the last summary
+  const summarizeTitration = (session: TitrationSession) => {
+    if (session.delivered - session.summarized < 0.001) return;
+    session.summarized = session.delivered;
+    const result = summarizeRun(session, {
+      analysis: theoreticalTitration,
+      endpoint: indicatorEndpoint.current,
+      hideAnswer,
+      measurePH: containerPH,
+    });
+    setResults((prev) => [...prev, result]);
+  };
+
+  // Record an increment delivered into the flask and the pH (and electrode
+  // potential, free metal or free silver) it produced, plus the
+  // conductivity and temperature when the cell or thermometer is in the
+  // flask, then look for the endpoint signals
+  const recordIncrement = (
+    session: TitrationSession,
+    mix: ContainerChemical[],
+    temperature: number,
+    pH: number,
+  ) => {
+    const { titrant } = session;
+    const { amount: delivered } = mix[mix.length - 1];
+    const potential = session.redox ? solveRedox(mix)?.potential : undefined;
+    const pM = session.complexation ? solveComplexation(mix)?.pM : undefined;
+    const pAg = session.precipitation
+      ? solvePrecipitation(mix)?.pAg
+      : undefined;
+    const conductivity =
+      equipmentPositions.some((pos) => pos.id === "conductivity_meter") &&
+      unknownTitrantVolume(mix) === null
+        ? (solutionConductivity(mix, temperature) ?? undefined)
+        : undefined;
+    const thermometer = equipmentPositions.some(
+      (pos) => pos.id === "thermometer",
+    );
+    if (titrationClockStart.current === null) {
+      titrationClockStart.current = Date.now();
+    }
+    const time = (Date.now() - titrationClockStart.current) / 1000;
+    // The curve logs what the pH meter shows, not the true pH
+    const reading = meterReading(electrode, calibration, pH);
+    setTitrationCurve((prev) => {
+      const last = prev[prev.length - 1];
+      if (last && delivered - last.volume < 0.01) return prev;
+      return [
+        ...prev,
+        {
+          volume: delivered,
+          pH: reading,
+          potential,
+          pM,
+          pAg,
+          conductivity,
+          temperature: thermometer ? temperature : undefined,
+          time,
+        },
+      ];
+    });
+
+    // The first endpoint signal of the run is the one the result reports;
+    // a KHP standard's colour change is standardization, not an endpoint
+    const signal = endpointSignal(session, mix, pH);
+    if (signal && indicatorEndpoint.current === null) {
+      indicatorEndpoint.current = signal;
+    }
+    if (signal && session.analyte?.id !== "khp") {
+      reachMilestone("endpoint_reached");
+    }
+  };
+
+  // Run `volume` mL of titrant from the burette into the flask; the pH meter
+  // reading and indicator colour follow from the flask equilibrium
+  const deliverTitrant = (volume: number) => {
+    const session = titrationSession.current;
+    if (!session) return;
+    // Air left in the tip is swept out by the first titrant through it:
+    // the level drops with nothing reaching the flask
+    if (session.bubble > 0) {
+      const air = Math.min(session.bubble, session.remaining);
+      session.remaining -= air;
+      session.bubble = 0;
+      runLog.current.air += air;
+      setBurettePrep((prev) => ({ ...prev, bubble: 0 }));
+    }
+    const amount = Math.min(volume, session.remaining);
+    if (amount <= 0) return;
+
+    // Titrant from the burette is at room temperature; the increment
+    // reacts and warms (or cools) the flask
+    session.temperature = mixTemperature(
+      [...session.flask, { ...session.titrant, amount: session.delivered }],
+      session.temperature,
+      [{ ...session.titrant, amount }],
+    );
+    session.delivered += amount;
+    session.remaining -= amount;
+    const { titrant, delivered, remaining, temperature } = session;
+
+    setEquipmentPositions((prev) =>
+      prev.map((pos) => {
+        if (pos.id === "burette") {
+          return {
+            ...pos,
+            chemicals: pos.chemicals.map((c) =>
+              c.id === titrant.id ? { ...c, amount: remaining } : c,
+            ),
+          };
+        }
+        if (pos.id === "conical_flask") {
+          const inFlask = pos.chemicals.some((c) => c.id === titrant.id);
+          return {
+            ...pos,
+            chemicals: inFlask
+              ? pos.chemicals.map((c) =>
+                  c.id === titrant.id ? { ...c, amount: delivered } : c,
+                )
+              : [
+                  ...pos.chemicals,
+                  { ...titrant, color: "transparent", amount: delivered },
+                ],
+            temperature,
+          };
+        }
+        return pos;
+      }),
+    );
+
+    // The unknown sample's readings come from the server, so increments
+    // into it are recorded as their readings arrive, in the order delivered
+    const mix = [...session.flask, { ...titrant, amount: delivered }];
+    const unknownVolume = unknownTitrantVolume(mix);
+    if (unknownVolume === null) {
+      recordIncrement(session, mix, temperature, containerPH(mix, temperature));
+    } else {
+      const reading = requestUnknownReading(unknownVolume).catch(() => null);
+      afterReadings(async () => {
+        const pH = await reading;
+        if (pH !== null && titrationSession.current === session) {
+          recordIncrement(session, mix, temperature, pH);
+        }
+      });
+    }
+
+    // Falling drop from the burette tip
+    const burette = equipmentPositions.find((pos) => pos.id === "burette");
+    if (burette) {
+      const dropId = `drop_${Date.now()}_${Math.random()}`;
+      setDropwiseAnimation((prev) => ({
+        active: true,
+        chemicalId: titrant.id,
+        drops: [
+          ...prev.drops,
+          { id: dropId, x: burette.x, y: burette.y + 50, color: "transparent" },
+        ],
+      }));
+      setTimeout(() => {
+        setDropwiseAnimation((prev) => ({
+          ...prev,
+          drops: prev.drops.filter((drop) => drop.id !== dropId),
+        }));
+      }, 1500);
+    }
+
+    if (remaining <= 0) {
+      setStopcock("closed");
+      afterReadings(() => summarizeTitration(session));
+      setToastMessage("⚠️ The burette is empty - record the final reading");
+      setTimeout(() => setToastMessage(null), 3000);
+    }
+  };
+
+  // The stream interval outlives renders, so it calls the latest delivery
+  const deliverRef = React.useRef(deliverTitrant);
+  deliverRef.current = deliverTitrant;
+
+  React.useEffect(() => {
+    const { flowRate } = stopcockModes[stopcock];
+    if (!flowRate) return;
+    const interval = setInterval(
+      () => deliverRef.current((flowRate * STREAM_TICK_MS) / 1000),
+      STREAM_TICK_MS,
+    );
+    return () => clearInterval(interval);
+  }, [stopcock]);
+
+  // Containers lose heat to the room, or settle at the temperature of the
+  // bath they stand in; a flask being titrated cools along with the
+  // temperature its session carries
+  React.useEffect(() => {
+    const settled = (pos: EquipmentPosition) =>
+      bathTemperatures[pos.id] === undefined
+        ? pos.temperature === undefined
+        : pos.chemicals.length === 0 ||
+          pos.temperature === bathTemperatures[pos.id];
+    const interval = setInterval(() => {
+      const seconds = COOLING_TICK_MS / 1000;
+      const session = titrationSession.current;
+      if (session) {
+        session.temperature = coolTowardsRoom(
+          session.temperature,
+          [...session.flask, { ...session.titrant, amount: session.delivered }],
+          seconds,
+        );
+      }
+      setEquipmentPositions((prev) =>
+        prev.some((pos) => !settled(pos))
+          ? prev.map((pos) => {
+              if (settled(pos)) return pos;
+              const bath = bathTemperatures[pos.id];
+              if (bath !== undefined) {
+                const temperature = warmInBath(
+                  pos.temperature ?? ROOM_TEMPERATURE_C,
+                  pos.chemicals,
+                  bath,
+                  seconds,
+                );
+                return {
+                  ...pos,
+                  temperature:
+                    Math.abs(temperature - bath) < 0.005 ? bath : temperature,
+                };
+              }
+              if (pos.temperature === undefined) return pos;
+              const temperature =
+                session && pos.id === "conical_flask"
+                  ? session.temperature
+                  : coolTowardsRoom(pos.temperature, pos.chemicals, seconds);
+              return {
+                ...pos,
+                temperature:
+                  Math.abs(temperature - ROOM_TEMPERATURE_C) < 0.005
+                    ? undefined
+                    : temperature,
+              };
+            })
+          : prev,
+      );
+    }, COOLING_TICK_MS);
+    return () => clearInterval(interval);
+  }, [bathTemperatures]);
+
+  // Open bottles stand exposed to the air while CO₂ uptake is on
+  const anyBottleOpen = Object.values(reagentExposure).some((b) => b.open);
+  React.useEffect(() => {
+    if (!co2Uptake || !anyBottleOpen) return;
+    const interval = setInterval(() => {
+      setReagentExposure((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).map(([id, exposure]) => [
+            id,
+            exposure.open
+              ? {
+                  ...exposure,
+                  exposedSeconds:
+                    exposure.exposedSeconds + EXPOSURE_TICK_MS / 1000,
+                }
+              : exposure,
+          ]),
+        ),
+      );
+    }, EXPOSURE_TICK_MS);
+    return () => clearInterval(interval);
+  }, [co2Uptake, anyBottleOpen]);
+
+  const handleToggleBottle = (id: string) =>
+    setReagentExposure((prev) => {
+      const exposure = prev[id] ?? SEALED_BOTTLE;
+      return { ...prev, [id]: { ...exposure, open: !exposure.open } };
+    });
+
+  const handleStopcockChange = (setting: StopcockSetting) => {
+    if (setting === "closed") {
+      setStopcock("closed");
+      return;
+    }
+    const session = titrationSession.current ?? beginTitration();
+    if (!session) return;
+    const { volume } = stopcockModes[setting];
+    if (volume) {
+      // A quick turn of the tap releases one (half) drop and closes again
+      setStopcock("closed");
+      deliverTitrant(volume);
+    } else {
+      setStopcock(setting);
+    }
+  };
+
+  const handleStartTitration = () => {
+    handleStopcockChange("fast");
   };
 
-  // Titration control functions
-  const handleStartTitration = useCallback(() => {
-    const burette = equipmentPositions.find((pos) => pos.id === "burette");
-    const conicalFlask = equipmentPositions.find(
-      (pos) => pos.id === "conical_flask",
-    );
-    const stirrer = equipmentPositions.find(
-      (pos) => pos.id === "magnetic_stirrer",
+  const handleStopTitration = () => {
+    setStopcock("closed");
+    const session = titrationSession.current;
+    if (session) {
+      // Increments still waiting on a reading belong to this run
+      afterReadings(() => {
+        summarizeTitration(session);
+        if (titrationSession.current === session) {
+          titrationSession.current = null;
+        }
+      });
+    }
+    setIsTitrating(false);
+    setDropwiseAnimation({ active: false, chemicalId: "", drops: [] });
+    setToastMessage(
+      "🎯 Titration stopped - read the final volume off the burette",
     );
+    setTimeout(() => setToastMessage(null), 3000);
 
-    if (!burette || !conicalFlask) {
-      setToastMessage("⚠️ Please place both burette and conical flask first!");
-      setTimeout(() => setToastMessage(null), 3000);
-      return;
+    // Automatically stop stirring when titration stops
+    if (isStirring) {
+      setIsStirring(false);
+      setStirerActive(false);
     }
+  };
 
-    const hasNaOH = burette.chemicals.some((c) => c.id === "naoh");
-    if (!hasNaOH) {
-      setToastMessage("⚠��� Please add NaOH to the burette first!");
-      setTimeout(() => setToastMessage(null), 3000);
-      return;
-    }
+  // Titrant in the burette, shown on the stopcock and reading controls
+  const buretteTitrant = equipmentPositions
+    .find((pos) => pos.id === "burette")
+    ?.chemicals.find((c) => isTitrant(c.id));
+  // NaOH is calculated with its standardized molarity once known
+  const buretteMolarity = buretteTitrant
+    ? ((buretteTitrant.id === "naoh" ? standardizedMolarity : null) ??
+      parseMolarity(buretteTitrant.concentration) ??
+      0)
+    : 0;
+  // ...and carries the uncertainty of that standardization
+  const buretteUncertainty =
+    buretteTitrant?.id === "naoh" && standardizedMolarity !== null
+      ? standardizedUncertainty
+      : 0;
+  const electrodePotential =
+    titrationCurve[titrationCurve.length - 1]?.potential;
+  const flaskChemicals =
+    equipmentPositions.find((pos) => pos.id === "conical_flask")?.chemicals ??
+    [];
+  // Sample it is titrated against, for the trial concentration calculation
+  const flaskAnalyte = flaskChemicals.find(
+    (c) =>
+      buretteTitrant &&
+      c.id !== buretteTitrant.id &&
+      reactsWith(c.id, buretteTitrant.id),
+  );
 
-    setIsTitrating(true);
+  // Flask contents before any titrant, for the dilution correction of the
+  // conductivity readings
+  const sampleVolume = flaskChemicals
+    .filter((c) => c.id !== buretteTitrant?.id)
+    .reduce((sum, c) => sum + c.amount, 0);
 
-    // Show Results Panel immediately when titration starts
-    setShowResultsPanel(true);
+  const phMeterPlaced = equipmentPositions.some((pos) => pos.id === "ph_meter");
 
-    // Step 4: Initial Titration - Start titration button pressed
-    markStepCompleted(4, "Initial titration started");
+  const handleCalibrate = (result: Calibration) => {
+    setCalibration(result);
+    setToastMessage(
+      `🎯 pH meter calibrated with ${result.points.length} buffers`,
+    );
+    setTimeout(() => setToastMessage(null), 2000);
+  };
 
-    // Auto-start magnetic stirrer if available
-    if (stirrer && !isStirring) {
-      setIsStirring(true);
-      setStirerActive(true);
+  // Locate the equivalence volume from the student's own readings: the
+  // steepest point of the first derivative, refined to where the second
+  // derivative crosses zero
+  const handleCalculateEndpoint = () => {
+    const measure = theoreticalTitration?.measure ?? "pH";
+    const symbol = { pH: "pH", potential: "E", pM: "pM", pAg: "pAg" }[measure];
+    const analysis = derivativeAnalysis(titrationCurve, (point) =>
+      measure === "pH" ? point.pH : (point[measure] ?? 0),
+    );
+    if (analysis.second.length === 0 || analysis.equivalenceVolume === null) {
       setToastMessage(
-        "🧪 Starting titration with automatic stirring - NaOH added to flask!",
+        "⚠️ Record more readings through the endpoint before calculating it",
       );
-    } else {
-      setToastMessage("🧪 Starting titration - NaOH added to conical flask!");
+      setTimeout(() => setToastMessage(null), 3000);
+      return;
     }
-    setTimeout(() => setToastMessage(null), 3000);
 
-    // Immediately add NaOH to conical flask when titration starts
-    const hasNaOHInFlask = conicalFlask.chemicals.some((c) => c.id === "naoh");
+    const volume = analysis.equivalenceVolume;
+    // An offset or slope error moves every reading but not the inflection
+    const problem = measure === "pH" ? calibrationProblem(calibration) : null;
+    setEndpointAnalysis(analysis);
+    setResults((prev) => [
+      ...prev,
+      summarizeDerivativeEndpoint(
+        analysis,
+        volume,
+        titrationCurve,
+        symbol,
+        problem,
+      ),
+    ]);
+    setShowResultsPanel(true);
+  };
 
-    if (!hasNaOHInFlask) {
-      // Automatically add NaOH to conical flask
-      setEquipmentPositions((prev) =>
-        prev.map((pos) => {
-          if (pos.id === "conical_flask") {
-            return {
-              ...pos,
-              chemicals: [
-                ...pos.chemicals,
-                {
-                  id: "naoh",
-                  name: "Sodium Hydroxide",
-                  color: "transparent",
-                  amount: 1.0, // Start with small amount (will increase with titration)
-                  concentration: "0.1 M",
-                },
-              ],
-            };
-          }
-          return pos;
-        }),
+  const handleRecordReading = (
+    kind: keyof BuretteReadings,
+    value: number,
+    eye: EyePosition,
+  ) => {
+    setBuretteReadings((prev) =>
+      kind === "initial"
+        ? { initial: value, final: null }
+        : { ...prev, final: value },
+    );
+    if (kind === "initial") {
+      runLog.current = { air: 0, eye };
+      setLastRun(null);
+    } else if (buretteTitrant) {
+      const standardized =
+        buretteTitrant.id === "naoh" && standardizedMolarity !== null;
+      setLastRun(
+        closeRun(
+          buretteTitrant,
+          flaskChemicals.find((c) => c.id === buretteTitrant.id),
+          runLog.current,
+          eye,
+          indicatorEndpoint.current,
+          standardized ? standardizedCarbonate : null,
+        ),
       );
     }
+    setToastMessage(
+      `📏 ${kind === "initial" ? "Initial" : "Final"} reading recorded: ${value.toFixed(2)} mL`,
+    );
+    setTimeout(() => setToastMessage(null), 2000);
+  };
 
-    // Add initial titration analysis result immediately
-    const initialResult: Result = {
-      id: `titration_start_${Date.now()}`,
-      type: "success",
-      title: "Titration Analysis Started",
-      description:
-        "Real-time analysis of acid-base titration in progress. Monitoring color changes and endpoint detection.",
-      timestamp: new Date().toLocaleTimeString(),
-      calculation: {
-        reaction: "HCl + NaOH → NaCl + H₂O (in progress)",
-        reactionType: "Acid-Base Titration - Initial Analysis",
-        balancedEquation: "HCl(aq) + NaOH(aq) → NaCl(aq) + H₂O(l)",
-        products: [
-          "Titration in progress",
-          "Monitoring pH changes",
-          "Awaiting endpoint",
-        ],
-        volumeAdded: 5.0, // Initial volume
-        totalVolume: 30.0,
-        concentration: "~0.1 M (calculating...)",
-        molarity: 0.1,
-        moles: 0.0005,
-        ph: 6.5, // Transitioning pH
-        yield: 20, // Initial progress
-        mechanism: [
-          "1. Initial setup: HCl solution prepared with phenolphthalein",
-          "2. NaOH addition started from burette",
-          "3. Gradual neutralization occurring",
-          "4. pH slowly increasing towards endpoint",
-          "5. Monitoring for color change to pink",
-        ],
-        thermodynamics: {
-          deltaH: -57.3,
-          deltaG: -79.9,
-          equilibriumConstant: 1.0e14,
-        },
-      },
-    };
-
-    setResults((prev) => [...prev, initialResult]);
-    setToastMessage("📊 Analysis Panel opened - Monitoring titration progress");
+  // Rinsing with a little titrant and draining it leaves the burette wet
+  // with titrant rather than water, ready to refill at full strength
+  const handleRinseBurette = () => {
+    if (!buretteTitrant) return;
+    setEquipmentPositions((prev) =>
+      prev.map((pos) =>
+        pos.id === "burette"
+          ? {
+              ...pos,
+              chemicals: pos.chemicals.filter(
+                (c) => c.id !== buretteTitrant.id,
+              ),
+            }
+          : pos,
+      ),
+    );
+    setBurettePrep({
+      rinsedWith: buretteTitrant.id,
+      dilution: 1,
+      bubble: 0,
+      carbonate: 0,
+    });
+    setBuretteReadings({ initial: null, final: null });
+    setToastMessage(
+      `🚿 Burette rinsed with ${buretteTitrant.name} and drained - refill it`,
+    );
     setTimeout(() => setToastMessage(null), 3000);
+  };
 
-    // Start enhanced color transition from lighter pink to darker pink over 8 seconds with volume increase
-    setTitrationColorProgress(0);
-    const startTime = Date.now();
-    const duration = 8000; // 8 seconds for smoother, more dramatic color transition
-
-    const animateColor = () => {
-      const elapsed = Date.now() - startTime;
-      const progress = Math.min(elapsed / duration, 1);
-
-      // Use enhanced easing function for even smoother transition
-      const easedProgress =
-        progress < 0.5
-          ? 2 * progress * progress
-          : 1 - Math.pow(-2 * progress + 2, 3) / 2; // cubic ease-in-out function
-      const currentColorIntensity = cumulativeColorIntensity + easedProgress;
-      setTitrationColorProgress(currentColorIntensity);
-
-      // Continuously increase volume during titration (cumulative across multiple titrations)
-      const volumeIncrease = progress * 20.0; // 20mL added per titration cycle
-      const currentVolume = cumulativeVolume + volumeIncrease;
-
-      // Update measurements with increasing volume and changing pH
-      setMeasurements((prev) => ({
-        ...prev,
-        volume: currentVolume,
-        ph: 6.5 + progress * 2.8, // pH rises from 6.5 to ~9.3
-        molarity: 0.1 - progress * 0.05, // Molarity decreases slightly due to dilution
-        moles: (currentVolume / 1000) * 0.1, // Calculate moles based on volume
-      }));
-
-      // Update the amount of solution in the conical flask
-      const currentAmount = 1.0 + progress * 2.0; // Increase solution amount in flask
-      setEquipmentPositions((prev) =>
-        prev.map((pos) => {
-          if (pos.id === "conical_flask") {
-            return {
+  // Running titrant through the tip into a waste beaker fills it; the
+  // level drops by the air it replaces
+  const handleExpelBubble = () => {
+    if (!buretteTitrant || burettePrep.bubble <= 0) return;
+    const air = Math.min(burettePrep.bubble, buretteTitrant.amount);
+    setEquipmentPositions((prev) =>
+      prev.map((pos) =>
+        pos.id === "burette"
+          ? {
               ...pos,
-              chemicals: pos.chemicals.map((chemical) => {
-                if (chemical.id === "naoh") {
-                  return {
-                    ...chemical,
-                    amount: currentAmount,
-                  };
-                }
-                return chemical;
-              }),
-            };
-          }
-          return pos;
-        }),
-      );
-
-      // Step 5: Identify Endpoint - Mark when color starts turning pink (30% progress for slower effect)
-      if (easedProgress >= 0.3 && !completedSteps.has(5)) {
-        markStepCompleted(5, "Endpoint identified - solution turned pink");
-        // Note: No longer automatically stopping - allow continued titration for over-titration effect
-      }
-
-      // Update cumulative values when titration cycle completes
-      if (progress >= 1) {
-        setTimeout(() => {
-          if (isTitrating) {
-            // Update cumulative values for next titration cycle
-            setCumulativeVolume(currentVolume);
-            setCumulativeColorIntensity(currentColorIntensity);
-
-            setIsTitrating(false);
-            setDropwiseAnimation({ active: false, chemicalId: "", drops: [] });
-
-            // Add result for this titration cycle
-            const titrationResult: Result = {
-              id: Date.now().toString(),
-              type: cumulativeColorIntensity > 1 ? "warning" : "success",
-              title:
-                cumulativeColorIntensity > 1
-                  ? "Over-Titration Detected"
-                  : "Acid-Base Titration Cycle Complete",
-              description:
-                cumulativeColorIntensity > 1
-                  ? "Solution is over-titrated - Deeper pink color indicates excess base. Press 'Start Titration' to continue adding more NaOH."
-                  : "Titration cycle complete - Solution turned pink. Press 'Start Titration' again to continue adding NaOH.",
-              timestamp: new Date().toLocaleTimeString(),
-              calculation: {
-                reaction:
-                  "HCl + NaOH �� NaCl + H₂O (with phenolphthalein endpoint)",
-                reactionType: "Acid-Base Titration Complete",
-                balancedEquation: "HCl(aq) + NaOH(aq) → NaCl(aq) + H₂O(l)",
-                products: [
-                  "Sodium Chloride (NaCl)",
-                  "Water (H₂O)",
-                  "Pink endpoint reached",
-                ],
-                volumeAdded: currentVolume - 5.0, // Volume added from start
-                totalVolume: currentVolume,
-                concentration: "0.1000 M HCl determined",
-                molarity: 0.1,
-                moles: 0.0025,
-                ph: 8.3, // Slightly basic at endpoint
-                yield: 100,
-                mechanism: [
-                  "1. Initial: HCl (colorless) + phenolphthalein (colorless in acid)",
-                  "2. NaOH addition: Gradual neutralization occurs",
-                  "3. Near endpoint: pH rises rapidly",
-                  "4. Endpoint: Phenolphthalein turns pink (pH > 8.2)",
-                  "5. Result: Equivalent moles of acid and base reacted",
-                ],
-                thermodynamics: {
-                  deltaH: -57.3,
-                  deltaG: -79.9,
-                  equilibriumConstant: 1.0e14,
-                },
-              },
-            };
-
-            setResults((prev) => [...prev, titrationResult]);
-
-            setToastMessage(
-              "🎯 Endpoint reached! Results Panel opened automatically.",
-            );
-            setTimeout(() => setToastMessage(null), 4000);
-          }
-        }, 1000); // Small delay for visual effect
-      }
-
-      if (progress < 1) {
-        requestAnimationFrame(animateColor);
-      }
-    };
-
-    requestAnimationFrame(animateColor);
-
-    // Start dropwise animation
-    startDropwiseAnimation(burette, conicalFlask);
-  }, [
-    equipmentPositions,
-    markStepCompleted,
-    isTitrating,
-    isStirring,
-    cumulativeVolume,
-    cumulativeColorIntensity,
-    completedSteps,
-  ]);
-
-  const handleStopTitration = () => {
-    setIsTitrating(false);
-    setDropwiseAnimation({ active: false, chemicalId: "", drops: [] });
-
-    // Automatically stop stirring when titration stops
-    if (isStirring) {
-      setIsStirring(false);
-      setStirerActive(false);
-      setToastMessage("⏸️ Titration stopped - Stirring automatically stopped");
-    } else {
-      setToastMessage("⏸️ Titration stopped");
-    }
+              chemicals: pos.chemicals.map((c) =>
+                c.id === buretteTitrant.id
+                  ? { ...c, amount: c.amount - air }
+                  : c,
+              ),
+            }
+          : pos,
+      ),
+    );
+    runLog.current.air += air;
+    setBurettePrep((prev) => ({ ...prev, bubble: 0 }));
+    setToastMessage("💨 Air cleared from the burette tip");
     setTimeout(() => setToastMessage(null), 2000);
   };
 
@@ -1433,88 +1747,204 @@ function VirtualLabApp({
     setTimeout(() => setToastMessage(null), 2000);
   };
 
-  // Dropwise animation system
-  const startDropwiseAnimation = (burette: any, conicalFlask: any) => {
-    const interval = setInterval(() => {
-      if (!isTitrating) {
-        clearInterval(interval);
-        return;
-      }
-
-      const dropId = `drop_${Date.now()}_${Math.random()}`;
-      const newDrop = {
-        id: dropId,
-        x: burette.x, // Start from burette position
-        y: burette.y + 50, // Start below burette tip
-        color: "transparent", // NaOH color
-      };
+  const handleClearResults = () => {
+    setResults([]);
+  };
 
-      setDropwiseAnimation((prev) => ({
-        active: true,
-        chemicalId: "naoh",
-        drops: [...prev.drops, newDrop],
-      }));
+  const handleStepClick = (stepId: number) => {
+    setCurrentStep(stepId);
+  };
 
-      // Simulate adding small amount to conical flask
-      setTitrationDropCount((prev) => prev + 1);
+  const handlePkaEstimated = () => {
+    reachMilestone("pka_estimated");
+  };
 
-      // Every 10 drops, add 0.1mL to conical flask
-      if (titrationDropCount % 10 === 0) {
-        setEquipmentPositions((prev) =>
-          prev.map((pos) => {
-            if (pos.id === "conical_flask") {
-              const existingNaOH = pos.chemicals.find((c) => c.id === "naoh");
-              if (existingNaOH) {
-                return {
-                  ...pos,
-                  chemicals: pos.chemicals.map((c) =>
-                    c.id === "naoh" ? { ...c, amount: c.amount + 0.1 } : c,
-                  ),
-                };
-              } else {
-                return {
-                  ...pos,
-                  chemicals: [
-                    ...pos.chemicals,
-                    {
-                      id: "naoh",
-                      name: "Sodium Hydroxide",
-                      color: "transparent",
-                      amount: 0.1,
-                      concentration: "0.1 M",
-                    },
-                  ],
-                };
-              }
-            }
-            return pos;
-          }),
+  const handleSubmitUnknown = (concentration: number) =>
+    submitUnknown(concentration, {
+      onGraded: (graded) => {
+        setToastMessage(
+          graded.accepted
+            ? `✅ Result accepted - ${graded.relativeError.toFixed(2)}% from the true concentration`
+            : `❌ Result outside tolerance - ${graded.relativeError.toFixed(2)}% from the true concentration`,
         );
-      }
+        setTimeout(() => setToastMessage(null), 4000);
+      },
+      onError: () => {
+        setToastMessage("⚠️ Could not submit the result - try again");
+        setTimeout(() => setToastMessage(null), 3000);
+      },
+    });
 
-      // Remove drop after animation
-      setTimeout(() => {
-        setDropwiseAnimation((prev) => ({
-          ...prev,
-          drops: prev.drops.filter((drop) => drop.id !== dropId),
-        }));
-      }, 1500);
-    }, 800); // Drop every 800ms
+  // Start a new attempt: the old sample is discarded from the glassware
+  const handleNewUnknown = () =>
+    newUnknown(() => {
+      setEquipmentPositions((prev) =>
+        prev.map((pos) => ({
+          ...pos,
+          chemicals: pos.chemicals.filter(
+            (c) => c.concentration !== UNKNOWN_CONCENTRATION,
+          ),
+        })),
+      );
+      setTitrationCurve([]);
+      setEndpointAnalysis(null);
+      titrationClockStart.current = null;
+      indicatorEndpoint.current = null;
+      setToastMessage(
+        "🧪 New unknown sample issued - pipette a fresh aliquot into the flask",
+      );
+      setTimeout(() => setToastMessage(null), 3000);
+    });
+
+  // Weighed solids go into an otherwise empty conical flask; indicator
+  // drops already added are fine
+  const flaskReadyFor = (what: string) => {
+    const flask = equipmentPositions.find((pos) => pos.id === "conical_flask");
+    if (!flask) {
+      setToastMessage("⚠️ Place a conical flask on the bench first!");
+      setTimeout(() => setToastMessage(null), 3000);
+      return false;
+    }
+    if (flask.chemicals.some((c) => !indicators[c.id])) {
+      setToastMessage(`⚠️ Rinse the conical flask before adding the ${what}`);
+      setTimeout(() => setToastMessage(null), 3000);
+      return false;
+    }
+    return true;
   };
 
-  const handleClearResults = () => {
-    setResults([]);
+  const addToFlask = (chemical: LabChemical) => {
+    saveStateToHistory();
+    setMeasuredContainerId("conical_flask");
+    setEquipmentPositions((prev) =>
+      prev.map((pos) =>
+        pos.id === "conical_flask" ? pourInto(pos, [chemical]) : pos,
+      ),
+    );
   };
 
-  const handleStepClick = (stepId: number) => {
-    setCurrentStep(stepId);
+  // Dissolve a weighed KHP portion and wash it into the conical flask
+  const handleTransferKHP = (mass: number) => {
+    if (!flaskReadyFor("KHP")) return;
+
+    addToFlask({
+      id: "khp",
+      name: `KHP (${mass.toFixed(4)} g)`,
+      color: "transparent",
+      amount: DISSOLVE_VOLUME,
+      concentration: khpConcentration(mass),
+    });
+    setToastMessage(
+      `⚖️ ${mass.toFixed(4)} g KHP dissolved in ${DISSOLVE_VOLUME} mL water - add indicator and titrate`,
+    );
+    setTimeout(() => setToastMessage(null), 3000);
   };
 
-  const handleTrialAdded = () => {
-    // Mark step 6 as completed when first trial is added to Experiment Results
-    if (experimentTitle.includes("Acid-Base")) {
-      markStepCompleted(6, "Concentration calculated - first trial added");
-    }
+  // Empty the conical flask between the standardization and the sample runs
+  const handleRinseFlask = () => {
+    saveStateToHistory();
+    setEquipmentPositions((prev) =>
+      prev.map((pos) =>
+        pos.id === "conical_flask"
+          ? { ...pos, chemicals: [], temperature: undefined }
+          : pos,
+      ),
+    );
+    titrationSession.current = null;
+    setStopcock("closed");
+    setIsTitrating(false);
+    setTitrationCurve([]);
+    setEndpointAnalysis(null);
+    titrationClockStart.current = null;
+    indicatorEndpoint.current = null;
+    setToastMessage("🚿 Conical flask rinsed with distilled water");
+    setTimeout(() => setToastMessage(null), 2000);
+  };
+
+  const handleStandardized = (
+    molarity: number,
+    trials: StandardizationTrial[],
+  ) => {
+    setStandardizedMolarity(molarity);
+    setStandardizedUncertainty(standardizationResult(trials)?.uncertainty ?? 0);
+    // The molarity already reflects any carbonate in this fill
+    setStandardizedCarbonate(burettePrep.carbonate);
+    setResults((prev) => [...prev, summarizeStandardization(molarity, trials)]);
+    setShowResultsPanel(true);
+    reachMilestone("standardized");
+  };
+
+  // Back titration: sample, then a pipetted excess of standard reagent
+  const handleAddBackSample = (sample: BackTitrationSample, mass: number) => {
+    // How much analyte the sample really holds is the lab's to say
+    const content = lab.backTitrationSamples?.[sample.id];
+    if (content === undefined || !flaskReadyFor("sample")) return;
+
+    addToFlask({
+      id: sample.id,
+      name: `${sample.name} (${mass.toFixed(4)} g)`,
+      color: "rgba(245, 245, 245, 0.8)",
+      amount: SLURRY_VOLUME,
+      concentration: sampleConcentration(sample, mass, content),
+    });
+    setToastMessage(
+      `⚖️ ${mass.toFixed(4)} g ${sample.name} added with ${SLURRY_VOLUME} mL water`,
+    );
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const handleAddExcess = (sample: BackTitrationSample) => {
+    const { excess } = sample;
+    addToFlask({
+      id: excess.id,
+      name: `${excess.name} (excess)`,
+      color: "transparent",
+      amount: excess.volume,
+      concentration: `${excess.molarity.toFixed(4)} M`,
+    });
+    setToastMessage(
+      `🧪 ${excess.volume.toFixed(2)} mL of ${excess.molarity.toFixed(4)} M ${excess.name} pipetted into the flask`,
+    );
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  // Until this runs the flask holds the untreated sample, and titrating it
+  // gives the wrong endpoint (dissolved CO₂, unhydrolysed ester)
+  const handleReactBackSample = (sample: BackTitrationSample) => {
+    saveStateToHistory();
+    setEquipmentPositions((prev) =>
+      prev.map((pos) =>
+        pos.id === "conical_flask"
+          ? {
+              ...pos,
+              chemicals: pos.chemicals.map((c) =>
+                c.id === sample.id
+                  ? { ...c, id: sample.reactedId, name: `${c.name}, reacted` }
+                  : c,
+              ),
+            }
+          : pos,
+      ),
+    );
+    setToastMessage(`🔥 ${sample.reactStep} - then cool and titrate`);
+    setTimeout(() => setToastMessage(null), 3000);
+  };
+
+  const handleBackTitrationResult = (
+    sample: BackTitrationSample,
+    mass: number,
+    titre: number,
+    result: BackTitrationResult,
+  ) => {
+    setResults((prev) => [
+      ...prev,
+      summarizeBackTitration(sample, mass, titre, result),
+    ]);
+    setShowResultsPanel(true);
+  };
+
+  const handleTrialAdded = (count: number) => {
+    setTrialCount(count);
   };
 
   return (
@@ -1541,17 +1971,15 @@ function VirtualLabApp({
               </button>
             </div>
             <div className="flex-1 overflow-y-auto p-3 space-y-4">
-              {/* Guided Instructions for Aspirin Synthesis */}
-              {experimentTitle.includes("Aspirin") ? (
+              {/* Guided instructions, for labs with a guide */}
+              {lab.guide ? (
                 <div className="space-y-4">
                   <div className="bg-gradient-to-r from-blue-500 to-purple-600 text-white p-3 rounded-lg">
                     <h3 className="font-bold text-sm">Step-by-Step Guide</h3>
-                    <p className="text-xs opacity-90">
-                      Follow instructions to synthesize aspirin
-                    </p>
+                    <p className="text-xs opacity-90">{lab.guide.intro}</p>
                   </div>
 
-                  {aspirinGuidedSteps.map((step, index) => (
+                  {guidedSteps.map((step) => (
                     <div
                       key={step.id}
                       className={`p-3 rounded-lg border-2 transition-all ${
@@ -1593,7 +2021,10 @@ function VirtualLabApp({
                   ))}
 
                   {/* Chemical Formulas Section */}
-                  <ChemicalFormulas experimentTitle={experimentTitle} />
+                  <ChemicalFormulas
+                    experimentTitle={experimentTitle}
+                    formulas={lab.formulas}
+                  />
                 </div>
               ) : (
                 <div className="space-y-4">
@@ -1602,7 +2033,10 @@ function VirtualLabApp({
                     steps={experimentSteps}
                     onStepClick={handleStepClick}
                   />
-                  <ChemicalFormulas experimentTitle={experimentTitle} />
+                  <ChemicalFormulas
+                    experimentTitle={experimentTitle}
+                    formulas={lab.formulas}
+                  />
                 </div>
               )}
             </div>
@@ -1634,17 +2068,16 @@ function VirtualLabApp({
               {experimentTitle} - Equipment
             </h4>
             <div className="flex items-center space-x-2">
-              {experimentTitle.includes("Aspirin") ? (
+              {lab.guide ? (
                 <div className="text-xs text-gray-600 mr-3 flex items-center space-x-2">
                   <span>
-                    Progress: {currentGuidedStep - 1}/
-                    {aspirinGuidedSteps.length}
+                    Progress: {currentGuidedStep - 1}/{guidedSteps.length}
                   </span>
                   <div className="w-20 bg-gray-200 rounded-full h-2">
                     <div
                       className="bg-blue-600 h-2 rounded-full transition-all duration-500"
                       style={{
-                        width: `${((currentGuidedStep - 1) / aspirinGuidedSteps.length) * 100}%`,
+                        width: `${((currentGuidedStep - 1) / guidedSteps.length) * 100}%`,
                       }}
                     ></div>
                   </div>
@@ -1675,10 +2108,12 @@ function VirtualLabApp({
                     volume: 0,
                     concentration: 0,
                     ph: 7,
+                    poh: 7,
                     molarity: 0,
                     moles: 0,
-                    temperature: 25,
+                    temperature: ROOM_TEMPERATURE_C,
                   });
+                  setMeasuredContainerId(null);
                   setToastMessage(null);
                   setCurrentGuidedStep(1);
                   setDropwiseAnimation({
@@ -1691,12 +2126,24 @@ function VirtualLabApp({
                   setIsTitrating(false);
                   setIsStirring(false);
                   setStirerActive(false);
-                  setTitrationDropCount(0);
-                  setTitrationColorProgress(0);
-                  setCumulativeVolume(5.0);
-                  setCumulativeColorIntensity(0);
+                  setStopcock("closed");
+                  titrationSession.current = null;
+                  setBuretteReadings({ initial: null, final: null });
+                  setBurettePrep(WASHED_BURETTE);
+                  runLog.current = { air: 0, eye: "level" };
+                  setLastRun(null);
+                  setStandardizedMolarity(null);
+                  setStandardizedUncertainty(0);
+                  setStandardizedCarbonate(0);
+                  setReagentExposure({});
+                  indicatorEndpoint.current = null;
+                  setTitrationCurve([]);
+                  setEndpointAnalysis(null);
+                  titrationClockStart.current = null;
                   setCompletedSteps(new Set());
-                  setHasCalculatedResult(false);
+                  setMilestones([]);
+                  setTrialCount(0);
+                  triggerMemory.current = {};
                   setShowResultsPanel(false);
 
                   // Reset timer to 0:00
@@ -1730,8 +2177,8 @@ function VirtualLabApp({
                 <span>Undo ({undoHistory.length})</span>
               </button>
 
-              {/* Titration Control Buttons for Acid-Base Experiment */}
-              {experimentTitle.includes("Acid-Base") && (
+              {/* Titration Control Buttons for the titration experiments */}
+              {isTitrationLab && (
                 <div className="flex items-center space-x-2 ml-4 border-l border-gray-300 pl-4">
                   <button
                     onClick={
@@ -1817,7 +2264,7 @@ function VirtualLabApp({
               onDrop={handleEquipmentDrop}
               selectedChemical={selectedChemical}
               isRunning={isRunning}
-              experimentTitle={experimentTitle}
+              guide={lab.guide}
               currentGuidedStep={currentGuidedStep}
               dropwiseAnimation={dropwiseAnimation}
               isTitrating={isTitrating}
@@ -1827,12 +2274,6 @@ function VirtualLabApp({
                 const equipment = experimentEquipment.find(
                   (eq) => eq.id === pos.id,
                 );
-                const conicalFlask = equipmentPositions.find(
-                  (eq) => eq.id === "conical_flask",
-                );
-                const hasNaOHInFlask =
-                  conicalFlask?.chemicals?.some((c) => c.id === "naoh") ||
-                  false;
                 return equipment ? (
                   <Equipment
                     key={pos.id}
@@ -1844,12 +2285,84 @@ function VirtualLabApp({
                     chemicals={pos.chemicals}
                     onChemicalDrop={handleChemicalDrop}
                     stirrerActive={stirrerActive}
-                    hasNaOHInFlask={hasNaOHInFlask}
-                    titrationColorProgress={titrationColorProgress}
+                    titrating={isTitrating && pos.id === "conical_flask"}
+                    ph={unknownPH(pos.chemicals) ?? undefined}
+                    meterReading={
+                      pos.id === "ph_meter" && measuredSolution
+                        ? measurements.ph
+                        : pos.id === "conductivity_meter"
+                          ? (measuredConductivity ?? undefined)
+                          : pos.id === "thermometer" && measuredSolution
+                            ? measurements.temperature
+                            : undefined
+                    }
                   />
                 ) : null;
               })}
             </WorkBench>
+
+            {/* pH meter calibration, NaOH standardization against KHP and
+                back titrations */}
+            {(lab.panels.length > 0 || (isTitrationLab && phMeterPlaced)) && (
+              <div className="absolute top-8 left-8 z-20 space-y-2">
+                {phMeterPlaced && (
+                  <PhMeterPanel
+                    calibration={calibration}
+                    readBuffer={(pH) => electrodeMillivolts(electrode, pH)}
+                    onCalibrate={handleCalibrate}
+                  />
+                )}
+                {lab.panels.includes("standardization") && (
+                  <StandardizationPanel
+                    readings={buretteReadings}
+                    flaskHasKHP={flaskChemicals.some((c) => c.id === "khp")}
+                    standardizedMolarity={standardizedMolarity}
+                    onTransferKHP={handleTransferKHP}
+                    onRinseFlask={handleRinseFlask}
+                    onStandardized={handleStandardized}
+                  />
+                )}
+                {lab.panels.includes("back_titration") && (
+                  <BackTitrationPanel
+                    samples={Object.keys(lab.backTitrationSamples ?? {})}
+                    readings={buretteReadings}
+                    flaskContents={flaskChemicals.map((c) => c.id)}
+                    titrant={
+                      buretteTitrant
+                        ? {
+                            id: buretteTitrant.id,
+                            molarity: buretteMolarity,
+                            uncertainty: buretteUncertainty,
+                          }
+                        : null
+                    }
+                    onAddSample={handleAddBackSample}
+                    onAddExcess={handleAddExcess}
+                    onReact={handleReactBackSample}
+                    onRinseFlask={handleRinseFlask}
+                    onResult={handleBackTitrationResult}
+                  />
+                )}
+              </div>
+            )}
+
+            {/* Burette stopcock and meniscus reading */}
+            {isTitrationLab && buretteTitrant && (
+              <div className="absolute top-8 right-8 z-20">
+                <BuretteControls
+                  remaining={buretteTitrant.amount}
+                  stopcock={stopcock}
+                  onStopcockChange={handleStopcockChange}
+                  readings={buretteReadings}
+                  onRecordReading={handleRecordReading}
+                  rinsed={burettePrep.rinsedWith === buretteTitrant.id}
+                  bubble={burettePrep.bubble > 0}
+                  onRinse={handleRinseBurette}
+                  onExpelBubble={handleExpelBubble}
+                  prepDisabled={isTitrating}
+                />
+              </div>
+            )}
           </div>
 
           {/* Results Panel - When present */}
@@ -1859,6 +2372,38 @@ function VirtualLabApp({
                 results={results}
                 onClear={handleClearResults}
                 onTrialAdded={handleTrialAdded}
+                titration={titrationAnalysis}
+                endpointAnalysis={endpointAnalysis}
+                sampleVolume={sampleVolume}
+                onPkaEstimated={handlePkaEstimated}
+                buretteReadings={buretteReadings}
+                lastRun={lastRun}
+                titrationSetup={
+                  buretteTitrant && flaskAnalyte
+                    ? {
+                        titrantName: buretteTitrant.name,
+                        titrantMolarity: buretteMolarity,
+                        titrantUncertainty: buretteUncertainty,
+                        titrantStandardized:
+                          buretteTitrant.id !== "naoh" ||
+                          standardizedMolarity !== null,
+                        analyteName: flaskAnalyte.name,
+                        aliquotVolume: flaskAnalyte.amount,
+                        moleRatio: redoxMoleRatio(
+                          flaskAnalyte.id,
+                          buretteTitrant.id,
+                        ),
+                      }
+                    : undefined
+                }
+                unknownSample={
+                  flaskAnalyte?.concentration === UNKNOWN_CONCENTRATION
+                    ? unknownSample
+                    : null
+                }
+                gradedUnknown={gradedUnknown}
+                onSubmitUnknown={handleSubmitUnknown}
+                onNewUnknown={handleNewUnknown}
               />
             </div>
           )}
@@ -1866,10 +2411,23 @@ function VirtualLabApp({
 
         {/* Reagents Bar - Bottom Horizontal */}
         <div className="bg-white/90 backdrop-blur-sm border-t border-gray-200 p-3">
-          <h4 className="font-semibold text-gray-800 text-sm flex items-center mb-2">
-            <BookOpen className="w-4 h-4 mr-2 text-blue-600" />
-            Chemical Reagents
-          </h4>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold text-gray-800 text-sm flex items-center">
+              <BookOpen className="w-4 h-4 mr-2 text-blue-600" />
+              Chemical Reagents
+            </h4>
+            {experimentChemicals.some((c) => ABSORBS_CO2.has(c.id)) && (
+              <label className="flex items-center text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={co2Uptake}
+                  onChange={(e) => setCo2Uptake(e.target.checked)}
+                  className="mr-1"
+                />
+                Open bottles absorb CO₂
+              </label>
+            )}
+          </div>
           <div className="flex items-center space-x-3 overflow-x-auto pb-2">
             {experimentChemicals.map((chemical) => (
               <div key={chemical.id} className="flex-shrink-0">
@@ -1880,17 +2438,27 @@ function VirtualLabApp({
                   color={chemical.color}
                   concentration={chemical.concentration}
                   volume={chemical.volume}
+                  acidBase={chemical.acidBase}
+                  hazards={chemical.hazards}
                   onSelect={handleChemicalSelect}
                   selected={selectedChemical === chemical.id}
+                  bottle={
+                    co2Uptake && ABSORBS_CO2.has(chemical.id)
+                      ? {
+                          open: chemical.exposure.open,
+                          carbonate: chemical.carbonate,
+                        }
+                      : undefined
+                  }
+                  onToggleBottle={handleToggleBottle}
                 />
               </div>
             ))}
           </div>
         </div>
 
-        {/* Calculator and pH Meter Bar - For Experiments 2 & 3 */}
-        {(experimentTitle.includes("Acid-Base") ||
-          experimentTitle.includes("Equilibrium")) && (
+        {/* Calculator and pH Meter Bar - For the titrations and equilibrium */}
+        {(isTitrationLab || lab.kind === "equilibrium") && (
           <div className="bg-gray-900 text-white p-3 border-t border-gray-600">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-6">
@@ -1904,14 +2472,27 @@ function VirtualLabApp({
                     {measurements.ph.toFixed(2)}
                   </div>
                   <div className="text-xs text-gray-400">
-                    {measurements.ph < 7
+                    {measurements.ph < 6.995
                       ? "Acidic"
-                      : measurements.ph > 7
+                      : measurements.ph > 7.005
                         ? "Basic"
                         : "Neutral"}
                   </div>
+                  <div className="text-xs text-gray-400 font-mono">
+                    pOH {measurements.poh.toFixed(2)}
+                  </div>
                 </div>
 
+                {/* Platinum electrode, during redox titrations */}
+                {electrodePotential !== undefined && (
+                  <div className="flex items-center space-x-3">
+                    <span className="text-sm font-medium">E (vs SHE)</span>
+                    <div className="bg-black px-3 py-1 rounded font-mono text-lg">
+                      {electrodePotential.toFixed(3)} V
+                    </div>
+                  </div>
+                )}
+
                 {/* Volume Tracker */}
                 <div className="flex items-center space-x-3">
                   <span className="text-sm font-medium">Volume</span>
@@ -1931,29 +2512,23 @@ function VirtualLabApp({
 
               {/* Calculator Actions */}
               <div className="flex items-center space-x-3">
-                {experimentTitle.includes("Acid-Base") && (
+                {isTitrationLab && (
                   <button
-                    onClick={() => {
-                      const equivalencePoint = 25.0; // mL for 0.1M solutions
-                      const percentComplete =
-                        (measurements.volume / equivalencePoint) * 100;
-                      console.log(
-                        `Titration ${percentComplete.toFixed(1)}% complete`,
-                      );
-                    }}
+                    onClick={handleCalculateEndpoint}
                     className="bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded text-sm font-medium transition-colors"
                   >
                     Calculate Endpoint
                   </button>
                 )}
 
-                {experimentTitle.includes("Equilibrium") && (
+                {lab.kind === "equilibrium" && (
                   <button
                     onClick={() => {
                       const kc = Math.pow(10, -measurements.ph); // Simplified equilibrium constant
                       console.log(
                         `Equilibrium constant: ${kc.toExponential(2)}`,
                       );
+                      reachMilestone("result_calculated");
                     }}
                     className="bg-purple-600 hover:bg-purple-700 px-3 py-1 rounded text-sm font-medium transition-colors"
                   >
@@ -1969,6 +2544,7 @@ function VirtualLabApp({
                       volume: 0,
                       concentration: 0,
                       ph: 7,
+                      poh: 7,
                       molarity: 0,
                       moles: 0,
                     }));
@@ -1986,14 +2562,29 @@ function VirtualLabApp({
                 <div className="flex items-center justify-between text-xs text-gray-300">
                   <div className="flex items-center space-x-4">
                     <span>Moles: {measurements.moles.toFixed(4)} mol</span>
-                    {experimentTitle.includes("Acid-Base") && (
+                    {measuredSolution && (
+                      <span className="font-mono">
+                        {measuredSolution.species
+                          .filter((s) => s.concentration >= 1e-6)
+                          .map(
+                            (s) =>
+                              `[${s.label}] ${s.concentration.toExponential(2)}`,
+                          )
+                          .join("  ")}
+                      </span>
+                    )}
+                    {lab.endpointPH !== undefined && (
                       <span>
                         Endpoint:{" "}
-                        {measurements.ph > 8.5 ? "✓ Reached" : "○ Not reached"}
+                        {measurements.ph > lab.endpointPH
+                          ? "✓ Reached"
+                          : "○ Not reached"}
                       </span>
                     )}
-                    {experimentTitle.includes("Equilibrium") && (
-                      <span>Temperature: {measurements.temperature}°C</span>
+                    {lab.kind === "equilibrium" && (
+                      <span>
+                        Temperature: {measurements.temperature.toFixed(1)}°C
+                      </span>
                     )}
                   </div>
                   <div className="flex items-center space-x-2">
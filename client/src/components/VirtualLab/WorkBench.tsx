@@ -1,13 +1,15 @@
 import React, { useState, useEffect } from "react";
 import { FlaskConical, Play, Pause, RotateCcw } from "lucide-react";
 import { ExperimentSteps } from "./ExperimentSteps";
+import type { LabGuide } from "@shared/schema";
 
 interface WorkBenchProps {
   onDrop: (id: string, x: number, y: number) => void;
   children: React.ReactNode;
   selectedChemical: string | null;
   isRunning: boolean;
-  experimentTitle: string;
+  // Guide of labs run in guided mode, whose current step is hinted at
+  guide?: LabGuide;
   currentGuidedStep?: number;
   dropwiseAnimation?: {
     active: boolean;
@@ -32,14 +34,13 @@ export const WorkBench: React.FC<WorkBenchProps> = ({
   children,
   selectedChemical,
   isRunning,
-  experimentTitle,
+  guide,
   currentGuidedStep = 1,
   dropwiseAnimation = { active: false, chemicalId: "", drops: [] },
   isTitrating = false,
   stirringActive = false,
 }) => {
   const [currentStep, setCurrentStep] = useState(1);
-  const [temperature, setTemperature] = useState(22);
   const [volume, setVolume] = useState(0);
   const [solutionColor, setSolutionColor] = useState("#E3F2FD");
   const [isStirring, setIsStirring] = useState(false);
@@ -248,7 +249,6 @@ export const WorkBench: React.FC<WorkBenchProps> = ({
     // Reset all workbench state to initial values
     setCurrentStep(1);
     setTimer(0);
-    setTemperature(22);
     setVolume(0);
     setSolutionColor("#E3F2FD");
     setIsStirring(false);
@@ -352,8 +352,8 @@ export const WorkBench: React.FC<WorkBenchProps> = ({
               </div>
             )}
 
-            {/* Helpful hints for Aspirin Synthesis */}
-            {experimentTitle.includes("Aspirin") && (
+            {/* Hint for the current step of a guided lab */}
+            {guide && (
               <div className="absolute top-6 left-6 bg-blue-100 border-2 border-blue-300 rounded-lg p-4 max-w-sm z-20">
                 <div className="flex items-center space-x-2 mb-2">
                   <div className="w-3 h-3 bg-blue-500 rounded-full animate-pulse"></div>
@@ -362,17 +362,7 @@ export const WorkBench: React.FC<WorkBenchProps> = ({
                   </span>
                 </div>
                 <div className="text-xs text-blue-700">
-                  {currentGuidedStep === 1 &&
-                    "Drag the Erlenmeyer Flask to the workbench to begin"}
-                  {currentGuidedStep === 2 && "Add Salicylic Acid to the flask"}
-                  {currentGuidedStep === 3 &&
-                    "Add Acetic Anhydride to the flask"}
-                  {currentGuidedStep === 4 && "Add Phosphoric Acid catalyst"}
-                  {currentGuidedStep === 5 &&
-                    "Set up the Water Bath for heating"}
-                  {currentGuidedStep === 6 && "Heat the reaction mixture"}
-                  {currentGuidedStep > 6 &&
-                    "Aspirin synthesis steps completed!"}
+                  {guide.steps[currentGuidedStep - 1]?.hint ?? guide.completed}
                 </div>
               </div>
             )}
@@ -0,0 +1,236 @@
+// A titration run from the lab's side: what may go in the burette, how a
+// run opens on what the burette and flask hold, and the signals that mark
+// its endpoint as titrant goes in.
+import { PATH_LENGTH_CM } from "./Equipment";
+import type {
+  IndicatorEndpoint,
+  LabChemical,
+  TitrationSession,
+} from "./titrationSummary";
+import { acidBaseProfile, parseMolarity } from "@shared/chemistry/species";
+import type { ContainerChemical } from "@shared/chemistry/equilibrium";
+import type { TitrantSpec } from "@shared/chemistry/titration";
+import { dominantForm, indicators } from "@shared/chemistry/indicators";
+import {
+  findRedoxTitration,
+  redoxReagents,
+  redoxSignal,
+} from "@shared/chemistry/redox";
+import {
+  EDTA_ID,
+  findComplexometricTitration,
+  metalIndicatorBound,
+} from "@shared/chemistry/complexometry";
+import {
+  AGNO3_ID,
+  KSCN_ID,
+  findPrecipitationTitration,
+  precipitationSignal,
+} from "@shared/chemistry/precipitation";
+import { findReaction, reactions } from "@shared/chemistry/reactions";
+import {
+  dilutedConcentration,
+  type EyePosition,
+  type RunRecord,
+} from "@shared/chemistry/procedure";
+
+// How the burette was prepared: the titrant it was last rinsed with, the
+// fraction of the label concentration its titrant keeps after any water
+// left from washing, the air trapped in the tip since filling and the
+// carbonate its fills brought from the bottle
+export interface BurettePrep {
+  rinsedWith: string | null;
+  dilution: number;
+  bubble: number; // mL
+  carbonate: number;
+}
+
+export const WASHED_BURETTE: BurettePrep = {
+  rinsedWith: null,
+  dilution: 1,
+  bubble: 0,
+  carbonate: 0,
+};
+
+// Analyte in the conical flask and titrant in the burette
+export interface TitrationSetup {
+  analyte: ContainerChemical[];
+  titrant: TitrantSpec;
+}
+
+const findNeutralization = (a: string, b: string) =>
+  findReaction(a, b, "neutralization");
+
+// Burette contents that can be titrated with: acids, bases, the oxidants
+// and reductants of the redox couples, EDTA, silver nitrate and thiocyanate
+export const isTitrant = (id: string) =>
+  acidBaseProfile(id).kind !== "neutral" ||
+  Boolean(redoxReagents[id]) ||
+  id === EDTA_ID ||
+  id === AGNO3_ID ||
+  id === KSCN_ID;
+
+// Sample reacting with the titrant by neutralization, electron transfer,
+// complexation or precipitation
+export const reactsWith = (analyteId: string, titrantId: string) =>
+  Boolean(
+    findNeutralization(analyteId, titrantId) ||
+    findRedoxTitration(analyteId, titrantId) ||
+    findComplexometricTitration(analyteId, titrantId) ||
+    findPrecipitationTitration(analyteId, titrantId),
+  );
+
+// Open a run on the titrant in the burette and the flask contents, with
+// the flask's temperature and its pH before this run (any titrant from an
+// earlier run included)
+export function openSession(
+  titrant: LabChemical,
+  contents: LabChemical[],
+  prep: BurettePrep,
+  temperature: number,
+  measurePH: (chemicals: ContainerChemical[], temperatureC?: number) => number,
+): { session: TitrationSession; startPH: number } {
+  // Analyte already in the flask and the neutralization, electron
+  // transfer or complexation it undergoes
+  const analyte = contents.find(
+    (c) => c.id !== titrant.id && reactsWith(c.id, titrant.id),
+  );
+  const redox = analyte ? findRedoxTitration(analyte.id, titrant.id) : null;
+  const complexation = analyte
+    ? findComplexometricTitration(analyte.id, titrant.id)
+    : null;
+  const precipitation = analyte
+    ? findPrecipitationTitration(analyte.id, titrant.id)
+    : null;
+  const neutralization =
+    (analyte && findNeutralization(analyte.id, titrant.id)) ||
+    reactions["hcl+naoh"];
+  const flask = contents.filter((c) => c.id !== titrant.id);
+  const delivered = contents.find((c) => c.id === titrant.id)?.amount ?? 0;
+  const flaskIndicators = flask.map((c) => c.id).filter((id) => indicators[id]);
+
+  // Indicator forms present before this run, to spot the colour change
+  const startMix = [...flask, { ...titrant, amount: delivered }];
+  const startPH = measurePH(startMix, temperature);
+  const labelMolarity = parseMolarity(titrant.concentration);
+  const session: TitrationSession = {
+    titrant: {
+      id: titrant.id,
+      name: titrant.name,
+      concentration:
+        labelMolarity !== null && prep.dilution < 1
+          ? dilutedConcentration(labelMolarity, prep.dilution)
+          : titrant.concentration,
+      carbonate: prep.carbonate,
+    },
+    labelConcentration: titrant.concentration,
+    analyte,
+    flask,
+    neutralization,
+    redox,
+    flaskIndicators,
+    startForms: flaskIndicators.map((id) =>
+      dominantForm(indicators[id], startPH),
+    ),
+    redoxVisible: redox
+      ? (redoxSignal(startMix, PATH_LENGTH_CM)?.visible ?? false)
+      : null,
+    complexation,
+    metalBound: complexation ? metalIndicatorBound(startMix) : null,
+    precipitation,
+    precipitateShown: precipitation
+      ? (precipitationSignal(startMix, PATH_LENGTH_CM)?.visible ?? null)
+      : null,
+    temperature,
+    delivered,
+    remaining: titrant.amount,
+    bubble: prep.bubble,
+    summarized: delivered,
+  };
+  return { session, startPH };
+}
+
+// The endpoint signal the flask shows at this increment, if it differs
+// from what it showed when the run opened
+export function endpointSignal(
+  session: TitrationSession,
+  mix: ContainerChemical[],
+  pH: number,
+): IndicatorEndpoint | null {
+  const { amount: volume } = mix[mix.length - 1];
+
+  // Redox endpoint: the titrant's own colour appears, or the starch blue
+  // is discharged
+  const signal = session.redox ? redoxSignal(mix, PATH_LENGTH_CM) : null;
+  if (signal && signal.visible !== session.redoxVisible) {
+    return { volume, name: signal.name };
+  }
+
+  // EDTA endpoint: Eriochrome Black T gives up the last metal ion and
+  // turns from wine red to blue
+  const bound = session.complexation ? metalIndicatorBound(mix) : null;
+  if (
+    bound !== null &&
+    session.metalBound !== null &&
+    bound !== session.metalBound
+  ) {
+    return { volume, name: "Eriochrome Black T" };
+  }
+
+  // Silver endpoint: red-brown Ag₂CrO₄ on the white AgCl (Mohr) or the
+  // red of FeSCN²⁺ (Volhard)
+  const shown = session.precipitation
+    ? precipitationSignal(mix, PATH_LENGTH_CM)
+    : null;
+  if (
+    shown &&
+    session.precipitateShown !== null &&
+    shown.visible !== session.precipitateShown
+  ) {
+    return { volume, name: shown.name };
+  }
+
+  // An indicator in the flask changes colour. With the wrong indicator
+  // this happens well away from the equivalence point, which the run
+  // result points out.
+  const changed = session.flaskIndicators.find(
+    (id, idx) => dominantForm(indicators[id], pH) !== session.startForms[idx],
+  );
+  return changed ? { volume, name: indicators[changed].name, pH } : null;
+}
+
+// What the burette did between its initial and final readings: the air
+// that left the tip and where the eye was at the first reading
+export interface RunLog {
+  air: number; // mL
+  eye: EyePosition;
+}
+
+// Close a run at the final reading. Titrant in the flask tells how strong
+// it really was and how far past the indicator change it ran. Standardized
+// NaOH was measured at the strength it really has, so dilution no longer
+// biases it; the carbonate it held then is already in its molarity.
+export function closeRun(
+  titrant: LabChemical,
+  inFlask: LabChemical | undefined,
+  log: RunLog,
+  eye: EyePosition,
+  endpoint: IndicatorEndpoint | null,
+  standardizedCarbonate: number | null,
+): RunRecord {
+  const label = parseMolarity(titrant.concentration);
+  const actual = inFlask ? parseMolarity(inFlask.concentration) : null;
+  const standardized = standardizedCarbonate !== null;
+  return {
+    dilution: label && actual !== null && !standardized ? actual / label : 1,
+    airVolume: log.air,
+    eye: { initial: log.eye, final: eye },
+    delivered: inFlask?.amount ?? 0,
+    endpoint: endpoint?.volume ?? null,
+    endpointPH: endpoint?.pH ?? null,
+    carbonate: {
+      current: inFlask?.carbonate ?? 0,
+      standardized: standardizedCarbonate ?? 0,
+    },
+  };
+}
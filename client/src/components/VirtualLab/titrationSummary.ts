@@ -0,0 +1,815 @@
+// Results panel entries for each run of titrant, one summary per titration
+// method. The lab hands over the run and what it has measured; whatever
+// would give an ungraded unknown away is left out.
+import { parseMolarity } from "@shared/chemistry/species";
+import type { ContainerChemical } from "@shared/chemistry/equilibrium";
+import {
+  indicatorsAtEquivalence,
+  interpolatePH,
+  type DerivativeAnalysis,
+  type TitrationAnalysis,
+  type TitrationPoint,
+} from "@shared/chemistry/titration";
+import {
+  redoxReagents,
+  solveRedox,
+  type RedoxTitration,
+} from "@shared/chemistry/redox";
+import {
+  conditionalConstant,
+  hardnessAsCaCO3,
+  type ComplexometricTitration,
+} from "@shared/chemistry/complexometry";
+import {
+  AGNO3_ID,
+  CHLORIDE_MOLAR_MASS,
+  KSCN_ID,
+  NITROBENZENE_ID,
+  findPrecipitationTitration,
+  precipitationIndicators,
+  solvePrecipitation,
+  type PrecipitationTitration,
+} from "@shared/chemistry/precipitation";
+import {
+  reactantWithRole,
+  reactions,
+  type Reaction,
+} from "@shared/chemistry/reactions";
+import type {
+  BackTitrationResult,
+  BackTitrationSample,
+} from "@shared/chemistry/backTitration";
+import {
+  standardizationResult,
+  type StandardizationTrial,
+} from "@shared/chemistry/standardization";
+import { formatMeasurement } from "@shared/chemistry/uncertainty";
+
+// A chemical as it sits in a container on the workbench
+export interface LabChemical {
+  id: string;
+  name: string;
+  formula?: string;
+  color: string;
+  amount: number;
+  concentration: string;
+  carbonate?: number; // fraction of a hydroxide turned to carbonate
+}
+
+export interface Result {
+  id: string;
+  type: "success" | "warning" | "error" | "reaction";
+  title: string;
+  description: string;
+  timestamp: string;
+  calculation?: {
+    volumeAdded?: number;
+    totalVolume?: number;
+    concentration?: string;
+    molarity?: number;
+    moles?: number;
+    reaction?: string;
+    yield?: number;
+    ph?: number;
+    // One entry per equivalence point for polyprotic analytes
+    equivalencePoints?: Array<{
+      volume: number;
+      ph: number;
+      indicator?: string;
+    }>;
+    balancedEquation?: string;
+    reactionType?: string;
+    products?: string[];
+    mechanism?: string[];
+    // Redox titrations: balanced half-reactions and the electrode potential
+    // at the equivalence point
+    redox?: {
+      halfReactions: string[];
+      equivalencePotential: number; // V vs SHE
+      equivalenceVolume?: number; // mL
+      potential?: number; // V, electrode reading at the end of the run
+      logK: number;
+    };
+    // EDTA titrations: formation constants made conditional on the pH, and
+    // the hardness the titre gives
+    complexation?: {
+      pH: number;
+      constants: Array<{
+        metal: string;
+        logKf: number;
+        logKConditional: number;
+      }>;
+      hardness?: number; // mg/L as CaCO₃
+    };
+    // Silver titrations: the salts that come down and the chloride found
+    precipitation?: {
+      method: string;
+      salts: Array<{ formula: string; ksp: number }>;
+      chloride?: number; // mg/L of Cl⁻ in the sample
+    };
+    thermodynamics?: {
+      deltaH?: number;
+      deltaG?: number;
+      logK?: number; // log₁₀ K
+      heatReleased?: number; // J, negative when heat is taken in
+    };
+  };
+}
+
+// Titrant delivery in progress. It lives in a ref so that the stopcock
+// stream and single drops always work from the latest volumes.
+export interface TitrationSession {
+  // The titrant as it really is, diluted if the burette was filled wet
+  titrant: Pick<LabChemical, "id" | "name" | "concentration" | "carbonate">;
+  labelConcentration: string; // what the bottle says
+  analyte?: LabChemical;
+  flask: LabChemical[]; // flask contents other than the titrant
+  neutralization: Reaction;
+  // Set instead of a neutralization for oxidant/reductant pairs
+  redox: RedoxTitration | null;
+  flaskIndicators: string[];
+  startForms: number[];
+  // Whether the redox endpoint colour showed before this run
+  redoxVisible: boolean | null;
+  // Set for EDTA against metal ions, with whether the metal indicator
+  // showed its metal complex before this run
+  complexation: ComplexometricTitration | null;
+  metalBound: boolean | null;
+  // Set for silver titrations, with whether the Mohr or Volhard endpoint
+  // colour showed before this run
+  precipitation: PrecipitationTitration | null;
+  precipitateShown: boolean | null;
+  // °C of the flask contents, warmed by each increment as it reacts
+  temperature: number;
+  delivered: number; // mL in the flask
+  remaining: number; // mL left in the burette
+  bubble: number; // mL of air still in the tip
+  summarized: number; // delivered volume covered by the last result
+}
+
+// First volume at which an indicator in the flask changed colour
+export interface IndicatorEndpoint {
+  volume: number;
+  name: string;
+  pH?: number; // for acid-base indicators
+}
+
+// What the lab knows beyond the run itself
+export interface SummaryContext {
+  // Ideal curve, null while an unknown is ungraded
+  analysis: TitrationAnalysis | null;
+  endpoint: IndicatorEndpoint | null;
+  hideAnswer: boolean; // leave out the equivalence volumes
+  // pH of a mix as the meter reads it, unknown samples included
+  measurePH: (chemicals: ContainerChemical[], temperatureC?: number) => number;
+}
+
+// Products as listed in a result
+const productLabels = (reaction: Reaction) =>
+  reaction.products.map((p) => `${p.name} (${p.formula})`);
+
+// Opening entry of a run: what is titrated with what, how, and what to
+// watch for
+export function summarizeStart(
+  session: TitrationSession,
+  startPH: number,
+): Result {
+  const { analyte, redox, complexation, precipitation, neutralization } =
+    session;
+  const { flask, delivered } = session;
+  // The bottle's label and what was in the burette when the run opened
+  const titrant = {
+    name: session.titrant.name,
+    concentration: session.labelConcentration,
+    amount: session.remaining,
+  };
+  const analyteName = analyte?.name ?? "the sample";
+  return redox
+    ? {
+        id: `titration_start_${Date.now()}`,
+        type: "success",
+        title: "Redox Titration Started",
+        description:
+          "Electron transfer from the reductant to the oxidant in progress. Monitoring the electrode potential and the endpoint colour.",
+        timestamp: new Date().toLocaleTimeString(),
+        calculation: {
+          reaction: `${redox.equation} (in progress)`,
+          reactionType: "Redox Titration - Initial Analysis",
+          balancedEquation: redox.equation,
+          products: [
+            "Titration in progress",
+            "Monitoring electrode potential",
+            "Awaiting endpoint",
+          ],
+          volumeAdded: delivered,
+          totalVolume: flask.reduce((sum, c) => sum + c.amount, delivered),
+          concentration: `${titrant.concentration} ${titrant.name} titrant`,
+          molarity: parseMolarity(titrant.concentration) ?? 0,
+          mechanism: [
+            `1. Initial setup: ${analyteName} in the flask`,
+            `2. ${titrant.name} in the burette: ${titrant.amount.toFixed(2)} mL`,
+            `3. ${redox.halfReactions[0]}`,
+            `4. ${redox.halfReactions[1]}`,
+            "5. Close to drops once the colour starts to linger",
+          ],
+          redox: {
+            halfReactions: redox.halfReactions,
+            equivalencePotential: redox.equivalencePotential,
+            logK: redox.logK,
+          },
+          thermodynamics: { deltaG: Math.round(redox.deltaG * 10) / 10 },
+        },
+      }
+    : complexation
+      ? {
+          id: `titration_start_${Date.now()}`,
+          type: "success",
+          title: "EDTA Titration Started",
+          description:
+            "EDTA is binding the hardness ions one to one. Watch Eriochrome Black T for the change from wine red to blue.",
+          timestamp: new Date().toLocaleTimeString(),
+          calculation: {
+            reaction: `${complexation.equation} (in progress)`,
+            reactionType: "Complexometric Titration - Initial Analysis",
+            balancedEquation: complexation.equation,
+            products: [
+              "Titration in progress",
+              "Monitoring free metal ion",
+              "Awaiting endpoint",
+            ],
+            volumeAdded: delivered,
+            totalVolume: flask.reduce((sum, c) => sum + c.amount, delivered),
+            concentration: `${titrant.concentration} ${titrant.name} titrant`,
+            molarity: parseMolarity(titrant.concentration) ?? 0,
+            ph: startPH,
+            mechanism: [
+              `1. Initial setup: ${analyteName} at pH ${startPH.toFixed(2)}`,
+              `2. ${titrant.name} in the burette: ${titrant.amount.toFixed(2)} mL`,
+              `3. ${complexation.indicatorReaction}`,
+              "4. Close to drops once the flask turns purple",
+            ],
+            complexation: {
+              pH: startPH,
+              constants: complexation.metals.map((metal) => ({
+                metal: metal.symbol,
+                logKf: metal.logKf,
+                logKConditional: conditionalConstant(metal, startPH),
+              })),
+            },
+          },
+        }
+      : precipitation
+        ? {
+            id: `titration_start_${Date.now()}`,
+            type: "success",
+            title: "Precipitation Titration Started",
+            description: `Silver is coming down as ${precipitation.salt.formula}. Watch for the first lasting colour of the indicator.`,
+            timestamp: new Date().toLocaleTimeString(),
+            calculation: {
+              reaction: `${precipitation.equation} (in progress)`,
+              reactionType: "Precipitation Titration - Initial Analysis",
+              balancedEquation: precipitation.equation,
+              products: [
+                "Titration in progress",
+                "Monitoring free Ag⁺",
+                "Awaiting endpoint",
+              ],
+              volumeAdded: delivered,
+              totalVolume: flask.reduce((sum, c) => sum + c.amount, delivered),
+              concentration: `${titrant.concentration} ${titrant.name} titrant`,
+              molarity: parseMolarity(titrant.concentration) ?? 0,
+              mechanism: [
+                `1. Initial setup: ${analyteName} in the flask`,
+                `2. ${titrant.name} in the burette: ${titrant.amount.toFixed(2)} mL`,
+                `3. ${precipitation.equation} (Ksp = ${precipitation.salt.ksp.toExponential(1)})`,
+                "4. Swirl well and close to drops once the colour lingers",
+              ],
+            },
+          }
+        : {
+            id: `titration_start_${Date.now()}`,
+            type: "success",
+            title: "Titration Analysis Started",
+            description:
+              "Real-time analysis of acid-base titration in progress. Monitoring color changes and endpoint detection.",
+            timestamp: new Date().toLocaleTimeString(),
+            calculation: {
+              reaction: `${neutralization.equation} (in progress)`,
+              reactionType: "Acid-Base Titration - Initial Analysis",
+              balancedEquation: neutralization.equation,
+              products: [
+                "Titration in progress",
+                "Monitoring pH changes",
+                "Awaiting endpoint",
+              ],
+              volumeAdded: delivered,
+              totalVolume: flask.reduce((sum, c) => sum + c.amount, delivered),
+              concentration: `${titrant.concentration} ${titrant.name} titrant`,
+              molarity: parseMolarity(titrant.concentration) ?? 0,
+              ph: startPH,
+              mechanism: [
+                `1. Initial setup: ${analyteName} prepared with indicator`,
+                `2. ${titrant.name} in the burette: ${titrant.amount.toFixed(2)} mL`,
+                `3. Gradual neutralization: ${neutralization.netIonic}`,
+                "4. Open the stopcock to a stream for the rough run",
+                "5. Close to drops near the endpoint and watch the indicator",
+              ],
+              thermodynamics: {
+                deltaH: neutralization.deltaH,
+                deltaG: neutralization.deltaG,
+                logK: neutralization.logK,
+              },
+            },
+          };
+}
+
+// Acid-base runs: endpoint seen, equivalence points passed and whether
+// the flask is over-titrated
+function summarizeNeutralization(
+  session: TitrationSession,
+  { analysis, endpoint, hideAnswer, measurePH }: SummaryContext,
+): Result {
+  const { titrant, neutralization, flaskIndicators, delivered } = session;
+  const analyteName = session.analyte?.name ?? "the sample";
+  const titrantMolarity = parseMolarity(session.labelConcentration) ?? 0;
+  const allEquivalence = analysis?.equivalencePoints ?? [];
+
+  // Equivalence points passed so far and the indicator in the flask that
+  // changes colour at each of them
+  const reached = allEquivalence
+    .filter((point) => point.volume <= delivered)
+    .map((point) => ({
+      volume: point.volume,
+      ph: point.pH,
+      indicator: indicatorsAtEquivalence(
+        analysis!.theoretical,
+        point,
+        flaskIndicators,
+      )[0]?.name,
+    }));
+
+  // Stepwise interpretation for polyprotic analytes, including the
+  // double-indicator carbonate/hydrogen carbonate analysis
+  const equivalenceSteps: string[] =
+    reached.length < 2
+      ? []
+      : reached.map(
+          (point, idx) =>
+            `Equivalence point ${idx + 1} at ${point.volume.toFixed(2)} mL (pH ${point.ph.toFixed(2)}): ${neutralization.stages?.[idx] ?? neutralization.netIonic}${point.indicator ? ` - ${point.indicator} changes color` : ""}`,
+        );
+  if (
+    reached.length >= 2 &&
+    ["na2co3", "nahco3"].includes(
+      reactantWithRole(neutralization, "base") ?? "",
+    ) &&
+    flaskIndicators.includes("phenol") &&
+    flaskIndicators.includes("methyl_orange")
+  ) {
+    const v1 = reached[0].volume;
+    const v2 = reached[1].volume;
+    const carbonate = (titrantMolarity * v1) / 1000;
+    const bicarbonate = (titrantMolarity * (v2 - 2 * v1)) / 1000;
+    equivalenceSteps.push(
+      `Double indicator: V₁ = ${v1.toFixed(2)} mL (phenolphthalein) converts CO₃²⁻ → HCO₃⁻, V₂ = ${v2.toFixed(2)} mL (methyl orange) neutralizes all HCO₃⁻`,
+      `CO₃²⁻ = c·V₁ = ${carbonate.toFixed(5)} mol; original HCO₃⁻ = c·(V₂ − 2V₁) = ${Math.max(0, bicarbonate).toFixed(5)} mol`,
+    );
+  }
+
+  // Over-titrated once the last equivalence point is passed by more than
+  // a millilitre
+  const overTitrated =
+    allEquivalence.length > 0 &&
+    delivered > allEquivalence[allEquivalence.length - 1].volume + 1;
+  // Indicator endpoint against the nearest equivalence point
+  const nearest = endpoint
+    ? allEquivalence.reduce<TitrationPoint | null>(
+        (best, point) =>
+          !best ||
+          Math.abs(point.volume - endpoint.volume) <
+            Math.abs(best.volume - endpoint.volume)
+            ? point
+            : best,
+        null,
+      )
+    : null;
+  const endpointError =
+    endpoint && nearest ? endpoint.volume - nearest.volume : null;
+  return {
+    id: Date.now().toString(),
+    type: overTitrated ? "warning" : "success",
+    title: overTitrated
+      ? "Over-Titration Detected"
+      : "Acid-Base Titration Run Complete",
+    description: overTitrated
+      ? `Solution is over-titrated - the indicator shows excess titrant. Record the final burette reading, then refill and repeat with drops near the endpoint.`
+      : endpoint
+        ? `${endpoint.name} changed color at ${endpoint.volume.toFixed(2)} mL. Record the final burette reading from the meniscus.`
+        : `No indicator color change yet. Open the stopcock again to continue adding ${titrant.name}.`,
+    timestamp: new Date().toLocaleTimeString(),
+    calculation: {
+      reaction: `${neutralization.equation} (with indicator endpoint)`,
+      reactionType: "Acid-Base Titration Complete",
+      balancedEquation: neutralization.equation,
+      products: [...productLabels(neutralization), "Endpoint reached"],
+      volumeAdded: delivered,
+      totalVolume: session.flask.reduce((sum, c) => sum + c.amount, delivered),
+      concentration: `${session.labelConcentration} ${titrant.name} titrant`,
+      molarity: titrantMolarity,
+      moles: (titrantMolarity * delivered) / 1000,
+      ph: measurePH(
+        [...session.flask, { ...titrant, amount: delivered }],
+        session.temperature,
+      ),
+      equivalencePoints: hideAnswer ? undefined : reached,
+      mechanism: [
+        `1. Initial: ${analyteName} with indicator`,
+        `2. ${titrant.name} addition: ${neutralization.netIonic}`,
+        "3. Near endpoint: pH changes rapidly",
+        endpoint
+          ? `4. Endpoint: ${endpoint.name} changed color at ${endpoint.volume.toFixed(2)} mL`
+          : "4. Endpoint: no indicator color change observed",
+        !hideAnswer && endpointError !== null && Math.abs(endpointError) > 0.5
+          ? `5. Indicator error: ${endpointError > 0 ? "+" : ""}${endpointError.toFixed(2)} mL from the equivalence point - choose an indicator whose range covers the equivalence pH ${nearest!.pH.toFixed(2)}`
+          : "5. Result: Equivalent moles of acid and base reacted",
+        ...equivalenceSteps.map((step, idx) => `${idx + 6}. ${step}`),
+      ],
+      thermodynamics: {
+        deltaH: neutralization.deltaH,
+        deltaG: neutralization.deltaG,
+        logK: neutralization.logK,
+      },
+    },
+  };
+}
+
+// Redox counterpart: the endpoint is the first lasting colour of excess
+// permanganate or the loss of the starch-iodine blue, and the curve
+// follows the electrode potential rather than the pH
+function summarizeRedox(
+  session: TitrationSession,
+  redox: RedoxTitration,
+  { analysis, endpoint, hideAnswer }: SummaryContext,
+): Result {
+  const { titrant, delivered } = session;
+  const analyteName = session.analyte?.name ?? "the sample";
+  const titrantMolarity = parseMolarity(session.labelConcentration) ?? 0;
+  const mix = [...session.flask, { ...titrant, amount: delivered }];
+  const potential = solveRedox(mix)?.potential;
+  const equivalence = analysis?.equivalencePoints[0];
+  const overTitrated = !!equivalence && delivered > equivalence.volume + 1;
+  const endpointError =
+    endpoint && equivalence ? endpoint.volume - equivalence.volume : null;
+  const { oxidant, reductant } = redox;
+  const titrantIsOxidant = redoxReagents[titrant.id]?.state === "oxidized";
+  // Permanganate needs plenty of acid, or it stops at brown MnO₂
+  const needsAcid =
+    titrant.id === "kmno4" && !session.flask.some((c) => c.id === "h2so4");
+
+  return {
+    id: Date.now().toString(),
+    type: overTitrated || needsAcid ? "warning" : "success",
+    title: overTitrated
+      ? "Over-Titration Detected"
+      : "Redox Titration Run Complete",
+    description: overTitrated
+      ? `Solution is over-titrated - excess ${titrant.name} is present. Record the final burette reading, then refill and repeat with drops near the endpoint.`
+      : endpoint
+        ? `${endpoint.name} endpoint at ${endpoint.volume.toFixed(2)} mL. Record the final burette reading from the meniscus.`
+        : `No endpoint colour change yet. Open the stopcock again to continue adding ${titrant.name}.`,
+    timestamp: new Date().toLocaleTimeString(),
+    calculation: {
+      reaction: `${redox.equation} (with ${endpoint?.name ?? "colour"} endpoint)`,
+      reactionType: "Redox Titration Complete",
+      balancedEquation: redox.equation,
+      products: [redox.oxidant.reduced, redox.reductant.oxidized],
+      volumeAdded: delivered,
+      totalVolume: session.flask.reduce((sum, c) => sum + c.amount, delivered),
+      concentration: `${session.labelConcentration} ${titrant.name} titrant`,
+      molarity: titrantMolarity,
+      moles: (titrantMolarity * delivered) / 1000,
+      mechanism: [
+        `1. Initial: ${analyteName}, E set by the ${(titrantIsOxidant ? reductant : oxidant).oxidized}/${(titrantIsOxidant ? reductant : oxidant).reduced} couple`,
+        `2. ${titrant.name} addition: ${redox.equation}`,
+        `3. Equivalence: E = (n₁E₁°' + n₂E₂°')/(n₁ + n₂) = (${oxidant.electrons}×${oxidant.potential.toFixed(3)} + ${reductant.electrons}×${reductant.potential.toFixed(3)})/${oxidant.electrons + reductant.electrons} = ${redox.equivalencePotential.toFixed(3)} V`,
+        `4. Past equivalence: E set by the excess ${(titrantIsOxidant ? oxidant : reductant).oxidized}/${(titrantIsOxidant ? oxidant : reductant).reduced} couple`,
+        endpoint
+          ? `5. Endpoint: ${endpoint.name} at ${endpoint.volume.toFixed(2)} mL`
+          : "5. Endpoint: no colour change observed",
+        !hideAnswer && endpointError !== null && Math.abs(endpointError) > 0.5
+          ? `6. Endpoint error: ${endpointError > 0 ? "+" : ""}${endpointError.toFixed(2)} mL from the equivalence point`
+          : "6. Result: electrons lost by the reductant = electrons gained by the oxidant",
+        ...(needsAcid
+          ? [
+              "7. Warning: no H₂SO₄ in the flask - without acid MnO₄⁻ is only reduced to brown MnO₂ and the titre is wrong",
+            ]
+          : []),
+      ],
+      redox: {
+        halfReactions: redox.halfReactions,
+        equivalencePotential: redox.equivalencePotential,
+        equivalenceVolume: hideAnswer ? undefined : equivalence?.volume,
+        potential,
+        logK: redox.logK,
+      },
+      thermodynamics: { deltaG: Math.round(redox.deltaG * 10) / 10 },
+    },
+  };
+}
+
+// EDTA counterpart: one mole of EDTA per mole of Ca²⁺ + Mg²⁺, with the
+// endpoint where Eriochrome Black T turns blue. Both depend on the pH 10
+// buffer, so the conditional constants at the flask pH are reported.
+function summarizeComplexation(
+  session: TitrationSession,
+  complexation: ComplexometricTitration,
+  { analysis, endpoint, hideAnswer, measurePH }: SummaryContext,
+): Result {
+  const { titrant, delivered, analyte } = session;
+  const analyteName = analyte?.name ?? "the sample";
+  const titrantMolarity = parseMolarity(session.labelConcentration) ?? 0;
+  const mix = [...session.flask, { ...titrant, amount: delivered }];
+  const pH = measurePH(mix, session.temperature);
+  const equivalence = analysis?.equivalencePoints[0];
+  const overTitrated = !!equivalence && delivered > equivalence.volume + 1;
+  const endpointError =
+    endpoint && equivalence ? endpoint.volume - equivalence.volume : null;
+  // EBT only changes colour sharply in the buffered pH 10 region
+  const unbuffered = pH < 9.5 || pH > 10.5;
+  const constants = complexation.metals.map((metal) => ({
+    metal: metal.symbol,
+    logKf: metal.logKf,
+    logKConditional: conditionalConstant(metal, pH),
+  }));
+  // Total M²⁺ in the aliquot from the EDTA at the endpoint
+  const metalMoles = endpoint ? (titrantMolarity * endpoint.volume) / 1000 : 0;
+  const metalMolarity =
+    endpoint && analyte ? (metalMoles * 1000) / analyte.amount : null;
+
+  return {
+    id: Date.now().toString(),
+    type: overTitrated || unbuffered ? "warning" : "success",
+    title: overTitrated
+      ? "Over-Titration Detected"
+      : "EDTA Titration Run Complete",
+    description: overTitrated
+      ? `Solution is over-titrated - excess EDTA is present. Record the final burette reading, then refill and repeat with drops near the endpoint.`
+      : unbuffered
+        ? `The flask is at pH ${pH.toFixed(2)}, not 10. Add the ammonia buffer: EDTA binds weakly and Eriochrome Black T shows no clean change away from pH 10.`
+        : endpoint
+          ? `Eriochrome Black T turned blue at ${endpoint.volume.toFixed(2)} mL. Record the final burette reading from the meniscus.`
+          : session.metalBound === null
+            ? "No metal indicator in the flask - add Eriochrome Black T to see the endpoint."
+            : `Still wine red. Open the stopcock again to continue adding ${titrant.name}.`,
+    timestamp: new Date().toLocaleTimeString(),
+    calculation: {
+      reaction: `${complexation.equation} (with Eriochrome Black T endpoint)`,
+      reactionType: "Complexometric Titration Complete",
+      balancedEquation: complexation.equation,
+      products: complexation.equations.map(
+        (equation) => equation.split(" → ")[1].split(" + ")[0],
+      ),
+      volumeAdded: delivered,
+      totalVolume: session.flask.reduce((sum, c) => sum + c.amount, delivered),
+      concentration: `${session.labelConcentration} ${titrant.name} titrant`,
+      molarity: titrantMolarity,
+      moles: (titrantMolarity * delivered) / 1000,
+      ph: pH,
+      mechanism: [
+        `1. Initial: ${analyteName} buffered to pH ${pH.toFixed(2)}, Eriochrome Black T bound as wine-red MgIn⁻`,
+        ...complexation.equations.map(
+          (equation, idx) =>
+            `${idx + 2}. ${equation} (log K' = ${constants[idx].logKConditional.toFixed(2)})`,
+        ),
+        `${complexation.equations.length + 2}. Endpoint: ${complexation.indicatorReaction}`,
+        endpoint
+          ? `${complexation.equations.length + 3}. M²⁺ = ${titrantMolarity.toFixed(4)} M × ${endpoint.volume.toFixed(2)} mL = ${(metalMoles * 1000).toFixed(4)} mmol (1:1)`
+          : `${complexation.equations.length + 3}. Endpoint: no colour change observed`,
+        !hideAnswer && endpointError !== null && Math.abs(endpointError) > 0.5
+          ? `${complexation.equations.length + 4}. Endpoint error: ${endpointError > 0 ? "+" : ""}${endpointError.toFixed(2)} mL from the equivalence point`
+          : `${complexation.equations.length + 4}. Result: one EDTA per metal ion, whatever its charge`,
+      ],
+      complexation: {
+        pH,
+        constants,
+        hardness:
+          metalMolarity !== null ? hardnessAsCaCO3(metalMolarity) : undefined,
+      },
+    },
+  };
+}
+
+// Silver counterpart. Mohr titrates the chloride directly with AgNO₃ at
+// about pH 7-10; Volhard adds a known excess of AgNO₃ in nitric acid and
+// titrates the silver left over with thiocyanate.
+function summarizePrecipitation(
+  session: TitrationSession,
+  precipitation: PrecipitationTitration,
+  { analysis, endpoint, hideAnswer, measurePH }: SummaryContext,
+): Result {
+  const { titrant, delivered, analyte, flask } = session;
+  const analyteName = analyte?.name ?? "the sample";
+  const titrantMolarity = parseMolarity(session.labelConcentration) ?? 0;
+  const mix = [...flask, { ...titrant, amount: delivered }];
+  const pH = measurePH(mix, session.temperature);
+  const state = solvePrecipitation(mix);
+  const equivalence = analysis?.equivalencePoints[0];
+  const overTitrated = !!equivalence && delivered > equivalence.volume + 1;
+  const endpointError =
+    endpoint && equivalence ? endpoint.volume - equivalence.volume : null;
+  const volhard = titrant.id === KSCN_ID;
+  const method = volhard
+    ? "Volhard"
+    : flask.some((c) => c.id === "k2cro4")
+      ? "Mohr"
+      : "Argentometric";
+
+  // Chloride sample and, for Volhard, the silver pipetted in before it
+  const sample = flask.find((c) => findPrecipitationTitration(c.id, AGNO3_ID));
+  const silverAdded = flask
+    .filter((c) => c.id === AGNO3_ID)
+    .reduce(
+      (sum, c) =>
+        sum + ((parseMolarity(c.concentration) ?? 0) * c.amount) / 1000,
+      0,
+    );
+  const titrantMoles = endpoint
+    ? (titrantMolarity * endpoint.volume) / 1000
+    : 0;
+  const chlorideMoles = volhard ? silverAdded - titrantMoles : titrantMoles;
+  const chloride =
+    endpoint && sample && chlorideMoles > 0
+      ? ((chlorideMoles * CHLORIDE_MOLAR_MASS * 1000) / sample.amount) * 1000
+      : undefined;
+
+  // Chromate turns to HCrO₄⁻ in acid and silver oxide comes down above
+  // pH 10; Fe³⁺ hydrolyses unless the Volhard flask is acidified
+  const problem = volhard
+    ? !flask.some((c) => c.id === "hno3")
+      ? "Acidify the flask with nitric acid first - iron(III) hydrolyses to a brown hydroxide and hides the endpoint."
+      : sample && !flask.some((c) => c.id === NITROBENZENE_ID)
+        ? "The AgCl was not coated with nitrobenzene, so thiocyanate converts it to AgSCN. The red fades, the titre runs high and the chloride comes out low."
+        : null
+    : method === "Mohr" && pH < 6.5
+      ? `The flask is at pH ${pH.toFixed(2)}. Chromate is protonated to HCrO₄⁻ in acid, so Ag₂CrO₄ forms late or not at all - neutralize the sample first.`
+      : method === "Mohr" && pH > 10
+        ? `The flask is at pH ${pH.toFixed(2)}. Above pH 10 silver oxide precipitates - bring the sample back to neutral.`
+        : null;
+
+  return {
+    id: Date.now().toString(),
+    type: overTitrated || problem ? "warning" : "success",
+    title: overTitrated
+      ? "Over-Titration Detected"
+      : `${method} Titration Run Complete`,
+    description: overTitrated
+      ? `Solution is over-titrated - excess ${titrant.name} is present. Record the final burette reading, then refill and repeat with drops near the endpoint.`
+      : problem
+        ? problem
+        : endpoint
+          ? `${endpoint.name} endpoint at ${endpoint.volume.toFixed(2)} mL. Record the final burette reading from the meniscus.`
+          : session.precipitateShown === null
+            ? "No indicator in the flask - add potassium chromate (Mohr) or iron(III) alum (Volhard) to see the endpoint."
+            : `No lasting colour yet. Open the stopcock again to continue adding ${titrant.name}.`,
+    timestamp: new Date().toLocaleTimeString(),
+    calculation: {
+      reaction: `${precipitation.equation} (${method} method)`,
+      reactionType: "Precipitation Titration Complete",
+      balancedEquation: precipitation.equation,
+      products: (state?.solids ?? []).map(({ salt }) => `${salt.formula}(s)`),
+      volumeAdded: delivered,
+      totalVolume: flask.reduce((sum, c) => sum + c.amount, delivered),
+      concentration: `${session.labelConcentration} ${titrant.name} titrant`,
+      molarity: titrantMolarity,
+      moles: (titrantMolarity * delivered) / 1000,
+      ph: pH,
+      mechanism: [
+        `1. Initial: ${analyteName}${volhard ? ` with ${(silverAdded * 1000).toFixed(4)} mmol AgNO₃ added in excess` : ""}`,
+        `2. ${precipitation.equation} (Ksp = ${precipitation.salt.ksp.toExponential(1)})`,
+        `3. Endpoint: ${volhard ? precipitationIndicators.volhard : precipitationIndicators.mohr}`,
+        endpoint
+          ? volhard
+            ? `4. Cl⁻ = ${(silverAdded * 1000).toFixed(4)} mmol Ag⁺ − ${titrantMolarity.toFixed(4)} M × ${endpoint.volume.toFixed(2)} mL SCN⁻ = ${(chlorideMoles * 1000).toFixed(4)} mmol`
+            : `4. Cl⁻ = ${titrantMolarity.toFixed(4)} M × ${endpoint.volume.toFixed(2)} mL = ${(chlorideMoles * 1000).toFixed(4)} mmol (1:1)`
+          : "4. Endpoint: no lasting colour observed",
+        !hideAnswer && endpointError !== null && Math.abs(endpointError) > 0.5
+          ? `5. Endpoint error: ${endpointError > 0 ? "+" : ""}${endpointError.toFixed(2)} mL from the equivalence point`
+          : "5. Result: one Ag⁺ per Cl⁻ or SCN⁻",
+      ],
+      precipitation: {
+        method,
+        salts: (state?.solids ?? []).map(({ salt }) => ({
+          formula: salt.formula,
+          ksp: salt.ksp,
+        })),
+        chloride,
+      },
+    },
+  };
+}
+
+// Summary of the titrant delivered in this run, by whichever reaction the
+// sample and titrant undergo
+export const summarizeRun = (
+  session: TitrationSession,
+  context: SummaryContext,
+): Result =>
+  session.redox
+    ? summarizeRedox(session, session.redox, context)
+    : session.complexation
+      ? summarizeComplexation(session, session.complexation, context)
+      : session.precipitation
+        ? summarizePrecipitation(session, session.precipitation, context)
+        : summarizeNeutralization(session, context);
+
+// Equivalence volume the student located from their own readings with the
+// derivative plots. A calibration problem moves every reading but not the
+// inflection, so it is pointed out without discarding the volume.
+export function summarizeDerivativeEndpoint(
+  analysis: DerivativeAnalysis,
+  volume: number,
+  curve: TitrationPoint[],
+  symbol: string,
+  problem: string | null,
+): Result {
+  const steepest = analysis.first.reduce((best, point) =>
+    Math.abs(point.value) > Math.abs(best.value) ? point : best,
+  );
+  const ph = interpolatePH(curve, volume);
+  return {
+    id: Date.now().toString(),
+    type: problem ? "warning" : "success",
+    title: "Endpoint from Derivative Plots",
+    description: problem
+      ? `Equivalence volume ${volume.toFixed(2)} mL. ${problem} The volume stands, but the pH values along the curve do not.`
+      : `Equivalence volume ${volume.toFixed(2)} mL, where the second derivative crosses zero.`,
+    timestamp: new Date().toLocaleTimeString(),
+    calculation: {
+      reactionType: "Potentiometric Endpoint",
+      volumeAdded: volume,
+      ph: ph ?? undefined,
+      equivalencePoints: ph !== null ? [{ volume, ph }] : undefined,
+      mechanism: [
+        `1. ${curve.length} readings from 0 to ${curve[curve.length - 1].volume.toFixed(2)} mL`,
+        `2. First derivative Δ${symbol}/ΔV between successive readings peaks at ${steepest.volume.toFixed(2)} mL (${steepest.value.toFixed(2)} per mL)`,
+        `3. Second derivative Δ²${symbol}/ΔV² changes sign at ${volume.toFixed(2)} mL`,
+        `4. Equivalence volume: ${volume.toFixed(2)} mL`,
+      ],
+    },
+  };
+}
+
+// NaOH standardized against KHP: the mean of the trials with its combined
+// uncertainty, which the sample calculations go on to use
+export function summarizeStandardization(
+  molarity: number,
+  trials: StandardizationTrial[],
+): Result {
+  const result = standardizationResult(trials);
+  const reported = result ? formatMeasurement(result) : molarity.toFixed(4);
+  return {
+    id: `standardization_${Date.now()}`,
+    type: "success",
+    title: "NaOH Standardized",
+    description: `Mean of ${trials.length} KHP titration${trials.length === 1 ? "" : "s"}: NaOH = ${reported} M. This value and its uncertainty are used for the sample calculations.`,
+    timestamp: new Date().toLocaleTimeString(),
+    calculation: {
+      reaction: reactions["khp+naoh"].equation,
+      reactionType: "Standardization against a primary standard",
+      balancedEquation: reactions["khp+naoh"].equation,
+      molarity,
+      mechanism: [
+        "1. n(KHP) = mass / 204.22 g/mol",
+        "2. n(NaOH) = n(KHP) at the phenolphthalein endpoint",
+        "3. c(NaOH) = n(NaOH) / titre",
+        ...trials.map(
+          (trial, idx) =>
+            `${idx + 4}. Trial ${idx + 1}: ${trial.mass.toFixed(4)} g / ${trial.titre.toFixed(2)} mL → ${trial.molarity.toFixed(4)} M`,
+        ),
+        `${trials.length + 4}. Balance ±0.0001 g and burette ±0.05 mL per reading, combined with the scatter between trials: ${reported} M`,
+      ],
+    },
+  };
+}
+
+// Analyte content of a back-titrated sample from the excess left over
+export const summarizeBackTitration = (
+  sample: BackTitrationSample,
+  mass: number,
+  titre: number,
+  result: BackTitrationResult,
+): Result => ({
+  id: `back_titration_${Date.now()}`,
+  type: "success",
+  title: `Back Titration: ${sample.analyte} in ${sample.name}`,
+  description: `${mass.toFixed(4)} g sample, ${titre.toFixed(2)} mL ${sample.titrantName}: ${(result.analyteMass * 1000).toFixed(1)} mg ${sample.analyte} (${formatMeasurement({ value: result.content, uncertainty: result.contentUncertainty })}% by mass)`,
+  timestamp: new Date().toLocaleTimeString(),
+  calculation: {
+    reaction: sample.reaction,
+    reactionType: "Back Titration",
+    balancedEquation: sample.reaction,
+    products: [sample.backReaction],
+    volumeAdded: titre,
+    moles: result.analyteMoles,
+    mechanism: result.mechanism,
+  },
+});
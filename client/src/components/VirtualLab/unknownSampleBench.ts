@@ -0,0 +1,177 @@
+// The student's unknown sample on the bench: issuing it, reading its pH
+// from the server one delivered volume at a time, and submitting the result
+// for grading. Its concentration only arrives with the graded result.
+import React, { useCallback, useState } from "react";
+import type { GradedUnknownSample, LabDefinition } from "@shared/schema";
+import {
+  parseMolarity,
+  UNKNOWN_CONCENTRATION,
+} from "@shared/chemistry/species";
+import type { ContainerChemical } from "@shared/chemistry/equilibrium";
+import type { TitrationSetup } from "./titrationSession";
+import {
+  useNewUnknownSample,
+  useSubmitUnknownSample,
+  useUnknownSample,
+  useUnknownSampleReader,
+} from "@/hooks/use-experiments";
+
+export function useUnknownSampleBench(
+  lab: LabDefinition,
+  experimentId: number | undefined,
+  titrationSetup: TitrationSetup | null,
+  containers: Array<{ chemicals: ContainerChemical[] }>,
+) {
+  const { data: unknownSample } = useUnknownSample(
+    lab.reagents.some((r) => r.unknownSample) ? experimentId : undefined,
+  );
+  const newUnknownSample = useNewUnknownSample();
+  const submitUnknownSample = useSubmitUnknownSample();
+  const [gradedUnknown, setGradedUnknown] =
+    useState<GradedUnknownSample | null>(null);
+
+  // An unknown sample cannot be solved locally: the server reads the pH of
+  // the aliquot at each titrant volume delivered instead
+  const unknownAliquot = titrationSetup?.analyte.find(
+    (c) => c.concentration === UNKNOWN_CONCENTRATION,
+  );
+  const readUnknown = useUnknownSampleReader(
+    unknownSample?.id,
+    unknownAliquot && titrationSetup?.titrant,
+    unknownAliquot?.amount,
+  );
+  // Readings received so far, keyed by the volume (mL) they were taken at
+  const [unknownReadings, setUnknownReadings] = useState<
+    Record<string, number>
+  >({});
+  React.useEffect(() => setUnknownReadings({}), [readUnknown]);
+
+  // Titrant run into contents holding the unknown sample. Readings are for
+  // full-strength titrant; diluted titrant counts for proportionally less.
+  const unknownTitrantVolume = useCallback(
+    (chemicals: ContainerChemical[]): number | null => {
+      if (
+        !titrationSetup ||
+        !chemicals.some((c) => c.concentration === UNKNOWN_CONCENTRATION)
+      ) {
+        return null;
+      }
+      const label = parseMolarity(titrationSetup.titrant.concentration) ?? 0;
+      const delivered = chemicals
+        .filter((c) => c.id === titrationSetup.titrant.id)
+        .reduce(
+          (sum, c) =>
+            sum +
+            c.amount *
+              (label > 0
+                ? (parseMolarity(c.concentration) ?? label) / label
+                : 1),
+          0,
+        );
+      return Math.round(delivered * 100) / 100;
+    },
+    [titrationSetup],
+  );
+
+  const requestUnknownReading = useCallback(
+    async (volume: number): Promise<number | null> => {
+      if (!readUnknown) return null;
+      const pH = await readUnknown(volume);
+      setUnknownReadings((prev) => ({ ...prev, [volume.toFixed(2)]: pH }));
+      return pH;
+    },
+    [readUnknown],
+  );
+
+  // Keep a reading in hand for every container holding the sample
+  React.useEffect(() => {
+    containers.forEach((container) => {
+      const volume = unknownTitrantVolume(container.chemicals);
+      if (volume !== null && unknownReadings[volume.toFixed(2)] === undefined) {
+        requestUnknownReading(volume).catch(() => {});
+      }
+    });
+  }, [
+    containers,
+    unknownTitrantVolume,
+    unknownReadings,
+    requestUnknownReading,
+  ]);
+
+  // pH of contents holding the unknown sample: the reading at the volume
+  // delivered, or the last one before it while the meter settles; null
+  // when the contents can be solved locally
+  const unknownPH = useCallback(
+    (chemicals: ContainerChemical[]): number | null => {
+      const volume = unknownTitrantVolume(chemicals);
+      if (volume === null) return null;
+      const settled = Object.keys(unknownReadings)
+        .map(Number)
+        .filter((v) => v <= volume + 1e-9)
+        .sort((a, b) => b - a)[0];
+      return settled === undefined ? null : unknownReadings[settled.toFixed(2)];
+    },
+    [unknownReadings, unknownTitrantVolume],
+  );
+
+  // Readings of the unknown sample are handled one after another, and
+  // whatever waits on them (the run summary) goes after them
+  const readingQueue = React.useRef<Promise<void>>(Promise.resolve());
+  const afterReadings = useCallback((next: () => void | Promise<void>) => {
+    readingQueue.current = readingQueue.current.then(next).catch(() => {});
+  }, []);
+
+  // Issue a sample when the student has none yet, or when the latest one was
+  // already submitted in an earlier session
+  React.useEffect(() => {
+    const needsSample =
+      unknownSample === null || (unknownSample?.submittedAt && !gradedUnknown);
+    if (needsSample && experimentId && newUnknownSample.isIdle) {
+      newUnknownSample.mutate(experimentId);
+    }
+  }, [unknownSample, gradedUnknown, experimentId, newUnknownSample]);
+
+  // Hand the student's concentration in for grading
+  const submitUnknown = (
+    concentration: number,
+    handlers: {
+      onGraded: (graded: GradedUnknownSample) => void;
+      onError: () => void;
+    },
+  ) => {
+    if (!unknownSample) return;
+    submitUnknownSample.mutate(
+      { sampleId: unknownSample.id, concentration },
+      {
+        onSuccess: (graded) => {
+          setGradedUnknown(graded);
+          handlers.onGraded(graded);
+        },
+        onError: handlers.onError,
+      },
+    );
+  };
+
+  // Start a new attempt with a fresh sample
+  const newUnknown = (onIssued: () => void) => {
+    if (!experimentId) return;
+    newUnknownSample.mutate(experimentId, {
+      onSuccess: () => {
+        setGradedUnknown(null);
+        onIssued();
+      },
+    });
+  };
+
+  return {
+    unknownSample,
+    gradedUnknown,
+    unknownAliquot,
+    unknownTitrantVolume,
+    requestUnknownReading,
+    unknownPH,
+    afterReadings,
+    submitUnknown,
+    newUnknown,
+  };
+}
@@ -23,6 +23,12 @@ export default function ExperimentCard({ experiment, progress, onViewDetails }:
         return 'bg-blue-100 text-blue-700';
       case 'Acid-Base':
         return 'bg-green-100 text-green-700';
+      case 'Redox':
+        return 'bg-rose-100 text-rose-700';
+      case 'Complexometric':
+        return 'bg-sky-100 text-sky-700';
+      case 'Precipitation':
+        return 'bg-stone-100 text-stone-700';
       case 'Equilibrium':
         return 'bg-purple-100 text-purple-700';
       default:
@@ -0,0 +1,828 @@
+import { useEffect, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { equipmentIcons } from "@/components/VirtualLab/EquipmentIcon";
+import { compounds } from "@shared/chemistry/compounds";
+import type {
+  ExperimentRecord,
+  ExperimentStep,
+  LabDefinition,
+  LabEquipment,
+  LabReagent,
+} from "@shared/schema";
+
+// Validation messages keyed by the dotted path of the field they are about,
+// e.g. "stepDetails.0.title"
+export type FieldErrors = Record<string, string>;
+
+const difficulties = ["Beginner", "Intermediate", "Advanced"];
+const labKinds: LabDefinition["kind"][] = [
+  "titration",
+  "synthesis",
+  "equilibrium",
+];
+const labPanels: LabDefinition["panels"] = [
+  "standardization",
+  "back_titration",
+];
+
+const replaceAt = <T,>(list: T[], index: number, item: T) =>
+  list.map((existing, i) => (i === index ? item : existing));
+const removeAt = <T,>(list: T[], index: number) =>
+  list.filter((_, i) => i !== index);
+const move = <T,>(list: T[], index: number, offset: number) => {
+  const target = index + offset;
+  if (target < 0 || target >= list.length) return list;
+  const moved = [...list];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
+
+// Empty text reads as unset so optional numbers can be cleared
+const parseNumber = (text: string) =>
+  text.trim() === "" ? undefined : Number(text);
+
+function FieldError({ errors, path }: { errors: FieldErrors; path: string }) {
+  if (!errors[path]) return null;
+  return <p className="text-xs text-red-600 mt-1">{errors[path]}</p>;
+}
+
+interface FieldProps {
+  id: string;
+  label: string;
+  errors: FieldErrors;
+  path: string;
+  children: React.ReactNode;
+}
+
+function Field({ id, label, errors, path, children }: FieldProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      {children}
+      <FieldError errors={errors} path={path} />
+    </div>
+  );
+}
+
+interface JsonFieldProps {
+  id: string;
+  label: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  errors: FieldErrors;
+  path: string;
+  rows?: number;
+  // Blank text clears the value rather than being invalid JSON
+  optional?: boolean;
+}
+
+// Edits structured parts of a definition as JSON. The text is kept as typed
+// until it parses, and follows the value when it changes elsewhere.
+export function JsonField({
+  id,
+  label,
+  value,
+  onChange,
+  errors,
+  path,
+  rows = 6,
+  optional = false,
+}: JsonFieldProps) {
+  const format = (v: unknown) =>
+    v === undefined ? "" : JSON.stringify(v, null, 2);
+  const [text, setText] = useState(() => format(value));
+  const [parseError, setParseError] = useState<string | null>(null);
+  const emitted = useRef(value);
+  // Problems anywhere inside the value are reported here
+  const problem = Object.entries(errors).find(
+    ([key]) => key === path || key.startsWith(`${path}.`),
+  );
+
+  useEffect(() => {
+    if (value !== emitted.current) {
+      emitted.current = value;
+      setText(format(value));
+      setParseError(null);
+    }
+  }, [value]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    if (optional && next.trim() === "") {
+      emitted.current = undefined;
+      setParseError(null);
+      onChange(undefined);
+      return;
+    }
+    try {
+      const parsed = JSON.parse(next);
+      emitted.current = parsed;
+      setParseError(null);
+      onChange(parsed);
+    } catch (error) {
+      setParseError((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Textarea
+        id={id}
+        rows={rows}
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        className="font-mono text-xs"
+        spellCheck={false}
+      />
+      {parseError ? (
+        <p className="text-xs text-red-600 mt-1">
+          Not valid JSON: {parseError}
+        </p>
+      ) : (
+        problem && (
+          <p className="text-xs text-red-600 mt-1">
+            {problem[0] === path
+              ? problem[1]
+              : `${problem[0].slice(path.length + 1)}: ${problem[1]}`}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
+
+interface ListItemProps {
+  title: string;
+  index: number;
+  count: number;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+  children: React.ReactNode;
+}
+
+function ListItem({
+  title,
+  index,
+  count,
+  onMove,
+  onRemove,
+  children,
+}: ListItemProps) {
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-gray-900">{title}</h3>
+          <div className="flex items-center space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onMove(-1)}
+              disabled={index === 0}
+              aria-label="Move up"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onMove(1)}
+              disabled={index === count - 1}
+              aria-label="Move down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onRemove}
+              className="text-red-600 hover:text-red-700"
+              aria-label="Remove"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface DetailsSectionProps {
+  draft: ExperimentRecord;
+  onChange: (patch: Partial<ExperimentRecord>) => void;
+  errors: FieldErrors;
+}
+
+export function DetailsSection({
+  draft,
+  onChange,
+  errors,
+}: DetailsSectionProps) {
+  return (
+    <div className="space-y-4">
+      <Field id="title" label="Title" errors={errors} path="title">
+        <Input
+          id="title"
+          value={draft.title}
+          onChange={(e) => onChange({ title: e.target.value })}
+        />
+      </Field>
+      <Field
+        id="description"
+        label="Description"
+        errors={errors}
+        path="description"
+      >
+        <Textarea
+          id="description"
+          rows={3}
+          value={draft.description}
+          onChange={(e) => onChange({ description: e.target.value })}
+        />
+      </Field>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Field id="category" label="Category" errors={errors} path="category">
+          <Input
+            id="category"
+            value={draft.category}
+            onChange={(e) => onChange({ category: e.target.value })}
+          />
+        </Field>
+        <Field
+          id="difficulty"
+          label="Difficulty"
+          errors={errors}
+          path="difficulty"
+        >
+          <Select
+            value={draft.difficulty}
+            onValueChange={(difficulty) => onChange({ difficulty })}
+          >
+            <SelectTrigger id="difficulty">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {difficulties.map((difficulty) => (
+                <SelectItem key={difficulty} value={difficulty}>
+                  {difficulty}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+        <Field
+          id="duration"
+          label="Duration (minutes)"
+          errors={errors}
+          path="duration"
+        >
+          <Input
+            id="duration"
+            type="number"
+            min={1}
+            value={draft.duration}
+            onChange={(e) => onChange({ duration: Number(e.target.value) })}
+          />
+        </Field>
+      </div>
+      <Field id="imageUrl" label="Image URL" errors={errors} path="imageUrl">
+        <Input
+          id="imageUrl"
+          value={draft.imageUrl}
+          onChange={(e) => onChange({ imageUrl: e.target.value })}
+        />
+      </Field>
+      <Field
+        id="equipment-list"
+        label="Equipment list (one per line)"
+        errors={errors}
+        path="equipment"
+      >
+        <Textarea
+          id="equipment-list"
+          rows={4}
+          value={draft.equipment.join("\n")}
+          onChange={(e) => onChange({ equipment: e.target.value.split("\n") })}
+          onBlur={() =>
+            onChange({
+              equipment: draft.equipment
+                .map((item) => item.trim())
+                .filter(Boolean),
+            })
+          }
+        />
+      </Field>
+    </div>
+  );
+}
+
+interface StepsSectionProps {
+  steps: ExperimentStep[];
+  onChange: (steps: ExperimentStep[]) => void;
+  errors: FieldErrors;
+}
+
+const blankStep = (id: number): ExperimentStep => ({
+  id,
+  title: "",
+  description: "",
+  duration: "5 minutes",
+  completed: false,
+});
+
+// Steps are numbered by their position, so they are renumbered whenever
+// the list changes
+export function StepsSection({ steps, onChange, errors }: StepsSectionProps) {
+  const update = (next: ExperimentStep[]) =>
+    onChange(next.map((step, i) => ({ ...step, id: i + 1 })));
+
+  return (
+    <div className="space-y-4">
+      <FieldError errors={errors} path="stepDetails" />
+      {steps.map((step, i) => {
+        const path = `stepDetails.${i}`;
+        const set = (patch: Partial<ExperimentStep>) =>
+          update(replaceAt(steps, i, { ...step, ...patch }));
+        return (
+          <ListItem
+            key={i}
+            title={`Step ${i + 1}`}
+            index={i}
+            count={steps.length}
+            onMove={(offset) => update(move(steps, i, offset))}
+            onRemove={() => update(removeAt(steps, i))}
+          >
+            <Field
+              id={`${path}.title`}
+              label="Title"
+              errors={errors}
+              path={`${path}.title`}
+            >
+              <Input
+                id={`${path}.title`}
+                value={step.title}
+                onChange={(e) => set({ title: e.target.value })}
+              />
+            </Field>
+            <Field
+              id={`${path}.description`}
+              label="Description"
+              errors={errors}
+              path={`${path}.description`}
+            >
+              <Textarea
+                id={`${path}.description`}
+                rows={2}
+                value={step.description}
+                onChange={(e) => set({ description: e.target.value })}
+              />
+            </Field>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Field
+                id={`${path}.duration`}
+                label="Duration"
+                errors={errors}
+                path={`${path}.duration`}
+              >
+                <Input
+                  id={`${path}.duration`}
+                  value={step.duration}
+                  onChange={(e) => set({ duration: e.target.value })}
+                />
+              </Field>
+              <Field
+                id={`${path}.temperature`}
+                label="Temperature"
+                errors={errors}
+                path={`${path}.temperature`}
+              >
+                <Input
+                  id={`${path}.temperature`}
+                  value={step.temperature ?? ""}
+                  onChange={(e) =>
+                    set({ temperature: e.target.value || undefined })
+                  }
+                />
+              </Field>
+              <Field
+                id={`${path}.safety`}
+                label="Safety note"
+                errors={errors}
+                path={`${path}.safety`}
+              >
+                <Input
+                  id={`${path}.safety`}
+                  value={step.safety ?? ""}
+                  onChange={(e) => set({ safety: e.target.value || undefined })}
+                />
+              </Field>
+            </div>
+            <JsonField
+              id={`${path}.triggers`}
+              label="Triggers (optional; any one completes the step)"
+              value={step.triggers}
+              onChange={(triggers) =>
+                set({ triggers: triggers as ExperimentStep["triggers"] })
+              }
+              errors={errors}
+              path={`${path}.triggers`}
+              rows={4}
+              optional
+            />
+          </ListItem>
+        );
+      })}
+      <Button
+        variant="outline"
+        onClick={() => update([...steps, blankStep(steps.length + 1)])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Step
+      </Button>
+    </div>
+  );
+}
+
+interface ReagentsSectionProps {
+  reagents: LabReagent[];
+  onChange: (reagents: LabReagent[]) => void;
+  errors: FieldErrors;
+}
+
+export function ReagentsSection({
+  reagents,
+  onChange,
+  errors,
+}: ReagentsSectionProps) {
+  return (
+    <div className="space-y-4">
+      <FieldError errors={errors} path="lab.reagents" />
+      {reagents.map((reagent, i) => {
+        const path = `lab.reagents.${i}`;
+        const set = (patch: Partial<LabReagent>) =>
+          onChange(replaceAt(reagents, i, { ...reagent, ...patch }));
+        return (
+          <ListItem
+            key={i}
+            title={reagent.name || `Reagent ${i + 1}`}
+            index={i}
+            count={reagents.length}
+            onMove={(offset) => onChange(move(reagents, i, offset))}
+            onRemove={() => onChange(removeAt(reagents, i))}
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Field
+                id={`${path}.id`}
+                label="Id"
+                errors={errors}
+                path={`${path}.id`}
+              >
+                <Input
+                  id={`${path}.id`}
+                  value={reagent.id}
+                  onChange={(e) => set({ id: e.target.value })}
+                />
+              </Field>
+              <Field
+                id={`${path}.name`}
+                label="Bottle label"
+                errors={errors}
+                path={`${path}.name`}
+              >
+                <Input
+                  id={`${path}.name`}
+                  value={reagent.name}
+                  onChange={(e) => set({ name: e.target.value })}
+                />
+              </Field>
+              <Field
+                id={`${path}.compound`}
+                label="Compound"
+                errors={errors}
+                path={`${path}.compound`}
+              >
+                <Select
+                  value={reagent.compound}
+                  onValueChange={(compound) => set({ compound })}
+                >
+                  <SelectTrigger id={`${path}.compound`}>
+                    <SelectValue placeholder="Choose a compound" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(compounds).map((compound) => (
+                      <SelectItem key={compound.id} value={compound.id}>
+                        {compound.name} ({compound.formula})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </Field>
+              <Field
+                id={`${path}.color`}
+                label="Colour (blank for the compound's own)"
+                errors={errors}
+                path={`${path}.color`}
+              >
+                <Input
+                  id={`${path}.color`}
+                  value={reagent.color ?? ""}
+                  placeholder="#RRGGBB"
+                  onChange={(e) => set({ color: e.target.value || undefined })}
+                />
+              </Field>
+              <Field
+                id={`${path}.concentration`}
+                label="Concentration"
+                errors={errors}
+                path={`${path}.concentration`}
+              >
+                <Input
+                  id={`${path}.concentration`}
+                  value={reagent.concentration}
+                  placeholder="0.1 M"
+                  onChange={(e) => set({ concentration: e.target.value })}
+                />
+              </Field>
+              <Field
+                id={`${path}.volume`}
+                label="Volume in the bottle (mL)"
+                errors={errors}
+                path={`${path}.volume`}
+              >
+                <Input
+                  id={`${path}.volume`}
+                  type="number"
+                  min={0}
+                  value={reagent.volume}
+                  onChange={(e) => set({ volume: Number(e.target.value) })}
+                />
+              </Field>
+            </div>
+          </ListItem>
+        );
+      })}
+      <Button
+        variant="outline"
+        onClick={() =>
+          onChange([
+            ...reagents,
+            {
+              id: "",
+              name: "",
+              compound: "",
+              concentration: "",
+              volume: 100,
+            },
+          ])
+        }
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Reagent
+      </Button>
+    </div>
+  );
+}
+
+interface EquipmentSectionProps {
+  equipment: LabEquipment[];
+  onChange: (equipment: LabEquipment[]) => void;
+  errors: FieldErrors;
+}
+
+export function EquipmentSection({
+  equipment,
+  onChange,
+  errors,
+}: EquipmentSectionProps) {
+  return (
+    <div className="space-y-4">
+      <FieldError errors={errors} path="lab.equipment" />
+      {equipment.map((eq, i) => {
+        const path = `lab.equipment.${i}`;
+        const set = (patch: Partial<LabEquipment>) =>
+          onChange(replaceAt(equipment, i, { ...eq, ...patch }));
+        return (
+          <ListItem
+            key={i}
+            title={eq.name || `Equipment ${i + 1}`}
+            index={i}
+            count={equipment.length}
+            onMove={(offset) => onChange(move(equipment, i, offset))}
+            onRemove={() => onChange(removeAt(equipment, i))}
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Field
+                id={`${path}.id`}
+                label="Id"
+                errors={errors}
+                path={`${path}.id`}
+              >
+                <Input
+                  id={`${path}.id`}
+                  value={eq.id}
+                  onChange={(e) => set({ id: e.target.value })}
+                />
+              </Field>
+              <Field
+                id={`${path}.name`}
+                label="Name"
+                errors={errors}
+                path={`${path}.name`}
+              >
+                <Input
+                  id={`${path}.name`}
+                  value={eq.name}
+                  onChange={(e) => set({ name: e.target.value })}
+                />
+              </Field>
+              <Field
+                id={`${path}.icon`}
+                label="Icon"
+                errors={errors}
+                path={`${path}.icon`}
+              >
+                <Select value={eq.icon} onValueChange={(icon) => set({ icon })}>
+                  <SelectTrigger id={`${path}.icon`}>
+                    <SelectValue placeholder="Choose an icon" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(equipmentIcons).map((icon) => (
+                      <SelectItem key={icon} value={icon}>
+                        {icon.replace(/_/g, " ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </Field>
+              <Field
+                id={`${path}.temperature`}
+                label="Bath temperature (°C, baths only)"
+                errors={errors}
+                path={`${path}.temperature`}
+              >
+                <Input
+                  id={`${path}.temperature`}
+                  type="number"
+                  value={eq.temperature ?? ""}
+                  onChange={(e) =>
+                    set({ temperature: parseNumber(e.target.value) })
+                  }
+                />
+              </Field>
+            </div>
+          </ListItem>
+        );
+      })}
+      <Button
+        variant="outline"
+        onClick={() =>
+          onChange([...equipment, { id: "", name: "", icon: "beakers" }])
+        }
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Equipment
+      </Button>
+    </div>
+  );
+}
+
+interface LabSectionProps {
+  lab: LabDefinition;
+  onChange: (patch: Partial<LabDefinition>) => void;
+  errors: FieldErrors;
+}
+
+export function LabSection({ lab, onChange, errors }: LabSectionProps) {
+  const togglePanel = (panel: LabDefinition["panels"][number], on: boolean) =>
+    onChange({
+      panels: on
+        ? [...lab.panels, panel]
+        : lab.panels.filter((p) => p !== panel),
+    });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Field id="lab-kind" label="Lab kind" errors={errors} path="lab.kind">
+          <Select
+            value={lab.kind}
+            onValueChange={(kind) =>
+              onChange({ kind: kind as LabDefinition["kind"] })
+            }
+          >
+            <SelectTrigger id="lab-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {labKinds.map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {kind}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+        <Field
+          id="lab-endpoint"
+          label="Endpoint pH (optional)"
+          errors={errors}
+          path="lab.endpointPH"
+        >
+          <Input
+            id="lab-endpoint"
+            type="number"
+            step="0.1"
+            value={lab.endpointPH ?? ""}
+            onChange={(e) =>
+              onChange({ endpointPH: parseNumber(e.target.value) })
+            }
+          />
+        </Field>
+      </div>
+      <div className="space-y-2">
+        <Label>Extra panels</Label>
+        {labPanels.map((panel) => (
+          <div key={panel} className="flex items-center space-x-2">
+            <Checkbox
+              id={`panel-${panel}`}
+              checked={lab.panels.includes(panel)}
+              onCheckedChange={(checked) =>
+                togglePanel(panel, checked === true)
+              }
+            />
+            <Label htmlFor={`panel-${panel}`} className="font-normal">
+              {panel.replace(/_/g, " ")}
+            </Label>
+          </div>
+        ))}
+      </div>
+      <JsonField
+        id="lab-guide"
+        label="Guided mode (optional)"
+        value={lab.guide}
+        onChange={(guide) =>
+          onChange({ guide: guide as LabDefinition["guide"] })
+        }
+        errors={errors}
+        path="lab.guide"
+        rows={10}
+        optional
+      />
+      <JsonField
+        id="lab-formulas"
+        label="Formulas"
+        value={lab.formulas}
+        onChange={(formulas) =>
+          onChange({ formulas: formulas as LabDefinition["formulas"] })
+        }
+        errors={errors}
+        path="lab.formulas"
+        rows={10}
+      />
+    </div>
+  );
+}
+
+interface SafetySectionProps {
+  safetyInfo: string;
+  onChange: (safetyInfo: string) => void;
+  errors: FieldErrors;
+}
+
+export function SafetySection({
+  safetyInfo,
+  onChange,
+  errors,
+}: SafetySectionProps) {
+  return (
+    <Field
+      id="safety-info"
+      label="Safety information"
+      errors={errors}
+      path="safetyInfo"
+    >
+      <Textarea
+        id="safety-info"
+        rows={8}
+        value={safetyInfo}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </Field>
+  );
+}
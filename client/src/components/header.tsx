@@ -35,6 +35,9 @@ export default function Header() {
                 Safety Guide
               </button>
             </SafetyGuideModal>
+            <Link href="/instructor" className="text-gray-600 hover:text-gray-900 transition-colors">
+              Instructor
+            </Link>
             <SignInModal>
               <Button className="bg-blue-600 text-white hover:bg-blue-700">
                 Sign In
@@ -68,6 +71,9 @@ export default function Header() {
                   Safety Guide
                 </button>
               </SafetyGuideModal>
+              <Link href="/instructor" className="text-gray-600 hover:text-gray-900 px-4 py-2">
+                Instructor
+              </Link>
               <div className="px-4">
                 <SignInModal>
                   <Button className="w-full bg-blue-600 text-white hover:bg-blue-700">
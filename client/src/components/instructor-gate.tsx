@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { KeyRound, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useInstructorAccess } from "@/hooks/use-experiments";
+import { errorMessage } from "@/lib/queryClient";
+import { getInstructorKey, setInstructorKey } from "@/lib/utils";
+
+interface InstructorGateProps {
+  children: React.ReactNode;
+}
+
+// Shows its children once the server has accepted an instructor key, and
+// asks for one until then
+export default function InstructorGate({ children }: InstructorGateProps) {
+  const [key, setKey] = useState(getInstructorKey);
+  const [entered, setEntered] = useState("");
+  const access = useInstructorAccess(key);
+
+  useEffect(() => {
+    if (access.isSuccess) setInstructorKey(key);
+    if (access.isError) setInstructorKey(null);
+  }, [access.isSuccess, access.isError, key]);
+
+  if (key && access.isSuccess) return <>{children}</>;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setKey(entered.trim() || null);
+  };
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5 text-blue-600" />
+            Instructor Access
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Creating and editing experiments is limited to instructors. Enter
+              the instructor key for this server to continue.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="instructor-key">Instructor key</Label>
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  id="instructor-key"
+                  type="password"
+                  value={entered}
+                  onChange={(e) => setEntered(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            {access.isError && (
+              <p className="text-sm text-red-600">
+                {errorMessage(access.error)}
+              </p>
+            )}
+            <Button
+              type="submit"
+              className="w-full bg-blue-600 text-white hover:bg-blue-700"
+              disabled={!entered.trim() || access.isFetching}
+            >
+              {access.isFetching ? "Checking..." : "Continue"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
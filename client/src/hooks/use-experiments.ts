@@ -1,6 +1,9 @@
+import { useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { Experiment, UserProgress } from "@shared/schema";
+import { getInstructorKey } from "@/lib/utils";
+import type { Experiment, ExperimentRecord, GradedUnknownSample, UnknownSampleView, UserProgress } from "@shared/schema";
+import type { TitrantSpec, TitrationPoint } from "@shared/chemistry/titration";
 
 // Generate a simple session-based user ID
 const getUserId = () => {
@@ -25,6 +28,58 @@ export function useExperiment(id: number) {
   });
 }
 
+const instructorHeaders = (key = getInstructorKey()) => ({ 'X-Instructor-Key': key ?? '' });
+
+// Whether the server accepts this instructor key
+export function useInstructorAccess(key: string | null) {
+  return useQuery<{ instructor: boolean }>({
+    queryKey: ['/api/instructor', key],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/instructor', undefined, instructorHeaders(key));
+      return response.json();
+    },
+    enabled: !!key,
+  });
+}
+
+// Publish a new experiment, or an edited one when it has an id
+export function useSaveExperiment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, record }: { id?: number; record: ExperimentRecord }) => {
+      const response = await apiRequest(
+        id ? 'PUT' : 'POST',
+        id ? `/api/experiments/${id}` : '/api/experiments',
+        record,
+        instructorHeaders(),
+      );
+      return response.json() as Promise<Experiment>;
+    },
+    onSuccess: (experiment) => {
+      queryClient.setQueryData([`/api/experiments/${experiment.id}`], experiment);
+      queryClient.invalidateQueries({ queryKey: ['/api/experiments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+    },
+  });
+}
+
+export function useDeleteExperiment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/experiments/${id}`, undefined, instructorHeaders());
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.removeQueries({ queryKey: [`/api/experiments/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/experiments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+    },
+  });
+}
+
 export function useUserProgress(experimentId?: number) {
   const userId = getUserId();
   
@@ -67,6 +122,79 @@ export function useUpdateProgress() {
   });
 }
 
+export function useUnknownSample(experimentId?: number) {
+  const userId = getUserId();
+
+  return useQuery<UnknownSampleView | null>({
+    queryKey: [`/api/unknown-samples/${userId}/${experimentId}`],
+    enabled: !!experimentId && !!userId,
+  });
+}
+
+// Start the next attempt with a freshly generated unknown sample
+export function useNewUnknownSample() {
+  const queryClient = useQueryClient();
+  const userId = getUserId();
+
+  return useMutation({
+    mutationFn: async (experimentId: number) => {
+      const response = await apiRequest('POST', '/api/unknown-samples', {
+        userId,
+        experimentId,
+      });
+      return response.json() as Promise<UnknownSampleView>;
+    },
+    onSuccess: (sample) => {
+      queryClient.setQueryData([`/api/unknown-samples/${userId}/${sample.experimentId}`], sample);
+    },
+  });
+}
+
+export function useSubmitUnknownSample() {
+  const queryClient = useQueryClient();
+  const userId = getUserId();
+
+  return useMutation({
+    mutationFn: async ({ sampleId, concentration }: { sampleId: number; concentration: number }) => {
+      const response = await apiRequest('POST', `/api/unknown-samples/${sampleId}/submit`, {
+        userId,
+        concentration,
+      });
+      return response.json() as Promise<GradedUnknownSample>;
+    },
+    onSuccess: (graded) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/unknown-samples/${userId}/${graded.experimentId}`] });
+    },
+  });
+}
+
+// Reads the pH meter in the student's aliquot of the sample after a given
+// volume of titrant, one delivered volume at a time; null until the sample,
+// titrant and aliquot are all known
+export function useUnknownSampleReader(sampleId?: number, titrant?: TitrantSpec, aliquotVolume?: number) {
+  const queryClient = useQueryClient();
+  const userId = getUserId();
+  const { id: titrantId, concentration, carbonate } = titrant ?? {};
+
+  return useMemo(() => {
+    if (!sampleId || !titrantId || !concentration || !aliquotVolume) return null;
+    return async (volume: number) => {
+      const params = new URLSearchParams({
+        userId,
+        titrant: titrantId,
+        concentration,
+        aliquot: aliquotVolume.toString(),
+        volume: volume.toFixed(2),
+        ...(carbonate ? { carbonate: carbonate.toString() } : {}),
+      });
+      const reading = await queryClient.fetchQuery<TitrationPoint>({
+        queryKey: [`/api/unknown-samples/${sampleId}/reading?${params}`],
+      });
+      return reading.pH;
+    };
+  }, [queryClient, userId, sampleId, titrantId, concentration, carbonate, aliquotVolume]);
+}
+
 export function useStats() {
   return useQuery<{
     experiments: number;
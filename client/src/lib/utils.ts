@@ -13,3 +13,17 @@ export function getUserId(): string {
   }
   return userId;
 }
+
+// Key for the experiment authoring endpoints, remembered once an
+// instructor has entered one that the server accepts
+export function getInstructorKey(): string | null {
+  return localStorage.getItem('chemlab_instructor_key');
+}
+
+export function setInstructorKey(key: string | null) {
+  if (key) {
+    localStorage.setItem('chemlab_instructor_key', key);
+  } else {
+    localStorage.removeItem('chemlab_instructor_key');
+  }
+}
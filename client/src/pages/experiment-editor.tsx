@@ -0,0 +1,354 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle,
+  RotateCcw,
+  Upload,
+} from "lucide-react";
+import Header from "@/components/header";
+import InstructorGate from "@/components/instructor-gate";
+import {
+  DetailsSection,
+  EquipmentSection,
+  LabSection,
+  ReagentsSection,
+  SafetySection,
+  StepsSection,
+  type FieldErrors,
+} from "@/components/experiment-form";
+import VirtualLabApp from "@/components/VirtualLab/VirtualLabApp";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useExperiment, useSaveExperiment } from "@/hooks/use-experiments";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/queryClient";
+import {
+  experimentRecordSchema,
+  toExperimentRecord,
+  type ExperimentRecord,
+} from "@shared/schema";
+
+const blankExperiment: ExperimentRecord = {
+  title: "",
+  description: "",
+  category: "",
+  difficulty: "Beginner",
+  duration: 30,
+  steps: 1,
+  rating: 0,
+  imageUrl: "",
+  equipment: [],
+  stepDetails: [
+    {
+      id: 1,
+      title: "",
+      description: "",
+      duration: "5 minutes",
+      completed: false,
+    },
+  ],
+  safetyInfo: "",
+  lab: {
+    kind: "titration",
+    reagents: [],
+    equipment: [],
+    panels: [],
+    formulas: { compounds: [], reactions: [] },
+  },
+};
+
+// Names a list entry by its position the way the form shows it, e.g.
+// "stepDetails.2.triggers.0.container" reads "Step 3 › Trigger 1 › container"
+const entryNames: Record<string, string> = {
+  stepDetails: "Step",
+  triggers: "Trigger",
+  reagents: "Reagent",
+  equipment: "Equipment",
+  steps: "Guide step",
+  compounds: "Compound",
+  reactions: "Reaction",
+};
+
+const describePath = (path: (string | number)[]) => {
+  const parts: string[] = [];
+  path.forEach((segment, i) => {
+    const next = path[i + 1];
+    if (typeof segment === "number") return;
+    if (typeof next === "number" && entryNames[segment]) {
+      parts.push(`${entryNames[segment]} ${next + 1}`);
+    } else if (segment !== "lab" || path.length === 1) {
+      parts.push(segment);
+    }
+  });
+  return parts.join(" › ") || "Experiment";
+};
+
+interface PreviewProps {
+  record: ExperimentRecord;
+}
+
+// Runs the draft in the virtual lab without recording any progress
+function Preview({ record }: PreviewProps) {
+  const [currentStep, setCurrentStep] = useState(0);
+  const [restarts, setRestarts] = useState(0);
+
+  const restart = () => {
+    setCurrentStep(0);
+    setRestarts((count) => count + 1);
+  };
+
+  return (
+    <Card className="min-h-[80vh]">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="text-2xl">{record.title} - Preview</span>
+          <div className="flex items-center space-x-4">
+            <span className="text-sm text-gray-600">
+              Step {currentStep + 1} / {record.stepDetails.length}
+            </span>
+            <Button variant="outline" size="sm" onClick={restart}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Restart
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <VirtualLabApp
+          key={restarts}
+          step={record.stepDetails[currentStep]}
+          onStepComplete={() =>
+            setCurrentStep((step) =>
+              Math.min(step + 1, record.stepDetails.length - 1),
+            )
+          }
+          onProgressReset={() => setCurrentStep(0)}
+          isActive={true}
+          stepNumber={currentStep + 1}
+          totalSteps={record.stepDetails.length}
+          experimentTitle={record.title}
+          allSteps={record.stepDetails}
+          lab={record.lab}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+function ExperimentEditor() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  // Anything but "new" or a valid id shows as not found
+  const experimentId = id === "new" ? 0 : parseInt(id || "") || -1;
+  const { data: experiment, isLoading, error } = useExperiment(experimentId);
+  const saveExperiment = useSaveExperiment();
+  const { toast } = useToast();
+
+  const [draft, setDraft] = useState<ExperimentRecord>(blankExperiment);
+  const [loadedId, setLoadedId] = useState(0);
+
+  // Start from the published experiment once, so that saving it does not
+  // throw away edits made since
+  useEffect(() => {
+    if (experiment && experiment.id !== loadedId) {
+      setDraft(toExperimentRecord(experiment));
+      setLoadedId(experiment.id);
+    }
+  }, [experiment, loadedId]);
+
+  const validation = useMemo(
+    () => experimentRecordSchema.safeParse(draft),
+    [draft],
+  );
+  const issues = validation.success ? [] : validation.error.issues;
+  const errors = useMemo(() => {
+    const byPath: FieldErrors = {};
+    issues.forEach((issue) => {
+      byPath[issue.path.join(".")] ??= issue.message;
+    });
+    return byPath;
+  }, [issues]);
+
+  const update = (patch: Partial<ExperimentRecord>) =>
+    setDraft((current) => ({ ...current, ...patch }));
+  const updateLab = (patch: Partial<ExperimentRecord["lab"]>) =>
+    setDraft((current) => ({ ...current, lab: { ...current.lab, ...patch } }));
+
+  const handlePublish = () => {
+    if (!validation.success) return;
+    saveExperiment.mutate(
+      { id: experimentId || undefined, record: validation.data },
+      {
+        onSuccess: (saved) => {
+          toast({
+            title: experimentId ? "Experiment updated" : "Experiment published",
+            description: `${saved.title} is available to students.`,
+          });
+          if (!experimentId) navigate(`/instructor/experiments/${saved.id}`);
+        },
+        onError: (error) =>
+          toast({
+            title: "Could not publish the experiment",
+            description: errorMessage(error),
+            variant: "destructive",
+          }),
+      },
+    );
+  };
+
+  if (experimentId && isLoading) {
+    return (
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Skeleton className="h-8 w-64 mb-6" />
+        <Skeleton className="h-96 w-full rounded-lg" />
+      </div>
+    );
+  }
+
+  if (experimentId && (error || !experiment)) {
+    return (
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">
+          Experiment Not Found
+        </h2>
+        <p className="text-gray-600 mb-6">
+          The requested experiment (ID: {id}) could not be found.
+        </p>
+        <Link href="/instructor">
+          <Button className="bg-blue-600 hover:bg-blue-700 text-white">
+            Back to Experiments
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center mb-6">
+        <Link
+          href="/instructor"
+          className="text-blue-600 hover:text-blue-700 flex items-center"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Experiments
+        </Link>
+      </div>
+
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">
+          {experimentId ? `Edit ${experiment?.title}` : "New Experiment"}
+        </h1>
+        <Button
+          onClick={handlePublish}
+          disabled={!validation.success || saveExperiment.isPending}
+          className="bg-blue-600 text-white hover:bg-blue-700"
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {saveExperiment.isPending ? "Publishing..." : "Publish"}
+        </Button>
+      </div>
+
+      {validation.success ? (
+        <div className="flex items-center text-sm text-green-700 mb-6">
+          <CheckCircle className="h-4 w-4 mr-2" />
+          Ready to publish
+        </div>
+      ) : (
+        <Card className="mb-6 border-amber-300 bg-amber-50">
+          <CardContent className="p-4">
+            <div className="flex items-center font-medium text-amber-800 mb-2">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              {issues.length === 1
+                ? "1 problem to fix before publishing"
+                : `${issues.length} problems to fix before publishing`}
+            </div>
+            <ul className="text-sm text-amber-900 space-y-1">
+              {issues.map((issue, i) => (
+                <li key={i}>
+                  <span className="font-medium">
+                    {describePath(issue.path)}:
+                  </span>{" "}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <Tabs defaultValue="details">
+        <TabsList className="mb-4">
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="steps">Steps</TabsTrigger>
+          <TabsTrigger value="reagents">Reagents</TabsTrigger>
+          <TabsTrigger value="equipment">Equipment</TabsTrigger>
+          <TabsTrigger value="lab">Lab</TabsTrigger>
+          <TabsTrigger value="safety">Safety</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+        <TabsContent value="details">
+          <DetailsSection draft={draft} onChange={update} errors={errors} />
+        </TabsContent>
+        <TabsContent value="steps">
+          <StepsSection
+            steps={draft.stepDetails}
+            onChange={(stepDetails) =>
+              update({ stepDetails, steps: stepDetails.length })
+            }
+            errors={errors}
+          />
+        </TabsContent>
+        <TabsContent value="reagents">
+          <ReagentsSection
+            reagents={draft.lab.reagents}
+            onChange={(reagents) => updateLab({ reagents })}
+            errors={errors}
+          />
+        </TabsContent>
+        <TabsContent value="equipment">
+          <EquipmentSection
+            equipment={draft.lab.equipment}
+            onChange={(equipment) => updateLab({ equipment })}
+            errors={errors}
+          />
+        </TabsContent>
+        <TabsContent value="lab">
+          <LabSection lab={draft.lab} onChange={updateLab} errors={errors} />
+        </TabsContent>
+        <TabsContent value="safety">
+          <SafetySection
+            safetyInfo={draft.safetyInfo}
+            onChange={(safetyInfo) => update({ safetyInfo })}
+            errors={errors}
+          />
+        </TabsContent>
+        <TabsContent value="preview">
+          {validation.success ? (
+            <Preview record={validation.data} />
+          ) : (
+            <p className="text-gray-600">
+              Fix the problems above to preview the experiment in the virtual
+              lab.
+            </p>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+export default function ExperimentEditorPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <InstructorGate>
+        <ExperimentEditor />
+      </InstructorGate>
+    </div>
+  );
+}
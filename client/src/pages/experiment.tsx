@@ -25,6 +25,7 @@ import {
 } from "lucide-react";
 import { Link } from "wouter";
 import type { ExperimentStep } from "@shared/schema";
+import { tracksSteps } from "@shared/steps";
 
 export default function Experiment() {
   const { id } = useParams<{ id: string }>();
@@ -80,9 +81,9 @@ export default function Experiment() {
   };
 
   const handleCompleteStep = () => {
-    // For Acid-Base Titration, progress is updated through markStepCompleted in VirtualLabApp
-    // For other experiments, keep the current progress update logic
-    if (!experiment?.title.includes("Acid-Base")) {
+    // Labs that complete their own steps update progress from
+    // VirtualLabApp; the others advance step by step from here
+    if (!experiment || !tracksSteps(experiment.stepDetails)) {
       updateProgressMutation.mutate({
         experimentId: experimentId,
         currentStep: Math.min(
@@ -117,7 +118,7 @@ export default function Experiment() {
     progressPercentage: number,
     completedSteps: number,
   ) => {
-    // Update progress for Acid-Base Titration when steps are completed
+    // Update progress as the lab completes its steps
     updateProgressMutation.mutate({
       experimentId: experimentId,
       currentStep: completedSteps,
@@ -249,7 +250,7 @@ export default function Experiment() {
                       <ArrowLeft className="h-4 w-4" />
                     </Button>
                     <span className="text-sm text-gray-600 px-2">
-                      {experiment.title.includes("Acid-Base")
+                      {tracksSteps(experiment.stepDetails)
                         ? `${completedStepsCount} / ${experiment.stepDetails.length}`
                         : `${currentStep + 1} / ${experiment.stepDetails.length}`}
                     </span>
@@ -279,10 +280,12 @@ export default function Experiment() {
                 totalSteps={experiment.stepDetails.length}
                 experimentTitle={experiment.title}
                 allSteps={experiment.stepDetails}
+                lab={experiment.lab}
                 onTimerStart={() => setIsRunning(true)}
                 onTimerStop={() => setIsRunning(false)}
                 onTimerReset={resetTimer}
                 onProgressReset={handleProgressReset}
+                experimentId={experimentId}
               />
             </CardContent>
           </Card>
@@ -23,6 +23,9 @@ export default function Home() {
     "Organic Chemistry",
     "Inorganic Chemistry",
     "Acid-Base",
+    "Redox",
+    "Complexometric",
+    "Precipitation",
     "Equilibrium",
     "Synthesis",
     "Beginner"
@@ -0,0 +1,154 @@
+import { Link } from "wouter";
+import { FlaskConical, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import Header from "@/components/header";
+import InstructorGate from "@/components/instructor-gate";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useDeleteExperiment, useExperiments } from "@/hooks/use-experiments";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/queryClient";
+import type { Experiment } from "@shared/schema";
+
+function ExperimentList() {
+  const { data: experiments, isLoading } = useExperiments();
+  const deleteExperiment = useDeleteExperiment();
+  const { toast } = useToast();
+
+  const handleDelete = (experiment: Experiment) => {
+    deleteExperiment.mutate(experiment.id, {
+      onSuccess: () =>
+        toast({
+          title: "Experiment deleted",
+          description: `${experiment.title} is no longer available to students.`,
+        }),
+      onError: (error) =>
+        toast({
+          title: "Could not delete the experiment",
+          description: errorMessage(error),
+          variant: "destructive",
+        }),
+    });
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Experiments</h1>
+          <p className="text-gray-600">
+            Create, edit and preview the experiments students can run.
+          </p>
+        </div>
+        <Link href="/instructor/experiments/new">
+          <Button className="bg-blue-600 text-white hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            New Experiment
+          </Button>
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[0, 1, 2].map((i) => (
+            <Skeleton key={i} className="h-24 w-full rounded-lg" />
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {experiments?.map((experiment) => (
+            <Card key={experiment.id}>
+              <CardContent className="p-4 flex items-center justify-between">
+                <div className="flex items-center space-x-4">
+                  <FlaskConical className="h-8 w-8 text-blue-600" />
+                  <div>
+                    <h2 className="font-semibold text-gray-900">
+                      {experiment.title}
+                    </h2>
+                    <div className="flex items-center space-x-2 mt-1">
+                      <Badge variant="secondary">{experiment.category}</Badge>
+                      <Badge variant="outline">{experiment.difficulty}</Badge>
+                      <span className="text-sm text-gray-500">
+                        {experiment.stepDetails.length} steps ·{" "}
+                        {experiment.lab.reagents.length} reagents
+                      </span>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Link href={`/experiment/${experiment.id}`}>
+                    <Button variant="outline" size="sm">
+                      <Play className="h-4 w-4 mr-1" />
+                      Open
+                    </Button>
+                  </Link>
+                  <Link href={`/instructor/experiments/${experiment.id}`}>
+                    <Button variant="outline" size="sm">
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                  </Link>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>
+                          Delete {experiment.title}?
+                        </AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Students will no longer be able to open this
+                          experiment. This cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleDelete(experiment)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Instructor() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <InstructorGate>
+        <ExperimentList />
+      </InstructorGate>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { timingSafeEqual } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+// Experiment authoring is open to whoever holds the instructor key set in
+// the INSTRUCTOR_KEY environment variable, sent as X-Instructor-Key. With
+// no key configured the write endpoints stay closed.
+export function requireInstructor(req: Request, res: Response, next: NextFunction) {
+  const key = process.env.INSTRUCTOR_KEY;
+  if (!key) {
+    return res.status(403).json({ message: "Experiment authoring is not enabled on this server" });
+  }
+
+  const given = Buffer.from(req.get("X-Instructor-Key") ?? "");
+  const expected = Buffer.from(key);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return res.status(401).json({ message: "A valid instructor key is required" });
+  }
+
+  next();
+}
@@ -1,7 +1,10 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserProgressSchema } from "@shared/schema";
+import { experimentRecordSchema, fromExperimentRecord, insertUserProgressSchema, requestUnknownSampleSchema, submitUnknownSampleSchema } from "@shared/schema";
+import { parseMolarity } from "@shared/chemistry/species";
+import { generateUnknownSample, gradeUnknownSample, hasUnknownSample, sampleReading, toSampleView } from "./unknowns";
+import { requireInstructor } from "./instructors";
 import { z } from "zod";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -34,6 +37,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Check an instructor key before opening the experiment editor
+  app.get("/api/instructor", requireInstructor, (req, res) => {
+    res.json({ instructor: true });
+  });
+
+  // Publish a new experiment, given as a record of data/experiments.json
+  app.post("/api/experiments", requireInstructor, async (req, res) => {
+    try {
+      const record = experimentRecordSchema.parse(req.body);
+      const experiment = await storage.createExperiment(fromExperimentRecord(record));
+      res.status(201).json(experiment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid experiment", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create experiment" });
+    }
+  });
+
+  // Replace an experiment with an edited record
+  app.put("/api/experiments/:id", requireInstructor, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid experiment ID" });
+      }
+
+      const record = experimentRecordSchema.parse(req.body);
+      const experiment = await storage.updateExperiment(id, fromExperimentRecord(record));
+      if (!experiment) {
+        return res.status(404).json({ message: "Experiment not found" });
+      }
+
+      res.json(experiment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid experiment", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update experiment" });
+    }
+  });
+
+  app.delete("/api/experiments/:id", requireInstructor, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid experiment ID" });
+      }
+
+      if (!(await storage.deleteExperiment(id))) {
+        return res.status(404).json({ message: "Experiment not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete experiment" });
+    }
+  });
+
+  // Compound database: formulas, physical data, acid-base constants and hazards
+  app.get("/api/chemicals", async (req, res) => {
+    try {
+      const chemicals = await storage.getAllChemicals();
+      res.json(chemicals);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chemicals" });
+    }
+  });
+
+  // Get a single compound
+  app.get("/api/chemicals/:id", async (req, res) => {
+    try {
+      const chemical = await storage.getChemical(req.params.id);
+      if (!chemical) {
+        return res.status(404).json({ message: "Chemical not found" });
+      }
+
+      res.json(chemical);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chemical" });
+    }
+  });
+
   // Get user progress for all experiments
   app.get("/api/progress/:userId", async (req, res) => {
     try {
@@ -76,6 +162,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Issue a new unknown sample (the next attempt) for a user and experiment
+  app.post("/api/unknown-samples", async (req, res) => {
+    try {
+      const { userId, experimentId } = requestUnknownSampleSchema.parse(req.body);
+      const experiment = await storage.getExperiment(experimentId);
+      if (!experiment) {
+        return res.status(404).json({ message: "Experiment not found" });
+      }
+      if (!hasUnknownSample(experiment.title)) {
+        return res.status(400).json({ message: "Experiment has no unknown samples" });
+      }
+
+      const attempts = await storage.getUnknownSamples(userId, experimentId);
+      const sample = await storage.createUnknownSample(
+        generateUnknownSample(experiment.title, userId, experimentId, attempts.length + 1),
+      );
+      res.json(toSampleView(sample));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sample request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to issue unknown sample" });
+    }
+  });
+
+  // pH meter reading of a sample after the student's titrant has run into
+  // their aliquot up to the given volume
+  app.get("/api/unknown-samples/:id/reading", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = String(req.query.userId ?? "");
+      const titrant = String(req.query.titrant ?? "");
+      const concentration = String(req.query.concentration ?? "");
+      const aliquot = parseFloat(String(req.query.aliquot ?? ""));
+      const volume = parseFloat(String(req.query.volume ?? ""));
+      // Fraction of a hydroxide titrant turned to carbonate on the bench
+      const carbonate = parseFloat(String(req.query.carbonate ?? "0"));
+      if (isNaN(id) || !userId || !titrant || parseMolarity(concentration) === null || !(aliquot > 0) || !(volume >= 0 && volume <= 100) || !(carbonate >= 0 && carbonate <= 1)) {
+        return res.status(400).json({ message: "Invalid reading request" });
+      }
+
+      // Samples are only read by the student they were issued to
+      const sample = await storage.getUnknownSample(id);
+      if (!sample || sample.userId !== userId) {
+        return res.status(404).json({ message: "Unknown sample not found" });
+      }
+
+      res.json(sampleReading(sample, { id: titrant, concentration, carbonate }, aliquot, Math.round(volume * 100) / 100));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to compute sample reading" });
+    }
+  });
+
+  // Latest sample for a user and experiment, without its answer key
+  app.get("/api/unknown-samples/:userId/:experimentId", async (req, res) => {
+    try {
+      const userId = req.params.userId;
+      const experimentId = parseInt(req.params.experimentId);
+
+      if (isNaN(experimentId)) {
+        return res.status(400).json({ message: "Invalid experiment ID" });
+      }
+
+      const attempts = await storage.getUnknownSamples(userId, experimentId);
+      const latest = attempts[attempts.length - 1];
+      res.json(latest ? toSampleView(latest) : null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch unknown sample" });
+    }
+  });
+
+  // Submit the student's result; the answer is revealed in the response
+  app.post("/api/unknown-samples/:id/submit", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid sample ID" });
+      }
+
+      const { userId, concentration } = submitUnknownSampleSchema.parse(req.body);
+      const sample = await storage.getUnknownSample(id);
+      if (!sample || sample.userId !== userId) {
+        return res.status(404).json({ message: "Unknown sample not found" });
+      }
+      if (sample.submittedAt) {
+        return res.status(409).json({ message: "A result was already submitted for this attempt" });
+      }
+
+      const submitted = await storage.submitUnknownSample(id, concentration);
+      res.json(gradeUnknownSample(submitted!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid result", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to submit result" });
+    }
+  });
+
   // Get platform stats
   app.get("/api/stats", async (req, res) => {
     try {
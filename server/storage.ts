@@ -1,4 +1,5 @@
-import { users, experiments, userProgress, type User, type InsertUser, type Experiment, type InsertExperiment, type UserProgress, type InsertUserProgress, type ExperimentStep } from "@shared/schema";
+import { users, experiments, userProgress, type User, type InsertUser, type Experiment, type InsertExperiment, type UserProgress, type InsertUserProgress, type ExperimentStep, type LabDefinition, type UnknownSample, type InsertUnknownSample, experimentRecordSchema, storedExperimentIdSchema, fromExperimentRecord, toExperimentRecord } from "@shared/schema";
+import { compounds, findCompound, type Compound } from "@shared/chemistry/compounds";
 import fs from 'fs';
 import path from 'path';
 
@@ -10,28 +11,52 @@ export interface IStorage {
   getAllExperiments(): Promise<Experiment[]>;
   getExperiment(id: number): Promise<Experiment | undefined>;
   createExperiment(experiment: InsertExperiment): Promise<Experiment>;
+  updateExperiment(id: number, experiment: InsertExperiment): Promise<Experiment | undefined>;
+  deleteExperiment(id: number): Promise<boolean>;
   
   getUserProgress(userId: string, experimentId: number): Promise<UserProgress | undefined>;
   getAllUserProgress(userId: string): Promise<UserProgress[]>;
   updateUserProgress(progress: InsertUserProgress): Promise<UserProgress>;
   createUserProgress(progress: InsertUserProgress): Promise<UserProgress>;
+
+  getUnknownSample(id: number): Promise<UnknownSample | undefined>;
+  getUnknownSamples(userId: string, experimentId: number): Promise<UnknownSample[]>;
+  createUnknownSample(sample: InsertUnknownSample): Promise<UnknownSample>;
+  submitUnknownSample(id: number, concentration: number): Promise<UnknownSample | undefined>;
+
+  getAllChemicals(): Promise<Compound[]>;
+  getChemical(id: string): Promise<Compound | undefined>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private experiments: Map<number, Experiment>;
   private userProgress: Map<string, UserProgress>;
+  private unknownSamples: Map<number, UnknownSample>;
   private currentUserId: number;
   private currentExperimentId: number;
   private currentProgressId: number;
+  private currentUnknownSampleId: number;
+  // Records that failed validation, kept as read so saving leaves them be
+  private skippedRecords: unknown[];
+  // Where published experiments are saved; unset when the file could not
+  // be read, so that it is never overwritten
+  private experimentsPath: string | null;
+  // Saves run one after another so an older write never lands last
+  private saving: Promise<void>;
 
   constructor() {
     this.users = new Map();
     this.experiments = new Map();
     this.userProgress = new Map();
+    this.unknownSamples = new Map();
     this.currentUserId = 1;
     this.currentExperimentId = 1;
     this.currentProgressId = 1;
+    this.currentUnknownSampleId = 1;
+    this.skippedRecords = [];
+    this.experimentsPath = null;
+    this.saving = Promise.resolve();
     
     this.initializeExperiments();
   }
@@ -41,25 +66,29 @@ export class MemStorage implements IStorage {
       const experimentsPath = path.resolve(process.cwd(), 'data', 'experiments.json');
       const experimentsData = JSON.parse(fs.readFileSync(experimentsPath, 'utf-8'));
       
-      experimentsData.forEach((exp: any, index: number) => {
-        const experiment: Experiment = {
-          id: index + 1, // Use 1-based indexing for consistent IDs
-          title: exp.title,
-          description: exp.description,
-          category: exp.category,
-          difficulty: exp.difficulty,
-          duration: exp.duration,
-          steps: exp.steps,
-          rating: Math.round(exp.rating * 10), // Convert to integer
-          imageUrl: exp.imageUrl,
-          equipment: exp.equipment,
-          stepDetails: exp.stepDetails,
-          safetyInfo: exp.safetyInfo,
-        };
-        this.experiments.set(experiment.id, experiment);
+      experimentsData.forEach((record: unknown, index: number) => {
+        // Every record must carry its own id and describe a lab the client
+        // can render
+        const stored = storedExperimentIdSchema.safeParse(record);
+        const parsed = experimentRecordSchema.safeParse(record);
+        if (!stored.success || !parsed.success) {
+          console.error(`Skipping invalid experiment at position ${index + 1}:`, [...(stored.error?.issues ?? []), ...(parsed.error?.issues ?? [])]);
+          this.skippedRecords.push(record);
+          return;
+        }
+        const { id } = stored.data;
+        this.currentExperimentId = Math.max(this.currentExperimentId, id + 1);
+        if (this.experiments.has(id)) {
+          console.error(`Skipping experiment at position ${index + 1}: id ${id} is already taken`);
+          this.skippedRecords.push(record);
+          return;
+        }
+        const experiment = this.toExperiment(id, fromExperimentRecord(parsed.data));
+        this.experiments.set(id, experiment);
         console.log(`Loaded experiment ${experiment.id}: ${experiment.title}`);
       });
       console.log(`Total experiments loaded: ${this.experiments.size}`);
+      this.experimentsPath = experimentsPath;
     } catch (error) {
       console.error('Failed to load experiments data:', error);
       // Fallback to empty experiments if file doesn't exist
@@ -91,16 +120,70 @@ export class MemStorage implements IStorage {
     return this.experiments.get(id);
   }
 
-  async createExperiment(insertExperiment: InsertExperiment): Promise<Experiment> {
-    const id = this.currentExperimentId++;
-    const experiment: Experiment = { 
+  private toExperiment(id: number, insertExperiment: InsertExperiment): Experiment {
+    return { 
       ...insertExperiment, 
       id,
       equipment: insertExperiment.equipment as string[],
-      stepDetails: insertExperiment.stepDetails as ExperimentStep[]
+      stepDetails: insertExperiment.stepDetails as ExperimentStep[],
+      lab: insertExperiment.lab as LabDefinition
+    };
+  }
+
+  // Make a change to the experiments and write them back to the data file
+  // in id order, each with its id, so published changes survive a restart.
+  // The change is made to a copy that only replaces the experiments in
+  // memory once it is saved, so a failed save leaves both as they were. The
+  // file is replaced in one rename, so a crash mid-write leaves the previous
+  // catalogue in place.
+  private saveExperiments<T>(change: (experiments: Map<number, Experiment>) => T): Promise<T> {
+    const save = async () => {
+      const next = new Map(this.experiments);
+      const result = change(next);
+      const experimentsPath = this.experimentsPath;
+      if (experimentsPath) {
+        const records: unknown[] = Array.from(next.values())
+          .sort((a, b) => a.id - b.id)
+          .map((experiment) => ({ id: experiment.id, ...toExperimentRecord(experiment) }));
+        const tempPath = `${experimentsPath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(records.concat(this.skippedRecords), null, 2) + '\n');
+        await fs.promises.rename(tempPath, experimentsPath);
+      }
+      this.experiments = next;
+      return result;
     };
-    this.experiments.set(id, experiment);
-    return experiment;
+    // Each change starts from the one saved before it. A failed save is
+    // reported to its caller but does not block later ones.
+    const saved = this.saving.then(save);
+    this.saving = saved.then(() => {}, () => {});
+    return saved;
+  }
+
+  async createExperiment(insertExperiment: InsertExperiment): Promise<Experiment> {
+    return this.saveExperiments((experiments) => {
+      const id = this.currentExperimentId++;
+      const experiment = this.toExperiment(id, insertExperiment);
+      experiments.set(id, experiment);
+      return experiment;
+    });
+  }
+
+  async updateExperiment(id: number, insertExperiment: InsertExperiment): Promise<Experiment | undefined> {
+    if (!this.experiments.has(id)) return undefined;
+
+    return this.saveExperiments((experiments) => {
+      // Deleted while waiting for an earlier save
+      if (!experiments.has(id)) return undefined;
+      const experiment = this.toExperiment(id, insertExperiment);
+      experiments.set(id, experiment);
+      return experiment;
+    });
+  }
+
+  async deleteExperiment(id: number): Promise<boolean> {
+    if (!this.experiments.has(id)) return false;
+
+    return this.saveExperiments((experiments) => experiments.delete(id));
   }
 
   async getUserProgress(userId: string, experimentId: number): Promise<UserProgress | undefined> {
@@ -146,6 +229,51 @@ export class MemStorage implements IStorage {
     this.userProgress.set(key, progress);
     return progress;
   }
+
+  async getUnknownSample(id: number): Promise<UnknownSample | undefined> {
+    return this.unknownSamples.get(id);
+  }
+
+  async getUnknownSamples(userId: string, experimentId: number): Promise<UnknownSample[]> {
+    return Array.from(this.unknownSamples.values())
+      .filter((sample) => sample.userId === userId && sample.experimentId === experimentId)
+      .sort((a, b) => a.attempt - b.attempt);
+  }
+
+  async createUnknownSample(insertSample: InsertUnknownSample): Promise<UnknownSample> {
+    const id = this.currentUnknownSampleId++;
+    const sample: UnknownSample = {
+      ...insertSample,
+      id,
+      submittedConcentration: null,
+      submittedAt: null,
+      createdAt: new Date(),
+    };
+    this.unknownSamples.set(id, sample);
+    return sample;
+  }
+
+  async submitUnknownSample(id: number, concentration: number): Promise<UnknownSample | undefined> {
+    const existing = this.unknownSamples.get(id);
+    if (!existing) return undefined;
+
+    const submitted: UnknownSample = {
+      ...existing,
+      submittedConcentration: concentration,
+      submittedAt: new Date(),
+    };
+    this.unknownSamples.set(id, submitted);
+    return submitted;
+  }
+
+  // The compound database is reference data shared with the lab definitions
+  async getAllChemicals(): Promise<Compound[]> {
+    return Object.values(compounds);
+  }
+
+  async getChemical(id: string): Promise<Compound | undefined> {
+    return findCompound(id);
+  }
 }
 
 export const storage = new MemStorage();
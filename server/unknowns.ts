@@ -0,0 +1,75 @@
+import { randomInt } from "crypto";
+import type { GradedUnknownSample, InsertUnknownSample, UnknownSample, UnknownSampleView } from "@shared/schema";
+import { solveContainer } from "@shared/chemistry/equilibrium";
+import { mixTitrant, type TitrantSpec, type TitrationPoint } from "@shared/chemistry/titration";
+
+// Unknown samples handed out per experiment: the reagent each sample is made
+// of and the range its concentration is drawn from (mol/L)
+const unknownAnalytes: Record<string, { analyteId: string; min: number; max: number }> = {
+  "Acid-Base Titration": { analyteId: "hcl_unknown", min: 0.08, max: 0.12 },
+};
+
+// Submitted results within this relative error (%) are accepted
+const ACCEPTED_ERROR = 1.0;
+
+// Readings are given to the pH meter's resolution, with noise up to this
+// much either side that stays the same for a given volume, so that
+// repeating a reading does not average it away
+const READING_NOISE = 0.02;
+
+export function hasUnknownSample(experimentTitle: string): boolean {
+  return experimentTitle in unknownAnalytes;
+}
+
+// mulberry32: a small, fast PRNG that is plenty for reading noise
+function seededRandom(seed: number): number {
+  let t = (seed + 0x6d2b79f5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function generateUnknownSample(
+  experimentTitle: string,
+  userId: string,
+  experimentId: number,
+  attempt: number,
+): InsertUnknownSample {
+  const { analyteId, min, max } = unknownAnalytes[experimentTitle];
+  // Drawn from the system's secure generator and kept in the sample, so
+  // nothing the client knows can reproduce it
+  const concentration = Math.round((min + ((max - min) * randomInt(2 ** 32)) / 2 ** 32) * 10000) / 10000;
+  const seed = randomInt(2 ** 31); // fits a signed integer column; seeds the reading noise
+  return { userId, experimentId, attempt, seed, analyteId, concentration };
+}
+
+export function toSampleView({ seed, concentration, ...view }: UnknownSample): UnknownSampleView {
+  return view;
+}
+
+export function gradeUnknownSample(sample: UnknownSample): GradedUnknownSample {
+  const relativeError = ((sample.submittedConcentration! - sample.concentration) / sample.concentration) * 100;
+  return {
+    ...toSampleView(sample),
+    concentration: sample.concentration,
+    relativeError,
+    accepted: Math.abs(relativeError) <= ACCEPTED_ERROR,
+  };
+}
+
+// pH the student's meter reads once `volume` mL of titrant has run into an
+// aliquot of the sample. The client asks for one reading per increment it
+// delivers; rounded and noisy readings at those volumes are all it gets, so
+// neither the concentration nor the ideal curve leaves the server.
+export function sampleReading(
+  sample: UnknownSample,
+  titrant: TitrantSpec,
+  aliquotVolume: number,
+  volume: number,
+): TitrationPoint {
+  const { pH } = solveContainer(
+    mixTitrant([{ id: sample.analyteId, amount: aliquotVolume, concentration: `${sample.concentration} M` }], titrant, volume),
+  );
+  const noise = (seededRandom(sample.seed ^ Math.imul(Math.round(volume * 100), 0x9e3779b1)) * 2 - 1) * READING_NOISE;
+  return { volume, pH: Math.round((pH + noise) * 100) / 100 };
+}
@@ -0,0 +1,143 @@
+// Back titration of analytes that are insoluble or react too slowly to be
+// titrated directly. A known excess of a standard reagent is added to the
+// sample and left to react, and the excess that remains is titrated.
+import { reactions } from "./reactions";
+import { BALANCE_RESOLUTION } from "./standardization";
+import {
+  formatMeasurement,
+  pipetteTolerance,
+  titreUncertainty,
+} from "./uncertainty";
+
+export const SLURRY_VOLUME = 25; // mL of distilled water the sample sits in
+
+export interface BackTitrationSample {
+  id: string; // reagent id of the untreated sample
+  reactedId: string; // reagent id once the reaction has gone to completion
+  name: string;
+  analyte: string;
+  molarMass: number; // g/mol of the analyte
+  portion: number; // g, suggested mass to weigh out
+  // Standard reagent added in excess, delivered by pipette
+  excess: { id: string; name: string; molarity: number; volume: number };
+  titrantId: string;
+  titrantName: string;
+  ratio: number; // mol of excess reagent consumed per mol of analyte
+  reaction: string;
+  backReaction: string;
+  // What "allowing it to react" means at the bench
+  reactStep: string;
+}
+
+export const backTitrationSamples: Record<string, BackTitrationSample> = {
+  caco3: {
+    id: "caco3",
+    reactedId: "caco3_reacted",
+    name: "Antacid Tablet (crushed)",
+    analyte: "CaCO₃",
+    molarMass: 100.09,
+    portion: 0.35,
+    excess: { id: "hcl", name: "Standard HCl", molarity: 0.1, volume: 50 },
+    titrantId: "naoh",
+    titrantName: "NaOH",
+    ratio: 2,
+    reaction: reactions["caco3+hcl"].equation,
+    backReaction: reactions["hcl+naoh"].equation,
+    reactStep: "Boil gently to finish the reaction and expel CO₂",
+  },
+  aspirin: {
+    id: "aspirin",
+    reactedId: "aspirin_reacted",
+    name: "Aspirin Tablet (crushed)",
+    analyte: "C₉H₈O₄",
+    molarMass: 180.16,
+    portion: 0.3,
+    excess: { id: "naoh", name: "Standard NaOH", molarity: 0.1, volume: 50 },
+    titrantId: "hcl",
+    titrantName: "HCl",
+    ratio: 2,
+    reaction: reactions["aspirin+naoh"].equation,
+    backReaction: reactions["hcl+naoh"].equation,
+    reactStep: "Warm for 15 minutes to hydrolyse the ester",
+  },
+};
+
+// Concentration label of a weighed sample portion in the flask, counting
+// only the analyte it contains. The content is the lab's: the mass
+// fraction the student is out to find.
+export function sampleConcentration(
+  sample: BackTitrationSample,
+  mass: number,
+  content: number,
+  volume = SLURRY_VOLUME,
+): string {
+  const moles = (mass * content) / sample.molarMass;
+  return `${((moles * 1000) / volume).toFixed(6)} M`;
+}
+
+export interface BackTitrationResult {
+  excessMoles: number; // standard reagent added
+  titrantMoles: number; // titrant at the endpoint
+  consumedMoles: number; // standard reagent used up by the analyte
+  analyteMoles: number;
+  analyteMass: number; // g
+  content: number; // % of the sample mass
+  contentUncertainty: number; // % of the sample mass
+  mechanism: string[];
+}
+
+// Work backwards from the titre to the analyte, one stoichiometric step at
+// a time. The back reaction is 1:1, so the titrant matches the excess left.
+export function backTitrationResult(
+  sample: BackTitrationSample,
+  mass: number,
+  titre: number,
+  titrantMolarity: number,
+  titrantUncertainty = 0, // mol/L; the standard reagent is taken as exact
+): BackTitrationResult {
+  const { excess, analyte, titrantName } = sample;
+  const excessMoles = (excess.molarity * excess.volume) / 1000;
+  const titrantMoles = (titrantMolarity * titre) / 1000;
+  const consumedMoles = excessMoles - titrantMoles;
+  const analyteMoles = consumedMoles / sample.ratio;
+  const analyteMass = analyteMoles * sample.molarMass;
+  const content = (analyteMass / mass) * 100;
+  // The pipetted excess and the titrated remainder are subtracted, so their
+  // absolute uncertainties combine; the weighing then adds its relative one
+  const excessUncertainty =
+    (excess.molarity * pipetteTolerance(excess.volume)) / 1000;
+  const titrantUncertaintyMoles =
+    Math.hypot(
+      titrantUncertainty * titre,
+      titrantMolarity * titreUncertainty(),
+    ) / 1000;
+  const consumedUncertainty = Math.hypot(
+    excessUncertainty,
+    titrantUncertaintyMoles,
+  );
+  const contentUncertainty =
+    Math.abs(content) *
+    Math.hypot(consumedUncertainty / consumedMoles, BALANCE_RESOLUTION / mass);
+  const reagent = excess.name.replace("Standard ", "");
+  const mmol = (n: number) => `${(n * 1000).toFixed(4)} mmol`;
+
+  return {
+    excessMoles,
+    titrantMoles,
+    consumedMoles,
+    analyteMoles,
+    analyteMass,
+    content,
+    contentUncertainty,
+    mechanism: [
+      `1. ${reagent} added: ${excess.molarity.toFixed(4)} M × ${excess.volume.toFixed(2)} mL = ${mmol(excessMoles)}`,
+      `2. ${titrantName} at the endpoint: ${titrantMolarity.toFixed(4)} M × ${titre.toFixed(2)} mL = ${mmol(titrantMoles)}`,
+      `3. ${reagent} left unreacted = ${titrantName} used (1:1) = ${mmol(titrantMoles)}`,
+      `4. ${reagent} consumed by the sample = ${mmol(excessMoles)} − ${mmol(titrantMoles)} = ${mmol(consumedMoles)}`,
+      `5. ${analyte} = ${mmol(consumedMoles)} ÷ ${sample.ratio} = ${mmol(analyteMoles)}`,
+      `6. Mass of ${analyte} = ${mmol(analyteMoles)} × ${sample.molarMass} g/mol = ${(analyteMass * 1000).toFixed(1)} mg`,
+      `7. ${analyte} content = ${(analyteMass * 1000).toFixed(1)} mg ÷ ${(mass * 1000).toFixed(1)} mg = ${content.toFixed(1)}%`,
+      `8. Pipette ±${pipetteTolerance(excess.volume)} mL, burette ±0.05 mL per reading and balance ±0.0001 g carried through the subtraction: ${formatMeasurement({ value: content, uncertainty: contentUncertainty })}%`,
+    ],
+  };
+}
@@ -0,0 +1,43 @@
+// 50 mL burette graduated from 0.00 mL at the top, read at the bottom of
+// the meniscus to the nearest 0.05 mL
+export const BURETTE_CAPACITY = 50; // mL
+export const READING_RESOLUTION = 0.05; // mL
+
+export type StopcockSetting = "closed" | "half_drop" | "drop" | "slow" | "fast";
+
+export interface StopcockMode {
+  label: string;
+  // Volume released by one turn of the tap (drops), or ...
+  volume?: number; // mL
+  // ... continuous flow while the tap stays open (streams)
+  flowRate?: number; // mL/s
+}
+
+export const stopcockModes: Record<StopcockSetting, StopcockMode> = {
+  closed: { label: "Closed" },
+  half_drop: { label: "Half drop", volume: 0.025 },
+  drop: { label: "Single drop", volume: 0.05 },
+  slow: { label: "Slow stream", flowRate: 0.2 },
+  fast: { label: "Fast stream", flowRate: 1.5 },
+};
+
+// Readings the student has taken off the scale for the current trial
+export interface BuretteReadings {
+  initial: number | null;
+  final: number | null;
+}
+
+// Where the bottom of the meniscus sits on the scale for a given volume of
+// liquid in the burette. Overfilling puts it above the zero mark.
+export function scaleReading(
+  remaining: number,
+  capacity = BURETTE_CAPACITY,
+): number {
+  return capacity - remaining;
+}
+
+// Snap a value to the finest division a student can estimate
+export function roundReading(value: number): number {
+  const steps = Math.round(value / READING_RESOLUTION);
+  return Math.round(steps * READING_RESOLUTION * 100) / 100;
+}
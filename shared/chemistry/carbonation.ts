@@ -0,0 +1,46 @@
+// CO₂ uptake by hydroxide solutions left open to the air. Each CO₂
+// absorbed turns two hydroxides into one carbonate,
+//   2OH⁻ + CO₂ → CO₃²⁻ + H₂O
+// so the sodium stays but the base takes up fewer protons by an endpoint
+// above pH 8, where carbonate only goes as far as HCO₃⁻. This is the
+// carbonate error of a phenolphthalein titration with old NaOH.
+import { speciesFractions } from "./equilibrium";
+import { acidBaseSystems } from "./species";
+
+// Reagents that pick up CO₂ from the air
+export const ABSORBS_CO2 = new Set(["naoh"]);
+// Fraction of the remaining hydroxide converted per minute an open bottle
+// stands on the bench; far faster than a real bottle, so that the error
+// builds up within one session
+export const CO2_UPTAKE_PER_MINUTE = 0.005;
+
+// How long a bottle has stood open, and whether it still is
+export interface ReagentExposure {
+  open: boolean;
+  exposedSeconds: number;
+}
+
+export const SEALED_BOTTLE: ReagentExposure = {
+  open: false,
+  exposedSeconds: 0,
+};
+
+// Fraction of the hydroxide turned to carbonate after this much exposure
+export function carbonateFraction(exposedSeconds: number): number {
+  return 1 - Math.exp((-CO2_UPTAKE_PER_MINUTE * exposedSeconds) / 60);
+}
+
+// Protons each carbonate has taken up by an endpoint at this pH: one at
+// the phenolphthalein change, nearly two by methyl orange
+export function carbonateProtons(endpointPH: number): number {
+  return speciesFractions(acidBaseSystems.carbonate, endpointPH).reduce(
+    (sum, fraction, i) => sum + fraction * (2 - i),
+    0,
+  );
+}
+
+// Moles of acid neutralized by an endpoint at this pH per mole of the
+// hydroxide the solution was made up with
+export function baseCapacity(carbonate: number, endpointPH: number): number {
+  return 1 - carbonate + (carbonate / 2) * carbonateProtons(endpointPH);
+}
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  alphaY4,
+  analyzeComplexometricTitration,
+  hardnessAsCaCO3,
+  metalIndicatorBound,
+  solveComplexation,
+} from "./complexometry";
+import { mixTitrant } from "./titration";
+
+// 50 mL of water 0.003 M in Ca²⁺ and Mg²⁺ together, buffered to pH 10 and
+// titrated with 0.01 M EDTA: 0.15 mmol of metal takes 15 mL
+const sample = [
+  { id: "hard_water", amount: 50, concentration: "0.003 M" },
+  { id: "nh3_buffer", amount: 2, concentration: "1 M" },
+];
+const edta = { id: "edta", concentration: "0.01 M" };
+
+describe("EDTA titration of hard water", () => {
+  it("buffers the sample near pH 10", () => {
+    const state = solveComplexation(sample)!;
+    assert.ok(Math.abs(state.pH - 10) < 0.3);
+  });
+
+  it("leaves 30% of the free EDTA as Y⁴⁻ at pH 10", () => {
+    assert.ok(Math.abs(alphaY4(10) - 0.3) < 0.01);
+  });
+
+  it("puts the equivalence point at 15 mL", () => {
+    const { equivalencePoints } = analyzeComplexometricTitration(
+      sample,
+      edta,
+      [],
+    );
+    assert.equal(equivalencePoints.length, 1);
+    assert.ok(Math.abs(equivalencePoints[0].volume - 15) < 0.1);
+  });
+
+  it("turns Eriochrome Black T from wine red to blue across it", () => {
+    const withIndicator = [
+      ...sample,
+      { id: "ebt", amount: 0.1, concentration: "Indicator" },
+    ];
+    assert.equal(
+      metalIndicatorBound(mixTitrant(withIndicator, edta, 14)),
+      true,
+    );
+    assert.equal(
+      metalIndicatorBound(mixTitrant(withIndicator, edta, 16)),
+      false,
+    );
+  });
+
+  it("reports the titre as 300 mg/L hardness", () => {
+    // 0.01 M × 15 mL / 50 mL = 0.003 M as CaCO₃
+    assert.ok(Math.abs(hardnessAsCaCO3(0.003) - 300.27) < 0.01);
+  });
+});
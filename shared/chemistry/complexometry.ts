@@ -0,0 +1,283 @@
+import {
+  solveContainer,
+  speciesFractions,
+  type ContainerChemical,
+} from "./equilibrium";
+import { blendColors, parseColor, type RGBA } from "./indicators";
+import { findReaction } from "./reactions";
+import {
+  acidBaseSystems,
+  parseMolarity,
+  reagentCompositions,
+  type AcidBaseSystem,
+} from "./species";
+import {
+  equivalencePoints,
+  mixTitrant,
+  type TitrantSpec,
+  type TitrationAnalysis,
+  type TitrationPoint,
+} from "./titration";
+
+export const EDTA_ID = "edta";
+export const CACO3_MOLAR_MASS = 100.09; // g/mol, hardness is quoted as CaCO₃
+
+// Metal ions EDTA titrates, keyed by their acid-base system. `logKf` is
+// the formation constant of MY²⁻ from Y⁴⁻ and `logKIn` that of the wine-red
+// MIn⁻ complex from the fully deprotonated Eriochrome Black T.
+export interface MetalIon {
+  id: string;
+  symbol: string;
+  logKf: number;
+  logKIn: number;
+}
+
+export const metalIons: Record<string, MetalIon> = {
+  calcium: { id: "calcium", symbol: "Ca²⁺", logKf: 10.65, logKIn: 5.4 },
+  magnesium: { id: "magnesium", symbol: "Mg²⁺", logKf: 8.79, logKIn: 7.0 },
+};
+
+// Eriochrome Black T: a weak acid (H₂In⁻ red, HIn²⁻ blue, In³⁻ orange)
+// that binds the metal as wine-red MIn⁻ until EDTA takes it away
+export const EBT_ID = "ebt";
+const ebt: AcidBaseSystem = {
+  id: EBT_ID,
+  charge: -1,
+  pKa: [6.3, 11.6],
+  forms: ["#C2185B", "#1E40AF", "#F28C28"],
+};
+const EBT_METAL_COLOR = "#8E1B3A";
+const EBT_STOCK = 0.001; // mol/L in the dropping bottle
+const EBT_ABSORPTIVITY = 20000; // L mol⁻¹ cm⁻¹
+
+export function isComplexometricChemical(id: string): boolean {
+  return id === EBT_ID;
+}
+
+// Fraction of the uncomplexed EDTA present as Y⁴⁻ at this pH
+export function alphaY4(pH: number): number {
+  const fractions = speciesFractions(acidBaseSystems.edta, pH);
+  return fractions[fractions.length - 1];
+}
+
+// log K' = log Kf + log α(Y⁴⁻): what the metal and EDTA see once the
+// protons competing for Y⁴⁻ at this pH are folded in
+export function conditionalConstant(metal: MetalIon, pH: number): number {
+  return metal.logKf + Math.log10(alphaY4(pH));
+}
+
+export interface ComplexationState {
+  pH: number;
+  volumeL: number;
+  alphaY4: number;
+  freeEDTA: number; // mol/L of EDTA not bound to a metal, all forms
+  metals: Array<{
+    metal: MetalIon;
+    total: number; // mol/L
+    free: number; // mol/L
+    logKConditional: number;
+  }>;
+  pM: number; // -log of the free hardness ions
+}
+
+// Share the EDTA between the metals with the conditional constants at the
+// pH of the solution. The protons EDTA releases on binding are left to the
+// buffer, so the pH comes from the acid-base solver unchanged.
+export function solveComplexation(
+  chemicals: ContainerChemical[],
+): ComplexationState | null {
+  const equilibrium = solveContainer(chemicals);
+  const { pH, volumeL } = equilibrium;
+  if (volumeL <= 0) return null;
+
+  const totals = new Map<string, number>();
+  chemicals.forEach((chemical) => {
+    const molarity = parseMolarity(chemical.concentration);
+    if (molarity === null) return;
+    reagentCompositions[chemical.id]?.constituents.forEach(
+      ({ system, ratio }) => {
+        const moles = (molarity * chemical.amount * ratio) / 1000;
+        totals.set(system, (totals.get(system) ?? 0) + moles / volumeL);
+      },
+    );
+  });
+
+  const metals = Object.values(metalIons)
+    .filter((metal) => (totals.get(metal.id) ?? 0) > 0)
+    .map((metal) => ({
+      metal,
+      total: totals.get(metal.id)!,
+      logKConditional: conditionalConstant(metal, pH),
+    }));
+  if (metals.length === 0) return null;
+  const edtaTotal = totals.get("edta") ?? 0;
+
+  // EDTA left over at free concentration Y': the mass balance
+  // Y' + Σ M·K'Y'/(1 + K'Y') = C(EDTA) rises with Y', so bisect on log Y'
+  let freeEDTA = 0;
+  if (edtaTotal > 0) {
+    const excess = (logY: number) =>
+      metals.reduce(
+        (sum, { total, logKConditional }) => {
+          const bound = 1 / (1 + Math.pow(10, -(logKConditional + logY)));
+          return sum + total * bound;
+        },
+        Math.pow(10, logY),
+      ) - edtaTotal;
+    let low = -40;
+    let high = Math.log10(edtaTotal);
+    for (let i = 0; i < 60; i++) {
+      const mid = (low + high) / 2;
+      if (excess(mid) < 0) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    freeEDTA = Math.pow(10, (low + high) / 2);
+  }
+
+  const solved = metals.map((entry) => ({
+    ...entry,
+    free: entry.total / (1 + Math.pow(10, entry.logKConditional) * freeEDTA),
+  }));
+
+  return {
+    pH,
+    volumeL,
+    alphaY4: alphaY4(pH),
+    freeEDTA,
+    metals: solved,
+    pM: -Math.log10(solved.reduce((sum, m) => sum + m.free, 0)),
+  };
+}
+
+// Share of the indicator held as MIn⁻; it is present at trace level, so
+// it does not take metal away from the EDTA
+function boundFraction(state: ComplexationState): number {
+  const freeIn = speciesFractions(ebt, state.pH);
+  const alphaIn = freeIn[freeIn.length - 1];
+  const binding = state.metals.reduce(
+    (sum, { metal, free }) => sum + Math.pow(10, metal.logKIn) * alphaIn * free,
+    0,
+  );
+  return binding / (1 + binding);
+}
+
+// Colour Eriochrome Black T gives the solution (Beer-Lambert): wine red
+// while it holds metal, otherwise the colour of its free form at this pH
+export function complexometricColor(
+  chemicals: ContainerChemical[],
+  pathLengthCm = 1,
+): RGBA {
+  const dye = chemicals.filter((c) => c.id === EBT_ID);
+  const volumeL = chemicals.reduce((sum, c) => sum + c.amount, 0) / 1000;
+  if (dye.length === 0 || volumeL <= 0) return parseColor("transparent");
+
+  const concentration =
+    (EBT_STOCK * dye.reduce((sum, c) => sum + c.amount, 0)) / 1000 / volumeL;
+  const state = solveComplexation(chemicals);
+  const pH = state?.pH ?? solveContainer(chemicals).pH;
+  const bound = state ? boundFraction(state) : 0;
+  const absorbance = EBT_ABSORPTIVITY * concentration * pathLengthCm;
+
+  const free = speciesFractions(ebt, pH).map((fraction, i) => ({
+    color: ebt.forms[i],
+    weight: fraction * (1 - bound),
+  }));
+  return [...free, { color: EBT_METAL_COLOR, weight: bound }].reduce(
+    (color, { color: hex, weight }) =>
+      blendColors(color, {
+        ...parseColor(hex),
+        a: 1 - Math.pow(10, -absorbance * weight),
+      }),
+    parseColor("transparent"),
+  );
+}
+
+// Whether the indicator shows its metal complex: wine red before the
+// endpoint, blue once EDTA has taken up the last free Mg²⁺
+export function metalIndicatorBound(
+  chemicals: ContainerChemical[],
+): boolean | null {
+  if (!chemicals.some((c) => c.id === EBT_ID)) return null;
+  const state = solveComplexation(chemicals);
+  return state ? boundFraction(state) > 0.5 : false;
+}
+
+// Total hardness from the moles of M²⁺, as mg CaCO₃ per litre of sample
+export function hardnessAsCaCO3(molarity: number): number {
+  return molarity * CACO3_MOLAR_MASS * 1000;
+}
+
+export interface ComplexometricTitration {
+  metals: MetalIon[];
+  // Overall 1:1 reaction for all the metals, then one per metal
+  equation: string;
+  equations: string[];
+  indicatorReaction: string;
+}
+
+// EDTA against a sample holding metal ions it titrates, as registered
+export function findComplexometricTitration(
+  analyteId: string,
+  titrantId: string,
+): ComplexometricTitration | null {
+  if (titrantId !== EDTA_ID) return null;
+  const reaction = findReaction(analyteId, titrantId, "complexation");
+  if (!reaction) return null;
+  const metals = (reagentCompositions[analyteId]?.constituents ?? [])
+    .map(({ system }) => metalIons[system])
+    .filter(Boolean);
+  if (metals.length === 0) return null;
+  const elements = metals.map((metal) => metal.symbol.replace("²⁺", ""));
+  return {
+    metals,
+    equation: `${reaction.equation} (M = ${elements.join(", ")})`,
+    equations: elements.map(
+      (element) => `${element}²⁺ + H₂Y²⁻ → ${element}Y²⁻ + 2H⁺`,
+    ),
+    indicatorReaction: "MgIn⁻ (wine red) + H₂Y²⁻ → MgY²⁻ + HIn²⁻ (blue) + H⁺",
+  };
+}
+
+// Ideal pM-vs-volume curve, sampled every `step` mL
+export function complexometricCurve(
+  analyte: ContainerChemical[],
+  titrant: TitrantSpec,
+  maxVolume = 50,
+  step = 0.05,
+): TitrationPoint[] {
+  const points: TitrationPoint[] = [];
+  for (let i = 0; i * step <= maxVolume + 1e-9; i++) {
+    const volume = i * step;
+    const mixture = mixTitrant(analyte, titrant, volume);
+    const state = solveComplexation(mixture);
+    points.push({
+      volume,
+      pH: state?.pH ?? solveContainer(mixture).pH,
+      pM: state?.pM ?? 0,
+    });
+  }
+  return points;
+}
+
+export function analyzeComplexometricTitration(
+  analyte: ContainerChemical[],
+  titrant: TitrantSpec,
+  recorded: TitrationPoint[],
+): TitrationAnalysis {
+  const theoretical = complexometricCurve(analyte, titrant);
+  return {
+    measure: "pM",
+    recorded,
+    theoretical,
+    equivalencePoints: equivalencePoints(
+      theoretical,
+      0.5,
+      (point) => point.pM ?? 0,
+    ),
+    halfEquivalencePoints: [],
+    bufferRegions: [],
+  };
+}
@@ -0,0 +1,591 @@
+// Reference data for every compound the labs put on the shelf or name in
+// their formulas. Lab definitions refer to compounds by id, and the client
+// reads them from /api/chemicals. Acid-base constants are the ones the
+// equilibrium solver uses, so what a bottle says matches how it behaves.
+import {
+  acidBaseProfile,
+  acidBaseSystems,
+  type AcidBaseProfile,
+  type AcidBaseSystem,
+} from "./species";
+
+// GHS hazard statements for the codes used below
+export const hazardStatements = {
+  H225: "Highly flammable liquid and vapour",
+  H226: "Flammable liquid and vapour",
+  H272: "May intensify fire; oxidizer",
+  H290: "May be corrosive to metals",
+  H301: "Toxic if swallowed",
+  H302: "Harmful if swallowed",
+  H311: "Toxic in contact with skin",
+  H312: "Harmful in contact with skin",
+  H314: "Causes severe skin burns and eye damage",
+  H315: "Causes skin irritation",
+  H317: "May cause an allergic skin reaction",
+  H318: "Causes serious eye damage",
+  H319: "Causes serious eye irritation",
+  H330: "Fatal if inhaled",
+  H331: "Toxic if inhaled",
+  H332: "Harmful if inhaled",
+  H334: "May cause allergy or asthma symptoms or breathing difficulties if inhaled",
+  H335: "May cause respiratory irritation",
+  H340: "May cause genetic defects",
+  H341: "Suspected of causing genetic defects",
+  H350: "May cause cancer",
+  H351: "Suspected of causing cancer",
+  H360: "May damage fertility or the unborn child",
+  H361: "Suspected of damaging fertility or the unborn child",
+  H372: "Causes damage to organs through prolonged or repeated exposure",
+  H373: "May cause damage to organs through prolonged or repeated exposure",
+  H400: "Very toxic to aquatic life",
+  H410: "Very toxic to aquatic life with long lasting effects",
+  H411: "Toxic to aquatic life with long lasting effects",
+  H412: "Harmful to aquatic life with long lasting effects",
+} as const;
+
+export type HazardCode = keyof typeof hazardStatements;
+
+export interface Compound {
+  id: string;
+  name: string;
+  formula: string;
+  // g/mol; mixtures and polymers have none
+  molarMass?: number;
+  // g/mL of the pure liquid or solid at 25 °C
+  density?: number;
+  // State of the pure compound at 25 °C, or "aq" for ions and solutions
+  phase: "s" | "l" | "g" | "aq";
+  // Shown for the bottle and blended into the solutions it is added to
+  color: string;
+  acidBase?: AcidBaseProfile;
+  // g per 100 mL of water near 25 °C
+  solubility?: number | "miscible" | "insoluble" | "reacts";
+  hazards: HazardCode[];
+}
+
+// Acid strength by the proton the compound gives up in water, for those
+// the solver would class by their basic step or has no reagent for
+const weakAcid = ({ pKa }: AcidBaseSystem, step = 0): AcidBaseProfile => ({
+  kind: "weak acid",
+  ka: Math.pow(10, -pKa[step]),
+  pKa,
+});
+
+const compoundList: Compound[] = [
+  // Acids and bases
+  {
+    id: "hcl",
+    name: "Hydrochloric Acid",
+    formula: "HCl",
+    molarMass: 36.46,
+    phase: "g",
+    color: "#FFE135",
+    acidBase: acidBaseProfile("hcl"),
+    solubility: 72,
+    hazards: ["H290", "H314", "H335"],
+  },
+  {
+    id: "naoh",
+    name: "Sodium Hydroxide",
+    formula: "NaOH",
+    molarMass: 40.0,
+    density: 2.13,
+    phase: "s",
+    color: "#8B5A9B",
+    acidBase: acidBaseProfile("naoh"),
+    solubility: 100,
+    hazards: ["H290", "H314"],
+  },
+  {
+    id: "acetic_acid",
+    name: "Acetic Acid",
+    formula: "CH₃COOH",
+    molarMass: 60.05,
+    density: 1.049,
+    phase: "l",
+    color: "#FFF8DC",
+    acidBase: acidBaseProfile("acetic_acid"),
+    solubility: "miscible",
+    hazards: ["H226", "H314"],
+  },
+  {
+    id: "nh3",
+    name: "Ammonia",
+    formula: "NH₃",
+    molarMass: 17.03,
+    phase: "g",
+    color: "#E0FFFF",
+    acidBase: acidBaseProfile("nh3"),
+    solubility: 54,
+    hazards: ["H314", "H335", "H400"],
+  },
+  {
+    id: "h3po4",
+    name: "Phosphoric Acid",
+    formula: "H₃PO₄",
+    molarMass: 97.99,
+    density: 1.83,
+    phase: "s",
+    color: "#F5F5DC",
+    acidBase: acidBaseProfile("h3po4"),
+    solubility: 548,
+    hazards: ["H290", "H314"],
+  },
+  {
+    id: "oxalic_acid",
+    name: "Oxalic Acid",
+    formula: "H₂C₂O₄",
+    molarMass: 90.03,
+    density: 1.9,
+    phase: "s",
+    color: "#FAFAFA",
+    acidBase: acidBaseProfile("oxalic_acid"),
+    solubility: 14.3,
+    hazards: ["H302", "H312", "H318"],
+  },
+  {
+    id: "h2so4",
+    name: "Sulfuric Acid",
+    formula: "H₂SO₄",
+    molarMass: 98.08,
+    density: 1.83,
+    phase: "l",
+    color: "#FFF8E1",
+    acidBase: { kind: "strong acid", pKa: acidBaseSystems.sulfate.pKa },
+    solubility: "miscible",
+    hazards: ["H290", "H314"],
+  },
+  {
+    id: "hno3",
+    name: "Nitric Acid",
+    formula: "HNO₃",
+    molarMass: 63.01,
+    density: 1.51,
+    phase: "l",
+    color: "transparent",
+    acidBase: acidBaseProfile("hno3"),
+    solubility: "miscible",
+    hazards: ["H272", "H290", "H314", "H331"],
+  },
+  {
+    id: "na2co3",
+    name: "Sodium Carbonate",
+    formula: "Na₂CO₃",
+    molarMass: 105.99,
+    density: 2.54,
+    phase: "s",
+    color: "#F0F8FF",
+    acidBase: acidBaseProfile("na2co3"),
+    solubility: 30.7,
+    hazards: ["H319"],
+  },
+  {
+    id: "nahco3",
+    name: "Sodium Hydrogen Carbonate",
+    formula: "NaHCO₃",
+    molarMass: 84.01,
+    density: 2.2,
+    phase: "s",
+    color: "#F8F8FF",
+    acidBase: acidBaseProfile("nahco3"),
+    solubility: 9.6,
+    hazards: [],
+  },
+  {
+    id: "khp",
+    name: "Potassium Hydrogen Phthalate",
+    formula: "KHC₈H₄O₄",
+    molarMass: 204.22,
+    density: 1.636,
+    phase: "s",
+    color: "transparent",
+    acidBase: weakAcid(acidBaseSystems.phthalate, 1),
+    solubility: 8.0,
+    hazards: [],
+  },
+  {
+    id: "nh4cl",
+    name: "Ammonium Chloride",
+    formula: "NH₄Cl",
+    molarMass: 53.49,
+    density: 1.53,
+    phase: "s",
+    color: "transparent",
+    acidBase: weakAcid(acidBaseSystems.ammonium),
+    solubility: 37.2,
+    hazards: ["H302", "H319"],
+  },
+  {
+    id: "nh3_buffer",
+    name: "Ammonia Buffer (pH 10)",
+    formula: "NH₃/NH₄Cl",
+    phase: "aq",
+    color: "#F0F8FF",
+    acidBase: acidBaseProfile("nh3_buffer"),
+    solubility: "miscible",
+    hazards: ["H314", "H335"],
+  },
+
+  // Acid-base indicators
+  {
+    id: "phenol",
+    name: "Phenolphthalein",
+    formula: "C₂₀H₁₄O₄",
+    molarMass: 318.32,
+    density: 1.277,
+    phase: "s",
+    color: "#FFB6C1",
+    solubility: "insoluble",
+    hazards: ["H341", "H350", "H361"],
+  },
+  {
+    id: "methyl_orange",
+    name: "Methyl Orange",
+    formula: "C₁₄H₁₄N₃NaO₃S",
+    molarMass: 327.33,
+    density: 1.28,
+    phase: "s",
+    color: "#FF8C00",
+    solubility: 0.52,
+    hazards: ["H301"],
+  },
+  {
+    id: "methyl_red",
+    name: "Methyl Red",
+    formula: "C₁₅H₁₅N₃O₂",
+    molarMass: 269.3,
+    phase: "s",
+    color: "#DC143C",
+    solubility: "insoluble",
+    hazards: [],
+  },
+  {
+    id: "bromothymol_blue",
+    name: "Bromothymol Blue",
+    formula: "C₂₇H₂₈Br₂O₅S",
+    molarMass: 624.38,
+    phase: "s",
+    color: "#1E90FF",
+    solubility: "insoluble",
+    hazards: [],
+  },
+  {
+    id: "thymol_blue",
+    name: "Thymol Blue",
+    formula: "C₂₇H₃₀O₅S",
+    molarMass: 466.59,
+    phase: "s",
+    color: "#1E40AF",
+    solubility: "insoluble",
+    hazards: [],
+  },
+  {
+    id: "universal",
+    name: "Universal Indicator",
+    formula: "Mixed dyes",
+    phase: "l",
+    color: "#32CD32",
+    solubility: "miscible",
+    hazards: ["H225", "H319"],
+  },
+
+  // Aspirin synthesis
+  {
+    id: "salicylic_acid",
+    name: "Salicylic Acid",
+    formula: "C₇H₆O₃",
+    molarMass: 138.12,
+    density: 1.443,
+    phase: "s",
+    color: "#F8F8FF",
+    acidBase: weakAcid(acidBaseSystems.salicylate),
+    solubility: 0.2,
+    hazards: ["H302", "H318", "H361"],
+  },
+  {
+    id: "acetic_anhydride",
+    name: "Acetic Anhydride",
+    formula: "(CH₃CO)₂O",
+    molarMass: 102.09,
+    density: 1.082,
+    phase: "l",
+    color: "#DDA0DD",
+    solubility: "reacts",
+    hazards: ["H226", "H302", "H314", "H330"],
+  },
+  {
+    id: "aspirin",
+    name: "Acetylsalicylic Acid (Aspirin)",
+    formula: "C₉H₈O₄",
+    molarMass: 180.16,
+    density: 1.4,
+    phase: "s",
+    color: "transparent",
+    acidBase: acidBaseProfile("aspirin"),
+    solubility: 0.3,
+    hazards: ["H302"],
+  },
+  {
+    id: "water",
+    name: "Water",
+    formula: "H₂O",
+    molarMass: 18.02,
+    density: 0.997,
+    phase: "l",
+    color: "transparent",
+    hazards: [],
+  },
+  {
+    id: "ice",
+    name: "Ice",
+    formula: "H₂O",
+    molarMass: 18.02,
+    density: 0.917,
+    phase: "s",
+    color: "#E0F6FF",
+    hazards: [],
+  },
+
+  // Cobalt chloride equilibrium
+  {
+    id: "cocl2",
+    name: "Cobalt(II) Chloride Hexahydrate",
+    formula: "CoCl₂·6H₂O",
+    molarMass: 237.93,
+    density: 1.924,
+    phase: "s",
+    color: "#FFB6C1",
+    solubility: 76,
+    hazards: ["H302", "H317", "H334", "H341", "H350", "H360", "H410"],
+  },
+  {
+    id: "cobalt_aqua",
+    name: "Hexaaquacobalt(II) Ion",
+    formula: "[Co(H₂O)₆]²⁺",
+    molarMass: 167.02,
+    phase: "aq",
+    color: "#FFB6C1",
+    hazards: [],
+  },
+  {
+    id: "cobalt_chloro",
+    name: "Tetrachlorocobaltate(II) Ion",
+    formula: "[CoCl₄]²⁻",
+    molarMass: 200.74,
+    phase: "aq",
+    color: "#1E3A8A",
+    hazards: [],
+  },
+
+  // Redox titrations
+  {
+    id: "kmno4",
+    name: "Potassium Permanganate",
+    formula: "KMnO₄",
+    molarMass: 158.03,
+    density: 2.7,
+    phase: "s",
+    color: "#800080",
+    solubility: 6.4,
+    hazards: ["H272", "H302", "H314", "H361", "H410"],
+  },
+  {
+    id: "feso4",
+    name: "Iron(II) Sulfate Heptahydrate",
+    formula: "FeSO₄·7H₂O",
+    molarMass: 278.01,
+    density: 1.895,
+    phase: "s",
+    color: "#E8F5E9",
+    solubility: 25.6,
+    hazards: ["H302", "H315", "H319"],
+  },
+  {
+    id: "na2c2o4",
+    name: "Sodium Oxalate",
+    formula: "Na₂C₂O₄",
+    molarMass: 134.0,
+    density: 2.34,
+    phase: "s",
+    color: "#F5F5F5",
+    acidBase: acidBaseProfile("na2c2o4"),
+    solubility: 3.7,
+    hazards: ["H302", "H312"],
+  },
+  {
+    id: "iodine",
+    name: "Iodine",
+    formula: "I₂",
+    molarMass: 253.81,
+    density: 4.93,
+    phase: "s",
+    color: "#A0522D",
+    solubility: 0.03,
+    hazards: ["H312", "H315", "H319", "H332", "H335", "H372", "H400"],
+  },
+  {
+    id: "na2s2o3",
+    name: "Sodium Thiosulfate Pentahydrate",
+    formula: "Na₂S₂O₃·5H₂O",
+    molarMass: 248.18,
+    density: 1.69,
+    phase: "s",
+    color: "#E3F2FD",
+    solubility: 70.1,
+    hazards: [],
+  },
+  {
+    id: "starch",
+    name: "Starch",
+    formula: "(C₆H₁₀O₅)ₙ",
+    phase: "s",
+    color: "#F5F5DC",
+    solubility: "insoluble",
+    hazards: [],
+  },
+
+  // Complexometric titration
+  {
+    id: "edta",
+    name: "Disodium EDTA Dihydrate",
+    formula: "Na₂H₂Y·2H₂O",
+    molarMass: 372.24,
+    phase: "s",
+    color: "#F5F5F5",
+    acidBase: weakAcid(acidBaseSystems.edta, 4),
+    solubility: 10.8,
+    hazards: ["H332", "H373"],
+  },
+  {
+    id: "hard_water",
+    name: "Hard Water",
+    formula: "Ca²⁺/Mg²⁺",
+    phase: "aq",
+    color: "#EAF4FB",
+    hazards: [],
+  },
+  {
+    id: "calcium_ion",
+    name: "Calcium Ion",
+    formula: "Ca²⁺",
+    molarMass: 40.08,
+    phase: "aq",
+    color: "transparent",
+    hazards: [],
+  },
+  {
+    id: "magnesium_ion",
+    name: "Magnesium Ion",
+    formula: "Mg²⁺",
+    molarMass: 24.31,
+    phase: "aq",
+    color: "transparent",
+    hazards: [],
+  },
+  {
+    id: "ca_edta",
+    name: "Calcium-EDTA Complex",
+    formula: "CaY²⁻",
+    molarMass: 328.29,
+    phase: "aq",
+    color: "transparent",
+    hazards: [],
+  },
+  {
+    id: "ebt",
+    name: "Eriochrome Black T",
+    formula: "C₂₀H₁₂N₃NaO₇S",
+    molarMass: 461.38,
+    phase: "s",
+    color: "#4B0082",
+    solubility: 5,
+    hazards: ["H319", "H411"],
+  },
+
+  // Precipitation titrations
+  {
+    id: "nacl",
+    name: "Sodium Chloride",
+    formula: "NaCl",
+    molarMass: 58.44,
+    density: 2.165,
+    phase: "s",
+    color: "transparent",
+    solubility: 36.0,
+    hazards: [],
+  },
+  {
+    id: "agno3",
+    name: "Silver Nitrate",
+    formula: "AgNO₃",
+    molarMass: 169.87,
+    density: 4.35,
+    phase: "s",
+    color: "transparent",
+    solubility: 256,
+    hazards: ["H272", "H290", "H314", "H410"],
+  },
+  {
+    id: "k2cro4",
+    name: "Potassium Chromate",
+    formula: "K₂CrO₄",
+    molarMass: 194.19,
+    density: 2.73,
+    phase: "s",
+    color: "#F2C500",
+    solubility: 62.9,
+    hazards: ["H315", "H317", "H319", "H335", "H340", "H350", "H410"],
+  },
+  {
+    id: "kscn",
+    name: "Potassium Thiocyanate",
+    formula: "KSCN",
+    molarMass: 97.18,
+    density: 1.886,
+    phase: "s",
+    color: "transparent",
+    solubility: 217,
+    hazards: ["H302", "H312", "H332", "H412"],
+  },
+  {
+    id: "fe_alum",
+    name: "Iron(III) Ammonium Sulfate",
+    formula: "NH₄Fe(SO₄)₂·12H₂O",
+    molarMass: 482.19,
+    density: 1.71,
+    phase: "s",
+    color: "#F3E5AB",
+    solubility: 124,
+    hazards: ["H315", "H319"],
+  },
+  {
+    id: "nitrobenzene",
+    name: "Nitrobenzene",
+    formula: "C₆H₅NO₂",
+    molarMass: 123.11,
+    density: 1.2,
+    phase: "l",
+    color: "#FFF9C4",
+    solubility: 0.19,
+    hazards: ["H301", "H311", "H331", "H351", "H360", "H372", "H412"],
+  },
+  {
+    id: "agcl",
+    name: "Silver Chloride",
+    formula: "AgCl",
+    molarMass: 143.32,
+    density: 5.56,
+    phase: "s",
+    color: "#F5F5F5",
+    solubility: "insoluble",
+    hazards: ["H410"],
+  },
+];
+
+export const compounds: Record<string, Compound> = Object.fromEntries(
+  compoundList.map((compound) => [compound.id, compound]),
+);
+
+// The compound with this id, if the database has one
+export const findCompound = (id: string): Compound | undefined =>
+  Object.hasOwn(compounds, id) ? compounds[id] : undefined;
@@ -0,0 +1,148 @@
+import { solveContainer, type ContainerChemical } from "./equilibrium";
+import { solvePrecipitation } from "./precipitation";
+import { fitLine, type LineFit } from "./regression";
+import { acidBaseSystems } from "./species";
+import type { TitrationPoint } from "./titration";
+
+// Limiting molar conductivities λ° at 25 °C in S cm² mol⁻¹, per mole of
+// the ion as written (not per mole of charge)
+export const LIMITING_CONDUCTIVITIES: Record<string, number> = {
+  "H⁺": 349.6,
+  "OH⁻": 199.1,
+  "Na⁺": 50.1,
+  "K⁺": 73.5,
+  "Ag⁺": 61.9,
+  "NH₄⁺": 73.5,
+  "Ca²⁺": 119.0,
+  "Mg²⁺": 106.0,
+  "Co²⁺": 110.0,
+  "Fe³⁺": 204.0,
+  "Cl⁻": 76.3,
+  "NO₃⁻": 71.4,
+  "SCN⁻": 66.5,
+  "CH₃COO⁻": 40.9,
+  "H₂PO₄⁻": 36.0,
+  "HPO₄²⁻": 114.0,
+  "PO₄³⁻": 207.0,
+  "HC₂O₄⁻": 40.2,
+  "C₂O₄²⁻": 148.2,
+  "HSO₄⁻": 52.0,
+  "SO₄²⁻": 160.0,
+  "HCO₃⁻": 44.5,
+  "CO₃²⁻": 138.6,
+  "HC₈H₄O₄⁻": 38.0,
+  "C₈H₄O₄²⁻": 104.0,
+  "C₉H₇O₄⁻": 34.0,
+  "C₇H₅O₃⁻": 36.0,
+  "HCrO₄⁻": 50.0,
+  "CrO₄²⁻": 170.0,
+};
+
+// Large organic ions without a tabulated value move at roughly this much
+// per unit of charge
+const UNLISTED_PER_CHARGE = 35;
+// Conductivity rises about 2% per °C, mostly as the water thins
+const TEMPERATURE_COEFFICIENT = 0.02;
+
+export function limitingConductivity(label: string, charge: number): number {
+  return (
+    LIMITING_CONDUCTIVITIES[label] ?? UNLISTED_PER_CHARGE * Math.abs(charge)
+  );
+}
+
+// Conductivity in mS/cm from the ions in solution, κ = Σ λ°ᵢ·cᵢ. Limiting
+// values ignore the ion atmosphere, which slows ions by a few percent at
+// titration strengths. Ions locked up in a silver precipitate no longer
+// carry current.
+export function solutionConductivity(
+  chemicals: ContainerChemical[],
+  temperatureC = 25,
+): number | null {
+  const solution = solveContainer(chemicals, temperatureC);
+  if (solution.volumeL <= 0) return null;
+  const ions = new Map<string, { charge: number; concentration: number }>();
+  solution.species.forEach(({ label, charge, concentration }) => {
+    if (charge !== 0) ions.set(label, { charge, concentration });
+  });
+
+  const precipitation = solvePrecipitation(chemicals);
+  if (precipitation) {
+    ions.set("Ag⁺", { charge: 1, concentration: precipitation.silver });
+    precipitation.solids.forEach(({ salt, amount }) => {
+      const forms = acidBaseSystems[salt.anion].forms;
+      const ion = ions.get(forms[forms.length - 1]);
+      if (ion) ion.concentration = Math.max(0, ion.concentration - amount);
+    });
+  }
+
+  // λ° (S cm² mol⁻¹) × c (mol/L) / 1000 gives S/cm; × 1000 for mS/cm
+  let kappa = 0;
+  ions.forEach(({ charge, concentration }, label) => {
+    kappa += limitingConductivity(label, charge) * concentration;
+  });
+  return kappa * (1 + TEMPERATURE_COEFFICIENT * (temperatureC - 25));
+}
+
+export interface ConductometricAnalysis {
+  // Readings corrected for dilution by the titrant
+  points: Array<{ volume: number; conductivity: number }>;
+  before: LineFit;
+  after: LineFit;
+  // Where the two lines cross
+  equivalenceVolume: number | null;
+}
+
+// Readings on each side of the break needed for a line worth fitting
+const MIN_LINE_POINTS = 3;
+
+const asValues = (points: ConductometricAnalysis["points"]) =>
+  points.map((p) => ({ volume: p.volume, value: p.conductivity }));
+
+// Conductometric endpoint: scale each reading by (V₀ + V)/V₀ so dilution
+// doesn't bend the branches, split the readings where two least-squares
+// lines leave the smallest total residual, and intersect the lines
+export function conductometricAnalysis(
+  curve: TitrationPoint[],
+  sampleVolume: number, // mL in the flask before any titrant
+): ConductometricAnalysis | null {
+  if (sampleVolume <= 0) return null;
+  const points = [...curve]
+    .filter((point) => point.conductivity !== undefined)
+    .sort((a, b) => a.volume - b.volume)
+    .map((point) => ({
+      volume: point.volume,
+      conductivity:
+        (point.conductivity! * (sampleVolume + point.volume)) / sampleVolume,
+    }));
+  if (points.length < 2 * MIN_LINE_POINTS) return null;
+
+  let best: { before: LineFit; after: LineFit; residual: number } | null = null;
+  for (
+    let split = MIN_LINE_POINTS;
+    split <= points.length - MIN_LINE_POINTS;
+    split++
+  ) {
+    const before = fitLine(asValues(points.slice(0, split)));
+    const after = fitLine(asValues(points.slice(split)));
+    const residual = before.residual + after.residual;
+    if (!best || residual < best.residual) {
+      best = { before: before.fit, after: after.fit, residual };
+    }
+  }
+  const { before, after } = best!;
+  const crossing =
+    Math.abs(before.slope - after.slope) > 1e-9
+      ? (after.intercept - before.intercept) / (before.slope - after.slope)
+      : null;
+  return {
+    points,
+    before,
+    after,
+    equivalenceVolume:
+      crossing !== null &&
+      crossing >= 0 &&
+      crossing <= points[points.length - 1].volume
+        ? crossing
+        : null,
+  };
+}
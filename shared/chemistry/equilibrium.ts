@@ -0,0 +1,231 @@
+import {
+  acidBaseSystems,
+  parseMolarity,
+  reagentCompositions,
+  type AcidBaseSystem,
+} from "./species";
+
+export const KW_25C = 1.0e-14;
+// H₂O → H⁺ + OH⁻, the reverse of the -57.3 kJ/mol heat of neutralization
+export const WATER_IONIZATION_ENTHALPY = 57.3; // kJ/mol
+const GAS_CONSTANT = 8.314e-3; // kJ/(mol·K)
+const KELVIN = 273.15;
+// Reagent the carbonated part of a hydroxide is pooled as
+const CARBONATE_REAGENT = "na2co3";
+
+// van't Hoff: a pK measured at 25 °C moved to another temperature by the
+// enthalpy of the dissociation. Endothermic steps dissociate more when hot.
+export function pKAtTemperature(
+  pK25: number,
+  enthalpy: number,
+  temperatureC: number,
+): number {
+  return (
+    pK25 +
+    (enthalpy / (GAS_CONSTANT * Math.LN10)) *
+      (1 / (temperatureC + KELVIN) - 1 / (25 + KELVIN))
+  );
+}
+
+// Ion product of water, 1.0e-14 at 25 °C and about 5.7e-14 at 50 °C
+export function waterConstant(temperatureC: number): number {
+  return Math.pow(
+    10,
+    -pKAtTemperature(
+      -Math.log10(KW_25C),
+      WATER_IONIZATION_ENTHALPY,
+      temperatureC,
+    ),
+  );
+}
+
+// The system with its pKa values moved to this temperature
+export function systemAtTemperature(
+  system: AcidBaseSystem,
+  temperatureC: number,
+): AcidBaseSystem {
+  if (!system.enthalpy || temperatureC === 25) return system;
+  return {
+    ...system,
+    pKa: system.pKa.map((pKa, i) =>
+      pKAtTemperature(pKa, system.enthalpy?.[i] ?? 0, temperatureC),
+    ),
+  };
+}
+
+// A reagent portion sitting in a container, as stored on the workbench
+export interface ContainerChemical {
+  id: string;
+  amount: number; // mL
+  concentration: string;
+  // Fraction of a hydroxide turned to carbonate by CO₂ from the air
+  carbonate?: number;
+}
+
+export interface SolutionInput {
+  components: Array<{ id: string; moles: number }>;
+  volumeL: number;
+  temperatureC: number;
+}
+
+export interface SpeciesConcentration {
+  label: string;
+  charge: number;
+  concentration: number; // mol/L
+}
+
+export interface SolutionState {
+  volumeL: number;
+  temperatureC: number;
+  h: number;
+  oh: number;
+  pH: number;
+  pOH: number;
+  ionicStrength: number;
+  species: SpeciesConcentration[];
+  components: Array<{ id: string; moles: number; concentration: number }>;
+}
+
+// Distribution of a system over its protonation states at a given pH,
+// ordered from the fully protonated form downwards.
+export function speciesFractions(system: AcidBaseSystem, pH: number): number[] {
+  // log10 of β_i·[H⁺]^-i, kept in log space so strong acids don't overflow
+  const logTerms = [0];
+  let cumulative = 0;
+  for (let i = 0; i < system.pKa.length; i++) {
+    cumulative -= system.pKa[i];
+    logTerms.push(cumulative + (i + 1) * pH);
+  }
+
+  const max = Math.max(...logTerms);
+  const terms = logTerms.map((t) => Math.pow(10, t - max));
+  const total = terms.reduce((sum, t) => sum + t, 0);
+  return terms.map((t) => t / total);
+}
+
+function meanCharge(system: AcidBaseSystem, pH: number): number {
+  return speciesFractions(system, pH).reduce(
+    (sum, fraction, i) => sum + fraction * (system.charge - i),
+    0,
+  );
+}
+
+// Total analytical concentration of every acid-base system in the solution
+function systemConcentrations(input: SolutionInput): Map<string, number> {
+  const totals = new Map<string, number>();
+  if (input.volumeL <= 0) return totals;
+
+  input.components.forEach((component) => {
+    const composition = reagentCompositions[component.id];
+    if (!composition) return;
+
+    composition.constituents.forEach(({ system, ratio }) => {
+      const concentration = (component.moles * ratio) / input.volumeL;
+      totals.set(system, (totals.get(system) || 0) + concentration);
+    });
+  });
+
+  return totals;
+}
+
+// Solve the charge balance
+//   [H⁺] - [OH⁻] + Σ C_j · (mean charge of system j) = 0
+// for [H⁺]. The left-hand side falls monotonically with pH, so bisection
+// on pH is robust for any mixture of strong and weak acids and bases.
+export function solveSolution(input: SolutionInput): SolutionState {
+  const kw = waterConstant(input.temperatureC);
+  const totals = systemConcentrations(input);
+  const systems = Array.from(totals.entries()).map(([id, total]) => ({
+    system: systemAtTemperature(acidBaseSystems[id], input.temperatureC),
+    total,
+  }));
+
+  const chargeBalance = (pH: number) => {
+    const h = Math.pow(10, -pH);
+    return systems.reduce(
+      (sum, { system, total }) => sum + total * meanCharge(system, pH),
+      h - kw / h,
+    );
+  };
+
+  let low = -2;
+  let high = 16;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (chargeBalance(mid) > 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const pH = (low + high) / 2;
+  const h = Math.pow(10, -pH);
+  const oh = kw / h;
+
+  const species: SpeciesConcentration[] = [
+    { label: "H⁺", charge: 1, concentration: h },
+    { label: "OH⁻", charge: -1, concentration: oh },
+  ];
+  systems.forEach(({ system, total }) => {
+    speciesFractions(system, pH).forEach((fraction, i) => {
+      species.push({
+        label: system.forms[i],
+        charge: system.charge - i,
+        concentration: total * fraction,
+      });
+    });
+  });
+
+  const ionicStrength =
+    0.5 *
+    species.reduce((sum, s) => sum + s.concentration * s.charge * s.charge, 0);
+
+  return {
+    volumeL: input.volumeL,
+    temperatureC: input.temperatureC,
+    h,
+    oh,
+    pH,
+    pOH: -Math.log10(kw) - pH,
+    ionicStrength,
+    species,
+    components: input.components.map((c) => ({
+      ...c,
+      concentration: input.volumeL > 0 ? c.moles / input.volumeL : 0,
+    })),
+  };
+}
+
+// Build solver input from the chemicals in a workbench container. Portions
+// of the same reagent are pooled; reagents without a molar concentration
+// (indicators, solids, water) only contribute volume.
+export function solveContainer(
+  chemicals: ContainerChemical[],
+  temperatureC = 25,
+): SolutionState {
+  const volumeL = chemicals.reduce((sum, c) => sum + c.amount, 0) / 1000;
+  const moles = new Map<string, number>();
+
+  const add = (id: string, n: number) =>
+    moles.set(id, (moles.get(id) || 0) + n);
+
+  chemicals.forEach((chemical) => {
+    const molarity = parseMolarity(chemical.concentration);
+    if (molarity === null) return;
+    const n = (molarity * chemical.amount) / 1000;
+    // Two carbonated hydroxides are one Na₂CO₃
+    const carbonate = chemical.carbonate ?? 0;
+    add(chemical.id, n * (1 - carbonate));
+    if (carbonate > 0) add(CARBONATE_REAGENT, (n * carbonate) / 2);
+  });
+
+  return solveSolution({
+    components: Array.from(moles.entries()).map(([id, n]) => ({
+      id,
+      moles: n,
+    })),
+    volumeL,
+    temperatureC,
+  });
+}
@@ -0,0 +1,126 @@
+import { fitLine, type LineFit } from "./regression";
+import { derivativeAnalysis, type TitrationPoint } from "./titration";
+
+// Gran plots: functions of the pH readings that fall linearly to zero at
+// the equivalence volume before it, and rise linearly from zero after it.
+// For an acid titrated with base:
+//   strong acid, before: (V₀ + V)·10^(-pH)  ∝ Ve - V
+//   weak acid, before:    V·10^(-pH)         = Ka·(Ve - V)
+//   after (excess OH⁻):   (V₀ + V)·10^(pH - pKw) ∝ V - Ve
+// and the mirror images for a base titrated with acid.
+
+export interface GranBranch {
+  // Gran function scaled to 1 at its largest fitted reading
+  points: Array<{ volume: number; value: number }>;
+  fit: LineFit;
+  // Where the fitted line reaches zero
+  equivalenceVolume: number | null;
+}
+
+export interface GranAnalysis {
+  before: GranBranch | null;
+  after: GranBranch | null;
+  // The pre-equivalence extrapolation, or the post-equivalence one when
+  // there are too few readings before the endpoint
+  equivalenceVolume: number | null;
+  // pKa of the weak acid (or of the weak base's conjugate acid) from the
+  // slope of the pre-equivalence line
+  pKa: number | null;
+}
+
+// Fractions of the rough endpoint volume where each branch is linear:
+// early weak-acid readings still dissociate, and near the endpoint the
+// water and the conjugate base blur both lines
+const BEFORE_REGION = [0.1, 0.9];
+const AFTER_START = 1.1;
+const MIN_LINE_POINTS = 3;
+const PKW = 14;
+
+function branch(
+  readings: Array<{ volume: number; value: number }>,
+  falling: boolean,
+): (GranBranch & { scale: number }) | null {
+  if (readings.length < MIN_LINE_POINTS) return null;
+  const scale = Math.max(...readings.map((p) => p.value));
+  if (!(scale > 0)) return null;
+  const points = readings.map((p) => ({
+    volume: p.volume,
+    value: p.value / scale,
+  }));
+  const { fit } = fitLine(points);
+  const rightWay = falling ? fit.slope < 0 : fit.slope > 0;
+  const crossing = rightWay ? -fit.intercept / fit.slope : null;
+  return {
+    points,
+    fit,
+    equivalenceVolume: crossing !== null && crossing > 0 ? crossing : null,
+    scale,
+  };
+}
+
+// Gran analysis of the recorded pH readings for a monoprotic analyte.
+// The rough endpoint from the derivative picks which readings belong to
+// each branch; the lines then extrapolate the equivalence volume.
+export function granAnalysis(
+  curve: TitrationPoint[],
+  sampleVolume: number, // mL in the flask before any titrant
+  weak: boolean,
+): GranAnalysis | null {
+  const readings = [...curve].sort((a, b) => a.volume - b.volume);
+  if (readings.length < 2 * MIN_LINE_POINTS || sampleVolume <= 0) return null;
+  const rough = derivativeAnalysis(readings).equivalenceVolume;
+  if (rough === null) return null;
+  // pH rises when the analyte is an acid titrated with base
+  const rising = readings[readings.length - 1].pH > readings[0].pH;
+  const sign = rising ? 1 : -1;
+
+  const before = branch(
+    readings
+      .filter(
+        (p) =>
+          p.volume >= BEFORE_REGION[0] * rough &&
+          p.volume <= BEFORE_REGION[1] * rough,
+      )
+      .map((p) => ({
+        volume: p.volume,
+        value:
+          (weak ? p.volume : sampleVolume + p.volume) *
+          Math.pow(10, rising ? -p.pH : p.pH - PKW),
+      })),
+    true,
+  );
+  const after = branch(
+    readings
+      .filter((p) => p.volume >= AFTER_START * rough)
+      .map((p) => ({
+        volume: p.volume,
+        value:
+          (sampleVolume + p.volume) *
+          Math.pow(10, sign * p.pH - (rising ? PKW : 0)),
+      })),
+    false,
+  );
+
+  // Weak acid: slope = -Ka. Weak base: V·[OH⁻] = Kb·(Ve - V), slope = -Kb.
+  const constant = before && weak ? -before.fit.slope * before.scale : null;
+  const pKa =
+    constant !== null && constant > 0
+      ? rising
+        ? -Math.log10(constant)
+        : PKW + Math.log10(constant)
+      : null;
+
+  const strip = (b: typeof before): GranBranch | null =>
+    b && {
+      points: b.points,
+      fit: b.fit,
+      equivalenceVolume: b.equivalenceVolume,
+    };
+  return {
+    before: strip(before),
+    after: strip(after),
+    equivalenceVolume:
+      before?.equivalenceVolume ?? after?.equivalenceVolume ?? null,
+    pKa,
+  };
+}
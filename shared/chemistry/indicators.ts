@@ -0,0 +1,192 @@
+import { speciesFractions } from "./equilibrium";
+
+// Acid-base indicators, keyed by the reagent id used on the workbench.
+//
+// An indicator is a weak acid whose protonation states have different
+// colours. `pKIn` lists the successive pKIn values and `colors` the colour of
+// each form, from the most protonated one ("transparent" = colourless).
+export interface Indicator {
+  id: string;
+  name: string;
+  pKIn: number[];
+  colors: string[];
+  // pH intervals over which the visible colour changes happen
+  transitions: Array<[number, number]>;
+  // Concentration of the dropping-bottle solution, mol/L
+  stockConcentration: number;
+  // Molar absorptivity of the coloured forms, L mol⁻¹ cm⁻¹
+  absorptivity: number;
+}
+
+export const indicators: Record<string, Indicator> = {
+  thymol_blue: {
+    id: "thymol_blue",
+    name: "Thymol Blue",
+    pKIn: [1.65, 8.9],
+    colors: ["#DC143C", "#FFD700", "#1E40AF"],
+    transitions: [
+      [1.2, 2.8],
+      [8.0, 9.6],
+    ],
+    stockConcentration: 0.00086, // 0.04% w/v
+    absorptivity: 30000,
+  },
+  methyl_orange: {
+    id: "methyl_orange",
+    name: "Methyl Orange",
+    pKIn: [3.47],
+    colors: ["#FF2400", "#FFC300"],
+    transitions: [[3.1, 4.4]],
+    stockConcentration: 0.0031, // 0.1% w/v
+    absorptivity: 27000,
+  },
+  methyl_red: {
+    id: "methyl_red",
+    name: "Methyl Red",
+    pKIn: [5.0],
+    colors: ["#DC143C", "#FFD700"],
+    transitions: [[4.4, 6.2]],
+    stockConcentration: 0.0037, // 0.1% w/v
+    absorptivity: 40000,
+  },
+  bromothymol_blue: {
+    id: "bromothymol_blue",
+    name: "Bromothymol Blue",
+    pKIn: [7.1],
+    colors: ["#FFD700", "#1E90FF"],
+    transitions: [[6.0, 7.6]],
+    stockConcentration: 0.00064, // 0.04% w/v
+    absorptivity: 38000,
+  },
+  phenol: {
+    id: "phenol",
+    name: "Phenolphthalein",
+    pKIn: [9.4],
+    colors: ["transparent", "#FF1493"],
+    transitions: [[8.2, 10.0]],
+    stockConcentration: 0.0157, // 0.5% w/v
+    absorptivity: 30000,
+  },
+  // A blend of dyes that changes gradually across the whole scale, so it
+  // shows the pH but marks no sharp endpoint
+  universal: {
+    id: "universal",
+    name: "Universal Indicator",
+    pKIn: [3.5, 5.0, 6.5, 7.5, 9.0, 10.5],
+    colors: [
+      "#E3170A",
+      "#FF8C00",
+      "#FFD700",
+      "#32CD32",
+      "#1E90FF",
+      "#4B0082",
+      "#8B00FF",
+    ],
+    transitions: [],
+    stockConcentration: 0.001,
+    absorptivity: 20000,
+  },
+};
+
+// Whether the indicator changes colour somewhere between two pH values
+export function changesBetween(
+  indicator: Indicator,
+  pH1: number,
+  pH2: number,
+): boolean {
+  const lower = Math.min(pH1, pH2);
+  const upper = Math.max(pH1, pH2);
+  return indicator.transitions.some(
+    ([low, high]) => Math.max(low, lower) <= Math.min(high, upper),
+  );
+}
+
+function formFractions(indicator: Indicator, pH: number): number[] {
+  return speciesFractions(
+    {
+      id: indicator.id,
+      charge: 0,
+      pKa: indicator.pKIn,
+      forms: indicator.colors,
+    },
+    pH,
+  );
+}
+
+// Index of the form that dominates at this pH; it changes when the
+// indicator changes colour
+export function dominantForm(indicator: Indicator, pH: number): number {
+  const fractions = formFractions(indicator, pH);
+  return fractions.indexOf(Math.max(...fractions));
+}
+
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const CLEAR: RGBA = { r: 255, g: 255, b: 255, a: 0 };
+
+// "#RRGGBB" → RGBA; anything else ("transparent") is colourless
+export function parseColor(color: string): RGBA {
+  const match = color.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return CLEAR;
+  return {
+    r: parseInt(match[1], 16),
+    g: parseInt(match[2], 16),
+    b: parseInt(match[3], 16),
+    a: 1,
+  };
+}
+
+// Colour an indicator gives the solution: the coloured forms are averaged by
+// abundance and their total absorbance (Beer-Lambert) sets the opacity, so
+// a dilute indicator only tints while a concentrated one saturates.
+export function indicatorColor(
+  indicator: Indicator,
+  pH: number,
+  concentration: number,
+  pathLengthCm = 1,
+): RGBA {
+  let absorbance = 0;
+  const mix = { r: 0, g: 0, b: 0 };
+  formFractions(indicator, pH).forEach((fraction, i) => {
+    const color = parseColor(indicator.colors[i]);
+    if (color.a === 0) return;
+    const a = indicator.absorptivity * concentration * fraction * pathLengthCm;
+    mix.r += color.r * a;
+    mix.g += color.g * a;
+    mix.b += color.b * a;
+    absorbance += a;
+  });
+
+  if (absorbance === 0) return CLEAR;
+  return {
+    r: mix.r / absorbance,
+    g: mix.g / absorbance,
+    b: mix.b / absorbance,
+    a: 1 - Math.pow(10, -absorbance),
+  };
+}
+
+// Composite `top` over `bottom`
+export function blendColors(bottom: RGBA, top: RGBA): RGBA {
+  const a = top.a + bottom.a * (1 - top.a);
+  if (a === 0) return CLEAR;
+  const channel = (t: number, b: number) =>
+    (t * top.a + b * bottom.a * (1 - top.a)) / a;
+  return {
+    r: channel(top.r, bottom.r),
+    g: channel(top.g, bottom.g),
+    b: channel(top.b, bottom.b),
+    a,
+  };
+}
+
+export function toCss({ r, g, b, a }: RGBA): string {
+  if (a === 0) return "transparent";
+  const rgb = [r, g, b].map(Math.round).join(", ");
+  return a >= 1 ? `rgb(${rgb})` : `rgba(${rgb}, ${a.toFixed(3)})`;
+}
@@ -0,0 +1,137 @@
+import { NERNST_SLOPE } from "./redox";
+
+// Glass electrode against its internal reference. The cell potential falls
+// by one Nernst slope per pH unit, E = E₇ − s·(pH − 7), and the meter turns
+// it back into pH with whatever slope and offset it was calibrated to.
+export const NERNSTIAN_SLOPE_MV = NERNST_SLOPE * 1000; // mV per pH at 25 °C
+
+// Standard buffers at 25 °C the electrode is calibrated against
+export const CALIBRATION_BUFFERS = [
+  { id: "buffer_4", name: "pH 4.01 (phthalate)", pH: 4.01 },
+  { id: "buffer_7", name: "pH 7.00 (phosphate)", pH: 7.0 },
+  { id: "buffer_10", name: "pH 10.01 (carbonate)", pH: 10.01 },
+];
+
+// What a real electrode does, unknown to the student until calibrated
+export interface Electrode {
+  slope: number; // mV per pH; a little under Nernstian as the glass ages
+  offset: number; // mV at pH 7 (asymmetry potential)
+  drift: number; // mV per minute the offset wanders by
+  noise: number; // mV, standard deviation of one reading
+  createdAt: number; // ms timestamp the drift is counted from
+}
+
+// What the meter believes about the electrode
+export interface Calibration {
+  slope: number; // mV per pH
+  offset: number; // mV at pH 7
+  points: Array<{ pH: number; millivolts: number }>;
+  calibratedAt: number | null; // ms timestamp, null for factory settings
+}
+
+// Factory settings: an ideal Nernstian electrode with no offset
+export const UNCALIBRATED: Calibration = {
+  slope: NERNSTIAN_SLOPE_MV,
+  offset: 0,
+  points: [],
+  calibratedAt: null,
+};
+
+// Standard normal deviate (Box-Muller)
+function gaussian(random: () => number): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// A fresh electrode out of its storage solution: 94-99% of the Nernst
+// slope, up to ±20 mV of asymmetry and a slow drift either way
+export function createElectrode(
+  now = Date.now(),
+  random: () => number = Math.random,
+): Electrode {
+  return {
+    slope: NERNSTIAN_SLOPE_MV * (0.94 + 0.05 * random()),
+    offset: (random() - 0.5) * 40,
+    drift: (random() < 0.5 ? -1 : 1) * (0.05 + 0.25 * random()),
+    noise: 0.2,
+    createdAt: now,
+  };
+}
+
+// Cell potential in a solution of this pH, with drift and reading noise
+export function electrodeMillivolts(
+  electrode: Electrode,
+  pH: number,
+  now = Date.now(),
+  random: () => number = Math.random,
+): number {
+  const minutes = Math.max(0, now - electrode.createdAt) / 60000;
+  return (
+    electrode.offset +
+    electrode.drift * minutes -
+    electrode.slope * (pH - 7) +
+    electrode.noise * gaussian(random)
+  );
+}
+
+// pH the meter displays for a cell potential
+export function meterPH(calibration: Calibration, millivolts: number): number {
+  return 7 - (millivolts - calibration.offset) / calibration.slope;
+}
+
+// Meter reading in a solution of this pH: what a titration logs
+export function meterReading(
+  electrode: Electrode,
+  calibration: Calibration,
+  pH: number,
+  now = Date.now(),
+  random: () => number = Math.random,
+): number {
+  return meterPH(calibration, electrodeMillivolts(electrode, pH, now, random));
+}
+
+// Least-squares line through the buffer readings. Two buffers fix slope
+// and offset exactly; a third shows how linear the electrode is.
+export function calibrate(
+  points: Calibration["points"],
+  now = Date.now(),
+): Calibration | null {
+  if (points.length < 2) return null;
+  const n = points.length;
+  const meanPH = points.reduce((sum, p) => sum + p.pH, 0) / n;
+  const meanMV = points.reduce((sum, p) => sum + p.millivolts, 0) / n;
+  const sxx = points.reduce((sum, p) => sum + (p.pH - meanPH) ** 2, 0);
+  if (sxx === 0) return null;
+  const sxy = points.reduce(
+    (sum, p) => sum + (p.pH - meanPH) * (p.millivolts - meanMV),
+    0,
+  );
+  const slope = -sxy / sxx;
+  return {
+    slope,
+    offset: meanMV + slope * (meanPH - 7),
+    points,
+    calibratedAt: now,
+  };
+}
+
+// Slope as a percentage of Nernstian, the figure a meter reports after
+// calibrating. A healthy electrode gives 95-102%.
+export function slopeEfficiency(calibration: Calibration): number {
+  return (calibration.slope / NERNSTIAN_SLOPE_MV) * 100;
+}
+
+// Why the meter should not be trusted yet, if it shouldn't
+export function calibrationProblem(calibration: Calibration): string | null {
+  if (calibration.calibratedAt === null) {
+    return "Not calibrated - readings may be several tenths of a pH unit out.";
+  }
+  const efficiency = slopeEfficiency(calibration);
+  if (efficiency < 90 || efficiency > 105) {
+    return `Slope ${efficiency.toFixed(1)}% is outside 90-105% - recalibrate with fresh buffers.`;
+  }
+  if (Math.abs(calibration.offset) > 30) {
+    return `Offset ${calibration.offset.toFixed(1)} mV is over ±30 mV - check the electrode.`;
+  }
+  return null;
+}
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  analyzePrecipitationTitration,
+  precipitationSignal,
+  solvePrecipitation,
+} from "./precipitation";
+import { mixTitrant } from "./titration";
+
+// 25 mL of 0.05 M NaCl titrated with 0.05 M AgNO₃: equivalence at 25 mL
+const chloride = [{ id: "nacl", amount: 25, concentration: "0.05 M" }];
+const silver = { id: "agno3", concentration: "0.05 M" };
+// The same flask with 1 mL of 0.25 M K₂CrO₄ for the Mohr endpoint
+const mohr = [
+  ...chloride,
+  { id: "k2cro4", amount: 1, concentration: "0.25 M" },
+];
+
+const pAgAt = (volume: number) =>
+  solvePrecipitation(mixTitrant(chloride, silver, volume))!.pAg;
+
+describe("analyzePrecipitationTitration", () => {
+  it("finds only the chloride break in a Mohr titration", () => {
+    const { equivalencePoints } = analyzePrecipitationTitration(
+      mohr,
+      silver,
+      [],
+    );
+    assert.equal(equivalencePoints.length, 1);
+    assert.ok(Math.abs(equivalencePoints[0].volume - 25) < 0.1);
+  });
+
+  it("finds the thiocyanate break when silver is titrated", () => {
+    // 20 mL of 0.05 M AgNO₃ with 0.04 M KSCN: equivalence at 25 mL
+    const { equivalencePoints } = analyzePrecipitationTitration(
+      [{ id: "agno3", amount: 20, concentration: "0.05 M" }],
+      { id: "kscn", concentration: "0.04 M" },
+      [],
+    );
+    assert.equal(equivalencePoints.length, 1);
+    assert.ok(Math.abs(equivalencePoints[0].volume - 25) < 0.1);
+  });
+});
+
+describe("chloride with silver nitrate", () => {
+  it("follows the chloride left before equivalence", () => {
+    // Half the chloride left in 37.5 mL: [Cl⁻] = 0.0167 M, so
+    // pAg = pKsp − pCl = 9.74 − 1.78
+    assert.ok(Math.abs(pAgAt(12.5) - 7.97) < 0.02);
+  });
+
+  it("reads pAg = ½ pKsp of AgCl at equivalence", () => {
+    assert.ok(Math.abs(pAgAt(25) - 4.87) < 0.02);
+  });
+
+  it("follows the silver in excess after equivalence", () => {
+    // 0.5 mmol of Ag⁺ over in 60 mL: pAg = −log 0.00833
+    assert.ok(Math.abs(pAgAt(35) - 2.08) < 0.02);
+  });
+
+  it("shows red-brown Ag₂CrO₄ just past equivalence", () => {
+    const signal = (volume: number) =>
+      precipitationSignal(mixTitrant(mohr, silver, volume))!.visible;
+    assert.equal(signal(24.8), false);
+    assert.equal(signal(25.3), true);
+  });
+});
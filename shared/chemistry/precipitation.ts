@@ -0,0 +1,385 @@
+import {
+  solveContainer,
+  speciesFractions,
+  type ContainerChemical,
+} from "./equilibrium";
+import { blendColors, parseColor, type RGBA } from "./indicators";
+import { findReaction } from "./reactions";
+import { acidBaseSystems, parseMolarity, reagentCompositions } from "./species";
+import {
+  equivalencePoints,
+  mixTitrant,
+  type TitrantSpec,
+  type TitrationAnalysis,
+  type TitrationPoint,
+} from "./titration";
+
+export const AGNO3_ID = "agno3";
+export const KSCN_ID = "kscn";
+export const CHLORIDE_MOLAR_MASS = 35.45; // g/mol
+
+// Sparingly soluble silver salts AgₙX, keyed by id. `anion` is the
+// acid-base system of X and `silver` the n in Ksp = [Ag⁺]ⁿ[X].
+// `tint` is how strongly the solid colours a mixed precipitate.
+export interface SilverSalt {
+  id: string;
+  formula: string;
+  anion: string;
+  silver: number;
+  ksp: number;
+  color: string;
+  tint: number;
+}
+
+export const silverSalts: Record<string, SilverSalt> = {
+  agcl: {
+    id: "agcl",
+    formula: "AgCl",
+    anion: "chloride",
+    silver: 1,
+    ksp: 1.8e-10,
+    color: "#F5F5F5",
+    tint: 1,
+  },
+  agscn: {
+    id: "agscn",
+    formula: "AgSCN",
+    anion: "thiocyanate",
+    silver: 1,
+    ksp: 1.1e-12,
+    color: "#FAFAF0",
+    tint: 1,
+  },
+  ag2cro4: {
+    id: "ag2cro4",
+    formula: "Ag₂CrO₄",
+    anion: "chromate",
+    silver: 2,
+    ksp: 1.1e-12,
+    color: "#9C3B1B",
+    tint: 500,
+  },
+};
+
+// Nitrobenzene shaken into a Volhard flask coats the AgCl, so thiocyanate
+// can't convert it to the less soluble AgSCN and fade the endpoint
+export const NITROBENZENE_ID = "nitrobenzene";
+
+// Fe³⁺ + SCN⁻ ⇌ FeSCN²⁺, the blood-red Volhard indicator complex
+const FESCN_LOG_KF = 2.14;
+const FESCN = { color: "#8B0000", absorptivity: 4700 };
+// Chromate is yellow long before any Ag₂CrO₄ forms
+const CHROMATE = { color: "#F2C500", absorptivity: 50 };
+// Least absorbance the eye picks up against a white tile
+const VISIBLE_ABSORBANCE = 0.02;
+// Ag₂CrO₄ the eye picks out against the white AgCl, mol per litre of
+// solution; this sets the small positive indicator error of the Mohr method
+const VISIBLE_CHROMATE_SOLID = 1e-5;
+
+// Endpoint indicators that take up silver or thiocyanate of their own
+const INDICATOR_IDS = ["k2cro4", "fe_alum"];
+
+// Reagents coloured by the species they form rather than their bottle
+export function isPrecipitationChemical(id: string): boolean {
+  return [...INDICATOR_IDS, NITROBENZENE_ID].includes(id);
+}
+
+export interface PrecipitationState {
+  pH: number;
+  volumeL: number;
+  silver: number; // mol/L of free Ag⁺
+  pAg: number;
+  // Solids formed, as mol of salt per litre of solution
+  solids: Array<{ salt: SilverSalt; amount: number }>;
+  chromate: number; // mol/L of CrO₄²⁻
+  ferricThiocyanate: number; // mol/L of FeSCN²⁺
+}
+
+// Mol/L of each acid-base system the chemicals bring in
+function systemTotals(chemicals: ContainerChemical[], volumeL: number) {
+  const totals = new Map<string, number>();
+  chemicals.forEach((chemical) => {
+    const molarity = parseMolarity(chemical.concentration);
+    if (molarity === null) return;
+    reagentCompositions[chemical.id]?.constituents.forEach(
+      ({ system, ratio }) => {
+        const moles = (molarity * chemical.amount * ratio) / 1000;
+        totals.set(system, (totals.get(system) ?? 0) + moles / volumeL);
+      },
+    );
+  });
+  return totals;
+}
+
+interface SaltBalance {
+  salt: SilverSalt;
+  total: number; // mol/L of the anion, all forms
+  // Share of the dissolved anion free to precipitate: CrO₄²⁻ loses out to
+  // HCrO₄⁻ in acid, SCN⁻ to FeSCN²⁺ when iron(III) is present
+  free: number;
+}
+
+// Free Ag⁺ that meets the silver mass balance
+// Ag⁺ + Σ n·solid(Ag⁺) = C(Ag). A salt only comes out of solution once the
+// anion exceeds Ksp/[Ag⁺]ⁿ, so the left side rises with Ag⁺ and the
+// balance can be bisected on log[Ag⁺].
+function shareSilver(
+  silverTotal: number,
+  balances: SaltBalance[],
+): { silver: number; solids: number[] } {
+  const solidsAt = (silver: number) =>
+    balances.map(({ salt, total, free }) =>
+      Math.max(0, total - salt.ksp / (Math.pow(silver, salt.silver) * free)),
+    );
+  if (silverTotal <= 0) return { silver: 0, solids: balances.map(() => 0) };
+
+  const excess = (logAg: number) => {
+    const silver = Math.pow(10, logAg);
+    return (
+      solidsAt(silver).reduce(
+        (sum, solid, i) => sum + balances[i].salt.silver * solid,
+        silver,
+      ) - silverTotal
+    );
+  };
+  let low = -30;
+  let high = Math.log10(silverTotal);
+  for (let i = 0; i < 80; i++) {
+    const mid = (low + high) / 2;
+    if (excess(mid) < 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  const silver = Math.pow(10, (low + high) / 2);
+  return { silver, solids: solidsAt(silver) };
+}
+
+// Share out the silver between the anions it precipitates. The pH comes
+// from the acid-base solver, and Fe³⁺ is in large excess over SCN⁻ so its
+// free concentration is taken as its total.
+export function solvePrecipitation(
+  chemicals: ContainerChemical[],
+): PrecipitationState | null {
+  const { pH, volumeL } = solveContainer(chemicals);
+  if (volumeL <= 0) return null;
+  const totals = systemTotals(chemicals, volumeL);
+  const silverTotal = totals.get("silver") ?? 0;
+  if (silverTotal <= 0) return null;
+
+  const chromateFractions = speciesFractions(acidBaseSystems.chromate, pH);
+  const alphaChromate = chromateFractions[chromateFractions.length - 1];
+  const ferric = totals.get("ferric") ?? 0;
+  const thiocyanateShare = 1 / (1 + Math.pow(10, FESCN_LOG_KF) * ferric);
+  const freeShare: Record<string, number> = {
+    chromate: alphaChromate,
+    thiocyanate: thiocyanateShare,
+  };
+  const balances: SaltBalance[] = Object.values(silverSalts)
+    .filter((salt) => (totals.get(salt.anion) ?? 0) > 0)
+    .map((salt) => ({
+      salt,
+      total: totals.get(salt.anion)!,
+      free: freeShare[salt.anion] ?? 1,
+    }));
+
+  // Coated AgCl is out of play: precipitate it on its own first, then let
+  // the rest of the silver meet the other anions
+  let coated = 0;
+  let remaining = balances;
+  let silverLeft = silverTotal;
+  const chloride = balances.find(({ salt }) => salt.id === "agcl");
+  if (chloride && chemicals.some((c) => c.id === NITROBENZENE_ID)) {
+    coated = shareSilver(silverTotal, [chloride]).solids[0];
+    silverLeft -= coated;
+    remaining = balances.map((balance) =>
+      balance === chloride
+        ? { ...balance, total: balance.total - coated }
+        : balance,
+    );
+  }
+
+  const { silver, solids } = shareSilver(silverLeft, remaining);
+  const dissolved = (anion: string) => {
+    const index = remaining.findIndex(({ salt }) => salt.anion === anion);
+    return index < 0 ? 0 : remaining[index].total - solids[index];
+  };
+  const thiocyanate = dissolved("thiocyanate") * thiocyanateShare;
+
+  return {
+    pH,
+    volumeL,
+    silver,
+    pAg: -Math.log10(silver),
+    solids: remaining
+      .map(({ salt }, i) => ({
+        salt,
+        amount: solids[i] + (salt.id === "agcl" ? coated : 0),
+      }))
+      .filter(({ amount }) => amount > 0),
+    chromate: dissolved("chromate") * alphaChromate,
+    ferricThiocyanate: Math.pow(10, FESCN_LOG_KF) * ferric * thiocyanate,
+  };
+}
+
+// Free chromate and FeSCN²⁺ also occur without any silver present
+function solubleSpecies(chemicals: ContainerChemical[]) {
+  const state = solvePrecipitation(chemicals);
+  if (state) return state;
+  const { pH, volumeL } = solveContainer(chemicals);
+  if (volumeL <= 0) return null;
+  const totals = systemTotals(chemicals, volumeL);
+  const fractions = speciesFractions(acidBaseSystems.chromate, pH);
+  const ferric = totals.get("ferric") ?? 0;
+  const thiocyanate = totals.get("thiocyanate") ?? 0;
+  return {
+    chromate: (totals.get("chromate") ?? 0) * fractions[fractions.length - 1],
+    ferricThiocyanate:
+      (thiocyanate * Math.pow(10, FESCN_LOG_KF) * ferric) /
+      (1 + Math.pow(10, FESCN_LOG_KF) * ferric),
+  };
+}
+
+// Colour of the solution itself (Beer-Lambert): yellow chromate in a Mohr
+// flask, red FeSCN²⁺ once a Volhard titration passes its endpoint
+export function precipitationColor(
+  chemicals: ContainerChemical[],
+  pathLengthCm = 1,
+): RGBA {
+  const species = solubleSpecies(chemicals);
+  if (!species) return parseColor("transparent");
+  return [
+    { ...CHROMATE, concentration: species.chromate },
+    { ...FESCN, concentration: species.ferricThiocyanate },
+  ].reduce(
+    (color, { color: hex, absorptivity, concentration }) =>
+      blendColors(color, {
+        ...parseColor(hex),
+        a: 1 - Math.pow(10, -absorptivity * concentration * pathLengthCm),
+      }),
+    parseColor("transparent"),
+  );
+}
+
+// All the solid in a container, for drawing it: the colours are averaged
+// by amount and tint, so a trace of Ag₂CrO₄ shows on a mass of white AgCl
+export function precipitate(
+  chemicals: ContainerChemical[],
+): { color: RGBA; moles: number } | null {
+  const state = solvePrecipitation(chemicals);
+  if (!state || state.solids.length === 0) return null;
+  const weight = state.solids.reduce(
+    (sum, { salt, amount }) => sum + salt.tint * amount,
+    0,
+  );
+  const color = { r: 0, g: 0, b: 0, a: 1 };
+  state.solids.forEach(({ salt, amount }) => {
+    const share = (salt.tint * amount) / weight;
+    const { r, g, b } = parseColor(salt.color);
+    color.r += r * share;
+    color.g += g * share;
+    color.b += b * share;
+  });
+  const moles = state.solids.reduce(
+    (sum, { amount }) => sum + amount * state.volumeL,
+    0,
+  );
+  return { color, moles };
+}
+
+// The colour that marks the endpoint, and whether it shows: red-brown
+// Ag₂CrO₄ on the white AgCl (Mohr) or red FeSCN²⁺ in solution (Volhard)
+export function precipitationSignal(
+  chemicals: ContainerChemical[],
+  pathLengthCm = 1,
+): { name: string; visible: boolean } | null {
+  if (chemicals.some((c) => c.id === "k2cro4")) {
+    const solid = solvePrecipitation(chemicals)?.solids.find(
+      ({ salt }) => salt.id === "ag2cro4",
+    );
+    return {
+      name: "Potassium chromate (Mohr)",
+      visible: (solid?.amount ?? 0) >= VISIBLE_CHROMATE_SOLID,
+    };
+  }
+  if (chemicals.some((c) => c.id === "fe_alum")) {
+    const species = solubleSpecies(chemicals);
+    const absorbance =
+      FESCN.absorptivity * (species?.ferricThiocyanate ?? 0) * pathLengthCm;
+    return {
+      name: "Iron(III) alum (Volhard)",
+      visible: absorbance >= VISIBLE_ABSORBANCE,
+    };
+  }
+  return null;
+}
+
+export interface PrecipitationTitration {
+  salt: SilverSalt;
+  equation: string;
+}
+
+// Silver nitrate against a sample holding an anion it precipitates, or
+// thiocyanate against silver left in the flask (Volhard), as registered
+export function findPrecipitationTitration(
+  analyteId: string,
+  titrantId: string,
+): PrecipitationTitration | null {
+  if (titrantId !== AGNO3_ID && titrantId !== KSCN_ID) return null;
+  const reaction = findReaction(analyteId, titrantId, "precipitation");
+  const salt = Object.values(silverSalts).find(
+    ({ formula }) => formula === reaction?.effects.precipitate,
+  );
+  return reaction && salt ? { salt, equation: reaction.netIonic } : null;
+}
+
+export const precipitationIndicators = {
+  mohr: "2Ag⁺ + CrO₄²⁻ → Ag₂CrO₄(s) (red-brown)",
+  volhard: "Fe³⁺ + SCN⁻ → FeSCN²⁺ (blood red)",
+};
+
+// Ideal pAg-vs-volume curve, sampled every `step` mL. Points before any
+// silver is in the flask have no pAg and are left out.
+export function precipitationCurve(
+  analyte: ContainerChemical[],
+  titrant: TitrantSpec,
+  maxVolume = 50,
+  step = 0.05,
+): TitrationPoint[] {
+  const points: TitrationPoint[] = [];
+  for (let i = 0; i * step <= maxVolume + 1e-9; i++) {
+    const volume = i * step;
+    const state = solvePrecipitation(mixTitrant(analyte, titrant, volume));
+    if (!state) continue;
+    points.push({ volume, pH: state.pH, pAg: state.pAg });
+  }
+  return points;
+}
+
+export function analyzePrecipitationTitration(
+  analyte: ContainerChemical[],
+  titrant: TitrantSpec,
+  recorded: TitrationPoint[],
+): TitrationAnalysis {
+  const theoretical = precipitationCurve(analyte, titrant);
+  // Only the halide or thiocyanate breaks count: once the chloride is
+  // gone a Mohr flask's chromate gives a second one as Ag₂CrO₄ forms
+  const sample = analyte.filter((c) => !INDICATOR_IDS.includes(c.id));
+  const detection =
+    sample.length === analyte.length
+      ? theoretical
+      : precipitationCurve(sample, titrant);
+  return {
+    measure: "pAg",
+    recorded,
+    theoretical,
+    equivalencePoints: equivalencePoints(
+      detection,
+      0.5,
+      (point) => point.pAg ?? 0,
+    ),
+    halfEquivalencePoints: [],
+    bufferRegions: [],
+  };
+}
@@ -0,0 +1,157 @@
+// Procedural mistakes at the burette and what they do to a titre. Each one
+// changes the simulation the way it changes a real titration, and the run
+// record lets a trial be diagnosed afterwards.
+import { baseCapacity, carbonateProtons } from "./carbonation";
+
+export type ProceduralMistake =
+  | "unrinsed_burette"
+  | "air_bubble"
+  | "parallax"
+  | "overshoot"
+  | "carbonate_error";
+
+// Distilled water clinging to a washed burette that was filled without
+// first rinsing it with a little titrant
+export const RESIDUAL_WATER = 1.0; // mL
+// Air trapped in the tip below the stopcock after filling; it is swept out
+// by the first titrant run through and the level drops with nothing
+// reaching the flask
+export const TIP_BUBBLE = 0.3; // mL
+// Apparent shift of the meniscus against the scale when it is read from
+// above or below eye level
+export const PARALLAX_OFFSET = 0.1; // mL
+// Titrant past the first lasting colour that still counts as stopping at
+// the endpoint: a drop or two while closing the tap
+export const OVERSHOOT_TOLERANCE = 0.1; // mL
+
+export type EyePosition = "above" | "level" | "below";
+
+// Scale reading the meniscus appears at from each eye position. From above
+// the line of sight meets the scale higher up, where the numbers are
+// smaller; from below it reads larger.
+export function apparentReading(reading: number, eye: EyePosition): number {
+  return eye === "above"
+    ? reading - PARALLAX_OFFSET
+    : eye === "below"
+      ? reading + PARALLAX_OFFSET
+      : reading;
+}
+
+// Fraction of the label concentration left after filling `amount` mL into
+// a burette still wet with water
+export function fillDilution(amount: number, rinsed: boolean): number {
+  return rinsed ? 1 : amount / (amount + RESIDUAL_WATER);
+}
+
+// Titrant strength as a concentration string the solver can read
+export function dilutedConcentration(
+  molarity: number,
+  dilution: number,
+): string {
+  return `${(molarity * dilution).toFixed(5)} M`;
+}
+
+// What happened at the burette between the initial and final readings
+export interface RunRecord {
+  dilution: number; // fraction of the label concentration in the burette
+  airVolume: number; // mL the level fell with nothing delivered
+  eye: { initial: EyePosition; final: EyePosition };
+  delivered: number; // mL of titrant in the flask at the final reading
+  endpoint: number | null; // mL in the flask when the indicator changed
+  endpointPH: number | null; // pH at the indicator change
+  // Fraction of a hydroxide titrant turned to carbonate, now and when its
+  // molarity was standardized (0 when the label value is used)
+  carbonate: { current: number; standardized: number };
+}
+
+export interface Finding {
+  mistake: ProceduralMistake;
+  title: string;
+  effect: number; // mL added to (or taken from) the titre
+  explanation: string;
+}
+
+// Smallest shift worth reporting, well under one burette division
+const NEGLIGIBLE = 0.005; // mL
+
+const signed = (value: number) =>
+  `${value > 0 ? "+" : "−"}${Math.abs(value).toFixed(2)} mL`;
+
+// Mistakes behind a trial's titre and how far each moved it from what a
+// careful run with the same indicator would give
+export function diagnoseRun(run: RunRecord): Finding[] {
+  const findings: Finding[] = [];
+  const reacted = run.endpoint ?? run.delivered;
+
+  if (run.dilution < 1) {
+    const effect = reacted * (1 - run.dilution);
+    findings.push({
+      mistake: "unrinsed_burette",
+      title: "Burette not rinsed with titrant",
+      effect,
+      explanation: `Water left in the burette diluted the titrant to ${(run.dilution * 100).toFixed(1)}% of its label concentration, so ${effect.toFixed(2)} mL more was needed to reach the endpoint. Rinse the burette with a few mL of titrant before filling.`,
+    });
+  }
+
+  if (run.airVolume > NEGLIGIBLE) {
+    findings.push({
+      mistake: "air_bubble",
+      title: "Air bubble in the burette tip",
+      effect: run.airVolume,
+      explanation: `The bubble below the stopcock was swept out during the run: the level fell ${run.airVolume.toFixed(2)} mL with nothing reaching the flask. Run titrant through the tip before taking the initial reading.`,
+    });
+  }
+
+  const parallax =
+    apparentReading(0, run.eye.final) - apparentReading(0, run.eye.initial);
+  if (Math.abs(parallax) > NEGLIGIBLE) {
+    const readings = (["initial", "final"] as const)
+      .filter((kind) => run.eye[kind] !== "level")
+      .map((kind) => `the ${kind} reading from ${run.eye[kind]}`)
+      .join(" and ");
+    findings.push({
+      mistake: "parallax",
+      title: "Meniscus read at an angle",
+      effect: parallax,
+      explanation: `Taking ${readings} the meniscus moved the titre ${signed(parallax)}. Bring your eye level with the bottom of the meniscus for both readings.`,
+    });
+  }
+
+  // Carbonate formed since the molarity was fixed leaves the base weaker
+  // than it is taken to be
+  if (run.endpointPH !== null && run.carbonate.current > 0) {
+    const strength =
+      baseCapacity(run.carbonate.current, run.endpointPH) /
+      baseCapacity(run.carbonate.standardized, run.endpointPH);
+    const effect = reacted * (1 - strength);
+    if (effect > NEGLIGIBLE) {
+      const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+      const since =
+        run.carbonate.standardized > 0
+          ? ` (${percent(run.carbonate.standardized)} when it was standardized)`
+          : "";
+      const protons = carbonateProtons(run.endpointPH);
+      findings.push({
+        mistake: "carbonate_error",
+        title: "Carbonate in the NaOH",
+        effect,
+        explanation: `CO₂ absorbed while the bottle stood open had turned ${percent(run.carbonate.current)} of the hydroxide into carbonate${since}. At the endpoint, pH ${run.endpointPH.toFixed(1)}, each carbonate had taken up ${protons.toFixed(2)} protons where the two hydroxides it replaced took two, so the titrant was ${percent(strength)} as strong as the molarity used and the titre ran ${signed(effect)}, making the result high. Cap the bottle and re-standardize against KHP after it has been left open, or use an indicator changing near pH 4 where carbonate reacts completely.`,
+      });
+    }
+  }
+
+  if (
+    run.endpoint !== null &&
+    run.delivered - run.endpoint > OVERSHOOT_TOLERANCE
+  ) {
+    const effect = run.delivered - run.endpoint;
+    findings.push({
+      mistake: "overshoot",
+      title: "Endpoint overshot",
+      effect,
+      explanation: `The indicator changed at ${run.endpoint.toFixed(2)} mL but titrant kept running to ${run.delivered.toFixed(2)} mL. Close to single drops as the colour starts to linger.`,
+    });
+  }
+
+  return findings;
+}
@@ -0,0 +1,764 @@
+import type { ContainerChemical } from "./equilibrium";
+import { baseReagent, parseMolarity } from "./species";
+
+// Registry of the reactions reagents undergo when mixed in a container,
+// with their stoichiometry, thermodynamics and what the student sees. It
+// holds every family the lab titrates with, and the redox, EDTA and silver
+// modules look their reactions up here. Every K here is large enough for
+// the reaction to run to completion at bench concentrations, so a mix is
+// worked out from the limiting reagent.
+
+export interface ReactionParticipant {
+  id: string; // reagent id, as in the solver
+  coefficient: number;
+  role?: "acid" | "base"; // for neutralizations
+}
+
+export interface ReactionProduct {
+  name: string;
+  formula: string;
+  coefficient: number;
+  state: "aq" | "l" | "s" | "g";
+}
+
+// What mixing the reagents looks like
+export interface ReactionEffects {
+  color?: string; // of the mixture, for reactions that make their own
+  precipitate?: string; // formula of the solid that comes down
+  gas?: string; // formula of the gas given off
+  observation: string;
+}
+
+export type ReactionType =
+  "neutralization" | "precipitation" | "redox" | "complexation";
+
+// How each family is labelled on result cards
+export const reactionTypeNames: Record<ReactionType, string> = {
+  neutralization: "Acid-Base Neutralization",
+  precipitation: "Precipitation",
+  redox: "Redox (Electron Transfer)",
+  complexation: "Complexation",
+};
+
+export interface Reaction {
+  name: string;
+  type: ReactionType;
+  reactants: ReactionParticipant[];
+  products: ReactionProduct[];
+  equation: string;
+  netIonic: string;
+  // One proton transfer per equivalence point for polyprotic species
+  stages?: string[];
+  mechanism: string[];
+  // Per mole of reaction as written: ΔH from standard enthalpies of
+  // formation, K from the pKa and Ksp values the solver uses (Kw =
+  // 1.0×10⁻¹⁴) or the formal potentials of the redox couples, and ΔG =
+  // -RT ln K at 25 °C. K is kept as log₁₀ K, since redox constants
+  // overflow a double when written out.
+  deltaH: number; // kJ/mol
+  deltaG: number; // kJ/mol
+  logK: number;
+  effects: ReactionEffects;
+}
+
+// Keyed by the sorted reactant ids. Strong acid-base pairs come first so
+// that a mix works through them before the weaker partners.
+export const reactions: Record<string, Reaction> = {
+  "hcl+naoh": {
+    name: "Strong Acid - Strong Base Neutralization",
+    type: "neutralization",
+    reactants: [
+      { id: "hcl", coefficient: 1, role: "acid" },
+      { id: "naoh", coefficient: 1, role: "base" },
+    ],
+    products: [
+      { name: "Sodium Chloride", formula: "NaCl", coefficient: 1, state: "aq" },
+      { name: "Water", formula: "H₂O", coefficient: 1, state: "l" },
+    ],
+    equation: "HCl(aq) + NaOH(aq) → NaCl(aq) + H₂O(l)",
+    netIonic: "H⁺ + OH⁻ → H₂O",
+    mechanism: [
+      "HCl and NaOH are both fully ionised in water",
+      "H⁺ and OH⁻ combine to water; Na⁺ and Cl⁻ stay dissolved as spectator ions",
+    ],
+    deltaH: -57.3,
+    deltaG: -79.9,
+    logK: 14.0,
+    effects: {
+      observation:
+        "Equivalence pH 7 - most indicators change in the steep jump",
+    },
+  },
+  "h2so4+naoh": {
+    name: "Diprotic Strong Acid - Strong Base Neutralization",
+    type: "neutralization",
+    reactants: [
+      { id: "h2so4", coefficient: 1, role: "acid" },
+      { id: "naoh", coefficient: 2, role: "base" },
+    ],
+    products: [
+      {
+        name: "Sodium Sulfate",
+        formula: "Na₂SO₄",
+        coefficient: 1,
+        state: "aq",
+      },
+      { name: "Water", formula: "H₂O", coefficient: 2, state: "l" },
+    ],
+    equation: "H₂SO₄(aq) + 2NaOH(aq) → Na₂SO₄(aq) + 2H₂O(l)",
+    netIonic: "H⁺ + HSO₄⁻ + 2OH⁻ → SO₄²⁻ + 2H₂O",
+    stages: ["H₂SO₄ + OH⁻ → HSO₄⁻ + H₂O", "HSO₄⁻ + OH⁻ → SO₄²⁻ + H₂O"],
+    mechanism: [
+      "The first proton of sulfuric acid is fully ionised; HSO₄⁻ keeps the second (pKa 1.99)",
+      "Both are strong enough to be titrated together: one endpoint takes both protons",
+    ],
+    deltaH: -137.0,
+    deltaG: -165.6,
+    logK: 29.01,
+    effects: {
+      observation:
+        "Equivalence pH 7 - one endpoint for both protons, most indicators change in the jump",
+    },
+  },
+  "acetic_acid+naoh": {
+    name: "Weak Acid - Strong Base Neutralization",
+    type: "neutralization",
+    reactants: [
+      { id: "acetic_acid", coefficient: 1, role: "acid" },
+      { id: "naoh", coefficient: 1, role: "base" },
+    ],
+    products: [
+      {
+        name: "Sodium Acetate",
+        formula: "CH₃COONa",
+        coefficient: 1,
+        state: "aq",
+      },
+      { name: "Water", formula: "H₂O", coefficient: 1, state: "l" },
+    ],
+    equation: "CH₃COOH(aq) + NaOH(aq) → CH₃COONa(aq) + H₂O(l)",
+    netIonic: "CH₃COOH + OH⁻ → CH₃COO⁻ + H₂O",
+    mechanism: [
+      "Acetic acid is only partly ionised (Ka = 1.7×10⁻⁵)",
+      "OH⁻ takes the proton from CH₃COOH directly, leaving acetate",
+      "Acetic acid and acetate buffer the solution before equivalence",
+    ],
+    deltaH: -56.1,
+    deltaG: -52.7,
+    logK: 9.23,
+    effects: {
+      observation:
+        "Equivalence pH ≈ 8.7 - phenolphthalein turns pink at the endpoint",
+    },
+  },
+  "hcl+nh3": {
+    name: "Weak Base - Strong Acid Neutralization",
+    type: "neutralization",
+    reactants: [
+      { id: "nh3", coefficient: 1, role: "base" },
+      { id: "hcl", coefficient: 1, role: "acid" },
+    ],
+    products: [
+      {
+        name: "Ammonium Chloride",
+        formula: "NH₄Cl",
+        coefficient: 1,
+        state: "aq",
+      },
+    ],
+    equation: "NH₃(aq) + HCl(aq) → NH₄Cl(aq)",
+    netIonic: "NH₃ + H⁺ → NH₄⁺",
+    mechanism: [
+      "Ammonia is only partly protonated in water (Kb = 1.8×10⁻⁵)",
+      "H⁺ from HCl protonates NH₃ to NH₄⁺",
+      "Ammonia and ammonium buffer the solution before equivalence",
+    ],
+    deltaH: -52.2,
+    deltaG: -52.8,
+    logK: 9.26,
+    effects: {
+      observation:
+        "Equivalence pH ≈ 5.3 - use an indicator that changes below 7",
+    },
+  },
+  "khp+naoh": {
+    name: "KHP Standardization",
+    type: "neutralization",
+    reactants: [
+      { id: "khp", coefficient: 1, role: "acid" },
+      { id: "naoh", coefficient: 1, role: "base" },
+    ],
+    products: [
+      {
+        name: "Potassium Sodium Phthalate",
+        formula: "KNaC₈H₄O₄",
+        coefficient: 1,
+        state: "aq",
+      },
+      { name: "Water", formula: "H₂O", coefficient: 1, state: "l" },
+    ],
+    equation: "KHC₈H₄O₄(aq) + NaOH(aq) → KNaC₈H₄O₄(aq) + H₂O(l)",
+    netIonic: "HC₈H₄O₄⁻ + OH⁻ → C₈H₄O₄²⁻ + H₂O",
+    mechanism: [
+      "Hydrogen phthalate is a weak acid (pKa 5.41) with one proton to give",
+      "OH⁻ removes it, one mole of NaOH per mole of KHP",
+    ],
+    deltaH: -55.5,
+    deltaG: -49.0,
+    logK: 8.59,
+    effects: {
+      observation:
+        "Equivalence pH ≈ 8.5 - phenolphthalein turns pink at the endpoint",
+    },
+  },
+  "h3po4+naoh": {
+    name: "Phosphoric Acid Neutralization",
+    type: "neutralization",
+    reactants: [
+      { id: "h3po4", coefficient: 1, role: "acid" },
+      { id: "naoh", coefficient: 2, role: "base" },
+    ],
+    products: [
+      {
+        name: "Disodium Hydrogen Phosphate",
+        formula: "Na₂HPO₄",
+        coefficient: 1,
+        state: "aq",
+      },
+      { name: "Water", formula: "H₂O", coefficient: 2, state: "l" },
+    ],
+    equation: "H₃PO₄(aq) + 2NaOH(aq) → Na₂HPO₄(aq) + 2H₂O(l)",
+    netIonic: "H₃PO₄ + 2OH⁻ → HPO₄²⁻ + 2H₂O",
+    stages: [
+      "H₃PO₄ + OH⁻ → H₂PO₄⁻ + H₂O",
+      "H₂PO₄⁻ + OH⁻ → HPO₄²⁻ + H₂O",
+      "HPO₄²⁻ + OH⁻ → PO₄³⁻ + H₂O",
+    ],
+    mechanism: [
+      "Phosphoric acid gives up its protons one at a time (pKa 2.15, 7.20, 12.35)",
+      "The first two are titrated as separate equivalence points; the third is too weak to show",
+    ],
+    deltaH: -114.2,
+    deltaG: -106.5,
+    logK: 18.65,
+    effects: {
+      observation:
+        "Two endpoints, near pH 4.7 and pH 9.7 - methyl orange then phenolphthalein",
+    },
+  },
+  "naoh+oxalic_acid": {
+    name: "Oxalic Acid Neutralization",
+    type: "neutralization",
+    reactants: [
+      { id: "oxalic_acid", coefficient: 1, role: "acid" },
+      { id: "naoh", coefficient: 2, role: "base" },
+    ],
+    products: [
+      {
+        name: "Sodium Oxalate",
+        formula: "Na₂C₂O₄",
+        coefficient: 1,
+        state: "aq",
+      },
+      { name: "Water", formula: "H₂O", coefficient: 2, state: "l" },
+    ],
+    equation: "H₂C₂O₄(aq) + 2NaOH(aq) → Na₂C₂O₄(aq) + 2H₂O(l)",
+    netIonic: "H₂C₂O₄ + 2OH⁻ → C₂O₄²⁻ + 2H₂O",
+    stages: ["H₂C₂O₄ + OH⁻ → HC₂O₄⁻ + H₂O", "HC₂O₄⁻ + OH⁻ → C₂O₄²⁻ + H₂O"],
+    mechanism: [
+      "Oxalic acid gives up its two protons in turn (pKa 1.25, 4.27)",
+      "The pKa values are too close for two breaks: one endpoint takes both protons",
+    ],
+    deltaH: -121.8,
+    deltaG: -128.3,
+    logK: 22.48,
+    effects: {
+      observation: "One endpoint for both protons - phenolphthalein turns pink",
+    },
+  },
+  "hcl+na2co3": {
+    name: "Carbonate - Strong Acid Neutralization",
+    type: "neutralization",
+    reactants: [
+      { id: "na2co3", coefficient: 1, role: "base" },
+      { id: "hcl", coefficient: 2, role: "acid" },
+    ],
+    products: [
+      { name: "Sodium Chloride", formula: "NaCl", coefficient: 2, state: "aq" },
+      { name: "Water", formula: "H₂O", coefficient: 1, state: "l" },
+      { name: "Carbon Dioxide", formula: "CO₂", coefficient: 1, state: "g" },
+    ],
+    equation: "Na₂CO₃(aq) + 2HCl(aq) → 2NaCl(aq) + H₂O(l) + CO₂(g)",
+    netIonic: "CO₃²⁻ + 2H⁺ → H₂CO₃ → CO₂ + H₂O",
+    stages: ["CO₃²⁻ + H⁺ → HCO₃⁻", "HCO₃⁻ + H⁺ → H₂CO₃"],
+    mechanism: [
+      "Carbonate takes one proton to hydrogen carbonate (phenolphthalein endpoint)",
+      "Hydrogen carbonate takes the second to carbonic acid (methyl orange endpoint)",
+      "Carbonic acid breaks down to water and carbon dioxide",
+    ],
+    deltaH: -2.2,
+    deltaG: -95.2,
+    logK: 16.68,
+    effects: {
+      gas: "CO₂",
+      observation: "Fizzes as CO₂ escapes past the second endpoint",
+    },
+  },
+  "hcl+nahco3": {
+    name: "Hydrogen Carbonate - Strong Acid Neutralization",
+    type: "neutralization",
+    reactants: [
+      { id: "nahco3", coefficient: 1, role: "base" },
+      { id: "hcl", coefficient: 1, role: "acid" },
+    ],
+    products: [
+      { name: "Sodium Chloride", formula: "NaCl", coefficient: 1, state: "aq" },
+      { name: "Water", formula: "H₂O", coefficient: 1, state: "l" },
+      { name: "Carbon Dioxide", formula: "CO₂", coefficient: 1, state: "g" },
+    ],
+    equation: "NaHCO₃(aq) + HCl(aq) → NaCl(aq) + H₂O(l) + CO₂(g)",
+    netIonic: "HCO₃⁻ + H⁺ → H₂CO₃ → CO₂ + H₂O",
+    mechanism: [
+      "Hydrogen carbonate takes a proton to carbonic acid",
+      "Carbonic acid breaks down to water and carbon dioxide",
+    ],
+    deltaH: 12.7,
+    deltaG: -36.2,
+    logK: 6.34,
+    effects: {
+      gas: "CO₂",
+      observation: "Fizzes as CO₂ escapes; the flask cools slightly",
+    },
+  },
+  // Back titrations: the sample and the excess of standard reagent it is
+  // left to react with. For aspirin the two neutralizations are counted and
+  // the hydrolysis of the ester itself is taken as thermoneutral.
+  "caco3+hcl": {
+    name: "Carbonate Dissolution in Strong Acid",
+    type: "neutralization",
+    reactants: [
+      { id: "caco3", coefficient: 1, role: "base" },
+      { id: "hcl", coefficient: 2, role: "acid" },
+    ],
+    products: [
+      {
+        name: "Calcium Chloride",
+        formula: "CaCl₂",
+        coefficient: 1,
+        state: "aq",
+      },
+      { name: "Water", formula: "H₂O", coefficient: 1, state: "l" },
+      { name: "Carbon Dioxide", formula: "CO₂", coefficient: 1, state: "g" },
+    ],
+    equation: "CaCO₃(s) + 2HCl(aq) → CaCl₂(aq) + H₂O(l) + CO₂(g)",
+    netIonic: "CaCO₃(s) + 2H⁺ → Ca²⁺ + H₂O + CO₂",
+    mechanism: [
+      "CaCO₃ is only sparingly soluble (Ksp = 3.4×10⁻⁹), but acid takes up the carbonate it releases",
+      "Carbonic acid breaks down to water and carbon dioxide, and boiling drives the last of it off",
+    ],
+    deltaH: -15.2,
+    deltaG: -46.9,
+    logK: 8.21,
+    effects: {
+      gas: "CO₂",
+      observation: "Fizzes as the tablet dissolves and CO₂ escapes",
+    },
+  },
+  "aspirin+naoh": {
+    name: "Ester Hydrolysis in Strong Base",
+    type: "neutralization",
+    reactants: [
+      { id: "aspirin", coefficient: 1, role: "acid" },
+      { id: "naoh", coefficient: 2, role: "base" },
+    ],
+    products: [
+      {
+        name: "Sodium Salicylate",
+        formula: "C₇H₅O₃Na",
+        coefficient: 1,
+        state: "aq",
+      },
+      {
+        name: "Sodium Acetate",
+        formula: "CH₃COONa",
+        coefficient: 1,
+        state: "aq",
+      },
+      { name: "Water", formula: "H₂O", coefficient: 1, state: "l" },
+    ],
+    equation: "C₉H₈O₄(s) + 2NaOH(aq) → C₇H₅O₃Na(aq) + CH₃COONa(aq) + H₂O(l)",
+    netIonic: "C₉H₈O₄ + 2OH⁻ → C₇H₅O₃⁻ + CH₃COO⁻ + H₂O",
+    stages: [
+      "C₉H₈O₄ + OH⁻ → C₉H₇O₄⁻ + H₂O",
+      "C₉H₇O₄⁻ + OH⁻ → C₇H₅O₃⁻ + CH₃COO⁻",
+    ],
+    mechanism: [
+      "OH⁻ takes the carboxylic proton of aspirin at once (pKa 3.5)",
+      "Warming hydrolyses the ester to salicylate and acetate, using a second OH⁻",
+    ],
+    deltaH: -113.4,
+    deltaG: -112.7,
+    logK: 19.74,
+    effects: {
+      observation: "The tablet dissolves; no colour change until warmed",
+    },
+  },
+  "agno3+hcl": {
+    name: "Silver Chloride Precipitation",
+    type: "precipitation",
+    reactants: [
+      { id: "agno3", coefficient: 1 },
+      { id: "hcl", coefficient: 1 },
+    ],
+    products: [
+      { name: "Silver Chloride", formula: "AgCl", coefficient: 1, state: "s" },
+      { name: "Nitric Acid", formula: "HNO₃", coefficient: 1, state: "aq" },
+    ],
+    equation: "AgNO₃(aq) + HCl(aq) → AgCl(s) + HNO₃(aq)",
+    netIonic: "Ag⁺ + Cl⁻ → AgCl(s)",
+    mechanism: [
+      "Ag⁺ and Cl⁻ meet far above the solubility of AgCl (Ksp = 1.8×10⁻¹⁰)",
+      "AgCl comes out of solution; H⁺ and NO₃⁻ stay dissolved",
+    ],
+    deltaH: -65.5,
+    deltaG: -55.6,
+    logK: 9.75,
+    effects: {
+      color: "#F5F5F5",
+      precipitate: "AgCl",
+      observation: "White precipitate forms",
+    },
+  },
+  "cacl2+naoh": {
+    name: "Calcium Hydroxide Precipitation",
+    type: "precipitation",
+    reactants: [
+      { id: "cacl2", coefficient: 1 },
+      { id: "naoh", coefficient: 2 },
+    ],
+    products: [
+      {
+        name: "Calcium Hydroxide",
+        formula: "Ca(OH)₂",
+        coefficient: 1,
+        state: "s",
+      },
+      { name: "Sodium Chloride", formula: "NaCl", coefficient: 2, state: "aq" },
+    ],
+    equation: "CaCl₂(aq) + 2NaOH(aq) → Ca(OH)₂(s) + 2NaCl(aq)",
+    netIonic: "Ca²⁺ + 2OH⁻ → Ca(OH)₂(s)",
+    mechanism: [
+      "Ca(OH)₂ is only sparingly soluble (Ksp = 5.5×10⁻⁶)",
+      "It comes out of solution once [Ca²⁺][OH⁻]² passes Ksp",
+    ],
+    deltaH: 16.7,
+    deltaG: -30.0,
+    logK: 5.26,
+    effects: {
+      color: "#F0F8FF",
+      precipitate: "Ca(OH)₂",
+      observation: "Milky white solution",
+    },
+  },
+  // Silver titrations: Mohr against chloride, and the thiocyanate that
+  // takes up the excess silver in a Volhard flask
+  "agno3+nacl": {
+    name: "Silver Chloride Precipitation",
+    type: "precipitation",
+    reactants: [
+      { id: "agno3", coefficient: 1 },
+      { id: "nacl", coefficient: 1 },
+    ],
+    products: [
+      { name: "Silver Chloride", formula: "AgCl", coefficient: 1, state: "s" },
+      { name: "Sodium Nitrate", formula: "NaNO₃", coefficient: 1, state: "aq" },
+    ],
+    equation: "AgNO₃(aq) + NaCl(aq) → AgCl(s) + NaNO₃(aq)",
+    netIonic: "Ag⁺ + Cl⁻ → AgCl(s)",
+    mechanism: [
+      "Ag⁺ and Cl⁻ meet far above the solubility of AgCl (Ksp = 1.8×10⁻¹⁰)",
+      "AgCl comes out of solution; Na⁺ and NO₃⁻ stay dissolved",
+    ],
+    deltaH: -65.5,
+    deltaG: -55.6,
+    logK: 9.75,
+    effects: {
+      color: "#F5F5F5",
+      precipitate: "AgCl",
+      observation: "White precipitate forms",
+    },
+  },
+  "agno3+kscn": {
+    name: "Silver Thiocyanate Precipitation",
+    type: "precipitation",
+    reactants: [
+      { id: "agno3", coefficient: 1 },
+      { id: "kscn", coefficient: 1 },
+    ],
+    products: [
+      {
+        name: "Silver Thiocyanate",
+        formula: "AgSCN",
+        coefficient: 1,
+        state: "s",
+      },
+      {
+        name: "Potassium Nitrate",
+        formula: "KNO₃",
+        coefficient: 1,
+        state: "aq",
+      },
+    ],
+    equation: "AgNO₃(aq) + KSCN(aq) → AgSCN(s) + KNO₃(aq)",
+    netIonic: "Ag⁺ + SCN⁻ → AgSCN(s)",
+    mechanism: [
+      "AgSCN is even less soluble than AgCl (Ksp = 1.1×10⁻¹²)",
+      "Once the silver is used up, the next SCN⁻ finds Fe³⁺ and turns the flask red",
+    ],
+    deltaH: -94.1,
+    deltaG: -68.3,
+    logK: 11.96,
+    effects: {
+      color: "#FAFAF0",
+      precipitate: "AgSCN",
+      observation: "White precipitate forms",
+    },
+  },
+  // Redox titrations, in acid for permanganate. Each is one oxidant and
+  // one reductant of the couples in the redox module.
+  "feso4+kmno4": {
+    name: "Permanganate - Iron(II) Redox",
+    type: "redox",
+    reactants: [
+      { id: "kmno4", coefficient: 1 },
+      { id: "feso4", coefficient: 5 },
+    ],
+    products: [
+      { name: "Manganese(II)", formula: "Mn²⁺", coefficient: 1, state: "aq" },
+      { name: "Iron(III)", formula: "Fe³⁺", coefficient: 5, state: "aq" },
+      { name: "Water", formula: "H₂O", coefficient: 4, state: "l" },
+    ],
+    equation: "MnO₄⁻ + 5Fe²⁺ + 8H⁺ → Mn²⁺ + 5Fe³⁺ + 4H₂O",
+    netIonic: "MnO₄⁻ + 5Fe²⁺ + 8H⁺ → Mn²⁺ + 5Fe³⁺ + 4H₂O",
+    mechanism: [
+      "Each MnO₄⁻ takes five electrons, one from each Fe²⁺",
+      "The sulfuric acid supplies the H⁺; without it MnO₄⁻ stops at brown MnO₂",
+    ],
+    deltaH: -619.7,
+    deltaG: -400.4,
+    logK: 70.15,
+    effects: {
+      color: "#F5EFC8",
+      observation: "Purple permanganate is decolourised as it goes in",
+    },
+  },
+  "kmno4+na2c2o4": {
+    name: "Permanganate - Oxalate Redox",
+    type: "redox",
+    reactants: [
+      { id: "kmno4", coefficient: 2 },
+      { id: "na2c2o4", coefficient: 5 },
+    ],
+    products: [
+      { name: "Manganese(II)", formula: "Mn²⁺", coefficient: 2, state: "aq" },
+      { name: "Carbon Dioxide", formula: "CO₂", coefficient: 10, state: "g" },
+      { name: "Water", formula: "H₂O", coefficient: 8, state: "l" },
+    ],
+    equation: "2MnO₄⁻ + 5H₂C₂O₄ + 6H⁺ → 2Mn²⁺ + 10CO₂ + 8H₂O",
+    netIonic: "2MnO₄⁻ + 5H₂C₂O₄ + 6H⁺ → 2Mn²⁺ + 10CO₂ + 8H₂O",
+    mechanism: [
+      "In the acid the oxalate is H₂C₂O₄, and each one gives up two electrons",
+      "Slow at first, then fast once the Mn²⁺ formed catalyses it; warming to 60 °C helps",
+    ],
+    deltaH: -1488.4,
+    deltaG: -1929.7,
+    logK: 338.07,
+    effects: {
+      gas: "CO₂",
+      observation:
+        "Permanganate is decolourised, slowly at first; CO₂ bubbles off",
+    },
+  },
+  "kmno4+oxalic_acid": {
+    name: "Permanganate - Oxalic Acid Redox",
+    type: "redox",
+    reactants: [
+      { id: "kmno4", coefficient: 2 },
+      { id: "oxalic_acid", coefficient: 5 },
+    ],
+    products: [
+      { name: "Manganese(II)", formula: "Mn²⁺", coefficient: 2, state: "aq" },
+      { name: "Carbon Dioxide", formula: "CO₂", coefficient: 10, state: "g" },
+      { name: "Water", formula: "H₂O", coefficient: 8, state: "l" },
+    ],
+    equation: "2MnO₄⁻ + 5H₂C₂O₄ + 6H⁺ → 2Mn²⁺ + 10CO₂ + 8H₂O",
+    netIonic: "2MnO₄⁻ + 5H₂C₂O₄ + 6H⁺ → 2Mn²⁺ + 10CO₂ + 8H₂O",
+    mechanism: [
+      "Each H₂C₂O₄ gives up two electrons and leaves as two CO₂",
+      "Slow at first, then fast once the Mn²⁺ formed catalyses it; warming to 60 °C helps",
+    ],
+    deltaH: -1488.4,
+    deltaG: -1929.7,
+    logK: 338.07,
+    effects: {
+      gas: "CO₂",
+      observation:
+        "Permanganate is decolourised, slowly at first; CO₂ bubbles off",
+    },
+  },
+  "iodine+na2s2o3": {
+    name: "Iodine - Thiosulfate Redox",
+    type: "redox",
+    reactants: [
+      { id: "iodine", coefficient: 1 },
+      { id: "na2s2o3", coefficient: 2 },
+    ],
+    products: [
+      { name: "Iodide", formula: "I⁻", coefficient: 3, state: "aq" },
+      { name: "Tetrathionate", formula: "S₄O₆²⁻", coefficient: 1, state: "aq" },
+    ],
+    equation: "I₃⁻ + 2S₂O₃²⁻ → 3I⁻ + S₄O₆²⁻",
+    netIonic: "I₃⁻ + 2S₂O₃²⁻ → 3I⁻ + S₄O₆²⁻",
+    mechanism: [
+      "Two thiosulfate ions join through an S-S bond as they hand over two electrons",
+      "The iodine is reduced to colourless iodide",
+    ],
+    deltaH: -33.7,
+    deltaG: -88.0,
+    logK: 15.42,
+    effects: {
+      observation:
+        "The brown iodine colour fades to pale yellow, then colourless",
+    },
+  },
+  // EDTA binds one metal ion whatever its charge. The hardness is mostly
+  // Ca²⁺, so K is its conditional constant at the pH 10 of the ammonia
+  // buffer, which takes up the protons released, and ΔH that of forming
+  // CaY²⁻.
+  "edta+hard_water": {
+    name: "EDTA Complexation of Ca²⁺ and Mg²⁺",
+    type: "complexation",
+    reactants: [
+      { id: "edta", coefficient: 1 },
+      { id: "hard_water", coefficient: 1 },
+    ],
+    products: [
+      {
+        name: "Metal-EDTA Complex",
+        formula: "MY²⁻",
+        coefficient: 1,
+        state: "aq",
+      },
+      { name: "Hydrogen Ion", formula: "H⁺", coefficient: 2, state: "aq" },
+    ],
+    equation: "M²⁺ + H₂Y²⁻ → MY²⁻ + 2H⁺",
+    netIonic: "M²⁺ + H₂Y²⁻ → MY²⁻ + 2H⁺",
+    mechanism: [
+      "EDTA wraps each Ca²⁺ or Mg²⁺ in a 1:1 complex through six donor atoms",
+      "Complete only in the pH 10 buffer; in acid the protons win the EDTA back",
+    ],
+    deltaH: -24.0,
+    deltaG: -57.8,
+    logK: 10.13,
+    effects: {
+      observation: "No visible change without a metal indicator",
+    },
+  },
+};
+
+const reactionKey = (ids: string[]) => ids.map(baseReagent).sort().join("+");
+
+// Reaction between two reagents, of the given type if one is named.
+// Unknown samples react like the reagent they are made of.
+export function findReaction(
+  a: string,
+  b: string,
+  type?: Reaction["type"],
+): Reaction | undefined {
+  const reaction = reactions[reactionKey([a, b])];
+  return reaction && (type === undefined || reaction.type === type)
+    ? reaction
+    : undefined;
+}
+
+// Reactant playing this part in a neutralization
+export const reactantWithRole = (reaction: Reaction, role: "acid" | "base") =>
+  reaction.reactants.find((r) => r.role === role)?.id;
+
+export interface ReactionOutcome {
+  reaction: Reaction;
+  // Moles of reaction as written, or null when a reactant's strength is
+  // hidden, as an unknown sample's is
+  extent: number | null;
+  limiting: string[]; // reactants used up
+  products: Array<ReactionProduct & { moles: number | null }>;
+  // Moles of each reactant left over
+  excess: Array<{ id: string; moles: number }>;
+  heat: number | null; // J released into the container
+}
+
+// Run every registered reaction between the reagents in a container to
+// completion, in registry order, each working with what the earlier ones
+// left. Reagents without a molarity on their label (indicators, solids)
+// take no part.
+export function evaluateMix(chemicals: ContainerChemical[]): ReactionOutcome[] {
+  // Moles of each reagent present; null when any portion's strength is
+  // unknown
+  const moles: Record<string, number | null> = {};
+  chemicals.forEach((c) => {
+    const id = baseReagent(c.id);
+    const molarity = parseMolarity(c.concentration);
+    const known = id in moles ? moles[id] : 0;
+    moles[id] =
+      molarity === null || known === null
+        ? null
+        : known + (molarity * c.amount) / 1000;
+  });
+
+  const outcomes: ReactionOutcome[] = [];
+  Object.values(reactions).forEach((reaction) => {
+    if (!reaction.reactants.every((r) => r.id in moles)) return;
+    const available = reaction.reactants.map((r) => moles[r.id]);
+    if (available.some((n) => n !== null && n <= 0)) return;
+
+    const extent = available.includes(null)
+      ? null
+      : Math.min(
+          ...reaction.reactants.map(
+            (r, i) => (available[i] as number) / r.coefficient,
+          ),
+        );
+    const limiting =
+      extent === null
+        ? []
+        : reaction.reactants
+            .filter((r) => (moles[r.id] as number) / r.coefficient <= extent)
+            .map((r) => r.id);
+    if (extent !== null) {
+      reaction.reactants.forEach((r) => {
+        moles[r.id] = Math.max(
+          0,
+          (moles[r.id] as number) - r.coefficient * extent,
+        );
+      });
+    }
+
+    outcomes.push({
+      reaction,
+      extent,
+      limiting,
+      products: reaction.products.map((p) => ({
+        ...p,
+        moles: extent === null ? null : p.coefficient * extent,
+      })),
+      excess:
+        extent === null
+          ? []
+          : reaction.reactants
+              .filter((r) => !limiting.includes(r.id))
+              .map((r) => ({ id: r.id, moles: moles[r.id] as number })),
+      heat: extent === null ? null : -reaction.deltaH * extent * 1000,
+    });
+  });
+  return outcomes;
+}
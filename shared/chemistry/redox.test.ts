@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzeRedoxTitration, findRedoxTitration, solveRedox } from "./redox";
+import { mixTitrant } from "./titration";
+
+// 25 mL of 0.1 M Fe²⁺ titrated with 0.02 M permanganate: MnO₄⁻ takes five
+// electrons to Fe²⁺'s one, so equivalence falls at 25 mL
+const iron = [{ id: "feso4", amount: 25, concentration: "0.1 M" }];
+const permanganate = { id: "kmno4", concentration: "0.02 M" };
+
+const potentialAt = (volume: number) =>
+  solveRedox(mixTitrant(iron, permanganate, volume))!.potential;
+
+describe("Fe²⁺ with permanganate", () => {
+  it("reaches 1.37 V at equivalence", () => {
+    // (5 × 1.51 + 1 × 0.68) / 6
+    const reaction = findRedoxTitration("feso4", "kmno4")!;
+    assert.ok(Math.abs(reaction.equivalencePotential - 1.37) < 0.005);
+  });
+
+  it("puts the single break at 25 mL", () => {
+    const { equivalencePoints } = analyzeRedoxTitration(iron, permanganate, []);
+    assert.equal(equivalencePoints.length, 1);
+    assert.ok(Math.abs(equivalencePoints[0].volume - 25) < 0.1);
+    assert.ok(Math.abs(equivalencePoints[0].potential! - 1.37) < 0.005);
+  });
+
+  it("reads each formal potential where its couple is half converted", () => {
+    // Half the iron oxidized, then as much permanganate again in excess
+    assert.ok(Math.abs(potentialAt(12.5) - 0.68) < 0.01);
+    assert.ok(Math.abs(potentialAt(50) - 1.51) < 0.01);
+  });
+});
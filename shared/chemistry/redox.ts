@@ -0,0 +1,376 @@
+import { solveContainer, type ContainerChemical } from "./equilibrium";
+import { blendColors, parseColor, type RGBA } from "./indicators";
+import { findReaction } from "./reactions";
+import { parseMolarity } from "./species";
+import {
+  equivalencePoints,
+  mixTitrant,
+  type TitrantSpec,
+  type TitrationAnalysis,
+  type TitrationPoint,
+} from "./titration";
+
+// Nernst slope 2.303·RT/F at 25 °C, V per decade
+export const NERNST_SLOPE = 0.05916;
+
+// A redox couple Ox + n e⁻ ⇌ Red. Potentials are formal potentials in
+// 1 M H₂SO₄ (V vs SHE), so the H⁺ terms are already folded in.
+export interface RedoxCouple {
+  id: string;
+  oxidized: string;
+  reduced: string;
+  electrons: number;
+  potential: number;
+  halfReaction: string;
+}
+
+export const redoxCouples: Record<string, RedoxCouple> = {
+  permanganate: {
+    id: "permanganate",
+    oxidized: "MnO₄⁻",
+    reduced: "Mn²⁺",
+    electrons: 5,
+    potential: 1.51,
+    halfReaction: "MnO₄⁻ + 8H⁺ + 5e⁻ → Mn²⁺ + 4H₂O",
+  },
+  iron: {
+    id: "iron",
+    oxidized: "Fe³⁺",
+    reduced: "Fe²⁺",
+    electrons: 1,
+    potential: 0.68,
+    halfReaction: "Fe³⁺ + e⁻ → Fe²⁺",
+  },
+  oxalate: {
+    id: "oxalate",
+    oxidized: "2CO₂",
+    reduced: "H₂C₂O₄",
+    electrons: 2,
+    potential: -0.49,
+    halfReaction: "2CO₂ + 2H⁺ + 2e⁻ → H₂C₂O₄",
+  },
+  iodine: {
+    id: "iodine",
+    oxidized: "I₃⁻",
+    reduced: "3I⁻",
+    electrons: 2,
+    potential: 0.536,
+    halfReaction: "I₃⁻ + 2e⁻ → 3I⁻",
+  },
+  thiosulfate: {
+    id: "thiosulfate",
+    oxidized: "S₄O₆²⁻",
+    reduced: "2S₂O₃²⁻",
+    electrons: 2,
+    potential: 0.08,
+    halfReaction: "S₄O₆²⁻ + 2e⁻ → 2S₂O₃²⁻",
+  },
+};
+
+// How one mole of a reagent enters a couple: the form it is delivered in
+// and the moles of couple (one Ox or one Red as written) it provides
+export interface RedoxReagent {
+  couple: string;
+  state: "oxidized" | "reduced";
+  ratio: number;
+}
+
+export const redoxReagents: Record<string, RedoxReagent> = {
+  kmno4: { couple: "permanganate", state: "oxidized", ratio: 1 },
+  feso4: { couple: "iron", state: "reduced", ratio: 1 },
+  na2c2o4: { couple: "oxalate", state: "reduced", ratio: 1 },
+  oxalic_acid: { couple: "oxalate", state: "reduced", ratio: 1 },
+  iodine: { couple: "iodine", state: "oxidized", ratio: 1 },
+  na2s2o3: { couple: "thiosulfate", state: "reduced", ratio: 0.5 },
+};
+
+// Starch binds I₃⁻ into an intensely blue-black complex
+export const STARCH_ID = "starch";
+
+export function isRedoxChemical(id: string): boolean {
+  return Boolean(redoxReagents[id]) || id === STARCH_ID;
+}
+
+// Coloured species and their molar absorptivity in the visible,
+// L mol⁻¹ cm⁻¹. Everything else in these couples is colourless or nearly so.
+const coloredSpecies: Record<string, { color: string; absorptivity: number }> =
+  {
+    "MnO₄⁻": { color: "#C2185B", absorptivity: 2400 },
+    "Fe³⁺": { color: "#E6C84F", absorptivity: 1 },
+    "I₃⁻": { color: "#A0522D", absorptivity: 1000 },
+  };
+const STARCH_IODINE = { color: "#0B1D51", absorptivity: 40000 };
+
+// Least absorbance the eye picks up against a white tile
+const VISIBLE_ABSORBANCE = 0.02;
+
+export interface RedoxState {
+  potential: number; // V vs SHE
+  volumeL: number;
+  couples: Array<{
+    couple: RedoxCouple;
+    oxidized: number; // mol/L
+    reduced: number; // mol/L
+  }>;
+}
+
+// log₁₀(ox/red) of a couple at potential E (Nernst)
+function logRatio(couple: RedoxCouple, potential: number): number {
+  return (couple.electrons * (potential - couple.potential)) / NERNST_SLOPE;
+}
+
+// Solve the electron balance: the oxidizing capacity the reagents brought in
+// is shared between the couples so that they all sit at one potential.
+//
+// Each couple's change from its starting form is computed from the minor
+// form directly, so constants of 10⁷⁰ and more don't cancel out at the
+// equivalence point.
+export function solveRedox(chemicals: ContainerChemical[]): RedoxState | null {
+  const volumeL = chemicals.reduce((sum, c) => sum + c.amount, 0) / 1000;
+  const start = new Map<string, { oxidized: number; reduced: number }>();
+
+  chemicals.forEach((chemical) => {
+    const reagent = redoxReagents[chemical.id];
+    const molarity = parseMolarity(chemical.concentration);
+    if (!reagent || molarity === null) return;
+    const moles = (molarity * chemical.amount * reagent.ratio) / 1000;
+    const entry = start.get(reagent.couple) ?? { oxidized: 0, reduced: 0 };
+    entry[reagent.state] += moles;
+    start.set(reagent.couple, entry);
+  });
+  if (start.size === 0 || volumeL <= 0) return null;
+
+  const couples = Array.from(start.entries())
+    .map(([id, amounts]) => ({
+      couple: redoxCouples[id],
+      total: amounts.oxidized + amounts.reduced,
+      ...amounts,
+    }))
+    .filter(({ total }) => total > 0);
+  if (couples.length === 0) return null;
+
+  // Electrons given off by the couples in reaching E from where they
+  // started; zero at equilibrium, and rising with E
+  const balance = (potential: number) =>
+    couples.reduce((sum, { couple, total, oxidized, reduced }) => {
+      const r = logRatio(couple, potential);
+      const change =
+        oxidized <= reduced
+          ? total / (1 + Math.pow(10, -r)) - oxidized
+          : reduced - total / (1 + Math.pow(10, r));
+      return sum + couple.electrons * change;
+    }, 0);
+
+  let potential: number;
+  const oxidants = couples.filter((c) => c.oxidized > 0);
+  const reductants = couples.filter((c) => c.reduced > 0);
+  if (oxidants.length === 0 || reductants.length === 0) {
+    // Nothing to react with yet: read the potential at 0.1% conversion of
+    // the couple that would react first
+    const pure =
+      oxidants.length === 0
+        ? reductants.reduce((a, b) =>
+            b.couple.potential > a.couple.potential ? b : a,
+          )
+        : oxidants.reduce((a, b) =>
+            b.couple.potential < a.couple.potential ? b : a,
+          );
+    const offset = (3 * NERNST_SLOPE) / pure.couple.electrons;
+    potential =
+      pure.couple.potential + (oxidants.length === 0 ? -offset : offset);
+  } else {
+    // Bisect on E, as the acid-base solver does on pH
+    let low = -1;
+    let high = 2.5;
+    for (let i = 0; i < 60; i++) {
+      const mid = (low + high) / 2;
+      if (balance(mid) < 0) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    potential = (low + high) / 2;
+  }
+
+  return {
+    potential,
+    volumeL,
+    couples: couples.map(({ couple, total }) => {
+      const fraction = 1 / (1 + Math.pow(10, -logRatio(couple, potential)));
+      return {
+        couple,
+        oxidized: (total * fraction) / volumeL,
+        reduced: (total * (1 - fraction)) / volumeL,
+      };
+    }),
+  };
+}
+
+function absorbances(
+  chemicals: ContainerChemical[],
+  pathLengthCm: number,
+): Array<{ label: string; color: string; absorbance: number }> {
+  const state = solveRedox(chemicals);
+  if (!state) return [];
+  const hasStarch = chemicals.some((c) => c.id === STARCH_ID);
+
+  return state.couples.flatMap(({ couple, oxidized }) => {
+    const label = couple.oxidized;
+    const species =
+      hasStarch && label === "I₃⁻" ? STARCH_IODINE : coloredSpecies[label];
+    if (!species) return [];
+    return [
+      {
+        label: hasStarch && label === "I₃⁻" ? "starch-I₃⁻" : label,
+        color: species.color,
+        absorbance: species.absorptivity * oxidized * pathLengthCm,
+      },
+    ];
+  });
+}
+
+// Colour of the redox species actually present (Beer-Lambert), so a flask
+// only turns pink once MnO₄⁻ is left over
+export function redoxColor(
+  chemicals: ContainerChemical[],
+  pathLengthCm = 1,
+): RGBA {
+  return absorbances(chemicals, pathLengthCm).reduce(
+    (color, { color: hex, absorbance }) =>
+      blendColors(color, {
+        ...parseColor(hex),
+        a: 1 - Math.pow(10, -absorbance),
+      }),
+    parseColor("transparent"),
+  );
+}
+
+// The species whose colour marks the endpoint, and whether it shows: the
+// starch-iodine complex when starch is present, otherwise the titrant's
+// own colour (self-indicating permanganate)
+export function redoxSignal(
+  chemicals: ContainerChemical[],
+  pathLengthCm = 1,
+): { name: string; visible: boolean } | null {
+  const signals = absorbances(chemicals, pathLengthCm).filter(
+    ({ label }) => label !== "Fe³⁺",
+  );
+  const starch = signals.find(({ label }) => label === "starch-I₃⁻");
+  const signal = starch ?? signals[0];
+  if (!signal) return null;
+  return {
+    name: starch ? "Starch" : `${signal.label} (self-indicating)`,
+    visible: signal.absorbance >= VISIBLE_ABSORBANCE,
+  };
+}
+
+// Moles of analyte per mole of titrant, from the electrons each transfers
+export function redoxMoleRatio(analyteId: string, titrantId: string): number {
+  const a = redoxReagents[analyteId];
+  const t = redoxReagents[titrantId];
+  if (!a || !t) return 1;
+  return (
+    (t.ratio * redoxCouples[t.couple].electrons) /
+    (a.ratio * redoxCouples[a.couple].electrons)
+  );
+}
+
+export interface RedoxTitration {
+  oxidant: RedoxCouple;
+  reductant: RedoxCouple;
+  equation: string;
+  halfReactions: string[];
+  // Equivalence potential (n₁E₁°' + n₂E₂°')/(n₁ + n₂)
+  equivalencePotential: number;
+  electrons: number; // transferred in the overall reaction as written
+  // log₁₀ K; these constants overflow a double when written out
+  logK: number;
+  deltaG: number; // kJ/mol
+}
+
+// The reaction between an analyte and a titrant when one is an oxidant and
+// the other a reductant, and the registry has their reaction
+export function findRedoxTitration(
+  analyteId: string,
+  titrantId: string,
+): RedoxTitration | null {
+  const a = redoxReagents[analyteId];
+  const b = redoxReagents[titrantId];
+  if (!a || !b || a.state === b.state) return null;
+  const reaction = findReaction(analyteId, titrantId, "redox");
+  if (!reaction) return null;
+
+  const oxidant = redoxCouples[a.state === "oxidized" ? a.couple : b.couple];
+  const reductant = redoxCouples[a.state === "reduced" ? a.couple : b.couple];
+  const n1 = oxidant.electrons;
+  const n2 = reductant.electrons;
+  // Least common multiple of the electrons in the two half-reactions
+  const gcd = (x: number, y: number): number => (y === 0 ? x : gcd(y, x % y));
+  const electrons = (n1 * n2) / gcd(n1, n2);
+
+  return {
+    oxidant,
+    reductant,
+    equation: reaction.equation,
+    halfReactions: [
+      `Reduction: ${oxidant.halfReaction} (E°' = ${oxidant.potential.toFixed(3)} V)`,
+      `Oxidation: ${reductant.halfReaction.split(" → ").reverse().join(" → ")} (E°' = ${reductant.potential.toFixed(3)} V)`,
+    ],
+    equivalencePotential:
+      (n1 * oxidant.potential + n2 * reductant.potential) / (n1 + n2),
+    electrons,
+    logK: reaction.logK,
+    deltaG: reaction.deltaG,
+  };
+}
+
+// Ideal potential-vs-volume curve, sampled every `step` mL. The pH is kept
+// alongside for the pH meter.
+export function redoxCurve(
+  analyte: ContainerChemical[],
+  titrant: TitrantSpec,
+  maxVolume = 50,
+  step = 0.05,
+): TitrationPoint[] {
+  const points: TitrationPoint[] = [];
+  for (let i = 0; i * step <= maxVolume + 1e-9; i++) {
+    const volume = i * step;
+    const mixture = mixTitrant(analyte, titrant, volume);
+    points.push({
+      volume,
+      pH: solveContainer(mixture).pH,
+      potential: solveRedox(mixture)?.potential ?? 0,
+    });
+  }
+  return points;
+}
+
+export function analyzeRedoxTitration(
+  analyte: ContainerChemical[],
+  titrant: TitrantSpec,
+  recorded: TitrationPoint[],
+): TitrationAnalysis {
+  const theoretical = redoxCurve(analyte, titrant);
+  // The potential jumps by tenths of a volt within a drop or two. With K
+  // this large the sampled point can land anywhere on the jump, so the
+  // equivalence potential itself comes from the two formal potentials.
+  const reaction = analyte
+    .map((c) => findRedoxTitration(c.id, titrant.id))
+    .find(Boolean);
+  const equivalence = equivalencePoints(
+    theoretical,
+    0.05,
+    (point) => point.potential ?? 0,
+  ).map((point) =>
+    reaction ? { ...point, potential: reaction.equivalencePotential } : point,
+  );
+  return {
+    measure: "potential",
+    recorded,
+    theoretical,
+    equivalencePoints: equivalence,
+    halfEquivalencePoints: [],
+    bufferRegions: [],
+  };
+}
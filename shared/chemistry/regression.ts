@@ -0,0 +1,40 @@
+// Straight lines through titration readings, for the endpoint methods that
+// extrapolate or intersect linear branches
+export interface LineFit {
+  slope: number; // per mL
+  intercept: number; // value at 0 mL
+  from: number; // mL, first reading in the fit
+  to: number; // mL, last reading in the fit
+  rSquared: number;
+}
+
+// Ordinary least squares, returning the residual sum of squares alongside
+// the line for comparing candidate splits
+export function fitLine(points: Array<{ volume: number; value: number }>): {
+  fit: LineFit;
+  residual: number;
+} {
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.volume, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.value, 0) / n;
+  const sxx = points.reduce((sum, p) => sum + (p.volume - meanX) ** 2, 0);
+  const syy = points.reduce((sum, p) => sum + (p.value - meanY) ** 2, 0);
+  const sxy = points.reduce(
+    (sum, p) => sum + (p.volume - meanX) * (p.value - meanY),
+    0,
+  );
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanY - slope * meanX;
+  const residual = points.reduce(
+    (sum, p) => sum + (p.value - (intercept + slope * p.volume)) ** 2,
+    0,
+  );
+  const fit: LineFit = {
+    slope,
+    intercept,
+    from: points[0].volume,
+    to: points[n - 1].volume,
+    rSquared: syy > 0 ? 1 - residual / syy : 1,
+  };
+  return { fit, residual };
+}
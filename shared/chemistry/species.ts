@@ -0,0 +1,283 @@
+// Aqueous acid-base systems used by the equilibrium solver.
+//
+// Each system is described by its fully protonated form: the charge of that
+// form and the successive pKa values for removing each proton. Spectator ions
+// (Na⁺, Cl⁻, ...) are simply systems without any pKa values.
+export interface AcidBaseSystem {
+  id: string;
+  charge: number;
+  pKa: number[];
+  // Labels from the most protonated to the least protonated form
+  forms: string[];
+  // kJ/mol to remove each proton at 25 °C; sets how each pKa moves with
+  // temperature and the heat given out when the system is titrated.
+  // Missing steps are taken as thermoneutral.
+  enthalpy?: number[];
+}
+
+export const acidBaseSystems: Record<string, AcidBaseSystem> = {
+  sodium: { id: "sodium", charge: 1, pKa: [], forms: ["Na⁺"] },
+  potassium: { id: "potassium", charge: 1, pKa: [], forms: ["K⁺"] },
+  cobalt: { id: "cobalt", charge: 2, pKa: [], forms: ["Co²⁺"] },
+  calcium: { id: "calcium", charge: 2, pKa: [], forms: ["Ca²⁺"] },
+  magnesium: { id: "magnesium", charge: 2, pKa: [], forms: ["Mg²⁺"] },
+  silver: { id: "silver", charge: 1, pKa: [], forms: ["Ag⁺"] },
+  ferric: { id: "ferric", charge: 3, pKa: [], forms: ["Fe³⁺"] },
+  chloride: { id: "chloride", charge: -1, pKa: [], forms: ["Cl⁻"] },
+  nitrate: { id: "nitrate", charge: -1, pKa: [], forms: ["NO₃⁻"] },
+  thiocyanate: { id: "thiocyanate", charge: -1, pKa: [], forms: ["SCN⁻"] },
+  acetate: {
+    id: "acetate",
+    charge: 0,
+    pKa: [4.76],
+    forms: ["CH₃COOH", "CH₃COO⁻"],
+    enthalpy: [1.2],
+  },
+  ammonium: {
+    id: "ammonium",
+    charge: 1,
+    pKa: [9.25],
+    forms: ["NH₄⁺", "NH₃"],
+    enthalpy: [52.2],
+  },
+  phosphate: {
+    id: "phosphate",
+    charge: 0,
+    pKa: [2.15, 7.2, 12.35],
+    forms: ["H₃PO₄", "H₂PO₄⁻", "HPO₄²⁻", "PO₄³⁻"],
+    enthalpy: [-8.0, 3.6, 16.0],
+  },
+  oxalate: {
+    id: "oxalate",
+    charge: 0,
+    pKa: [1.25, 4.27],
+    forms: ["H₂C₂O₄", "HC₂O₄⁻", "C₂O₄²⁻"],
+    enthalpy: [-3.9, -6.7],
+  },
+  sulfate: {
+    id: "sulfate",
+    charge: 0,
+    pKa: [-3, 1.99],
+    forms: ["H₂SO₄", "HSO₄⁻", "SO₄²⁻"],
+    enthalpy: [0, -22.4],
+  },
+  carbonate: {
+    id: "carbonate",
+    charge: 0,
+    pKa: [6.35, 10.33],
+    forms: ["H₂CO₃", "HCO₃⁻", "CO₃²⁻"],
+    enthalpy: [9.2, 14.8],
+  },
+  phthalate: {
+    id: "phthalate",
+    charge: 0,
+    pKa: [2.95, 5.41],
+    forms: ["H₂C₈H₄O₄", "HC₈H₄O₄⁻", "C₈H₄O₄²⁻"],
+    enthalpy: [-2.7, 1.8],
+  },
+  acetylsalicylate: {
+    id: "acetylsalicylate",
+    charge: 0,
+    pKa: [3.5],
+    forms: ["C₉H₈O₄", "C₉H₇O₄⁻"],
+  },
+  salicylate: {
+    id: "salicylate",
+    charge: 0,
+    pKa: [2.97, 13.6],
+    forms: ["C₇H₆O₃", "C₇H₅O₃⁻", "C₇H₄O₃²⁻"],
+  },
+  chromate: {
+    id: "chromate",
+    charge: 0,
+    pKa: [-0.8, 6.5],
+    forms: ["H₂CrO₄", "HCrO₄⁻", "CrO₄²⁻"],
+  },
+  // EDTA from the doubly protonated nitrogens down to Y⁴⁻
+  edta: {
+    id: "edta",
+    charge: 2,
+    pKa: [0.0, 1.5, 2.0, 2.69, 6.13, 10.37],
+    forms: ["H₆Y²⁺", "H₅Y⁺", "H₄Y", "H₃Y⁻", "H₂Y²⁻", "HY³⁻", "Y⁴⁻"],
+  },
+};
+
+// How one mole of a reagent splits into acid-base systems. `form` is the
+// protonation state the reagent delivers (0 = fully protonated, the default);
+// it does not affect the charge balance but tells acids and bases apart.
+export interface ReagentComposition {
+  constituents: Array<{ system: string; ratio: number; form?: number }>;
+  // Unknown samples name the reagent they are made of
+  sampleOf?: string;
+}
+
+export const reagentCompositions: Record<string, ReagentComposition> = {
+  hcl: { constituents: [{ system: "chloride", ratio: 1 }] },
+  hcl_conc: { constituents: [{ system: "chloride", ratio: 1 }] },
+  naoh: { constituents: [{ system: "sodium", ratio: 1 }] },
+  acetic_acid: { constituents: [{ system: "acetate", ratio: 1 }] },
+  nh3: { constituents: [{ system: "ammonium", ratio: 1, form: 1 }] },
+  h3po4: { constituents: [{ system: "phosphate", ratio: 1 }] },
+  oxalic_acid: { constituents: [{ system: "oxalate", ratio: 1 }] },
+  na2c2o4: {
+    constituents: [
+      { system: "sodium", ratio: 2 },
+      { system: "oxalate", ratio: 1, form: 2 },
+    ],
+  },
+  h2so4: { constituents: [{ system: "sulfate", ratio: 1 }] },
+  na2co3: {
+    constituents: [
+      { system: "sodium", ratio: 2 },
+      { system: "carbonate", ratio: 1, form: 2 },
+    ],
+  },
+  nahco3: {
+    constituents: [
+      { system: "sodium", ratio: 1 },
+      { system: "carbonate", ratio: 1, form: 1 },
+    ],
+  },
+  cocl2: {
+    constituents: [
+      { system: "cobalt", ratio: 1 },
+      { system: "chloride", ratio: 2 },
+    ],
+  },
+  // Potassium hydrogen phthalate, weighed out as the primary standard
+  khp: {
+    constituents: [
+      { system: "potassium", ratio: 1 },
+      { system: "phthalate", ratio: 1, form: 1 },
+    ],
+  },
+  // Back-titration samples, per mole of analyte. Until warmed, CaCO₃ leaves
+  // its CO₂ dissolved and aspirin only gives up its carboxylic proton.
+  caco3: {
+    constituents: [
+      { system: "calcium", ratio: 1 },
+      { system: "carbonate", ratio: 1, form: 2 },
+    ],
+  },
+  caco3_reacted: { constituents: [{ system: "calcium", ratio: 1 }] },
+  aspirin: { constituents: [{ system: "acetylsalicylate", ratio: 1 }] },
+  aspirin_reacted: {
+    constituents: [
+      { system: "salicylate", ratio: 1 },
+      { system: "acetate", ratio: 1 },
+    ],
+  },
+  // Disodium EDTA, Na₂H₂Y·2H₂O
+  edta: {
+    constituents: [
+      { system: "sodium", ratio: 2 },
+      { system: "edta", ratio: 1, form: 4 },
+    ],
+  },
+  // Per mole of hardness ions (Ca²⁺ + Mg²⁺) and their chloride
+  hard_water: {
+    constituents: [
+      { system: "calcium", ratio: 0.7 },
+      { system: "magnesium", ratio: 0.3 },
+      { system: "chloride", ratio: 2 },
+    ],
+  },
+  // Per mole of NH₄Cl: 1 NH₄⁺ to 5.6 NH₃ buffers at pH 10
+  nh3_buffer: {
+    constituents: [
+      { system: "ammonium", ratio: 6.6, form: 1 },
+      { system: "chloride", ratio: 1 },
+    ],
+  },
+  // Precipitation titrations: silver nitrate against chloride, chromate
+  // for the Mohr endpoint, thiocyanate and iron(III) alum for Volhard
+  agno3: {
+    constituents: [
+      { system: "silver", ratio: 1 },
+      { system: "nitrate", ratio: 1 },
+    ],
+  },
+  nacl: {
+    constituents: [
+      { system: "sodium", ratio: 1 },
+      { system: "chloride", ratio: 1 },
+    ],
+  },
+  k2cro4: {
+    constituents: [
+      { system: "potassium", ratio: 2 },
+      { system: "chromate", ratio: 1, form: 2 },
+    ],
+  },
+  kscn: {
+    constituents: [
+      { system: "potassium", ratio: 1 },
+      { system: "thiocyanate", ratio: 1 },
+    ],
+  },
+  // Iron(III) ammonium sulfate, NH₄Fe(SO₄)₂·12H₂O
+  fe_alum: {
+    constituents: [
+      { system: "ferric", ratio: 1 },
+      { system: "ammonium", ratio: 1 },
+      { system: "sulfate", ratio: 2, form: 2 },
+    ],
+  },
+  hno3: { constituents: [{ system: "nitrate", ratio: 1 }] },
+  hcl_unknown: {
+    constituents: [{ system: "chloride", ratio: 1 }],
+    sampleOf: "hcl",
+  },
+};
+
+// Label carried by unknown samples on the workbench; the molarity itself is
+// held by the server until the student submits a result
+export const UNKNOWN_CONCENTRATION = "Unknown";
+
+// Unknown samples react like the reagent they are made of
+export function baseReagent(reagentId: string): string {
+  return reagentCompositions[reagentId]?.sampleOf ?? reagentId;
+}
+
+// Parse a reagent label such as "0.1 M" or "12 M" into mol/L.
+// Labels that are not molarities ("Indicator", "2.0 g", "Pure") return null.
+export function parseMolarity(concentration: string): number | null {
+  const match = concentration.trim().match(/^(\d+(?:\.\d+)?)\s*M$/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+export interface AcidBaseProfile {
+  kind: "strong acid" | "strong base" | "weak acid" | "weak base" | "neutral";
+  ka?: number;
+  kb?: number;
+  // Every pKa of the weak system, for polyprotic acids and bases
+  pKa?: number[];
+}
+
+// Classify a reagent by what it does to water. Weak acids and bases carry
+// Ka/Kb taken from the same pKa values the solver uses (Kw = 1.0×10⁻¹⁴).
+// Polyprotic species report the first step (Ka1, or Kb1 for CO₃²⁻).
+export function acidBaseProfile(reagentId: string): AcidBaseProfile {
+  const composition = reagentCompositions[reagentId];
+  if (!composition) return { kind: "neutral" };
+
+  for (const { system, form = 0 } of composition.constituents) {
+    const { pKa } = acidBaseSystems[system];
+    if (pKa.length === 0) continue;
+
+    // Amphiprotic forms such as HCO₃⁻ are classed by their basic step,
+    // which is how they behave towards a strong acid titrant
+    if (form === 0) {
+      return { kind: "weak acid", ka: Math.pow(10, -pKa[0]), pKa };
+    }
+    return { kind: "weak base", kb: Math.pow(10, pKa[form - 1] - 14), pKa };
+  }
+
+  // Only spectator ions: the counter-ion decides (Cl⁻ → HCl, Na⁺ → NaOH)
+  const charges = composition.constituents.map(
+    ({ system }) => acidBaseSystems[system].charge,
+  );
+  if (charges.every((z) => z < 0)) return { kind: "strong acid" };
+  if (charges.every((z) => z > 0)) return { kind: "strong base" };
+  return { kind: "neutral" };
+}
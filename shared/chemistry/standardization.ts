@@ -0,0 +1,63 @@
+// Standardization of NaOH against potassium hydrogen phthalate (KHP).
+//
+// NaOH absorbs water and CO₂, so its label concentration is only nominal.
+// A weighed portion of KHP, a primary standard, is dissolved and titrated;
+// one mole of KHP neutralizes one mole of NaOH.
+import {
+  meanMeasurement,
+  productUncertainty,
+  titreUncertainty,
+  type Measurement,
+} from "./uncertainty";
+
+export const KHP_MOLAR_MASS = 204.22; // g/mol
+export const BALANCE_RESOLUTION = 0.0001; // g, analytical balance; also its tolerance
+export const DISSOLVE_VOLUME = 50; // mL of distilled water per portion
+
+export interface StandardizationTrial {
+  mass: number; // g of KHP
+  titre: number; // mL of NaOH to the endpoint
+  molarity: number; // mol/L of NaOH
+}
+
+// Round a mass to what the analytical balance displays
+export function balanceReading(mass: number): number {
+  return Math.round(mass / BALANCE_RESOLUTION) * BALANCE_RESOLUTION;
+}
+
+// Concentration label of a weighed KHP portion once dissolved
+export function khpConcentration(
+  mass: number,
+  volume = DISSOLVE_VOLUME,
+): string {
+  const moles = mass / KHP_MOLAR_MASS;
+  return `${((moles * 1000) / volume).toFixed(6)} M`;
+}
+
+export function naohMolarity(mass: number, titre: number): number {
+  return mass / KHP_MOLAR_MASS / (titre / 1000);
+}
+
+export function meanMolarity(trials: StandardizationTrial[]): number | null {
+  if (trials.length === 0) return null;
+  return trials.reduce((sum, t) => sum + t.molarity, 0) / trials.length;
+}
+
+// Mean NaOH molarity with its uncertainty: each trial carries the balance
+// and burette tolerances, and the scatter between trials adds to them
+export function standardizationResult(
+  trials: StandardizationTrial[],
+): Measurement | null {
+  if (trials.length === 0) return null;
+  const mass = trials.reduce((sum, t) => sum + t.mass, 0) / trials.length;
+  const titre = trials.reduce((sum, t) => sum + t.titre, 0) / trials.length;
+  const mean = meanMolarity(trials)!;
+  const instrument = productUncertainty(mean, [
+    { value: mass, uncertainty: BALANCE_RESOLUTION },
+    { value: titre, uncertainty: titreUncertainty() },
+  ]);
+  return meanMeasurement(
+    trials.map((t) => t.molarity),
+    instrument,
+  );
+}
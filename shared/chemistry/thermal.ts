@@ -0,0 +1,124 @@
+import type { ContainerChemical } from "./equilibrium";
+import { evaluateMix } from "./reactions";
+import type { TitrationPoint } from "./titration";
+
+// Bench, reagent bottles and empty glassware all sit at this temperature
+export const ROOM_TEMPERATURE_C = 25;
+// Dilute aqueous solutions taken as water at 1 g/mL; the thin glass of the
+// flask soaks up little heat and is left out
+const SPECIFIC_HEAT = 4.184; // J/(g·K)
+// Heat a flask of solution loses to the air per kelvin above room
+// temperature; 100 mL cools with a time constant of about ten minutes
+const HEAT_LOSS = 0.7; // W/K
+
+// J/K for the solution in a container
+export function heatCapacity(chemicals: ContainerChemical[]): number {
+  return SPECIFIC_HEAT * chemicals.reduce((sum, c) => sum + c.amount, 0);
+}
+
+// J released by the registered reactions between a container's reagents,
+// from the ΔH of each and how far it ran. Reagents whose strength is
+// hidden, as an unknown sample's is, give none.
+const reactionHeat = (chemicals: ContainerChemical[]) =>
+  evaluateMix(chemicals).reduce((sum, outcome) => sum + (outcome.heat ?? 0), 0);
+
+// Temperature after pouring `added` (at `addedC`) into a container holding
+// `before` at `beforeC`: the heat capacities average the two temperatures
+// and the heat of the reactions the pour sets off warms or cools the
+// mixture.
+export function mixTemperature(
+  before: ContainerChemical[],
+  beforeC: number,
+  added: ContainerChemical[],
+  addedC = ROOM_TEMPERATURE_C,
+): number {
+  const capacityBefore = heatCapacity(before);
+  const capacityAdded = heatCapacity(added);
+  const capacity = capacityBefore + capacityAdded;
+  if (capacity <= 0) return ROOM_TEMPERATURE_C;
+  const heat =
+    reactionHeat([...before, ...added]) -
+    reactionHeat(before) -
+    reactionHeat(added);
+  return (capacityBefore * beforeC + capacityAdded * addedC + heat) / capacity;
+}
+
+// Heat a container takes in from a water bath per kelvin of difference;
+// stirred water carries heat far faster than air, so 10 mL settles within
+// a few seconds
+const BATH_TRANSFER = 10; // W/K
+
+// Contents of a container standing in a bath held at `bathC`, after
+// `seconds`
+export function warmInBath(
+  temperatureC: number,
+  chemicals: ContainerChemical[],
+  bathC: number,
+  seconds: number,
+): number {
+  const capacity = heatCapacity(chemicals);
+  if (capacity <= 0) return bathC;
+  return (
+    bathC +
+    (temperatureC - bathC) * Math.exp((-BATH_TRANSFER * seconds) / capacity)
+  );
+}
+
+// Newton's law of cooling over `seconds`: the excess over room temperature
+// decays faster in a small volume than a large one
+export function coolTowardsRoom(
+  temperatureC: number,
+  chemicals: ContainerChemical[],
+  seconds: number,
+): number {
+  const capacity = heatCapacity(chemicals);
+  if (capacity <= 0) return ROOM_TEMPERATURE_C;
+  return (
+    ROOM_TEMPERATURE_C +
+    (temperatureC - ROOM_TEMPERATURE_C) *
+      Math.exp((-HEAT_LOSS * seconds) / capacity)
+  );
+}
+
+export interface ThermometricAnalysis {
+  points: Array<{ volume: number; temperature: number }>;
+  // Where the temperature peaks (or bottoms out for an endothermic
+  // reaction), the end of the heat-producing reaction
+  endpointVolume: number | null;
+  change: number; // °C from the first reading to the turning point
+}
+
+// Least rise worth calling an endpoint, above thermometer noise
+const MIN_TEMPERATURE_CHANGE = 0.05; // °C
+
+// Thermometric endpoint: every increment before equivalence reacts and
+// releases heat; after it the titrant only dilutes and cools the flask, so
+// the temperature turns at the endpoint
+export function thermometricAnalysis(
+  curve: TitrationPoint[],
+): ThermometricAnalysis | null {
+  const points = [...curve]
+    .filter((point) => point.temperature !== undefined)
+    .sort((a, b) => a.volume - b.volume)
+    .map((point) => ({
+      volume: point.volume,
+      temperature: point.temperature!,
+    }));
+  if (points.length < 3) return null;
+  const start = points[0].temperature;
+  const turning = points.reduce((best, point) =>
+    Math.abs(point.temperature - start) > Math.abs(best.temperature - start)
+      ? point
+      : best,
+  );
+  const change = turning.temperature - start;
+  return {
+    points,
+    endpointVolume:
+      Math.abs(change) >= MIN_TEMPERATURE_CHANGE &&
+      turning !== points[points.length - 1]
+        ? turning.volume
+        : null,
+    change,
+  };
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzeTitration } from "./titration";
+
+// Equivalence and half-equivalence volumes, to the 0.05 mL the curve is
+// sampled at
+const breaks = (
+  id: string,
+  concentration: string,
+  amount: number,
+  titrantId: string,
+  titrantConcentration: string,
+) => {
+  const analysis = analyzeTitration(
+    [{ id, amount, concentration }],
+    { id: titrantId, concentration: titrantConcentration },
+    [],
+  );
+  return {
+    equivalence: analysis.equivalencePoints,
+    half: analysis.halfEquivalencePoints,
+  };
+};
+
+const near = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `${actual} is not within ${tolerance} of ${expected}`,
+  );
+
+describe("analyzeTitration", () => {
+  it("puts acetic acid's equivalence at 25 mL and pH 8.73", () => {
+    const { equivalence, half } = breaks(
+      "acetic_acid",
+      "0.1 M",
+      25,
+      "naoh",
+      "0.1 M",
+    );
+    assert.equal(equivalence.length, 1);
+    near(equivalence[0].volume, 25, 0.05);
+    near(equivalence[0].pH, 8.73, 0.05);
+    near(half[0].pH, 4.76, 0.05);
+  });
+
+  for (const [acid, base] of [
+    ["0.1 M", "0.1 M"],
+    ["0.01 M", "0.01 M"],
+  ]) {
+    it(`finds two breaks for ${acid} phosphoric acid but not the third`, () => {
+      const { equivalence, half } = breaks("h3po4", acid, 10, "naoh", base);
+      assert.deepEqual(
+        equivalence.map((point) => point.volume),
+        [10, 20],
+      );
+      // The second proton buffers at pKa₂ whatever the dilution
+      const second = half.find((point) => point.volume === 15);
+      assert.ok(second);
+      near(second.pH, 7.2, 0.05);
+    });
+
+    it(`finds both carbonate breaks for ${acid} sodium carbonate`, () => {
+      const { equivalence } = breaks("na2co3", acid, 10, "hcl", base);
+      assert.deepEqual(
+        equivalence.map((point) => point.volume),
+        [10, 20],
+      );
+      // Phenolphthalein marks the first, near the pH of HCO₃⁻
+      near(equivalence[0].pH, 8.3, 0.1);
+    });
+
+    it(`titrates ${acid} oxalic acid's two protons as one`, () => {
+      const { equivalence, half } = breaks(
+        "oxalic_acid",
+        acid,
+        10,
+        "naoh",
+        base,
+      );
+      assert.deepEqual(
+        equivalence.map((point) => point.volume),
+        [20],
+      );
+      // The first proton is too strong to buffer; the second reads pKa₂
+      assert.equal(half.length, 1);
+      near(half[0].volume, 15, 0.05);
+      near(half[0].pH, 4.27, 0.1);
+    });
+  }
+});
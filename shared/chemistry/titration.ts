@@ -0,0 +1,463 @@
+import { solveContainer, type ContainerChemical } from "./equilibrium";
+import { changesBetween, indicators, type Indicator } from "./indicators";
+import { acidBaseSystems, parseMolarity, reagentCompositions } from "./species";
+
+// One titrant increment and the pH it produced
+export interface TitrationPoint {
+  volume: number; // mL of titrant delivered
+  pH: number;
+  potential?: number; // V vs SHE, for redox titrations
+  pM?: number; // -log[M²⁺] free, for complexometric titrations
+  pAg?: number; // -log[Ag⁺] free, for precipitation titrations
+  conductivity?: number; // mS/cm, when a conductivity cell is in the flask
+  temperature?: number; // °C, when a thermometer is in the flask
+  time?: number; // seconds since the first increment
+}
+
+export interface BufferRegion {
+  start: number; // mL
+  end: number; // mL
+  pKa: number;
+}
+
+export interface TitrationAnalysis {
+  // What the curve plots; redox titrations follow the electrode potential,
+  // complexometric ones the free metal ion and precipitation ones free Ag⁺
+  measure?: "pH" | "potential" | "pM" | "pAg";
+  recorded: TitrationPoint[];
+  theoretical: TitrationPoint[];
+  equivalencePoints: TitrationPoint[];
+  // Halfway to each equivalence point inside a buffer region, where pH = pKa
+  halfEquivalencePoints: TitrationPoint[];
+  bufferRegions: BufferRegion[];
+}
+
+// Titrant as it sits in the burette
+export interface TitrantSpec {
+  id: string;
+  concentration: string;
+  carbonate?: number; // fraction of a hydroxide titrant turned to carbonate
+}
+
+export function mixTitrant(
+  analyte: ContainerChemical[],
+  titrant: TitrantSpec,
+  volume: number,
+): ContainerChemical[] {
+  return [
+    ...analyte,
+    {
+      id: titrant.id,
+      amount: volume,
+      concentration: titrant.concentration,
+      carbonate: titrant.carbonate,
+    },
+  ];
+}
+
+// Ideal pH-vs-volume curve for the analyte, sampled every `step` mL
+export function theoreticalCurve(
+  analyte: ContainerChemical[],
+  titrant: TitrantSpec,
+  maxVolume = 50,
+  step = 0.05,
+  temperatureC = 25,
+): TitrationPoint[] {
+  const points: TitrationPoint[] = [];
+  for (let i = 0; i * step <= maxVolume + 1e-9; i++) {
+    const volume = i * step;
+    const { pH } = solveContainer(
+      mixTitrant(analyte, titrant, volume),
+      temperatureC,
+    );
+    points.push({ volume, pH });
+  }
+  return points;
+}
+
+// Equivalence points are the inflections of the curve: local maxima of
+// |dpH/dV| (or |dE/dV|, |dpM/dV|, |dpAg/dV|) that stand out over a ±1 mL
+// window and are at least `minSlope` per mL steep. Acid-base curves take
+// their breaks from the chemistry instead (see acidBaseBreaks) and only
+// fall back to this when a strength in the flask is unknown.
+export function equivalencePoints(
+  curve: TitrationPoint[],
+  minSlope = 1,
+  value: (point: TitrationPoint) => number = (point) => point.pH,
+): TitrationPoint[] {
+  // Central differences so the peak lands on a sampled point
+  const slopes = curve.slice(1, -1).map((point, i) => ({
+    point,
+    volume: point.volume,
+    slope: Math.abs(
+      (value(curve[i + 2]) - value(curve[i])) /
+        (curve[i + 2].volume - curve[i].volume || 1),
+    ),
+  }));
+
+  return slopes
+    .filter((s, i) => {
+      if (i === 0 || i === slopes.length - 1 || s.slope < minSlope) {
+        return false;
+      }
+      return slopes.every(
+        (other) =>
+          Math.abs(other.volume - s.volume) > 1 ||
+          other.slope < s.slope ||
+          (other.slope === s.slope && other.volume >= s.volume),
+      );
+    })
+    .map(({ point }) => ({
+      volume: point.volume,
+      pH: point.pH,
+      potential: point.potential,
+      pM: point.pM,
+      pAg: point.pAg,
+    }));
+}
+
+export interface DerivativePoint {
+  volume: number; // mL, midway between the readings it comes from
+  value: number;
+}
+
+export interface DerivativeAnalysis {
+  first: DerivativePoint[]; // ΔpH/ΔV
+  second: DerivativePoint[]; // Δ²pH/ΔV²
+  // Where the second derivative crosses zero beside the steepest point
+  equivalenceVolume: number | null;
+}
+
+// Endpoint from a measured curve the way it is done by hand: difference
+// the readings once for the slope and again for its change, and find where
+// the second derivative passes through zero at the top of the slope peak
+export function derivativeAnalysis(
+  curve: TitrationPoint[],
+  value: (point: TitrationPoint) => number = (point) => point.pH,
+): DerivativeAnalysis {
+  const differences = (points: DerivativePoint[]) =>
+    points.slice(1).map((point, i) => ({
+      volume: (point.volume + points[i].volume) / 2,
+      value:
+        (point.value - points[i].value) / (point.volume - points[i].volume),
+    }));
+  // Readings closer than a drop apart only add noise to the differences
+  const readings = [...curve]
+    .sort((a, b) => a.volume - b.volume)
+    .map((point) => ({ volume: point.volume, value: value(point) }))
+    .filter(
+      (point, i, all) => i === 0 || point.volume - all[i - 1].volume >= 0.01,
+    );
+  const first = differences(readings);
+  const second = differences(first);
+  if (first.length === 0) return { first, second, equivalenceVolume: null };
+
+  const steepest = first.reduce((best, point) =>
+    Math.abs(point.value) > Math.abs(best.value) ? point : best,
+  );
+  // Sign change of the second derivative around the steepest slope,
+  // interpolated linearly
+  const crossing = second.findIndex(
+    (point, i) =>
+      i + 1 < second.length &&
+      point.volume <= steepest.volume &&
+      second[i + 1].volume >= steepest.volume &&
+      Math.sign(point.value) !== Math.sign(second[i + 1].value),
+  );
+  if (crossing < 0) {
+    return { first, second, equivalenceVolume: steepest.volume };
+  }
+  const a = second[crossing];
+  const b = second[crossing + 1];
+  return {
+    first,
+    second,
+    equivalenceVolume:
+      a.volume + ((b.volume - a.volume) * a.value) / (a.value - b.value),
+  };
+}
+
+// A proton the titrant takes off the analyte or puts on it: the pKa it
+// goes at (±Infinity for free H⁺ or OH⁻) and the moles of it in the flask
+export interface ProtonStep {
+  pKa: number;
+  moles: number;
+  // Whether the pKa sits a unit or more inside the flask's pH range, so
+  // the step buffers rather than titrating like free H⁺ or OH⁻
+  buffers?: boolean;
+}
+
+// A run of proton steps that titrate together and the titrant volume at
+// the break that ends it
+export interface TitrationStage {
+  volume: number; // mL
+  steps: ProtonStep[];
+}
+
+// Successive steps closer than this in pKa titrate as one, like the two
+// protons of oxalic acid (3.0 apart) but not those of carbonate (4.0)
+const MIN_BREAK_PKA = 3.5;
+
+// Moles of H⁺ (or OH⁻, when negative) a strong titrant gives per mole, or
+// null when it is a weak acid or base
+function titrantProtons(titrantId: string): number | null {
+  const constituents = reagentCompositions[titrantId]?.constituents;
+  if (!constituents) return null;
+  let charge = 0;
+  for (const { system, ratio, form = 0 } of constituents) {
+    const { charge: systemCharge, pKa } = acidBaseSystems[system];
+    if (pKa.length > 0) return null;
+    charge += ratio * (systemCharge - form);
+  }
+  // Cations come with OH⁻, anions with H⁺
+  return charge === 0 ? null : -charge;
+}
+
+// The stages a strong titrant takes the analyte through, in order, each
+// ending at a break the curve shows. The flask's protons sit on the most
+// basic sites first; a base titrant strips them from the most acidic up and
+// an acid fills the empty sites from the most basic down. A break follows a
+// step when the next one (or the titrant's own H⁺ or OH⁻) is at least
+// MIN_BREAK_PKA away, with every pKa held inside the range the flask can
+// reach at its concentration. Null when the titrant is weak or a strength
+// in the flask is unknown.
+export function acidBaseBreaks(
+  analyte: ContainerChemical[],
+  titrant: TitrantSpec,
+): TitrationStage[] | null {
+  const perMole = titrantProtons(titrant.id);
+  const titrantMolarity = parseMolarity(titrant.concentration);
+  if (perMole === null || titrantMolarity === null) return null;
+  const base = perMole < 0;
+
+  // Every acid-base site in the flask and the protons to share among them
+  const sites: ProtonStep[] = [];
+  let protons = 0;
+  for (const chemical of analyte) {
+    const composition = reagentCompositions[chemical.id];
+    if (!composition) continue;
+    const molarity = parseMolarity(chemical.concentration);
+    if (molarity === null) return null;
+    const moles = (molarity * chemical.amount) / 1000;
+    composition.constituents.forEach(({ system, ratio, form = 0 }) => {
+      const { charge, pKa } = acidBaseSystems[system];
+      const n = moles * ratio;
+      pKa.forEach((value) => sites.push({ pKa: value, moles: n }));
+      // Protons the delivered form carries, less the charge they leave
+      // for free H⁺ or OH⁻ to balance
+      protons += n * (pKa.length - form) - n * (charge - form);
+    });
+  }
+  // Free H⁺ sits below every site and OH⁻ above, as water's own proton
+  sites.push({ pKa: -Infinity, moles: Infinity });
+  sites.push({ pKa: Infinity, moles: Math.max(0, -protons) });
+  protons = Math.max(0, protons);
+
+  const filled: ProtonStep[] = [];
+  const empty: ProtonStep[] = [];
+  [...sites]
+    .sort((a, b) => b.pKa - a.pKa)
+    .forEach((site) => {
+      if (site.pKa === Infinity) {
+        empty.push(site);
+        return;
+      }
+      const taken = Math.min(site.moles, protons);
+      protons -= taken;
+      if (taken > 0) filled.push({ pKa: site.pKa, moles: taken });
+      if (site.moles > taken && site.pKa > -Infinity) {
+        empty.push({ pKa: site.pKa, moles: site.moles - taken });
+      }
+    });
+  const steps = (base ? filled.sort((a, b) => a.pKa - b.pKa) : empty).filter(
+    (step) => step.moles > 1e-12,
+  );
+  if (steps.length === 0) return null;
+
+  // pKa values beyond the flask's own pH range titrate like free H⁺ or OH⁻
+  const volumeL = analyte.reduce((sum, c) => sum + c.amount, 0) / 1000;
+  const total = steps.reduce((sum, step) => sum + step.moles, 0);
+  const pC = volumeL > 0 ? -Math.log10(total / volumeL) : 0;
+  const reach = (pKa: number) => Math.min(14 - pC, Math.max(pC, pKa));
+  const end = base ? Infinity : -Infinity;
+
+  const stages: TitrationStage[] = [];
+  let stage: ProtonStep[] = [];
+  let moles = 0;
+  steps.forEach((step, i) => {
+    stage.push({
+      ...step,
+      buffers: Math.abs(step.pKa - 7) <= 6 - pC,
+    });
+    moles += step.moles;
+    const next = steps[i + 1]?.pKa ?? end;
+    if (Math.abs(reach(next) - reach(step.pKa)) >= MIN_BREAK_PKA) {
+      const volume = (moles / (titrantMolarity * Math.abs(perMole))) * 1000;
+      stages.push({ volume, steps: stage });
+      stage = [];
+    }
+  });
+  return stages;
+}
+
+// The steepest point of the curve within `window` mL of a volume
+function steepestNear(
+  curve: TitrationPoint[],
+  volume: number,
+  window: number,
+): TitrationPoint | null {
+  let best: TitrationPoint | null = null;
+  let bestSlope = -1;
+  for (let i = 1; i < curve.length - 1; i++) {
+    if (Math.abs(curve[i].volume - volume) > window) continue;
+    const slope = Math.abs(
+      (curve[i + 1].pH - curve[i - 1].pH) /
+        (curve[i + 1].volume - curve[i - 1].volume || 1),
+    );
+    if (slope > bestSlope) {
+      best = curve[i];
+      bestSlope = slope;
+    }
+  }
+  return best;
+}
+
+// Buffer regions lie where the pH stays within one unit of a weak acid
+// pKa in the analyte. Strong acids and bases have none.
+export function bufferRegions(
+  analyte: ContainerChemical[],
+  curve: TitrationPoint[],
+): BufferRegion[] {
+  const pKas = new Set<number>();
+  analyte.forEach((chemical) => {
+    reagentCompositions[chemical.id]?.constituents.forEach(({ system }) => {
+      acidBaseSystems[system]?.pKa.forEach((pKa) => {
+        if (pKa > 1 && pKa < 13) pKas.add(pKa);
+      });
+    });
+  });
+
+  const regions: BufferRegion[] = [];
+  pKas.forEach((pKa) => {
+    const start = curve.findIndex((p) => Math.abs(p.pH - pKa) <= 1);
+    if (start === -1) return;
+    let end = start;
+    while (end + 1 < curve.length && Math.abs(curve[end + 1].pH - pKa) <= 1) {
+      end++;
+    }
+    regions.push({ start: curve[start].volume, end: curve[end].volume, pKa });
+  });
+
+  return regions.sort((a, b) => a.start - b.start);
+}
+
+// Linear interpolation of the pH at a given titrant volume
+export function interpolatePH(
+  curve: TitrationPoint[],
+  volume: number,
+): number | null {
+  if (curve.length === 0 || volume < curve[0].volume) return null;
+  for (let i = 1; i < curve.length; i++) {
+    const a = curve[i - 1];
+    const b = curve[i];
+    if (volume <= b.volume) {
+      const t =
+        b.volume === a.volume ? 0 : (volume - a.volume) / (b.volume - a.volume);
+      return a.pH + t * (b.pH - a.pH);
+    }
+  }
+  return null;
+}
+
+// Halfway through each proton step the weak species is half neutralized,
+// so the pH there reads the pKa directly. Steps run between the breaks in
+// proportion to their moles; without the chemistry each break is one step.
+// Steps that titrate like free H⁺ or OH⁻ in the flask have no point.
+export function halfEquivalencePoints(
+  curve: TitrationPoint[],
+  equivalence: TitrationPoint[],
+  buffers: BufferRegion[],
+  stages?: TitrationStage[],
+): TitrationPoint[] {
+  const points: TitrationPoint[] = [];
+  equivalence.forEach((point, i) => {
+    const previous = i === 0 ? 0 : equivalence[i - 1].volume;
+    const steps = stages?.[i].steps ?? [{ pKa: NaN, moles: 1 }];
+    const total = steps.reduce((sum, step) => sum + step.moles, 0);
+    let before = 0;
+    steps.forEach((step) => {
+      const fraction = (before + step.moles / 2) / total;
+      before += step.moles;
+      if (stages && !step.buffers) return;
+      const volume = previous + fraction * (point.volume - previous);
+      const inBuffer = buffers.some(
+        (b) => volume >= b.start && volume <= b.end,
+      );
+      const pH = interpolatePH(curve, volume);
+      if (inBuffer && pH !== null) points.push({ volume, pH });
+    });
+  });
+  return points;
+}
+
+// Indicators whose colour change falls inside the pH jump a few drops either
+// side of an equivalence point, i.e. the ones that would mark that endpoint
+export function indicatorsAtEquivalence(
+  curve: TitrationPoint[],
+  point: TitrationPoint,
+  candidates: string[] = Object.keys(indicators),
+  window = 0.2,
+): Indicator[] {
+  const before = interpolatePH(curve, Math.max(0, point.volume - window));
+  const after = interpolatePH(curve, point.volume + window);
+  if (before === null || after === null) return [];
+  return candidates
+    .map((id) => indicators[id])
+    .filter(
+      (indicator) => indicator && changesBetween(indicator, before, after),
+    );
+}
+
+export function analyzeTitration(
+  analyte: ContainerChemical[],
+  titrant: TitrantSpec,
+  recorded: TitrationPoint[],
+  temperatureC = 25,
+): TitrationAnalysis {
+  const theoretical = theoreticalCurve(
+    analyte,
+    titrant,
+    50,
+    0.05,
+    temperatureC,
+  );
+  const buffers = bufferRegions(analyte, theoretical);
+  // Each predicted break is read off the curve where it is steepest, which
+  // also follows the shift from carbonate in the titrant
+  const last = theoretical[theoretical.length - 1]?.volume ?? 0;
+  const stages = acidBaseBreaks(analyte, titrant)?.filter(
+    (stage) => stage.volume < last - 0.5,
+  );
+  const equivalence = stages
+    ? stages.flatMap((stage) => {
+        const point = steepestNear(
+          theoretical,
+          stage.volume,
+          Math.max(1, stage.volume * 0.1),
+        );
+        return point ? [{ volume: point.volume, pH: point.pH }] : [];
+      })
+    : equivalencePoints(theoretical);
+  return {
+    recorded,
+    theoretical,
+    equivalencePoints: equivalence,
+    halfEquivalencePoints: halfEquivalencePoints(
+      theoretical,
+      equivalence,
+      buffers,
+      stages?.length === equivalence.length ? stages : undefined,
+    ),
+    bufferRegions: buffers,
+  };
+}
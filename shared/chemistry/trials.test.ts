@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { dixonQTest, grubbsTest, selectTrials } from "./trials";
+
+// Accurate trials reaching the endpoint at these titres
+const titres = (...volumes: number[]) =>
+  volumes.map((volume) => ({ volume, rough: false, endpoint: true }));
+
+describe("outlier tests", () => {
+  // Five replicate results with 12.67 under suspicion: Q = 0.11 / 0.20 and
+  // G = 0.128 / 0.0804, both under their critical values
+  const replicates = [12.53, 12.56, 12.47, 12.67, 12.48];
+
+  it("computes Dixon's Q against the table", () => {
+    const q = dixonQTest(replicates)!;
+    assert.equal(q.suspect, 3);
+    assert.ok(Math.abs(q.statistic - 0.55) < 0.001);
+    assert.equal(q.critical, 0.71);
+    assert.equal(q.reject, false);
+  });
+
+  it("computes Grubbs' G against the table", () => {
+    const g = grubbsTest(replicates)!;
+    assert.equal(g.suspect, 3);
+    assert.ok(Math.abs(g.statistic - 1.591) < 0.001);
+    assert.equal(g.critical, 1.715);
+    assert.equal(g.reject, false);
+  });
+
+  it("has no table entry for fewer than three values", () => {
+    assert.equal(dixonQTest([25.1, 25.6]), null);
+    assert.equal(grubbsTest([25.1, 25.6]), null);
+  });
+});
+
+describe("selectTrials", () => {
+  it("rejects a high titre by the Q test at n = 4", () => {
+    // Q = 0.45 / 0.50 = 0.90 > 0.829
+    const selection = selectTrials(titres(25.1, 25.15, 25.1, 25.6));
+    assert.equal(selection.qTest!.suspect, 3);
+    assert.ok(Math.abs(selection.qTest!.statistic - 0.9) < 0.001);
+    assert.equal(selection.qTest!.reject, true);
+    assert.equal(selection.verdicts[3].used, false);
+    assert.equal(selection.verdicts[3].reason, "Outlier (Q = 0.900 > 0.829)");
+    assert.deepEqual(selection.used, [0, 1, 2]);
+    assert.equal(selection.concordant, true);
+  });
+
+  it("keeps a titre the tests cannot reject but leaves it out of the mean", () => {
+    // Q = 0.20 / 0.30 = 0.67 and G = 1.43, under 0.829 and 1.481
+    const selection = selectTrials(titres(25.1, 25.15, 25.2, 25.4));
+    assert.equal(selection.qTest!.reject, false);
+    assert.equal(selection.grubbs!.reject, false);
+    assert.deepEqual(selection.used, [0, 1, 2]);
+    assert.equal(
+      selection.verdicts[3].reason,
+      "Not within 0.10 mL of the concordant titres",
+    );
+  });
+
+  it("sets aside rough trials and missed endpoints before testing", () => {
+    const selection = selectTrials([
+      { volume: 26.0, rough: true, endpoint: true },
+      { volume: 23.5, rough: false, endpoint: false },
+      ...titres(25.1, 25.15),
+    ]);
+    assert.equal(selection.verdicts[0].reason, "Rough trial");
+    assert.equal(selection.verdicts[1].reason, "Endpoint not reached");
+    assert.equal(selection.qTest, null);
+    assert.deepEqual(selection.used, [2, 3]);
+    assert.equal(
+      selection.summary,
+      "Mean of trials 3, 4, concordant within 0.10 mL",
+    );
+  });
+
+  it("asks for a repeat when no two titres agree", () => {
+    const selection = selectTrials(titres(25.1, 25.4));
+    assert.equal(selection.concordant, false);
+    assert.deepEqual(selection.used, [0, 1]);
+    assert.match(selection.summary, /repeat the titration$/);
+  });
+});
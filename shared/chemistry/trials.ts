@@ -0,0 +1,193 @@
+// Which titration trials go into the mean: rough trials and missed
+// endpoints are set aside, a single outlier is tested for with Dixon's Q
+// and Grubbs' tests, and the mean is taken over concordant titres.
+import { sampleStandardDeviation } from "./uncertainty";
+
+// Titres agreeing within this range are concordant
+export const CONCORDANCE_TOLERANCE = 0.1; // mL
+// Readings are to 0.05 mL, so differences carry floating-point dust
+const TOLERANCE_SLACK = 1e-9;
+
+// Critical Q at 95% confidence for 3 to 10 values
+const Q_CRITICAL: Record<number, number> = {
+  3: 0.97,
+  4: 0.829,
+  5: 0.71,
+  6: 0.625,
+  7: 0.568,
+  8: 0.526,
+  9: 0.493,
+  10: 0.466,
+};
+
+// Critical G at 95% confidence (two-sided) for 3 to 12 values
+const G_CRITICAL: Record<number, number> = {
+  3: 1.155,
+  4: 1.481,
+  5: 1.715,
+  6: 1.887,
+  7: 2.02,
+  8: 2.126,
+  9: 2.215,
+  10: 2.29,
+  11: 2.355,
+  12: 2.412,
+};
+
+export interface OutlierTest {
+  suspect: number; // index into the tested values
+  statistic: number;
+  critical: number;
+  reject: boolean;
+}
+
+// Dixon's Q: the gap between the suspect and its nearest neighbour over the
+// range of the set. Only the most extreme value is tested.
+export function dixonQTest(values: number[]): OutlierTest | null {
+  const critical = Q_CRITICAL[values.length];
+  if (critical === undefined) return null;
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const range = values[order[order.length - 1]] - values[order[0]];
+  if (range <= 0) return null;
+  const low = (values[order[1]] - values[order[0]]) / range;
+  const high =
+    (values[order[order.length - 1]] - values[order[order.length - 2]]) / range;
+  const statistic = Math.max(low, high);
+  return {
+    suspect: high >= low ? order[order.length - 1] : order[0],
+    statistic,
+    critical,
+    reject: statistic > critical,
+  };
+}
+
+// Grubbs' G: the suspect's distance from the mean in sample standard
+// deviations
+export function grubbsTest(values: number[]): OutlierTest | null {
+  const critical = G_CRITICAL[values.length];
+  if (critical === undefined) return null;
+  const s = sampleStandardDeviation(values);
+  if (s <= 0) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const suspect = values.reduce(
+    (best, v, i) =>
+      Math.abs(v - mean) > Math.abs(values[best] - mean) ? i : best,
+    0,
+  );
+  const statistic = Math.abs(values[suspect] - mean) / s;
+  return { suspect, statistic, critical, reject: statistic > critical };
+}
+
+export interface TrialInput {
+  volume: number; // mL titre
+  rough: boolean;
+  endpoint: boolean;
+}
+
+export interface TrialVerdict {
+  used: boolean;
+  reason: string;
+}
+
+export interface TrialSelection {
+  verdicts: TrialVerdict[]; // one per trial, in order
+  used: number[]; // indices of the trials in the mean
+  concordant: boolean; // at least two titres within the tolerance
+  // Tests on the accurate trials, with the suspect as a trial index
+  qTest: OutlierTest | null;
+  grubbs: OutlierTest | null;
+  summary: string;
+}
+
+// Largest run of sorted titres spanning no more than the tolerance; ties go
+// to the tighter run
+function concordantRun(indices: number[], volumes: number[]): number[] {
+  const sorted = [...indices].sort((a, b) => volumes[a] - volumes[b]);
+  let best: number[] = [];
+  let bestSpread = Infinity;
+  for (let start = 0; start < sorted.length; start++) {
+    let end = start;
+    while (
+      end + 1 < sorted.length &&
+      volumes[sorted[end + 1]] - volumes[sorted[start]] <=
+        CONCORDANCE_TOLERANCE + TOLERANCE_SLACK
+    ) {
+      end++;
+    }
+    const run = sorted.slice(start, end + 1);
+    const spread = volumes[sorted[end]] - volumes[sorted[start]];
+    if (
+      run.length > best.length ||
+      (run.length === best.length && spread < bestSpread)
+    ) {
+      best = run;
+      bestSpread = spread;
+    }
+  }
+  return best.sort((a, b) => a - b);
+}
+
+const trialList = (indices: number[]) =>
+  `${indices.length === 1 ? "trial" : "trials"} ${indices.map((i) => i + 1).join(", ")}`;
+
+// Decide which trials to average and record why each one is in or out
+export function selectTrials(trials: TrialInput[]): TrialSelection {
+  const volumes = trials.map((t) => t.volume);
+  const verdicts: TrialVerdict[] = trials.map((t) =>
+    t.rough
+      ? { used: false, reason: "Rough trial" }
+      : !t.endpoint
+        ? { used: false, reason: "Endpoint not reached" }
+        : { used: true, reason: "" },
+  );
+  let candidates = trials.map((_, i) => i).filter((i) => verdicts[i].used);
+
+  // One outlier at most: either test rejecting it is enough
+  const tested = candidates.map((i) => volumes[i]);
+  const asTrial = (test: OutlierTest | null) =>
+    test && { ...test, suspect: candidates[test.suspect] };
+  const qTest = asTrial(dixonQTest(tested));
+  const grubbs = asTrial(grubbsTest(tested));
+  const rejected = [qTest, grubbs].find((test) => test?.reject);
+  if (rejected) {
+    const index = rejected.suspect;
+    verdicts[index] = {
+      used: false,
+      reason:
+        rejected === qTest
+          ? `Outlier (Q = ${rejected.statistic.toFixed(3)} > ${rejected.critical})`
+          : `Outlier (G = ${rejected.statistic.toFixed(3)} > ${rejected.critical})`,
+    };
+    candidates = candidates.filter((i) => i !== index);
+  }
+
+  const run = concordantRun(candidates, volumes);
+  const concordant = run.length >= 2;
+  if (concordant) {
+    candidates.forEach((i) => {
+      if (!run.includes(i)) {
+        verdicts[i] = {
+          used: false,
+          reason: `Not within ${CONCORDANCE_TOLERANCE.toFixed(2)} mL of the concordant titres`,
+        };
+      }
+    });
+    candidates = run;
+  }
+  candidates.forEach((i) => {
+    verdicts[i] = {
+      used: true,
+      reason: concordant
+        ? `Concordant within ${CONCORDANCE_TOLERANCE.toFixed(2)} mL`
+        : "No concordant titres yet",
+    };
+  });
+
+  const summary =
+    candidates.length === 0
+      ? "No accurate trials to average"
+      : concordant
+        ? `Mean of ${trialList(candidates)}, concordant within ${CONCORDANCE_TOLERANCE.toFixed(2)} mL`
+        : `Mean of ${trialList(candidates)}; no two titres agree within ${CONCORDANCE_TOLERANCE.toFixed(2)} mL - repeat the titration`;
+  return { verdicts, used: candidates, concordant, qTest, grubbs, summary };
+}
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { naohMolarity, standardizationResult } from "./standardization";
+import {
+  formatMeasurement,
+  meanMeasurement,
+  pipetteTolerance,
+  productUncertainty,
+  titreUncertainty,
+  uncertaintyDecimals,
+} from "./uncertainty";
+
+const close = (actual: number, expected: number, within: number) =>
+  assert.ok(
+    Math.abs(actual - expected) <= within,
+    `${actual} is not within ${within} of ${expected}`,
+  );
+
+describe("instrument tolerances", () => {
+  it("combines two burette readings of ±0.05 mL into a titre", () => {
+    close(titreUncertainty(), 0.0707, 0.0001);
+  });
+
+  it("uses the class A pipette tolerances", () => {
+    assert.equal(pipetteTolerance(10), 0.02);
+    assert.equal(pipetteTolerance(25), 0.03);
+    assert.equal(pipetteTolerance(50), 0.05);
+    // Two fills of the 100 mL pipette
+    close(pipetteTolerance(150), 0.113, 0.001);
+  });
+});
+
+describe("uncertainty budget", () => {
+  // 0.5105 g of KHP (204.22 g/mol) neutralizes 25.00 mL of NaOH
+  const mass = { value: 0.5105, uncertainty: 0.0001 };
+  const titre = { value: 25.0, uncertainty: titreUncertainty() };
+  const molarity = naohMolarity(mass.value, titre.value);
+
+  it("adds relative uncertainties in quadrature for a quotient", () => {
+    // √((0.0001/0.5105)² + (0.0707/25.00)²) = 0.283% of 0.09999 M
+    close(molarity, 0.09999, 0.00001);
+    close(productUncertainty(molarity, [mass, titre]), 0.000283, 0.000001);
+  });
+
+  it("is dominated by the burette rather than the balance", () => {
+    const balanceOnly = productUncertainty(molarity, [mass]);
+    const buretteOnly = productUncertainty(molarity, [titre]);
+    assert.ok(buretteOnly > 10 * balanceOnly);
+  });
+
+  it("keeps the instrument tolerance and adds the standard error", () => {
+    // s = 0.0002 M over three trials, so s/√3 = 0.000115 M
+    const mean = meanMeasurement([0.1002, 0.1004, 0.1], 0.0003);
+    close(mean.value, 0.1002, 1e-9);
+    close(mean.uncertainty, 0.000321, 0.000001);
+  });
+
+  it("carries the budget through a standardization", () => {
+    const result = standardizationResult([
+      { mass: 0.5105, titre: 25.0, molarity },
+    ])!;
+    close(result.uncertainty, 0.000283, 0.000001);
+    assert.equal(formatMeasurement(result), "0.1000 ± 0.0003");
+  });
+});
+
+describe("reporting", () => {
+  it("keeps one significant figure, or two starting with a 1", () => {
+    assert.equal(uncertaintyDecimals(0.0003), 4);
+    assert.equal(uncertaintyDecimals(0.03), 2);
+    assert.equal(uncertaintyDecimals(0.14), 2);
+    assert.equal(uncertaintyDecimals(23), -1);
+  });
+
+  it("rounds the value to the last place the uncertainty reaches", () => {
+    assert.equal(
+      formatMeasurement({ value: 0.100234, uncertainty: 0.00014 }),
+      "0.10023 ± 0.00014",
+    );
+    assert.equal(
+      formatMeasurement({ value: 1234.5, uncertainty: 23 }, "mg/L"),
+      "1230 ± 20 mg/L",
+    );
+  });
+});
@@ -0,0 +1,99 @@
+// Measurement uncertainty: the tolerance of each instrument, combined in
+// quadrature through the calculation and reported to the significant
+// figures the uncertainty allows.
+import { READING_RESOLUTION } from "./burette";
+
+export interface Measurement {
+  value: number;
+  uncertainty: number; // standard uncertainty, same units as the value
+}
+
+// Each burette reading is good to the nearest division, and a titre is the
+// difference of two readings
+export const BURETTE_TOLERANCE = READING_RESOLUTION; // mL per reading
+
+// Class A bulb pipettes, ISO 648
+const PIPETTE_TOLERANCES: Array<{ volume: number; tolerance: number }> = [
+  { volume: 1, tolerance: 0.007 },
+  { volume: 2, tolerance: 0.01 },
+  { volume: 5, tolerance: 0.015 },
+  { volume: 10, tolerance: 0.02 },
+  { volume: 20, tolerance: 0.03 },
+  { volume: 25, tolerance: 0.03 },
+  { volume: 50, tolerance: 0.05 },
+  { volume: 100, tolerance: 0.08 },
+];
+
+// Tolerance of the smallest class A pipette that delivers this volume;
+// larger volumes take several fills of the 100 mL pipette
+export function pipetteTolerance(volume: number): number {
+  const pipette = PIPETTE_TOLERANCES.find((p) => p.volume >= volume - 1e-9);
+  if (pipette) return pipette.tolerance;
+  const fills = Math.ceil(volume / 100);
+  return Math.sqrt(fills) * 0.08;
+}
+
+export function titreUncertainty(): number {
+  return Math.SQRT2 * BURETTE_TOLERANCE;
+}
+
+// Sample standard deviation, dividing by n - 1
+export function sampleStandardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const squares = values.reduce((sum, v) => sum + (v - mean) ** 2, 0);
+  return Math.sqrt(squares / (values.length - 1));
+}
+
+// Mean of repeat measurements. The instrument tolerance stays with every
+// repeat; the scatter shrinks with the standard error s/√n.
+export function meanMeasurement(
+  values: number[],
+  instrumentUncertainty: number,
+): Measurement {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const standardError =
+    sampleStandardDeviation(values) / Math.sqrt(values.length);
+  return {
+    value: mean,
+    uncertainty: Math.hypot(instrumentUncertainty, standardError),
+  };
+}
+
+// Uncertainty of a product or quotient: relative uncertainties add in
+// quadrature
+export function productUncertainty(
+  value: number,
+  factors: Measurement[],
+): number {
+  return (
+    Math.abs(value) *
+    Math.hypot(
+      ...factors.map((f) => (f.value !== 0 ? f.uncertainty / f.value : 0)),
+    )
+  );
+}
+
+// Decimal places the uncertainty supports: one significant figure, or two
+// when it starts with a 1 (rounding 0.14 to 0.1 would lose 30% of it).
+// Negative for uncertainties of 10 or more.
+export function uncertaintyDecimals(uncertainty: number): number {
+  if (!(uncertainty > 0)) return 4;
+  const exponent = Math.floor(Math.log10(uncertainty));
+  const leading = Math.floor(uncertainty / Math.pow(10, exponent) + 1e-9);
+  return -exponent + (leading === 1 ? 1 : 0);
+}
+
+function roundTo(value: number, decimals: number): string {
+  if (decimals >= 0) return value.toFixed(decimals);
+  const step = Math.pow(10, -decimals);
+  return (Math.round(value / step) * step).toFixed(0);
+}
+
+// "0.1002 ± 0.0003": the value rounded to the last place its uncertainty
+// reaches
+export function formatMeasurement(m: Measurement, unit = ""): string {
+  const decimals = uncertaintyDecimals(m.uncertainty);
+  const text = `${roundTo(m.value, decimals)} ± ${roundTo(m.uncertainty, decimals)}`;
+  return unit ? `${text} ${unit}` : text;
+}
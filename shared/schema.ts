@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { findCompound } from "./chemistry/compounds";
+import { backTitrationSamples } from "./chemistry/backTitration";
 
 export const experiments = pgTable("experiments", {
   id: serial("id").primaryKey(),
@@ -15,6 +17,7 @@ export const experiments = pgTable("experiments", {
   equipment: jsonb("equipment").$type<string[]>().notNull(),
   stepDetails: jsonb("step_details").$type<ExperimentStep[]>().notNull(),
   safetyInfo: text("safety_info").notNull(),
+  lab: jsonb("lab").$type<LabDefinition>().notNull(),
 });
 
 export const userProgress = pgTable("user_progress", {
@@ -27,15 +30,309 @@ export const userProgress = pgTable("user_progress", {
   lastUpdated: timestamp("last_updated").notNull().defaultNow(),
 });
 
-export type ExperimentStep = {
-  id: number;
-  title: string;
-  description: string;
-  duration: string;
-  temperature?: string;
-  safety?: string;
-  completed: boolean;
-};
+// Unknown sample issued to a student for one attempt at an experiment. The
+// true concentration is the answer key: it stays on the server and is only
+// returned once the student has submitted their result.
+export const unknownSamples = pgTable("unknown_samples", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  experimentId: integer("experiment_id").notNull().references(() => experiments.id),
+  attempt: integer("attempt").notNull(),
+  seed: integer("seed").notNull(),
+  analyteId: text("analyte_id").notNull(), // reagent the sample is made of
+  concentration: real("concentration").notNull(), // mol/L, never sent before submission
+  submittedConcentration: real("submitted_concentration"),
+  submittedAt: timestamp("submitted_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// What a reagent does in the container it was added to
+export const reagentRoleSchema = z.enum([
+  "titrant",
+  "sample",
+  "standard",
+  "indicator",
+]);
+
+// Something the student does that the lab reports as it happens, rather
+// than leaving behind in a container
+export const labMilestoneSchema = z.enum([
+  "titration_started",
+  "endpoint_reached",
+  "result_calculated",
+  "standardized",
+  "pka_estimated",
+]);
+
+// A condition on the state of the lab that completes a step once it holds
+export const stepTriggerSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("equipment_placed"), equipment: z.string() }),
+  z.object({
+    type: z.literal("reagent_added"),
+    container: z.string(),
+    // A specific reagent, or any reagent playing this part
+    reagent: z.string().optional(),
+    role: reagentRoleSchema.optional(),
+  }),
+  // The container's pH passes the threshold in this direction, having
+  // been seen on the other side of it first
+  z.object({
+    type: z.literal("ph_crossed"),
+    container: z.string(),
+    pH: z.number(),
+    direction: z.enum(["rising", "falling"]),
+  }),
+  // The contents stay within the range for this many seconds in a row
+  z.object({
+    type: z.literal("temperature_held"),
+    container: z.string(),
+    min: z.number().optional(), // °C
+    max: z.number().optional(), // °C
+    seconds: z.number().positive(),
+  }),
+  z.object({
+    type: z.literal("trial_recorded"),
+    count: z.number().int().positive().optional(), // trials needed, 1 if unset
+  }),
+  z.object({ type: z.literal("milestone"), milestone: labMilestoneSchema }),
+]);
+
+export const experimentStepSchema = z.object({
+  id: z.number().int().positive(),
+  title: z.string().min(1),
+  description: z.string(),
+  duration: z.string(),
+  temperature: z.string().optional(),
+  safety: z.string().optional(),
+  completed: z.boolean(),
+  // Any one of these completes the step in the lab
+  triggers: z.array(stepTriggerSchema).min(1).optional(),
+});
+
+export type ReagentRole = z.infer<typeof reagentRoleSchema>;
+export type LabMilestone = z.infer<typeof labMilestoneSchema>;
+export type StepTrigger = z.infer<typeof stepTriggerSchema>;
+export type ExperimentStep = z.infer<typeof experimentStepSchema>;
+
+// The virtual lab an experiment runs in: what is on the reagent shelf and
+// the equipment bar, how the lab behaves and the guide it walks students
+// through. The client renders whatever the definition describes.
+
+// A compound in the shared database, which supplies the formula, colour
+// and reference data wherever the compound is shown
+export const compoundIdSchema = z
+  .string()
+  .refine((id) => findCompound(id) !== undefined, {
+    message: "Not in the compound database",
+  });
+
+export const labReagentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1), // bottle label
+  compound: compoundIdSchema,
+  color: z.string().optional(), // in place of the compound's colour
+  concentration: z.string(),
+  volume: z.number().positive(), // mL in the bottle
+  // Placeholder for the student's own server-issued unknown; only shown
+  // once a sample has been issued
+  unknownSample: z.boolean().optional(),
+  // A few drops that only report on the contents: goes into any container
+  // without reacting with them or counting towards the guide
+  indicator: z.boolean().optional(),
+});
+
+export const labEquipmentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  icon: z.string().min(1), // one of the client's equipment icons
+  // °C a bath brings whatever is put in it to
+  temperature: z.number().optional(),
+});
+
+// A guided-mode step, done when the equipment is placed or the chemical is
+// added to the target equipment
+export const guidedStepSchema = z.object({
+  id: z.number().int().positive(),
+  title: z.string().min(1),
+  instruction: z.string(),
+  hint: z.string(), // shown on the workbench while the step is current
+  requiredEquipment: z.string().optional(),
+  requiredChemical: z.string().optional(),
+  targetEquipment: z.string().optional(),
+});
+
+export const labGuideSchema = z.object({
+  intro: z.string(),
+  completed: z.string(), // shown once every step is done
+  steps: z.array(guidedStepSchema).min(1),
+});
+
+export const formulaCompoundSchema = z.object({
+  compound: compoundIdSchema,
+  type: z.enum(["reactant", "product", "catalyst", "solvent"]),
+});
+
+export const formulaReactionSchema = z.object({
+  equation: z.string().min(1),
+  name: z.string().min(1),
+  type: z.string(),
+  conditions: z.array(z.string()).optional(),
+});
+
+export const labDefinitionSchema = z.object({
+  // Titrations get the burette, stopcock and meters; equilibrium labs the
+  // meter bar and temperature readout; syntheses follow their guide
+  kind: z.enum(["titration", "synthesis", "equilibrium"]),
+  reagents: z.array(labReagentSchema).min(1),
+  equipment: z.array(labEquipmentSchema).min(1),
+  guide: labGuideSchema.optional(),
+  // Bench panels beside the workbench
+  panels: z.array(z.enum(["standardization", "back_titration"])).default([]),
+  // Samples the back-titration panel offers, by id, with the mass fraction
+  // of analyte each really holds
+  backTitrationSamples: z
+    .record(z.string(), z.number().positive().max(1))
+    .optional(),
+  // pH the meter bar reports the endpoint as reached at
+  endpointPH: z.number().optional(),
+  formulas: z.object({
+    compounds: z.array(formulaCompoundSchema),
+    reactions: z.array(formulaReactionSchema),
+  }),
+});
+
+// The titration bench is built around these: the burette holds the titrant
+// and the conical flask on the stirrer the sample
+export const TITRATION_EQUIPMENT = [
+  "burette",
+  "conical_flask",
+  "magnetic_stirrer",
+];
+
+export type LabReagent = z.infer<typeof labReagentSchema>;
+export type LabEquipment = z.infer<typeof labEquipmentSchema>;
+export type GuidedStep = z.infer<typeof guidedStepSchema>;
+export type LabGuide = z.infer<typeof labGuideSchema>;
+export type FormulaCompound = z.infer<typeof formulaCompoundSchema>;
+export type FormulaReaction = z.infer<typeof formulaReactionSchema>;
+export type LabDefinition = z.infer<typeof labDefinitionSchema>;
+
+// One record of data/experiments.json
+const experimentFieldsSchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+  category: z.string(),
+  difficulty: z.string(),
+  duration: z.number().int().positive(),
+  steps: z.number().int().positive(),
+  rating: z.number(), // out of 5
+  imageUrl: z.string(),
+  equipment: z.array(z.string()),
+  // The lab completes the steps itself when every one has triggers;
+  // otherwise students advance through them by hand
+  stepDetails: z.array(experimentStepSchema).min(1),
+  safetyInfo: z.string(),
+  lab: labDefinitionSchema,
+});
+
+// Ids have to be unique, and whatever the steps and the guide refer to has
+// to be in the lab. Titrations also need their bench, and work out the
+// chemistry of each reagent from its id, so that has to be the compound's.
+export const experimentRecordSchema = experimentFieldsSchema.superRefine(
+  (record, ctx) => {
+    const flag = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+    const repeated = (ids: (string | number)[]) =>
+      ids.flatMap((id, i) => (ids.indexOf(id) < i ? [i] : []));
+    repeated(record.stepDetails.map((step) => step.id)).forEach((i) =>
+      flag(["stepDetails", i, "id"], "Another step has this id"),
+    );
+    repeated(record.lab.reagents.map((reagent) => reagent.id)).forEach((i) =>
+      flag(["lab", "reagents", i, "id"], "Another reagent has this id"),
+    );
+    repeated(record.lab.equipment.map((eq) => eq.id)).forEach((i) =>
+      flag(["lab", "equipment", i, "id"], "Other equipment has this id"),
+    );
+
+    const equipment = new Set(record.lab.equipment.map((eq) => eq.id));
+    const reagents = new Set(record.lab.reagents.map((reagent) => reagent.id));
+    const checkEquipment = (
+      id: string | undefined,
+      path: (string | number)[],
+    ) => {
+      if (id !== undefined && !equipment.has(id)) {
+        flag(path, `No equipment "${id}" in the lab`);
+      }
+    };
+    const checkReagent = (
+      id: string | undefined,
+      path: (string | number)[],
+    ) => {
+      if (id !== undefined && !reagents.has(id)) {
+        flag(path, `No reagent "${id}" in the lab`);
+      }
+    };
+    record.stepDetails.forEach((step, i) =>
+      step.triggers?.forEach((trigger, j) => {
+        const path = ["stepDetails", i, "triggers", j];
+        if (trigger.type === "equipment_placed") {
+          checkEquipment(trigger.equipment, [...path, "equipment"]);
+        }
+        if ("container" in trigger) {
+          checkEquipment(trigger.container, [...path, "container"]);
+        }
+        if (trigger.type === "reagent_added") {
+          checkReagent(trigger.reagent, [...path, "reagent"]);
+        }
+      }),
+    );
+    record.lab.guide?.steps.forEach((step, i) => {
+      const path = ["lab", "guide", "steps", i];
+      checkEquipment(step.requiredEquipment, [...path, "requiredEquipment"]);
+      checkEquipment(step.targetEquipment, [...path, "targetEquipment"]);
+      checkReagent(step.requiredChemical, [...path, "requiredChemical"]);
+    });
+
+    const samples = Object.keys(record.lab.backTitrationSamples ?? {});
+    samples
+      .filter((id) => !backTitrationSamples[id])
+      .forEach((id) =>
+        flag(
+          ["lab", "backTitrationSamples", id],
+          `No back-titration sample "${id}"`,
+        ),
+      );
+    if (record.lab.panels.includes("back_titration") && samples.length === 0) {
+      flag(
+        ["lab", "backTitrationSamples"],
+        "The back-titration panel needs at least one sample",
+      );
+    }
+
+    if (record.lab.kind === "titration") {
+      TITRATION_EQUIPMENT.filter((id) => !equipment.has(id)).forEach((id) =>
+        flag(["lab", "equipment"], `A titration lab needs equipment "${id}"`),
+      );
+      record.lab.reagents.forEach((reagent, i) => {
+        // The student's unknown stands in for a compound of hidden strength
+        if (!reagent.unknownSample && reagent.id !== reagent.compound) {
+          flag(
+            ["lab", "reagents", i, "id"],
+            `Titration reagents use their compound's id, "${reagent.compound}"`,
+          );
+        }
+      });
+    }
+  },
+);
+
+export type ExperimentRecord = z.infer<typeof experimentRecordSchema>;
+
+// Saved experiments keep their id, so that progress, unknown samples and
+// links stay attached to the same experiment across restarts
+export const storedExperimentIdSchema = z.object({
+  id: z.number().int().positive(),
+});
 
 export const insertExperimentSchema = createInsertSchema(experiments).omit({
   id: true,
@@ -46,10 +343,56 @@ export const insertUserProgressSchema = createInsertSchema(userProgress).omit({
   lastUpdated: true,
 });
 
+export const insertUnknownSampleSchema = createInsertSchema(unknownSamples).omit({
+  id: true,
+  submittedConcentration: true,
+  submittedAt: true,
+  createdAt: true,
+});
+
+export const requestUnknownSampleSchema = z.object({
+  userId: z.string().min(1),
+  experimentId: z.number().int().positive(),
+});
+
+export const submitUnknownSampleSchema = z.object({
+  userId: z.string().min(1), // must be the student the sample was issued to
+  concentration: z.number().positive(),
+});
+
 export type InsertExperiment = z.infer<typeof insertExperimentSchema>;
 export type Experiment = typeof experiments.$inferSelect;
 export type InsertUserProgress = z.infer<typeof insertUserProgressSchema>;
 export type UserProgress = typeof userProgress.$inferSelect;
+export type InsertUnknownSample = z.infer<typeof insertUnknownSampleSchema>;
+export type UnknownSample = typeof unknownSamples.$inferSelect;
+
+// Ratings are kept in tenths so that the column can stay an integer
+export const fromExperimentRecord = (
+  record: ExperimentRecord,
+): InsertExperiment => ({
+  ...record,
+  rating: Math.round(record.rating * 10),
+});
+
+export const toExperimentRecord = ({
+  id,
+  ...experiment
+}: Experiment): ExperimentRecord => ({
+  ...experiment,
+  rating: experiment.rating / 10,
+});
+
+// What the client sees of a sample: the answer key and the seed it was
+// generated from are left out until the result is submitted
+export type UnknownSampleView = Omit<UnknownSample, "seed" | "concentration">;
+
+// Returned on submission, with the answer revealed
+export type GradedUnknownSample = UnknownSampleView & {
+  concentration: number;
+  relativeError: number; // %
+  accepted: boolean;
+};
 
 // Users table (keeping existing structure)
 export const users = pgTable("users", {
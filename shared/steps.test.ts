@@ -0,0 +1,267 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ExperimentStep, StepTrigger } from "./schema";
+import {
+  awaitsClock,
+  evaluateSteps,
+  tracksSteps,
+  watchedForPH,
+  type ContainerSnapshot,
+  type LabSnapshot,
+} from "./steps";
+
+const step = (id: number, ...triggers: StepTrigger[]): ExperimentStep => ({
+  id,
+  title: `Step ${id}`,
+  description: "",
+  duration: "5 minutes",
+  completed: false,
+  triggers,
+});
+
+const flask = (
+  contents: Partial<ContainerSnapshot> = {},
+): ContainerSnapshot => ({
+  reagents: [{ id: "water" }],
+  pH: null,
+  temperature: 25,
+  ...contents,
+});
+
+const snapshot = (lab: Partial<LabSnapshot> = {}): LabSnapshot => ({
+  time: 0,
+  equipment: [],
+  containers: {},
+  trials: 0,
+  milestones: [],
+  ...lab,
+});
+
+// Ids of the steps the snapshot completes, ignoring memory
+const completes = (steps: ExperimentStep[], lab: LabSnapshot) =>
+  evaluateSteps(steps, new Set(), lab, {}).completed.map((s) => s.id);
+
+describe("evaluateSteps", () => {
+  it("completes a step once any of its triggers holds", () => {
+    const steps = [
+      step(
+        1,
+        { type: "equipment_placed", equipment: "burette" },
+        { type: "milestone", milestone: "titration_started" },
+      ),
+    ];
+    assert.deepEqual(completes(steps, snapshot()), []);
+    assert.deepEqual(
+      completes(steps, snapshot({ milestones: ["titration_started"] })),
+      [1],
+    );
+    assert.deepEqual(
+      completes(steps, snapshot({ equipment: ["burette"] })),
+      [1],
+    );
+  });
+
+  it("skips steps that are already done", () => {
+    const steps = [step(1, { type: "trial_recorded" })];
+    const { completed } = evaluateSteps(
+      steps,
+      new Set([1]),
+      snapshot({ trials: 1 }),
+      {},
+    );
+    assert.deepEqual(completed, []);
+  });
+
+  it("never completes a step without triggers", () => {
+    assert.deepEqual(completes([step(1)], snapshot({ trials: 3 })), []);
+  });
+
+  it("matches added reagents by id or by role", () => {
+    const byId = step(1, {
+      type: "reagent_added",
+      container: "conical_flask",
+      reagent: "khp",
+    });
+    const byRole = step(2, {
+      type: "reagent_added",
+      container: "conical_flask",
+      role: "indicator",
+    });
+    const lab = snapshot({
+      containers: {
+        conical_flask: flask({
+          reagents: [{ id: "phenol", role: "indicator" }],
+        }),
+      },
+    });
+    assert.deepEqual(completes([byId, byRole], lab), [2]);
+  });
+
+  it("counts recorded trials", () => {
+    const steps = [step(1, { type: "trial_recorded", count: 3 })];
+    assert.deepEqual(completes(steps, snapshot({ trials: 2 })), []);
+    assert.deepEqual(completes(steps, snapshot({ trials: 3 })), [1]);
+  });
+
+  describe("ph_crossed", () => {
+    const rising = step(1, {
+      type: "ph_crossed",
+      container: "conical_flask",
+      pH: 9.5,
+      direction: "rising",
+    });
+    const falling = step(2, {
+      type: "ph_crossed",
+      container: "conical_flask",
+      pH: 4,
+      direction: "falling",
+    });
+    const at = (pH: number | null) =>
+      snapshot({ containers: { conical_flask: flask({ pH }) } });
+
+    it("waits for an unmeasured or empty container", () => {
+      assert.deepEqual(completes([rising, falling], at(null)), []);
+      assert.deepEqual(completes([rising, falling], snapshot()), []);
+    });
+
+    // Whether each reading in turn completes the step, carrying the
+    // memory from one to the next
+    const read = (watched: ExperimentStep, ...readings: number[]) => {
+      let memory = {};
+      return readings.map((pH) => {
+        const result = evaluateSteps([watched], new Set(), at(pH), memory);
+        memory = result.memory;
+        return result.completed.length > 0;
+      });
+    };
+
+    it("fires when a rising pH reaches the threshold", () => {
+      assert.deepEqual(read(rising, 8, 9, 9.5), [false, false, true]);
+      assert.deepEqual(read(rising, 9, 11), [false, true]);
+    });
+
+    it("fires when a falling pH reaches the threshold", () => {
+      assert.deepEqual(read(falling, 7, 5, 4), [false, false, true]);
+      assert.deepEqual(read(falling, 5, 2), [false, true]);
+    });
+
+    it("ignores a flask that starts past the threshold", () => {
+      assert.deepEqual(read(rising, 10, 10.5, 9.8), [false, false, false]);
+      assert.deepEqual(read(falling, 2, 3, 1), [false, false, false]);
+    });
+
+    it("fires again only after going back across", () => {
+      assert.deepEqual(read(rising, 10, 9, 10), [false, false, true]);
+    });
+
+    it("honours the direction", () => {
+      assert.deepEqual(read(rising, 11, 9, 7), [false, false, false]);
+      assert.deepEqual(read(falling, 2, 5, 10), [false, false, false]);
+    });
+
+    it("forgets the last reading once the container is empty", () => {
+      let { memory } = evaluateSteps([rising], new Set(), at(9), {});
+      ({ memory } = evaluateSteps([rising], new Set(), snapshot(), memory));
+      assert.deepEqual(memory, {});
+      const { completed } = evaluateSteps([rising], new Set(), at(10), memory);
+      assert.deepEqual(completed, []);
+    });
+  });
+
+  describe("temperature_held", () => {
+    const held = step(1, {
+      type: "temperature_held",
+      container: "beaker",
+      min: 60,
+      max: 70,
+      seconds: 30,
+    });
+    const at = (time: number, temperature: number) =>
+      snapshot({ time, containers: { beaker: flask({ temperature }) } });
+
+    it("completes once the range has held long enough", () => {
+      let { completed, memory } = evaluateSteps(
+        [held],
+        new Set(),
+        at(0, 65),
+        {},
+      );
+      assert.deepEqual(completed, []);
+      ({ completed, memory } = evaluateSteps(
+        [held],
+        new Set(),
+        at(29_000, 68),
+        memory,
+      ));
+      assert.deepEqual(completed, []);
+      ({ completed } = evaluateSteps(
+        [held],
+        new Set(),
+        at(30_000, 62),
+        memory,
+      ));
+      assert.deepEqual(
+        completed.map((s) => s.id),
+        [1],
+      );
+    });
+
+    it("starts over when the temperature leaves the range", () => {
+      let { memory } = evaluateSteps([held], new Set(), at(0, 65), {});
+      ({ memory } = evaluateSteps([held], new Set(), at(10_000, 75), memory));
+      assert.deepEqual(memory, {});
+      ({ memory } = evaluateSteps([held], new Set(), at(20_000, 65), memory));
+      const { completed } = evaluateSteps(
+        [held],
+        new Set(),
+        at(40_000, 65),
+        memory,
+      );
+      assert.deepEqual(completed, []);
+    });
+
+    it("ignores an empty container", () => {
+      const lab = snapshot({
+        time: 60_000,
+        containers: { beaker: flask({ reagents: [], temperature: 65 }) },
+      });
+      assert.deepEqual(evaluateSteps([held], new Set(), lab, {}).memory, {});
+    });
+  });
+});
+
+describe("step helpers", () => {
+  const placed = step(1, { type: "equipment_placed", equipment: "burette" });
+  const warmed = step(2, {
+    type: "temperature_held",
+    container: "beaker",
+    min: 60,
+    seconds: 30,
+  });
+  const buffered = step(3, {
+    type: "ph_crossed",
+    container: "conical_flask",
+    pH: 9.5,
+    direction: "rising",
+  });
+
+  it("knows when steps wait on the clock", () => {
+    assert.equal(awaitsClock([placed, buffered]), false);
+    assert.equal(awaitsClock([placed, warmed]), true);
+  });
+
+  it("tracks steps only when every step has triggers", () => {
+    assert.equal(tracksSteps([]), false);
+    assert.equal(tracksSteps([placed, warmed]), true);
+    assert.equal(
+      tracksSteps([placed, { ...warmed, triggers: undefined }]),
+      false,
+    );
+  });
+
+  it("lists the containers whose pH is watched", () => {
+    assert.deepEqual(Array.from(watchedForPH([placed, buffered])), [
+      "conical_flask",
+    ]);
+  });
+});
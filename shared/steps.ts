@@ -0,0 +1,131 @@
+// Step completion from declarative triggers. The lab describes itself in a
+// snapshot whenever it changes, and a step is done once any one of its
+// triggers holds. Holding a temperature or crossing a pH depends on what
+// came before, so the engine carries a little memory from one snapshot to
+// the next.
+import type {
+  ExperimentStep,
+  LabMilestone,
+  ReagentRole,
+  StepTrigger,
+} from "./schema";
+
+export interface ContainerSnapshot {
+  reagents: Array<{ id: string; role?: ReagentRole }>;
+  pH: number | null; // null when not measured
+  temperature: number; // °C
+}
+
+export interface LabSnapshot {
+  time: number; // ms
+  equipment: string[]; // placed on the workbench
+  containers: Record<string, ContainerSnapshot>;
+  trials: number; // recorded in the results panel
+  milestones: LabMilestone[];
+}
+
+// Per step and trigger, when a temperature came into range or the last pH
+// read
+export type TriggerMemory = Record<string, number>;
+
+const memoryKey = (step: number, trigger: number) => `${step}:${trigger}`;
+
+// Whether the trigger holds for this snapshot, and what to remember of it
+function checkTrigger(
+  trigger: StepTrigger,
+  lab: LabSnapshot,
+  remembered: number | undefined,
+): { met: boolean; remember?: number } {
+  switch (trigger.type) {
+    case "equipment_placed":
+      return { met: lab.equipment.includes(trigger.equipment) };
+    case "reagent_added": {
+      const reagents = lab.containers[trigger.container]?.reagents ?? [];
+      return {
+        met: reagents.some(
+          (r) =>
+            (trigger.reagent === undefined || r.id === trigger.reagent) &&
+            (trigger.role === undefined || r.role === trigger.role),
+        ),
+      };
+    }
+    case "ph_crossed": {
+      const pH = lab.containers[trigger.container]?.pH ?? null;
+      if (pH === null) return { met: false };
+      const past = (reading: number) =>
+        trigger.direction === "rising"
+          ? reading >= trigger.pH
+          : reading <= trigger.pH;
+      // Only the move across the threshold counts, so a first reading
+      // already past it does not
+      return {
+        met: remembered !== undefined && !past(remembered) && past(pH),
+        remember: pH,
+      };
+    }
+    case "temperature_held": {
+      const container = lab.containers[trigger.container];
+      const held =
+        container !== undefined &&
+        container.reagents.length > 0 &&
+        (trigger.min === undefined || container.temperature >= trigger.min) &&
+        (trigger.max === undefined || container.temperature <= trigger.max);
+      if (!held) return { met: false };
+      const start = remembered ?? lab.time;
+      return {
+        met: lab.time - start >= trigger.seconds * 1000,
+        remember: start,
+      };
+    }
+    case "trial_recorded":
+      return { met: lab.trials >= (trigger.count ?? 1) };
+    case "milestone":
+      return { met: lab.milestones.includes(trigger.milestone) };
+  }
+}
+
+// Steps not yet done that this snapshot completes, and the memory to
+// check the next snapshot with
+export function evaluateSteps(
+  steps: ExperimentStep[],
+  done: ReadonlySet<number>,
+  lab: LabSnapshot,
+  memory: TriggerMemory,
+): { completed: ExperimentStep[]; memory: TriggerMemory } {
+  const completed: ExperimentStep[] = [];
+  const next: TriggerMemory = {};
+  steps
+    .filter((step) => !done.has(step.id))
+    .forEach((step) => {
+      let met = false;
+      step.triggers?.forEach((trigger, i) => {
+        const key = memoryKey(step.id, i);
+        const result = checkTrigger(trigger, lab, memory[key]);
+        if (result.remember !== undefined) next[key] = result.remember;
+        met = met || result.met;
+      });
+      if (met) completed.push(step);
+    });
+  return { completed, memory: next };
+}
+
+// Whether any of the steps waits on the clock as well as on the lab
+export const awaitsClock = (steps: ExperimentStep[]) =>
+  steps.some((step) =>
+    step.triggers?.some((trigger) => trigger.type === "temperature_held"),
+  );
+
+// Whether the lab completes every step itself
+export const tracksSteps = (steps: ExperimentStep[]) =>
+  steps.length > 0 && steps.every((step) => step.triggers !== undefined);
+
+// Containers whose pH some step watches, so the others need not be solved
+export const watchedForPH = (steps: ExperimentStep[]) =>
+  new Set(
+    steps.flatMap(
+      (step) =>
+        step.triggers?.flatMap((trigger) =>
+          trigger.type === "ph_crossed" ? [trigger.container] : [],
+        ) ?? [],
+    ),
+  );